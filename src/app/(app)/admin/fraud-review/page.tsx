@@ -0,0 +1,23 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+import { AuthLoader } from '@/components/ui/animated-loader';
+
+const FraudReviewQueue = dynamic(() => import('@/components/admin/FraudReviewQueue'), {
+  loading: () => <AuthLoader size="sm" />,
+  ssr: false
+});
+
+export default function FraudReviewPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium">Fraud Review</h3>
+        <p className="text-sm text-muted-foreground">
+          Work through flagged deals and marketplace listings. Confirmed fraud updates seller reputation and phishing patterns.
+        </p>
+      </div>
+      <FraudReviewQueue />
+    </div>
+  );
+}
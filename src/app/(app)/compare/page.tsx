@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Search, Filter, Grid, List, TrendingUp } from 'lucide-react';
+import { Search, Filter, Grid, List, TrendingUp, Clock } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,6 +11,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { ComparisonResult, ComparisonCategory, SearchSuggestion, ComparisonFilters as FiltersType } from '@/types/comparison';
 import { comparisonService } from '@/services/comparison';
+import { rankByLandedCost } from '@/lib/price-comparison/landed-cost';
+import { useFeatureFlag } from '@/hooks/useFeatureFlag';
 import { 
   ProductGrid, 
   ProductList, 
@@ -28,6 +31,8 @@ export default function ComparePage() {
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [showFilters, setShowFilters] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [filters, setFilters] = useState<FiltersType>({});
+  const { value: defaultSort } = useFeatureFlag('ComparisonDefaultSort');
 
   useEffect(() => {
     loadCategories();
@@ -78,6 +83,16 @@ export default function ComparePage() {
     handleSearch(suggestion.query);
   };
 
+  const costOptions = { paymentMethod: filters.paymentMethod, waitingCostPerDay: filters.waitingCostPerDay };
+
+  const sortBy = filters.sortBy ?? defaultSort;
+
+  // The true cost depends on the user's payment method and time, so it is ranked here
+  const displayedProducts = comparisonResult && sortBy === 'landedCost'
+    ? rankByLandedCost(comparisonResult.products, costOptions).map(cost => cost.product)
+    : comparisonResult?.products ?? [];
+  if (sortBy === 'landedCost' && filters.sortOrder === 'desc') displayedProducts.reverse();
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch(searchQuery, selectedCategory);
@@ -137,8 +152,11 @@ export default function ComparePage() {
       {/* Main Content */}
       {comparisonResult ? (
         <div className="space-y-6">
-          {/* Comparison Stats */}
-          <ComparisonStats products={comparisonResult.products} />
+          {/* Comparison Stats, for the top product's offers so every price is for the same item */}
+          <ComparisonStats
+            products={comparisonResult.canonicalProducts[0]?.offers.map(offer => offer.product) ?? comparisonResult.products}
+            costOptions={costOptions}
+          />
 
           {/* Controls */}
           <div className="flex items-center justify-between gap-4">
@@ -149,6 +167,18 @@ export default function ComparePage() {
               {comparisonResult.category && comparisonResult.category !== 'All' && (
                 <Badge variant="secondary">{comparisonResult.category}</Badge>
               )}
+              {comparisonResult.partial && (
+                <Badge variant="outline" className="text-amber-600 border-amber-300">
+                  No response from {comparisonResult.vendors.filter(v => v.status !== 'ok').map(v => v.vendor).join(', ')}
+                </Badge>
+              )}
+              {comparisonResult.cache.hit && (
+                <Badge variant="outline" className="text-muted-foreground">
+                  <Clock className="h-3 w-3 mr-1" />
+                  Prices from {formatDistanceToNow(new Date(comparisonResult.cache.asOf))} ago
+                  {comparisonResult.cache.stale && ', refreshing'}
+                </Badge>
+              )}
             </div>
             
             <div className="flex items-center gap-2">
@@ -186,6 +216,7 @@ export default function ComparePage() {
               onFiltersChange={(filters: FiltersType) => {
                 // Apply filters to current results
                 console.log('Applying filters:', filters);
+                setFilters(filters);
               }}
             />
           )}
@@ -193,10 +224,10 @@ export default function ComparePage() {
           {/* Products Display */}
           <Tabs value={viewMode} onValueChange={(value) => setViewMode(value as 'grid' | 'list')}>
             <TabsContent value="grid">
-              <ProductGrid products={comparisonResult.products} />
+              <ProductGrid products={displayedProducts} />
             </TabsContent>
             <TabsContent value="list">
-              <ProductList products={comparisonResult.products} />
+              <ProductList products={displayedProducts} />
             </TabsContent>
           </Tabs>
         </div>
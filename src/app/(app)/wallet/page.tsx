@@ -3,13 +3,16 @@
 
 import { useState, useEffect, Suspense } from 'react';
 import dynamic from 'next/dynamic';
-import type { UserCard, UserRewardGoal, LoyaltyProgram, UserPointsState } from '@/lib/types';
+import type { UserCard, UserRewardGoal, LoyaltyProgram, UserPointsState, RankedOffer } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Loader2, Target, Award as LoyaltyIcon } from 'lucide-react';
-import { handleAddUserRewardGoal, handleGetUserPointsState, handleUpdateUserRewardGoalActivity, handleRemoveUserRewardGoal } from '@/app/actions';
+import { handleAddUserRewardGoal, handleGetUserPointsState, handleGetWishlistOffers, handleUpdateUserRewardGoalActivity, handleRemoveUserRewardGoal } from '@/app/actions';
+import type { CardVault } from '@/types/card-vault';
+import { cardsApi } from '@/lib/api/cards';
 import { useToast } from '@/hooks/use-toast';
 import { AuthLoader } from '@/components/ui/animated-loader';
 import { useLazyLoading } from '@/hooks/useLazyLoading';
+import { mockWishlist } from '@/lib/mock-data/wishlist';
 import {
   Dialog,
   DialogContent,
@@ -27,6 +30,21 @@ const CardVaultManager = dynamic(() => import('@/components/wallet/CardVaultMana
   ssr: false
 });
 
+const CardVaultUnlock = dynamic(() => import('@/components/wallet/CardVaultUnlock'), {
+  loading: () => <AuthLoader size="sm" />,
+  ssr: false
+});
+
+const OfferActivationLog = dynamic(() => import('@/components/wallet/OfferActivationLog'), {
+  loading: () => <AuthLoader size="sm" />,
+  ssr: false
+});
+
+const AutoEnrollRuleEditor = dynamic(() => import('@/components/wallet/AutoEnrollRuleEditor'), {
+  loading: () => <AuthLoader size="sm" />,
+  ssr: false
+});
+
 const RewardGoalsList = dynamic(() => import('@/components/wallet/RewardGoalsList'), {
   loading: () => <AuthLoader size="sm" />,
   ssr: false
@@ -42,6 +60,11 @@ const LoyaltyProgramList = dynamic(() => import('@/components/wallet/LoyaltyProg
   ssr: false
 });
 
+const PointsExpiryPlanner = dynamic(() => import('@/components/wallet/PointsExpiryPlanner'), {
+  loading: () => <AuthLoader size="sm" />,
+  ssr: false
+});
+
 const RewardProgressChart = dynamic(() => import('@/components/wallet/RewardProgressChart'), {
   loading: () => <AuthLoader size="sm" />,
   ssr: false
@@ -74,6 +97,8 @@ export default function WalletPage() {
   const [isCardFormOpen, setIsCardFormOpen] = useState(false);
   const [isGoalFormOpen, setIsGoalFormOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('wallet');
+  const [vaultCards, setVaultCards] = useState<CardVault[]>([]);
+  const [wishlistOffers, setWishlistOffers] = useState<RankedOffer[]>([]);
   
   // Internal wallet state
   const [isAddMoneyModalOpen, setIsAddMoneyModalOpen] = useState(false);
@@ -107,6 +132,23 @@ export default function WalletPage() {
     fetchData();
   }, []);
 
+  // Points-burn inputs for the expiry planner, loaded once; it still plans without them
+  const showLoyalty = activeTab === 'loyalty' || shouldLoadLoyalty;
+  const [plannerInputsRequested, setPlannerInputsRequested] = useState(false);
+
+  useEffect(() => {
+    if (!showLoyalty || plannerInputsRequested) return;
+    setPlannerInputsRequested(true);
+
+    cardsApi.getUserCards()
+      .then(setVaultCards)
+      .catch(error => console.error('Error loading card vault for expiry planner:', error));
+
+    handleGetWishlistOffers(mockWishlist).then(result => {
+      if (result.data) setWishlistOffers(result.data);
+    });
+  }, [showLoyalty, plannerInputsRequested]);
+
 
   const handleAddGoal = async (goalData: Omit<UserRewardGoal, 'id' | 'userId'>) => {
     const formData = new FormData();
@@ -280,7 +322,10 @@ export default function WalletPage() {
         
         <TabsContent value="cards" className="mt-4">
           <Suspense fallback={<AuthLoader size="md" />}>
+            <CardVaultUnlock />
             <CardVaultManager />
+            <AutoEnrollRuleEditor />
+            <OfferActivationLog />
           </Suspense>
         </TabsContent>
 
@@ -337,6 +382,13 @@ export default function WalletPage() {
         <TabsContent value="loyalty" className="mt-4">
           {(activeTab === 'loyalty' || shouldLoadLoyalty) && (
             <Suspense fallback={<AuthLoader size="md" />}>
+              <PointsExpiryPlanner
+                cards={userPointsState.cards}
+                loyaltyPrograms={userPointsState.loyaltyPrograms}
+                vaultCards={vaultCards}
+                wishlist={mockWishlist}
+                rankedOffers={wishlistOffers}
+              />
               <Card className="shadow-lg">
                 <CardHeader>
                   <CardTitle className="text-xl">Connected Loyalty Programs</CardTitle>
@@ -4,45 +4,11 @@ import { useState } from 'react';
 import WishlistItem from '@/components/wishlist/WishlistItem';
 import { SearchX } from 'lucide-react';
 import { Input } from '@/components/ui/input';
-
-interface Item {
-  id: string;
-  imageUrl?: string;
-  name: string;
-  price: string;
-  platform: string;
-  productUrl: string;
-}
-
-const initialMockWishlist: Item[] = [
-  { 
-    id: '1', 
-    name: 'Wireless Earbuds Pro', 
-    price: '₹2,499', 
-    platform: 'Flipkart', 
-    productUrl: 'https://www.flipkart.com/search?q=wireless+earbuds+pro', 
-    imageUrl: 'https://picsum.photos/seed/earbuds/100/100' 
-  },
-  { 
-    id: '2', 
-    name: 'Smartwatch Series 7', 
-    price: '₹15,999', 
-    platform: 'Amazon.in', 
-    productUrl: 'https://www.amazon.in/s?k=smartwatch+series+7', 
-    imageUrl: 'https://picsum.photos/seed/watch/100/100' 
-  },
-  { 
-    id: '3', 
-    name: 'Running Shoes XYZ', 
-    price: '₹3,200', 
-    platform: 'Myntra', 
-    productUrl: 'https://www.myntra.com/running-shoes', 
-    imageUrl: 'https://picsum.photos/seed/shoes/100/100' 
-  },
-];
+import { mockWishlist } from '@/lib/mock-data/wishlist';
+import type { WishlistProduct } from '@/lib/types';
 
 export default function WishlistPage() {
-  const [wishlistItems, setWishlistItems] = useState<Item[]>(initialMockWishlist);
+  const [wishlistItems, setWishlistItems] = useState<WishlistProduct[]>(mockWishlist);
   const [searchTerm, setSearchTerm] = useState('');
 
   const handleRemoveItem = (id: string) => {
@@ -73,6 +39,8 @@ export default function WishlistPage() {
             <WishlistItem
               key={item.id}
               {...item}
+              price={`₹${item.price.toLocaleString('en-IN')}`}
+              productUrl={item.productUrl || '#'}
               onRemove={handleRemoveItem}
             />
           ))}
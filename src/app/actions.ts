@@ -4,18 +4,19 @@ import { askDealBot, type AskDealBotInput, type AskDealBotOutput } from '@/ai/fl
 import { explainDealRank } from '@/ai/flows/explain-deal-rank-flow';
 import { ExplainDealRankInputSchema, type ExplainDealRankInput, type ExplainDealRankOutput } from '@/ai/flows/explain-deal-rank-flow.schemas';
 import { z } from 'zod';
-import type { Offer, RankedOffer, UserCard, UserPointsState, LoyaltyProgram, UserRewardGoal } from '@/lib/types';
-import { calculateRankedOffers } from '@/lib/offer-ranking';
+import type { Offer, RankedOffer, UserCard, UserPointsState, LoyaltyProgram, UserRewardGoal, WishlistProduct } from '@/lib/types';
+import { calculateRankedOffers, offerFromProduct } from '@/lib/offer-ranking';
+import { searchVendors } from '@/lib/vendors/search';
 import { fetchUserCards, fetchLoyaltyPrograms, fetchUserRewardGoals } from '@/lib/api';
 
 // Mock database - in a real app, this would be Firestore or another DB
 let mockUserCards: UserCard[] = [
-  { id: 'card1', userId: 'mockUserId', name: 'HDFC Infinia', bank: 'HDFC', cardType: 'Infinia', last4Digits: '1234', rewards_per_rupee: 0.165, reward_value_inr: 1, current_points: 25000, next_reward_threshold: 30000, next_reward_value: 2500 }, // Approx 3.3% * 5 RP/100Rs, 1RP=1Rs on smartbuy for some cats
+  { id: 'card1', userId: 'mockUserId', name: 'HDFC Infinia', bank: 'HDFC', cardType: 'Infinia', last4Digits: '1234', rewards_per_rupee: 0.165, reward_value_inr: 1, current_points: 25000, next_reward_threshold: 30000, next_reward_value: 2500, expiring_points: 4000, points_expiry_date: new Date(Date.now() + 20 * 24 * 60 * 60 * 1000).toISOString() }, // Approx 3.3% * 5 RP/100Rs, 1RP=1Rs on smartbuy for some cats
   { id: 'card2', userId: 'mockUserId', name: 'Axis Magnus', bank: 'Axis', cardType: 'Magnus', last4Digits: '5678', rewards_per_rupee: 0.048 , reward_value_inr: 1, current_points: 120000, next_reward_threshold: 100000, next_reward_value: 10000 }, // Approx 12 points per 200, 1 point = 0.2 INR (simplified to 4.8% value)
   { id: 'card3', userId: 'mockUserId', name: 'SBI Cashback', bank: 'SBI', cardType: 'Cashback', last4Digits: '9012', rewards_per_rupee: 0.05, reward_value_inr: 1 }, // Direct 5% cashback
 ];
 const mockLoyaltyPrograms: LoyaltyProgram[] = [
-    { id: 'lp1', userId: 'mockUserId', programName: 'Flipkart SuperCoins', currentPoints: 350, pointValueInRupees: 1},
+    { id: 'lp1', userId: 'mockUserId', programName: 'Flipkart SuperCoins', currentPoints: 350, pointValueInRupees: 1, expiringPoints: 200, pointsExpiryDate: new Date(Date.now() + 6 * 24 * 60 * 60 * 1000).toISOString() },
     { id: 'lp2', userId: 'mockUserId', programName: 'Amazon Pay Rewards', currentPoints: 150, pointValueInRupees: 1},
 ];
 let mockUserRewardGoals: UserRewardGoal[] = [
@@ -72,6 +73,34 @@ export async function handleGetRankedOffers(
   }
 }
 
+const WISHLIST_OFFERS_PER_ITEM = 3;
+
+/**
+ * Current vendor listings for wishlist items, ranked for the user; points-burn candidates
+ */
+export async function handleGetWishlistOffers(
+  wishlist: WishlistProduct[]
+): Promise<{ data: RankedOffer[] | null; error: string | null }> {
+  try {
+    const { data: userPointsState, error } = await handleGetUserPointsState();
+    if (!userPointsState) return { data: null, error };
+
+    const listings = await Promise.all(wishlist.map(async item => {
+      const { products } = await searchVendors(item.name, { limit: 10 });
+      return products
+        .filter(p => p.inStock)
+        .sort((a, b) => a.price - b.price)
+        .slice(0, WISHLIST_OFFERS_PER_ITEM);
+    }));
+
+    return { data: calculateRankedOffers(listings.flat().map(offerFromProduct), userPointsState), error: null };
+  } catch (e) {
+    console.error("Error fetching wishlist offers:", e);
+    const errorMessage = e instanceof Error ? e.message : "Failed to fetch wishlist offers.";
+    return { data: null, error: errorMessage };
+  }
+}
+
 export async function handleGetUserPointsState(): Promise<{ data: UserPointsState | null; error: string | null }> {
     try {
         const userPointsState: UserPointsState = {
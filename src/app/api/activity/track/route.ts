@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { UserActivity } from '@/types/recommendations';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
 
 // In-memory storage for demo purposes
 // In production, this would be stored in a database
@@ -7,6 +9,9 @@ const activityStore = new Map<string, UserActivity[]>();
 
 export async function POST(request: NextRequest) {
   try {
+    const limited = await enforceRateLimit(request, 'activity-track', getRequestUserId(request));
+    if (limited) return limited;
+
     const body = await request.json();
     const { userId, productId, action, metadata, timestamp } = body;
 
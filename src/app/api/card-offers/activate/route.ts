@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { activationLog } from '@/lib/card-linked/activation-log';
+import { getRequestUserId } from '@/lib/server/request-user';
+import {
+  getActivationKey,
+  type ActivationResponse,
+  type ActivationTrigger
+} from '@/lib/card-linked/types';
+
+interface IssuerResult {
+  ok: boolean;
+  activationId?: string;
+  httpStatus?: number;
+  error?: string;
+  retryable: boolean;
+}
+
+/**
+ * Enroll the offer with the card issuer's offer platform.
+ * Without a configured issuer endpoint, offers are enrolled locally for demo use.
+ */
+async function activateWithIssuer(offerId: string, cardId: string, idempotencyKey: string): Promise<IssuerResult> {
+  const issuerUrl = process.env.CARD_OFFERS_API_URL;
+  if (!issuerUrl) {
+    return { ok: true, activationId: `act-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`, retryable: false };
+  }
+
+  try {
+    const response = await fetch(`${issuerUrl}/offers/${encodeURIComponent(offerId)}/activate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': idempotencyKey
+      },
+      body: JSON.stringify({ cardId }),
+      signal: AbortSignal.timeout(10000)
+    });
+
+    if (response.ok) {
+      const data = await response.json().catch(() => ({}));
+      return { ok: true, activationId: data.activationId, httpStatus: response.status, retryable: false };
+    }
+
+    const detail = await response.text().catch(() => '');
+    return {
+      ok: false,
+      httpStatus: response.status,
+      error: detail || `Issuer returned HTTP ${response.status}`,
+      // Rate limits and issuer outages clear up; rejected offers don't
+      retryable: response.status === 429 || response.status >= 500
+    };
+  } catch (error) {
+    return { ok: false, error: `Issuer unreachable: ${(error as Error).message}`, retryable: true };
+  }
+}
+
+function parseTrigger(value: unknown): ActivationTrigger {
+  if (typeof value !== 'object' || value === null) return { type: 'manual' };
+
+  const { type, ruleId, ruleName } = value as Record<string, unknown>;
+  if (type === 'auto-enroll' && typeof ruleId === 'string') {
+    return { type: 'auto-enroll', ruleId, ruleName: typeof ruleName === 'string' && ruleName ? ruleName : ruleId };
+  }
+  return { type: 'manual' };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { offerId, cardId, trigger } = await request.json();
+    if (!offerId || !cardId) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const key = request.headers.get('idempotency-key') || getActivationKey(offerId, cardId);
+    const claim = await activationLog.begin(userId, key, { offerId, cardId });
+
+    if (claim.state === 'succeeded') {
+      const body: ActivationResponse = { success: true, record: claim.record, replayed: true, retryable: false };
+      return NextResponse.json(body);
+    }
+
+    if (claim.state === 'in-progress') {
+      const body: ActivationResponse = {
+        success: false,
+        record: claim.record,
+        replayed: false,
+        retryable: true,
+        error: 'Activation already in progress'
+      };
+      return NextResponse.json(body, { status: 409, headers: { 'Retry-After': '2' } });
+    }
+
+    const startedAt = new Date().toISOString();
+    const result = await activateWithIssuer(offerId, cardId, key);
+    const record = await activationLog.complete(userId, key, {
+      attempt: claim.attempt,
+      trigger: parseTrigger(trigger),
+      status: result.ok ? 'succeeded' : 'failed',
+      httpStatus: result.httpStatus,
+      error: result.error,
+      retryable: result.retryable,
+      startedAt,
+      finishedAt: new Date().toISOString()
+    }, result.activationId);
+
+    const body: ActivationResponse = {
+      success: result.ok,
+      record,
+      replayed: false,
+      retryable: result.retryable,
+      error: result.error
+    };
+
+    if (result.ok) {
+      return NextResponse.json(body);
+    }
+    return NextResponse.json(body, { status: result.retryable ? 503 : 422 });
+  } catch (error) {
+    console.error('Error activating offer:', error);
+    return NextResponse.json(
+      { error: 'Failed to activate offer' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { activationLog } from '@/lib/card-linked/activation-log';
+import { getRequestUserId } from '@/lib/server/request-user';
+import type { ActivationHistoryResponse, ActivationStatus } from '@/lib/card-linked/types';
+
+const STATUSES: ActivationStatus[] = ['pending', 'succeeded', 'failed'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') as ActivationStatus | null;
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const activations = await activationLog.list(userId, status || undefined);
+    const body: ActivationHistoryResponse = { activations, total: activations.length };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error fetching activation history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch activation history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import { getRequestUserId } from '@/lib/server/request-user';
+import type { EncryptedEnvelope } from '@/lib/card-linked/secure-card-store';
+
+// Encrypted envelopes per user; the server never holds the keys
+const vaultStore = new JsonFileStore<Record<string, EncryptedEnvelope>>('card-vault.json', () => ({}));
+
+// Only passphrase-wrapped (format 2) envelopes are accepted; format 1 is read-only
+function isEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (typeof value !== 'object' || value === null) return false;
+  const envelope = value as Record<string, unknown>;
+  const kdf = envelope.kdf as Record<string, unknown> | undefined;
+  return envelope.format === 2 &&
+    typeof envelope.keyId === 'string' &&
+    typeof envelope.revision === 'number' &&
+    typeof envelope.schemaVersion === 'number' &&
+    typeof envelope.ciphertext === 'string' &&
+    typeof envelope.wrappedKey === 'string' &&
+    typeof envelope.iv === 'string' &&
+    typeof envelope.wrapIv === 'string' &&
+    typeof kdf?.salt === 'string' &&
+    typeof kdf.iterations === 'number';
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const vaults = await vaultStore.read();
+    return NextResponse.json({ envelope: vaults[userId] || null });
+  } catch (error) {
+    console.error('Error reading card vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to read card vault' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { envelope, baseRevision } = await request.json();
+    if (!isEnvelope(envelope) || typeof baseRevision !== 'number') {
+      return NextResponse.json(
+        { error: 'Invalid card vault envelope' },
+        { status: 400 }
+      );
+    }
+
+    // Reject writes based on a stale copy so the client can rebase
+    const conflict = await vaultStore.update(vaults => {
+      const current = vaults[userId];
+      if (current && (current.revision !== baseRevision || envelope.revision <= current.revision)) {
+        return current;
+      }
+      vaults[userId] = envelope;
+      return undefined;
+    });
+
+    if (conflict !== undefined) {
+      return NextResponse.json(
+        { error: 'Card vault revision conflict', envelope: conflict },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, revision: envelope.revision });
+  } catch (error) {
+    console.error('Error saving card vault:', error);
+    return NextResponse.json(
+      { error: 'Failed to save card vault' },
+      { status: 500 }
+    );
+  }
+}
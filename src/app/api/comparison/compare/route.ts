@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { LandedCostOptions, Product, ProductComparison, VendorInfo } from '@/types/comparison';
+import { vendorRegistry } from '@/lib/vendors/registry';
+import { cachedVendorCall } from '@/lib/vendors/search';
+import { getVendorInfo } from '@/lib/vendors/vendor-info';
+import { buildComparisonRows } from '@/lib/product-matching/compare';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+
+const MAX_PRODUCTS = 6;
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(request, 'comparison-compare', getRequestUserId(request));
+    if (limited) return limited;
+
+    const body = await request.json().catch(() => null);
+    const productIds: unknown = body?.productIds;
+    if (!Array.isArray(productIds) || productIds.some(id => typeof id !== 'string' || !id)) {
+      return NextResponse.json({ error: 'productIds must be an array of product ids' }, { status: 400 });
+    }
+
+    const costOptions: LandedCostOptions = {
+      paymentMethod: body?.paymentMethod === 'cod' ? 'cod' : 'prepaid',
+      waitingCostPerDay: typeof body?.waitingCostPerDay === 'number' && body.waitingCostPerDay > 0 ? body.waitingCostPerDay : 0
+    };
+
+    const ids = Array.from(new Set(productIds as string[]));
+    if (ids.length < 2 || ids.length > MAX_PRODUCTS) {
+      return NextResponse.json(
+        { error: `Select between 2 and ${MAX_PRODUCTS} products to compare` },
+        { status: 400 }
+      );
+    }
+
+    const listings = await Promise.all(ids.map(async id => {
+      const adapter = vendorRegistry.forProduct(id);
+      if (!adapter) return null;
+      try {
+        return (await cachedVendorCall(adapter, 'product', id, signal => adapter.getProduct(id, { signal }))).value;
+      } catch (error) {
+        console.error(`Error fetching product ${id} from vendor ${adapter.id}:`, error);
+        return null;
+      }
+    }));
+
+    const products = listings.filter((product): product is Product => product !== null);
+    const missing = ids.filter((_, index) => listings[index] === null);
+
+    if (products.length < 2) {
+      return NextResponse.json(
+        { error: 'Fewer than 2 of the selected products could be found', missing },
+        { status: 404 }
+      );
+    }
+
+    // Store rows are left blank for a vendor whose details can't be fetched
+    const vendors = new Map<string, VendorInfo>();
+    const adapters = new Set(products.map(product => vendorRegistry.forProduct(product.id)!));
+    await Promise.all(Array.from(adapters).map(async adapter => {
+      try {
+        vendors.set(adapter.name, await getVendorInfo(adapter));
+      } catch (error) {
+        console.error(`Error fetching vendor info for ${adapter.id}:`, error);
+      }
+    }));
+
+    const comparison: ProductComparison = {
+      products,
+      rows: buildComparisonRows(products, vendors, costOptions),
+      missing
+    };
+
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error comparing products:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare products' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,77 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Product, ComparisonResult } from '@/types/comparison';
-
-// Mock data for demonstration - Replace with actual API calls
-const MOCK_VENDORS = ['Amazon', 'Walmart', 'Target', 'Best Buy', 'eBay', 'Flipkart'];
-
-const MOCK_CATEGORIES = [
-  'Electronics', 'Fashion', 'Home & Garden', 'Sports', 'Books', 'Health', 'Automotive'
-];
-
-function generateMockProduct(name: string, vendor: string, basePrice: number): Product {
-  const discount = Math.random() * 0.4; // 0-40% discount
-  const originalPrice = basePrice * (1 + Math.random() * 0.5); // 0-50% markup
-  const price = originalPrice * (1 - discount);
-  
-  return {
-    id: `${vendor.toLowerCase()}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-    name: `${name} - ${vendor}`,
-    description: `High-quality ${name.toLowerCase()} from ${vendor}`,
-    category: MOCK_CATEGORIES[Math.floor(Math.random() * MOCK_CATEGORIES.length)],
-    vendor,
-    price: Math.round(price * 100) / 100,
-    originalPrice: Math.round(originalPrice * 100) / 100,
-    currency: 'USD',
-    rating: 3 + Math.random() * 2, // 3-5 rating
-    reviewCount: Math.floor(Math.random() * 10000) + 100,
-    imageUrl: `https://picsum.photos/300/300?random=${Math.floor(Math.random() * 1000)}`,
-    availability: Math.random() > 0.1, // 90% availability
-    deliveryTime: `${Math.floor(Math.random() * 7) + 1}-${Math.floor(Math.random() * 5) + 3} days`,
-    features: [
-      'High Quality',
-      'Fast Shipping',
-      'Customer Support',
-      'Warranty Included'
-    ].slice(0, Math.floor(Math.random() * 4) + 1),
-    url: `https://${vendor.toLowerCase()}.com/product/${name.toLowerCase().replace(/\s+/g, '-')}`,
-    discount: Math.round(discount * 100),
-    cashbackRate: Math.random() * 5, // 0-5% cashback
-    affiliateLink: `https://affiliate.${vendor.toLowerCase()}.com/product`,
-    inStock: Math.random() > 0.15, // 85% in stock
-    lastUpdated: new Date()
-  };
-}
-
-async function fetchFromRealAPIs(query: string, category?: string): Promise<Product[]> {
-  // This is where you'd integrate with real APIs
-  // For now, we'll return mock data
-  
-  const basePrice = 50 + Math.random() * 500; // $50-$550 base price
-  const products: Product[] = [];
-  
-  // Generate products from different vendors
-  const vendorCount = Math.floor(Math.random() * 4) + 3; // 3-6 vendors
-  const selectedVendors = MOCK_VENDORS.sort(() => 0.5 - Math.random()).slice(0, vendorCount);
-  
-  for (const vendor of selectedVendors) {
-    products.push(generateMockProduct(query, vendor, basePrice));
-  }
-  
-  return products;
-}
+import { ComparisonResult } from '@/types/comparison';
+import { vendorRegistry } from '@/lib/vendors/registry';
+import { searchVendors } from '@/lib/vendors/search';
+import { summarizeCache } from '@/lib/vendors/cache';
+import { clusterProducts } from '@/lib/product-matching/cluster';
+import { rankByLandedCost } from '@/lib/price-comparison/landed-cost';
+import { queryLog } from '@/lib/search-suggestions/query-log';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit, getClientIp } from '@/lib/server/rate-limit';
 
 export async function GET(request: NextRequest) {
   try {
+    const userId = getRequestUserId(request);
+    const limited = await enforceRateLimit(request, 'comparison-search', userId);
+    if (limited) return limited;
+
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q');
     const category = searchParams.get('category');
     const priceMin = searchParams.get('priceMin');
     const priceMax = searchParams.get('priceMax');
-    const vendors = searchParams.get('vendors')?.split(',');
+    const vendors = searchParams.get('vendors')?.split(',').filter(Boolean);
     const minRating = searchParams.get('minRating');
     const inStock = searchParams.get('inStock');
-    const sortBy = searchParams.get('sortBy') as 'price' | 'rating' | 'name' | 'discount' | null;
+    const sortBy = searchParams.get('sortBy') as 'price' | 'rating' | 'name' | 'discount' | 'landedCost' | null;
     const sortOrder = searchParams.get('sortOrder') as 'asc' | 'desc' | null;
+    const payment = searchParams.get('payment') === 'cod' ? 'cod' : 'prepaid';
+    const waitCost = searchParams.get('waitCost');
 
     if (!query) {
       return NextResponse.json(
@@ -80,8 +35,34 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Fetch products from APIs (mock data for now)
-    let products = await fetchFromRealAPIs(query, category || undefined);
+    const selected = vendors?.length ? vendorRegistry.resolve(vendors) : null;
+    if (selected && selected.unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown vendors: ${selected.unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const outcome = await searchVendors(query, {
+      category: category || undefined,
+      vendors: selected?.adapters
+    });
+
+    if (outcome.vendors.length > 0 && outcome.vendors.every(v => v.status !== 'ok')) {
+      return NextResponse.json(
+        { error: 'No vendor could be reached', vendors: outcome.vendors },
+        { status: 502 }
+      );
+    }
+
+    // Suggestions learn from results before price and rating filters, which is what a clicked suggestion shows
+    try {
+      await queryLog.record(query, outcome.products, userId || `ip:${getClientIp(request)}`);
+    } catch (logError) {
+      console.error('Error logging search query:', logError);
+    }
+
+    let products = outcome.products;
 
     // Apply filters
     if (priceMin) {
@@ -90,9 +71,6 @@ export async function GET(request: NextRequest) {
     if (priceMax) {
       products = products.filter(p => p.price <= parseFloat(priceMax));
     }
-    if (vendors && vendors.length > 0) {
-      products = products.filter(p => vendors.includes(p.vendor));
-    }
     if (minRating) {
       products = products.filter(p => p.rating >= parseFloat(minRating));
     }
@@ -102,6 +80,13 @@ export async function GET(request: NextRequest) {
 
     // Apply sorting
     if (sortBy) {
+      const landedTotals = sortBy === 'landedCost'
+        ? new Map(rankByLandedCost(products, {
+            paymentMethod: payment,
+            waitingCostPerDay: waitCost ? parseFloat(waitCost) || 0 : 0
+          }).map(cost => [cost.product.id, cost.total]))
+        : null;
+
       products.sort((a, b) => {
         let aValue: any, bValue: any;
         
@@ -122,6 +107,10 @@ export async function GET(request: NextRequest) {
             aValue = a.discount || 0;
             bValue = b.discount || 0;
             break;
+          case 'landedCost':
+            aValue = landedTotals!.get(a.id);
+            bValue = landedTotals!.get(b.id);
+            break;
           default:
             return 0;
         }
@@ -133,12 +122,13 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    const priceRange = {
-      min: Math.min(...products.map(p => p.price)),
-      max: Math.max(...products.map(p => p.price))
-    };
+    const priceRange = products.length > 0
+      ? { min: Math.min(...products.map(p => p.price)), max: Math.max(...products.map(p => p.price)) }
+      : { min: 0, max: 0 };
 
-    const avgRating = products.reduce((sum, p) => sum + p.rating, 0) / products.length;
+    const avgRating = products.length > 0
+      ? products.reduce((sum, p) => sum + p.rating, 0) / products.length
+      : 0;
 
     const result: ComparisonResult = {
       products,
@@ -147,7 +137,11 @@ export async function GET(request: NextRequest) {
       totalResults: products.length,
       priceRange,
       avgRating: Math.round(avgRating * 10) / 10,
-      timestamp: new Date()
+      timestamp: new Date(),
+      vendors: outcome.vendors,
+      partial: outcome.vendors.some(v => v.status !== 'ok'),
+      canonicalProducts: clusterProducts(products),
+      cache: summarizeCache(outcome.vendors)
     };
 
     return NextResponse.json(result);
@@ -1,60 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SearchSuggestion } from '@/types/comparison';
+import { DEFAULT_SUGGESTION_LIMIT, suggestSearches } from '@/lib/search-suggestions/suggest';
 
-const POPULAR_SEARCHES = [
-  { query: 'iPhone 15', category: 'Electronics', resultCount: 45, trending: true },
-  { query: 'MacBook Pro', category: 'Electronics', resultCount: 32, trending: true },
-  { query: 'Air Fryer', category: 'Home & Garden', resultCount: 78, trending: false },
-  { query: 'Nike Sneakers', category: 'Fashion', resultCount: 156, trending: true },
-  { query: 'Coffee Machine', category: 'Home & Garden', resultCount: 89, trending: false },
-  { query: 'Gaming Chair', category: 'Home & Garden', resultCount: 43, trending: true },
-  { query: 'Wireless Headphones', category: 'Electronics', resultCount: 167, trending: false },
-  { query: 'Yoga Mat', category: 'Sports & Fitness', resultCount: 234, trending: false },
-  { query: 'Smartwatch', category: 'Electronics', resultCount: 67, trending: true },
-  { query: 'Protein Powder', category: 'Health & Beauty', resultCount: 123, trending: false }
-];
+const MAX_SUGGESTIONS = 20;
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const query = searchParams.get('q');
-
-    if (!query) {
-      // Return popular searches if no query provided
-      return NextResponse.json(POPULAR_SEARCHES.slice(0, 5));
-    }
-
-    // Filter suggestions based on query
-    const filteredSuggestions = POPULAR_SEARCHES.filter(suggestion =>
-      suggestion.query.toLowerCase().includes(query.toLowerCase())
+    const query = searchParams.get('q') || '';
+    const limit = Math.min(
+      parseInt(searchParams.get('limit') || '', 10) || DEFAULT_SUGGESTION_LIMIT,
+      MAX_SUGGESTIONS
     );
 
-    // If no matches, generate some mock suggestions based on the query
-    if (filteredSuggestions.length === 0) {
-      const mockSuggestions: SearchSuggestion[] = [
-        {
-          query: `${query} deals`,
-          category: 'All',
-          resultCount: Math.floor(Math.random() * 100) + 10,
-          trending: false
-        },
-        {
-          query: `best ${query}`,
-          category: 'All',
-          resultCount: Math.floor(Math.random() * 50) + 5,
-          trending: Math.random() > 0.7
-        },
-        {
-          query: `${query} reviews`,
-          category: 'All',
-          resultCount: Math.floor(Math.random() * 75) + 15,
-          trending: false
-        }
-      ];
-      return NextResponse.json(mockSuggestions);
-    }
-
-    return NextResponse.json(filteredSuggestions);
+    // Empty until searches have been logged; never padded with made-up queries
+    return NextResponse.json(await suggestSearches(query, limit));
   } catch (error) {
     console.error('Error fetching suggestions:', error);
     return NextResponse.json(
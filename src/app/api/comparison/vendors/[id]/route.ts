@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { vendorRegistry } from '@/lib/vendors/registry';
+import { getVendorInfo } from '@/lib/vendors/vendor-info';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const limited = await enforceRateLimit(request, 'comparison-vendors', getRequestUserId(request));
+    if (limited) return limited;
+
+    const { id } = await params;
+    const [adapter] = vendorRegistry.resolve([id]).adapters;
+    if (!adapter) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await getVendorInfo(adapter));
+  } catch (error) {
+    console.error('Error fetching vendor info:', error);
+    return NextResponse.json(
+      { error: 'Failed to get vendor info' },
+      { status: 500 }
+    );
+  }
+}
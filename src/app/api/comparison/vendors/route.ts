@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findVendorOffers } from '@/lib/vendors/offers';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(request, 'comparison-vendors', getRequestUserId(request));
+    if (limited) return limited;
+
+    const product = new URL(request.url).searchParams.get('product')?.trim();
+    if (!product) {
+      return NextResponse.json(
+        { error: 'product parameter is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await findVendorOffers(product);
+
+    if (result.vendors.length > 0 && result.vendors.every(v => v.status !== 'ok')) {
+      return NextResponse.json(
+        { error: 'No vendor could be reached', vendors: result.vendors },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error fetching vendor prices:', error);
+    return NextResponse.json(
+      { error: 'Failed to get vendor prices' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,81 +1,29 @@
-import { NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
-import { FraudDetectionEngine } from '@/lib/fraud-detection/fraud-detection-engine';
-import type { FraudCheckResult } from '@/lib/fraud-detection/fraud-detection-engine';
-import { getMockDeals } from '@/lib/mock-data/deals';
+import { NextRequest, NextResponse } from 'next/server';
+import { getFlagConfig, getRequestFlagContext } from '@/lib/feature-flags/server';
+import { evaluateFlags, redactFlagConfig, resolveFlagConfig } from '@/lib/feature-flags/evaluate';
+import type { FeatureFlagsResponse } from '@/lib/feature-flags/client';
 
-const defaultToggles = {
-  Login: true,
-  FraudDetection: true, // New toggle for fraud detection
-};
-
-const fraudEngine = new FraudDetectionEngine();
-
-export async function GET() {
+// Fraud scans live under /api/fraud; this stays a cheap config read on every page load
+export async function GET(request: NextRequest) {
   try {
-    const togglesPath = path.join(process.cwd(), '..', 'feature-toggles.json');
-    
-    let toggles = defaultToggles;
-    
-    try {
-      const togglesData = await fs.readFile(togglesPath, 'utf8');
-      toggles = { ...defaultToggles, ...JSON.parse(togglesData) };
-    } catch (fileError) {
-      // File doesn't exist or can't be read, use defaults
-    }
+    const context = getRequestFlagContext(request);
+    const config = getFlagConfig();
+    const userId = context.userId ?? null;
 
-    let fraudDetectionData: any = { enabled: false };
-    
-    if (toggles.FraudDetection) {
-      try {
-        const mockDeals = getMockDeals();
-        const fraudDetectionResults: { [dealId: string]: FraudCheckResult[] } = {};
-        
-        const fraudResults = await Promise.all(
-          mockDeals.map(async (deal) => {
-            try {
-              const results = await fraudEngine.detectFraud(deal, deal.sellerId);
-              return { dealId: deal.id, results };
-            } catch (fraudError) {
-              return { dealId: deal.id, results: [] };
-            }
-          })
-        );
-        
-        fraudResults.forEach(({ dealId, results }) => {
-          if (results.length > 0) fraudDetectionResults[dealId] = results;
-        });
-        
-        try {
-          fraudEngine.detectSuspiciousUserBehavior('user123', 'view_deal');
-        } catch (behaviorError) {
-          // Continue without user behavior check
-        }
-        
-        fraudDetectionData = {
-          enabled: true,
-          results: fraudDetectionResults,
-          stats: {
-            totalDealsChecked: mockDeals.length,
-            fraudulentDealsFound: Object.keys(fraudDetectionResults).length,
-            topAnomalies: fraudEngine.getTopAnomalies(3)
-          }
-        };
-      } catch (fraudSystemError) {
-        fraudDetectionData = { enabled: false };
-      }
-    }
-    
-    return NextResponse.json({
-      toggles,
-      fraudDetection: fraudDetectionData
-    });
+    const response: FeatureFlagsResponse = {
+      toggles: evaluateFlags(config, context),
+      config: redactFlagConfig(config, userId),
+      userId
+    };
+    return NextResponse.json(response);
   } catch (error) {
+    console.error('Error evaluating feature flags:', error);
+    const defaults = resolveFlagConfig(null);
     return NextResponse.json(
       {
-        toggles: defaultToggles,
-        fraudDetection: { enabled: false },
+        toggles: evaluateFlags(defaults),
+        config: defaults,
+        userId: null,
         error: 'Failed to process feature toggles'
       },
       { status: 500 }
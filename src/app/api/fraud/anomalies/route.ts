@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFraudEngine } from '@/lib/fraud-detection/shared-engine';
+import { getRequestFlagContext, isFeatureEnabled } from '@/lib/feature-flags/server';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { isFraudModerator } from '@/lib/server/moderators';
+import type { FraudAnomaliesResponse } from '@/lib/fraud-detection/types';
+
+const MAX_LIMIT = 50;
+
+/**
+ * Deals whose discounts exceed their category threshold by the most, among those scanned so far
+ */
+export async function GET(request: NextRequest) {
+  try {
+    if (!isFeatureEnabled('FraudDetection', getRequestFlagContext(request))) {
+      return NextResponse.json({ error: 'Fraud detection is disabled' }, { status: 404 });
+    }
+
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isFraudModerator(userId)) {
+      return NextResponse.json({ error: 'Moderator access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = Number(searchParams.get('limit') ?? 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+    }
+
+    const engine = await getFraudEngine({ reloadRules: false });
+    const response: FraudAnomaliesResponse = { anomalies: engine.getTopAnomalies(limit) };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching fraud anomalies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch anomalies' },
+      { status: 500 }
+    );
+  }
+}
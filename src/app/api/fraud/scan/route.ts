@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFraudEngine } from '@/lib/fraud-detection/shared-engine';
+import { fraudScanner, parseDeal } from '@/lib/fraud-detection/scan-service';
+import { refreshVendorQuotes } from '@/lib/fraud-detection/vendor-quotes';
+import { getRequestFlagContext, isFeatureEnabled } from '@/lib/feature-flags/server';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import type { Deal } from '@/lib/fraud-detection/fraud-detection-engine';
+import type { BatchFraudCheckResponse } from '@/lib/fraud-detection/types';
+
+const MAX_BATCH = 50;
+
+/**
+ * Scan one deal ({ deal }) or a batch ({ deals }); a single deal gets a single result back
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!isFeatureEnabled('FraudDetection', getRequestFlagContext(request))) {
+      return NextResponse.json({ error: 'Fraud detection is disabled' }, { status: 404 });
+    }
+
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limited = await enforceRateLimit(request, 'fraud-scan', userId);
+    if (limited) return limited;
+
+    const body = await request.json();
+    const batch = Array.isArray(body?.deals);
+    const input: unknown[] = batch ? body.deals : [body?.deal];
+
+    if (input.length === 0 || input.length > MAX_BATCH) {
+      return NextResponse.json({ error: `Send between 1 and ${MAX_BATCH} deals` }, { status: 400 });
+    }
+
+    const deals = input.map(parseDeal);
+    const invalid = deals.findIndex(deal => !deal);
+    if (invalid !== -1) {
+      return NextResponse.json(
+        { error: batch ? `Invalid deal at index ${invalid}` : 'Invalid deal payload' },
+        { status: 400 }
+      );
+    }
+
+    const startedAt = Date.now();
+    const engine = await getFraudEngine();
+    const results = await fraudScanner.scan(engine, deals as Deal[], {
+      beforeAssess: misses => refreshVendorQuotes(engine, misses)
+    });
+
+    if (!batch) {
+      return NextResponse.json(results[0]);
+    }
+
+    const response: BatchFraudCheckResponse = {
+      results,
+      summary: {
+        totalChecked: results.length,
+        fraudulentCount: results.filter(r => r.results.length > 0).length,
+        blockedCount: results.filter(r => r.blocked).length,
+        processingTime: Date.now() - startedAt,
+        cacheHits: results.filter(r => r.cached).length
+      }
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error scanning deals for fraud:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan deals' },
+      { status: 500 }
+    );
+  }
+}
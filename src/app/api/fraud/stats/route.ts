@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFraudEngine } from '@/lib/fraud-detection/shared-engine';
+import { fraudScanner } from '@/lib/fraud-detection/scan-service';
+import { reviewQueue } from '@/lib/fraud-detection/moderation';
+import { getRequestFlagContext, isFeatureEnabled } from '@/lib/feature-flags/server';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { isFraudModerator } from '@/lib/server/moderators';
+import type { FraudStatsResponse } from '@/lib/fraud-detection/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isFeatureEnabled('FraudDetection', getRequestFlagContext(request))) {
+      return NextResponse.json({ error: 'Fraud detection is disabled' }, { status: 404 });
+    }
+
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isFraudModerator(userId)) {
+      return NextResponse.json({ error: 'Moderator access required' }, { status: 403 });
+    }
+
+    // Bot-like clients reach the review queue rather than the deal scans
+    const suspiciousUsers = (await reviewQueue.list())
+      .filter(item => item.itemType === 'user' && item.status !== 'false_positive').length;
+
+    const engine = await getFraudEngine({ reloadRules: false });
+    const response: FraudStatsResponse = {
+      stats: fraudScanner.stats(suspiciousUsers),
+      cache: fraudScanner.cacheStats(),
+      topAnomalies: engine.getTopAnomalies(3)
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching fraud stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fraud stats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import type { RateLimitedRoute } from '@/lib/rate-limit/policies';
+
+// Marketplace writes go through here so they are rate limited before reaching the marketplace API
+const MARKETPLACE_API_URL = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080'}/api/v1/marketplace`;
+const UPSTREAM_TIMEOUT_MS = 10000;
+
+const SEGMENT = /^[A-Za-z0-9_-]+$/;
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function policyFor(resource: string): RateLimitedRoute {
+  switch (resource) {
+    case 'listings':
+      return 'marketplace-listing';
+    case 'transactions':
+      return 'marketplace-transaction';
+    case 'reviews':
+      return 'marketplace-review';
+    default:
+      return 'marketplace-account';
+  }
+}
+
+async function forward(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { path } = await params;
+    if (path.length === 0 || !path.every(segment => SEGMENT.test(segment))) {
+      return NextResponse.json({ error: 'Unknown marketplace action' }, { status: 404 });
+    }
+
+    const limited = await enforceRateLimit(request, policyFor(path[0]), getRequestUserId(request));
+    if (limited) return limited;
+
+    const authorization = request.headers.get('authorization');
+    const body = request.method === 'DELETE' ? undefined : await request.text();
+    const upstream = await fetch(`${MARKETPLACE_API_URL}/${path.join('/')}`, {
+      method: request.method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization && { Authorization: authorization })
+      },
+      body: body || undefined,
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)
+    });
+
+    return new NextResponse(upstream.status === 204 ? null : await upstream.text(), {
+      status: upstream.status,
+      headers: { 'Content-Type': upstream.headers.get('content-type') || 'application/json' }
+    });
+  } catch (error) {
+    console.error('Error forwarding marketplace action:', error);
+    return NextResponse.json(
+      { error: 'Failed to reach the marketplace' },
+      { status: 502 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  return forward(request, context);
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  return forward(request, context);
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  return forward(request, context);
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFraudEngine } from '@/lib/fraud-detection/shared-engine';
+import { reviewQueue } from '@/lib/fraud-detection/moderation';
+import { fraudScanner } from '@/lib/fraud-detection/scan-service';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { isFraudModerator } from '@/lib/server/moderators';
+import type { ModerationDecision } from '@/lib/fraud-detection/types';
+
+const DECISIONS: ModerationDecision[] = ['confirm', 'false_positive', 'escalate'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isFraudModerator(userId)) {
+      return NextResponse.json({ error: 'Moderator access required' }, { status: 403 });
+    }
+
+    const { itemId, decision, note } = await request.json();
+
+    if (typeof itemId !== 'string' || !DECISIONS.includes(decision)) {
+      return NextResponse.json(
+        { error: `itemId and a decision of ${DECISIONS.join(', ')} are required` },
+        { status: 400 }
+      );
+    }
+
+    const engine = await getFraudEngine();
+    const result = await reviewQueue.decide(
+      itemId,
+      decision,
+      userId,
+      engine,
+      typeof note === 'string' && note.trim() ? note.trim().slice(0, 1000) : undefined
+    );
+
+    if (!result) {
+      return NextResponse.json({ error: 'Review item not found' }, { status: 404 });
+    }
+
+    // Cached scans predate what the engine just learned or unlearned
+    const { learned, unlearned } = result;
+    if (learned.sellerId || learned.phishingPattern || unlearned.sellerId || unlearned.phishingPattern) {
+      fraudScanner.clear();
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error recording moderation decision:', error);
+    return NextResponse.json(
+      { error: 'Failed to record decision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reviewQueue, SEVERITY_ORDER } from '@/lib/fraud-detection/moderation';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { isFraudModerator } from '@/lib/server/moderators';
+import type { FraudRiskLevel, ReviewQueueResponse, ReviewStatus } from '@/lib/fraud-detection/types';
+
+const STATUSES: ReviewStatus[] = ['pending', 'confirmed', 'false_positive', 'escalated'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!isFraudModerator(userId)) {
+      return NextResponse.json({ error: 'Moderator access required' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const severity = searchParams.get('severity') as FraudRiskLevel | null;
+    const status = searchParams.get('status') as ReviewStatus | null;
+
+    if (severity && !SEVERITY_ORDER.includes(severity)) {
+      return NextResponse.json(
+        { error: `severity must be one of ${SEVERITY_ORDER.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (status && !STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [items, counts] = await Promise.all([
+      reviewQueue.list({ severity: severity || undefined, status: status || undefined }),
+      reviewQueue.pendingCounts()
+    ]);
+
+    const body: ReviewQueueResponse = { items, total: items.length, counts };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error fetching fraud review queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch review queue' },
+      { status: 500 }
+    );
+  }
+}
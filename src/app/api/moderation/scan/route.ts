@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFraudEngine } from '@/lib/fraud-detection/shared-engine';
+import { dealFromListing, reviewQueue } from '@/lib/fraud-detection/moderation';
+import { refreshMarketplaceTrust } from '@/lib/fraud-detection/marketplace-trust';
+import { parseDeal } from '@/lib/fraud-detection/scan-service';
+import { refreshVendorQuotes } from '@/lib/fraud-detection/vendor-quotes';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { enforceRateLimit } from '@/lib/server/rate-limit';
+import type { Deal } from '@/lib/fraud-detection/fraud-detection-engine';
+import type { ModerationScanResponse } from '@/lib/fraud-detection/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limited = await enforceRateLimit(request, 'moderation-scan', userId);
+    if (limited) return limited;
+
+    const body = await request.json();
+    let deal: Deal | null = null;
+
+    if (body?.type === 'deal') {
+      deal = parseDeal(body.deal);
+    } else if (body?.type === 'listing') {
+      const listing = body.listing;
+      const valid = listing && typeof listing.id === 'string' && typeof listing.seller_id === 'string' &&
+        typeof listing.title === 'string' && typeof listing.selling_price === 'number';
+      deal = valid ? dealFromListing(listing) : null;
+    } else {
+      return NextResponse.json({ error: "type must be 'deal' or 'listing'" }, { status: 400 });
+    }
+
+    if (!deal) {
+      return NextResponse.json({ error: `Invalid ${body.type} payload` }, { status: 400 });
+    }
+
+    const engine = await getFraudEngine();
+    await Promise.all([
+      refreshVendorQuotes(engine, [deal]),
+      // Listing sellers are marketplace users, so their marketplace trust applies
+      body.type === 'listing' ? refreshMarketplaceTrust(engine, deal.sellerId) : undefined
+    ]);
+    const assessment = await engine.assessRisk(deal, deal.sellerId || undefined);
+    const item = await reviewQueue.submit(body.type, deal, assessment, userId);
+
+    const response: ModerationScanResponse = { assessment, queued: !!item, item };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error scanning item for fraud:', error);
+    return NextResponse.json(
+      { error: 'Failed to scan item' },
+      { status: 500 }
+    );
+  }
+}
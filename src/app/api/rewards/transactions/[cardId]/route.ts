@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseSpendRecord, spendLog } from '@/lib/card-linked/spend-log';
+import { getRequestUserId } from '@/lib/server/request-user';
+
+type RouteContext = { params: Promise<{ cardId: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { cardId } = await params;
+    return NextResponse.json(await spendLog.list(userId, cardId));
+  } catch (error) {
+    console.error('Error fetching card spend:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch card spend' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = getRequestUserId(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const spend = parseSpendRecord(await request.json().catch(() => null));
+    if (!spend) {
+      return NextResponse.json(
+        { error: 'amount, merchant, category and date are required' },
+        { status: 400 }
+      );
+    }
+
+    const { cardId } = await params;
+    await spendLog.record(userId, cardId, spend);
+    return NextResponse.json(spend, { status: 201 });
+  } catch (error) {
+    console.error('Error recording card spend:', error);
+    return NextResponse.json(
+      { error: 'Failed to record card spend' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { isFeatureEnabled } from '@/lib/feature-toggles-client';
+import { isFeatureEnabled } from '@/lib/feature-flags/client';
 import LandingPage from '@/components/landing/LandingPage';
 import { AuthAppLoader } from '@/components/ui/app-loading-screen';
 
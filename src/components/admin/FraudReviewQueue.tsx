@@ -0,0 +1,268 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, CheckCircle2, ExternalLink, RefreshCw, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react';
+import { getRequestHeaders } from '@/lib/card-linked/secure-card-store';
+import type {
+  FraudRiskLevel,
+  ModerationDecision,
+  ModerationDecisionResponse,
+  ReviewQueueItem,
+  ReviewQueueResponse,
+  ReviewStatus
+} from '@/lib/fraud-detection/types';
+import { useToast } from '@/hooks/use-toast';
+
+const SEVERITIES: FraudRiskLevel[] = ['critical', 'high', 'medium', 'low'];
+
+const SEVERITY_STYLES: Record<FraudRiskLevel, string> = {
+  critical: 'bg-red-500/20 text-red-300 border-red-500/30',
+  high: 'bg-orange-500/20 text-orange-300 border-orange-500/30',
+  medium: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30',
+  low: 'bg-slate-500/20 text-slate-300 border-slate-500/30'
+};
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Pending',
+  escalated: 'Escalated',
+  confirmed: 'Confirmed',
+  false_positive: 'False positive'
+};
+
+export default function FraudReviewQueue() {
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [counts, setCounts] = useState<Record<FraudRiskLevel, number> | null>(null);
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [severity, setSeverity] = useState<FraudRiskLevel | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchQueue = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ status, ...(severity && { severity }) });
+      const response = await fetch(`/api/moderation/queue?${params}`, { headers: getRequestHeaders() });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Failed to fetch review queue');
+
+      const queue = body as ReviewQueueResponse;
+      setItems(queue.items);
+      setCounts(queue.counts);
+      setError(null);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : 'Failed to fetch review queue');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, severity]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleDecision = async (item: ReviewQueueItem, decision: ModerationDecision) => {
+    setDeciding(item.id);
+    try {
+      const response = await fetch('/api/moderation/decisions', {
+        method: 'POST',
+        headers: getRequestHeaders(),
+        body: JSON.stringify({ itemId: item.id, decision, note: notes[item.id] })
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Failed to record decision');
+
+      const { learned, unlearned } = body as ModerationDecisionResponse;
+      const feedback = [
+        learned.sellerId && `seller ${learned.sellerId} reputation updated`,
+        learned.phishingPattern && `${learned.phishingPattern} added to phishing patterns`,
+        unlearned.sellerId && `report against seller ${unlearned.sellerId} withdrawn`,
+        unlearned.phishingPattern && `${unlearned.phishingPattern} removed from phishing patterns`
+      ].filter(Boolean).join('; ');
+
+      toast({
+        title: `Marked as ${STATUS_LABELS[body.item.status as ReviewStatus].toLowerCase()}`,
+        description: feedback || item.title
+      });
+      setNotes(prev => ({ ...prev, [item.id]: '' }));
+      await fetchQueue();
+    } catch (decisionError) {
+      toast({
+        title: 'Decision not saved',
+        description: decisionError instanceof Error ? decisionError.message : undefined,
+        variant: 'destructive'
+      });
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="space-y-4 pb-4">
+        <div className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-red-400" />
+            Fraud Review Queue
+          </CardTitle>
+          <Button
+            onClick={fetchQueue}
+            variant="ghost"
+            size="sm"
+            disabled={isLoading}
+            className="h-8 w-8 p-0"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        <Tabs value={status} onValueChange={value => setStatus(value as ReviewStatus)}>
+          <TabsList className="grid w-full grid-cols-4 h-auto">
+            {(Object.keys(STATUS_LABELS) as ReviewStatus[]).map(value => (
+              <TabsTrigger key={value} value={value}>{STATUS_LABELS[value]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap gap-2">
+          <Button variant={severity === null ? 'default' : 'outline'} size="sm" onClick={() => setSeverity(null)}>
+            All
+          </Button>
+          {SEVERITIES.map(level => (
+            <Button
+              key={level}
+              variant={severity === level ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setSeverity(level)}
+              className="capitalize"
+            >
+              {level}
+              {counts && counts[level] > 0 && <span className="ml-1 text-xs opacity-70">({counts[level]} open)</span>}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {error ? (
+          <div className="flex items-center gap-2 text-sm text-red-300">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ShieldCheck className="h-4 w-4" />
+            {isLoading ? 'Loading review queue...' : 'Nothing to review here.'}
+          </div>
+        ) : (
+          <ScrollArea className={items.length > 3 ? 'h-[640px]' : undefined}>
+            <div className="space-y-3">
+              {items.map(item => {
+                const isOpen = item.status === 'pending' || item.status === 'escalated';
+                const lastDecision = item.decisions[item.decisions.length - 1];
+
+                return (
+                  <div
+                    key={item.id}
+                    className="border border-border/40 rounded-lg p-4 hover:border-primary/30 transition-colors"
+                  >
+                    <div className="flex items-center gap-2 mb-1 flex-wrap">
+                      <h4 className="font-medium truncate">{item.title}</h4>
+                      <Badge className={`capitalize ${SEVERITY_STYLES[item.severity]}`}>{item.severity}</Badge>
+                      <Badge variant="outline" className="capitalize">{item.itemType}</Badge>
+                      <span className="text-xs text-muted-foreground">
+                        Risk {(item.riskScore * 100).toFixed(0)}%
+                      </span>
+                    </div>
+
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground mb-2 flex-wrap">
+                      {item.sellerId && <span>Seller: {item.sellerId}</span>}
+                      {item.url && (
+                        <span className="flex items-center gap-1 truncate max-w-full">
+                          <ExternalLink className="h-3 w-3" />
+                          {item.url}
+                        </span>
+                      )}
+                      <span>Submitted {new Date(item.submittedAt).toLocaleString()}</span>
+                    </div>
+
+                    <ul className="space-y-1 mb-3">
+                      {item.results.map((result, index) => (
+                        <li key={index} className="text-sm flex items-start gap-2">
+                          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 text-orange-400 flex-shrink-0" />
+                          <span>
+                            {result.reason || result.fraudType}
+                            <span className="text-xs text-muted-foreground ml-1">
+                              ({(result.confidence * 100).toFixed(0)}%)
+                            </span>
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {lastDecision && (
+                      <p className="text-xs text-muted-foreground mb-2">
+                        Last decision: {lastDecision.decision.replace('_', ' ')} by {lastDecision.moderatorId}
+                        {lastDecision.note && ` — ${lastDecision.note}`}
+                      </p>
+                    )}
+
+                    {isOpen && (
+                      <div className="space-y-2">
+                        <Textarea
+                          placeholder="Note for the decision (optional)"
+                          value={notes[item.id] || ''}
+                          onChange={event => setNotes(prev => ({ ...prev, [item.id]: event.target.value }))}
+                          className="min-h-[60px]"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            disabled={deciding === item.id}
+                            onClick={() => handleDecision(item, 'confirm')}
+                          >
+                            <CheckCircle2 className="h-4 w-4 mr-1" />
+                            Confirm fraud
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={deciding === item.id}
+                            onClick={() => handleDecision(item, 'false_positive')}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            False positive
+                          </Button>
+                          {item.status !== 'escalated' && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              disabled={deciding === item.id}
+                              onClick={() => handleDecision(item, 'escalate')}
+                            >
+                              <ShieldAlert className="h-4 w-4 mr-1" />
+                              Escalate
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
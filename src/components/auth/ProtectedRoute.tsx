@@ -2,7 +2,7 @@
 
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { isFeatureEnabled } from '@/lib/feature-toggles-client';
+import { isFeatureEnabled } from '@/lib/feature-flags/client';
 import { AuthAppLoader } from '@/components/ui/app-loading-screen';
 
 interface ProtectedRouteProps {
@@ -1,21 +1,12 @@
 'use client';
 
 import { useAuth0 } from '@auth0/auth0-react';
-import { useEffect, useState } from 'react';
 import { AuthLoader } from '@/components/ui/animated-loader';
-import { isFeatureEnabled } from '@/lib/feature-toggles-client';
+import { useFeatureFlag } from '@/hooks/useFeatureFlag';
 
 export default function UserProfile() {
   const { user, logout, isLoading } = useAuth0();
-  const [loginEnabled, setLoginEnabled] = useState(true);
-
-  useEffect(() => {
-    const checkLoginFeature = async () => {
-      const enabled = await isFeatureEnabled('Login');
-      setLoginEnabled(enabled);
-    };
-    checkLoginFeature();
-  }, []);
+  const { value: loginEnabled } = useFeatureFlag('Login');
 
   // If login is disabled, show a guest user profile
   if (!loginEnabled) {
@@ -10,14 +10,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { X, RotateCcw } from 'lucide-react';
+import { useFeatureFlag } from '@/hooks/useFeatureFlag';
 
 interface ComparisonFiltersProps {
   onFiltersChange: (filters: FiltersType) => void;
 }
 
-const VENDORS = [
-  'Amazon', 'Walmart', 'Target', 'Best Buy', 'eBay', 'Flipkart', 'Costco', 'Home Depot'
-];
+const VENDORS = ['Amazon.in', 'Flipkart', 'Myntra', 'Ajio'];
 
 const CATEGORIES = [
   'Electronics', 'Fashion', 'Home & Garden', 'Sports & Fitness', 
@@ -25,6 +24,7 @@ const CATEGORIES = [
 ];
 
 export function ComparisonFilters({ onFiltersChange }: ComparisonFiltersProps) {
+  const { value: defaultSort } = useFeatureFlag('ComparisonDefaultSort');
   const [filters, setFilters] = useState<FiltersType>({
     priceMin: 0,
     priceMax: 1000,
@@ -32,8 +32,10 @@ export function ComparisonFilters({ onFiltersChange }: ComparisonFiltersProps) {
     rating: 0,
     inStock: undefined,
     category: '',
-    sortBy: 'price',
-    sortOrder: 'asc'
+    sortBy: undefined, // Follows the ComparisonDefaultSort flag until chosen
+    sortOrder: 'asc',
+    paymentMethod: 'prepaid',
+    waitingCostPerDay: 0
   });
 
   const updateFilters = (newFilters: Partial<FiltersType>) => {
@@ -50,8 +52,10 @@ export function ComparisonFilters({ onFiltersChange }: ComparisonFiltersProps) {
       rating: 0,
       inStock: undefined,
       category: '',
-      sortBy: 'price',
-      sortOrder: 'asc'
+      sortBy: undefined,
+      sortOrder: 'asc',
+      paymentMethod: 'prepaid',
+      waitingCostPerDay: 0
     };
     setFilters(defaultFilters);
     onFiltersChange(defaultFilters);
@@ -199,7 +203,7 @@ export function ComparisonFilters({ onFiltersChange }: ComparisonFiltersProps) {
           <Label className="text-sm font-medium">Sort By</Label>
           <div className="flex gap-2">
             <Select 
-              value={filters.sortBy || 'price'} 
+              value={filters.sortBy || defaultSort} 
               onValueChange={(value) => updateFilters({ sortBy: value as any })}
             >
               <SelectTrigger className="flex-1">
@@ -210,6 +214,7 @@ export function ComparisonFilters({ onFiltersChange }: ComparisonFiltersProps) {
                 <SelectItem value="rating">Rating</SelectItem>
                 <SelectItem value="name">Name</SelectItem>
                 <SelectItem value="discount">Discount</SelectItem>
+                <SelectItem value="landedCost">True cost</SelectItem>
               </SelectContent>
             </Select>
             
@@ -228,6 +233,37 @@ export function ComparisonFilters({ onFiltersChange }: ComparisonFiltersProps) {
           </div>
         </div>
 
+        {/* True Cost */}
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">True Cost</Label>
+          <Select 
+            value={filters.paymentMethod || 'prepaid'} 
+            onValueChange={(value) => updateFilters({ paymentMethod: value as FiltersType['paymentMethod'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="prepaid">Pay online</SelectItem>
+              <SelectItem value="cod">Cash on delivery</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="waiting-cost" className="text-sm text-muted-foreground flex-1">
+              Each day of waiting costs me
+            </Label>
+            <Input
+              id="waiting-cost"
+              type="number"
+              min={0}
+              placeholder="0"
+              value={filters.waitingCostPerDay || ''}
+              onChange={(e) => updateFilters({ waitingCostPerDay: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-24"
+            />
+          </div>
+        </div>
+
         {/* Active Filters Summary */}
         {(filters.vendor?.length || filters.category || filters.inStock !== undefined) && (
           <div className="space-y-2">
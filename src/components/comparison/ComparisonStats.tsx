@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { Product, ComparisonStats as StatsType } from '@/types/comparison';
+import { Product, ComparisonStats as StatsType, LandedCost, LandedCostOptions } from '@/types/comparison';
+import { comparisonService } from '@/services/comparison';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -12,60 +13,30 @@ import {
   Zap, 
   Clock,
   DollarSign,
-  ShoppingCart
+  ShoppingCart,
+  Truck
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface ComparisonStatsProps {
   products: Product[];
+  costOptions?: LandedCostOptions;
 }
 
-export function ComparisonStats({ products }: ComparisonStatsProps) {
+export function ComparisonStats({ products, costOptions = {} }: ComparisonStatsProps) {
   const [stats, setStats] = useState<StatsType | null>(null);
+  const { paymentMethod, waitingCostPerDay } = costOptions;
 
   useEffect(() => {
     if (products.length === 0) return;
 
-    const bestPrice = products.reduce((min, product) => 
-      product.price < min.price ? product : min
-    );
-    
-    const highestRated = products.reduce((max, product) => 
-      product.rating > max.rating ? product : max
-    );
-    
-    const bestValue = products.reduce((best, product) => {
-      const valueScore = product.rating / product.price;
-      const bestScore = best.rating / best.price;
-      return valueScore > bestScore ? product : best;
-    });
-    
-    const biggestDiscount = products.reduce((max, product) => 
-      (product.discount || 0) > (max.discount || 0) ? product : max
-    );
-    
-    const fastestDelivery = products.reduce((fastest, product) => {
-      if (!product.deliveryTime || !fastest.deliveryTime) return fastest;
-      const productDays = parseDeliveryDays(product.deliveryTime);
-      const fastestDays = parseDeliveryDays(fastest.deliveryTime);
-      return productDays < fastestDays ? product : fastest;
-    });
-
-    setStats({
-      bestPrice,
-      highestRated,
-      bestValue,
-      biggestDiscount,
-      fastestDelivery
-    });
-  }, [products]);
-
-  const parseDeliveryDays = (deliveryTime: string): number => {
-    const match = deliveryTime.match(/(\d+)/);
-    return match ? parseInt(match[1]) : 999;
-  };
+    comparisonService
+      .getComparisonStats(products, { paymentMethod, waitingCostPerDay })
+      .then(setStats)
+      .catch(error => console.error('Failed to compute comparison stats:', error));
+  }, [products, paymentMethod, waitingCostPerDay]);
 
-  const formatPrice = (price: number, currency: string = 'USD') => {
+  const formatPrice = (price: number, currency: string = products[0]?.currency || 'USD') => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
       currency: currency,
@@ -81,173 +52,239 @@ export function ComparisonStats({ products }: ComparisonStatsProps) {
   const avgPrice = products.reduce((sum, p) => sum + p.price, 0) / products.length;
   const totalSavings = stats ? (priceRange.max - stats.bestPrice.price) : 0;
 
+  // "₹66,999 item · ₹10 COD · −₹2,345 cashback"
+  const describeBreakdown = ({ breakdown, assumed }: LandedCost) => {
+    const charges = [
+      breakdown.shipping > 0 && `${formatPrice(breakdown.shipping)} shipping`,
+      breakdown.codFee > 0 && `${formatPrice(breakdown.codFee)} COD`,
+      breakdown.convenienceFee > 0 && `${formatPrice(breakdown.convenienceFee)} fees`,
+      breakdown.gst > 0 && `${formatPrice(breakdown.gst)} GST`,
+      breakdown.cashback > 0 && `−${formatPrice(breakdown.cashback)} cashback`,
+      breakdown.waitingCost > 0 && `${formatPrice(breakdown.waitingCost)} waiting`
+    ].filter(Boolean);
+    if (charges.length === 0 && !assumed.includes('shipping')) charges.push('no extra charges');
+    return [`${formatPrice(breakdown.itemPrice)} item`, ...charges].join(' · ');
+  };
+
   if (!stats) return null;
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
-      {/* Best Price */}
-      <Card className="border-green-200 bg-green-50/50 dark:bg-green-950/20">
-        <CardHeader className="pb-3">
-          <CardTitle className="text-sm font-medium flex items-center gap-2 text-green-700 dark:text-green-400">
-            <DollarSign className="h-4 w-4" />
-            Best Price
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-2">
-          <div className="text-2xl font-bold text-green-600">
-            {formatPrice(stats.bestPrice.price)}
-          </div>
-          <div className="text-xs text-muted-foreground">
-            {stats.bestPrice.vendor}
-          </div>
-          {totalSavings > 0 && (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
+        {/* Best Price */}
+        <Card className="border-green-200 bg-green-50/50 dark:bg-green-950/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2 text-green-700 dark:text-green-400">
+              <DollarSign className="h-4 w-4" />
+              Best Price
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold text-green-600">
+              {formatPrice(stats.bestPrice.price)}
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {stats.bestPrice.vendor}
+            </div>
+            {totalSavings > 0 && (
+              <Badge variant="secondary" className="text-xs">
+                Save {formatPrice(totalSavings)}
+              </Badge>
+            )}
+            <Button 
+              size="sm" 
+              className="w-full mt-2"
+              onClick={() => window.open(stats.bestPrice.url, '_blank')}
+            >
+              <ShoppingCart className="h-3 w-3 mr-1" />
+              Buy Now
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Highest Rated */}
+        <Card className="border-yellow-200 bg-yellow-50/50 dark:bg-yellow-950/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
+              <Star className="h-4 w-4 fill-current" />
+              Highest Rated
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center gap-1">
+              <span className="text-2xl font-bold text-yellow-600">
+                {stats.highestRated.rating.toFixed(1)}
+              </span>
+              <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {stats.highestRated.vendor}
+            </div>
+            <div className="text-sm font-medium">
+              {formatPrice(stats.highestRated.price)}
+            </div>
+            <Button 
+              size="sm" 
+              variant="outline"
+              className="w-full mt-2"
+              onClick={() => window.open(stats.highestRated.url, '_blank')}
+            >
+              View Details
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Best Value */}
+        <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-950/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2 text-blue-700 dark:text-blue-400">
+              <Award className="h-4 w-4" />
+              Best Value
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-lg font-bold text-blue-600">
+                {stats.bestValue.rating.toFixed(1)}★
+              </span>
+              <span className="text-sm text-muted-foreground">for</span>
+              <span className="text-lg font-bold text-blue-600">
+                {formatPrice(stats.bestValue.price)}
+              </span>
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {stats.bestValue.vendor}
+            </div>
             <Badge variant="secondary" className="text-xs">
-              Save ${totalSavings.toFixed(2)}
+              Great balance
             </Badge>
-          )}
-          <Button 
-            size="sm" 
-            className="w-full mt-2"
-            onClick={() => window.open(stats.bestPrice.url, '_blank')}
-          >
-            <ShoppingCart className="h-3 w-3 mr-1" />
-            Buy Now
-          </Button>
-        </CardContent>
-      </Card>
+            <Button 
+              size="sm" 
+              variant="outline"
+              className="w-full mt-2"
+              onClick={() => window.open(stats.bestValue.url, '_blank')}
+            >
+              View Details
+            </Button>
+          </CardContent>
+        </Card>
 
-      {/* Highest Rated */}
-      <Card className="border-yellow-200 bg-yellow-50/50 dark:bg-yellow-950/20">
-        <CardHeader className="pb-3">
-          <CardTitle className="text-sm font-medium flex items-center gap-2 text-yellow-700 dark:text-yellow-400">
-            <Star className="h-4 w-4 fill-current" />
-            Highest Rated
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-2">
-          <div className="flex items-center gap-1">
-            <span className="text-2xl font-bold text-yellow-600">
-              {stats.highestRated.rating.toFixed(1)}
-            </span>
-            <Star className="h-4 w-4 fill-yellow-400 text-yellow-400" />
-          </div>
-          <div className="text-xs text-muted-foreground">
-            {stats.highestRated.vendor}
-          </div>
-          <div className="text-sm font-medium">
-            {formatPrice(stats.highestRated.price)}
-          </div>
-          <Button 
-            size="sm" 
-            variant="outline"
-            className="w-full mt-2"
-            onClick={() => window.open(stats.highestRated.url, '_blank')}
-          >
-            View Details
-          </Button>
-        </CardContent>
-      </Card>
+        {/* Biggest Discount */}
+        <Card className="border-red-200 bg-red-50/50 dark:bg-red-950/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2 text-red-700 dark:text-red-400">
+              <TrendingDown className="h-4 w-4" />
+              Biggest Discount
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="text-2xl font-bold text-red-600">
+              {stats.biggestDiscount.discount || 0}% OFF
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {stats.biggestDiscount.vendor}
+            </div>
+            <div className="space-y-1">
+              <div className="text-sm font-medium">
+                {formatPrice(stats.biggestDiscount.price)}
+              </div>
+              {stats.biggestDiscount.originalPrice && (
+                <div className="text-xs text-muted-foreground line-through">
+                  {formatPrice(stats.biggestDiscount.originalPrice)}
+                </div>
+              )}
+            </div>
+            <Button 
+              size="sm" 
+              variant="outline"
+              className="w-full mt-2"
+              onClick={() => window.open(stats.biggestDiscount.url, '_blank')}
+            >
+              View Deal
+            </Button>
+          </CardContent>
+        </Card>
 
-      {/* Best Value */}
-      <Card className="border-blue-200 bg-blue-50/50 dark:bg-blue-950/20">
-        <CardHeader className="pb-3">
-          <CardTitle className="text-sm font-medium flex items-center gap-2 text-blue-700 dark:text-blue-400">
-            <Award className="h-4 w-4" />
-            Best Value
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-2">
-          <div className="flex items-center gap-2">
-            <span className="text-lg font-bold text-blue-600">
-              {stats.bestValue.rating.toFixed(1)}★
-            </span>
-            <span className="text-sm text-muted-foreground">for</span>
-            <span className="text-lg font-bold text-blue-600">
-              {formatPrice(stats.bestValue.price)}
-            </span>
-          </div>
-          <div className="text-xs text-muted-foreground">
-            {stats.bestValue.vendor}
-          </div>
-          <Badge variant="secondary" className="text-xs">
-            Great balance
-          </Badge>
-          <Button 
-            size="sm" 
-            variant="outline"
-            className="w-full mt-2"
-            onClick={() => window.open(stats.bestValue.url, '_blank')}
-          >
-            View Details
-          </Button>
-        </CardContent>
-      </Card>
+        {/* Market Summary */}
+        <Card className="border-purple-200 bg-purple-50/50 dark:bg-purple-950/20">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-sm font-medium flex items-center gap-2 text-purple-700 dark:text-purple-400">
+              <Zap className="h-4 w-4" />
+              Market Summary
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Avg Price:</span>
+                <span className="font-medium">{formatPrice(avgPrice)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Avg Rating:</span>
+                <span className="font-medium">{avgRating.toFixed(1)}★</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Price Range:</span>
+                <span className="font-medium text-xs">
+                  {formatPrice(priceRange.min)} - {formatPrice(priceRange.max)}
+                </span>
+              </div>
+            </div>
+          
+            <div className="text-xs text-muted-foreground pt-2 border-t">
+              {products.length} vendors compared
+            </div>
+          </CardContent>
+        </Card>
+      </div>
 
-      {/* Biggest Discount */}
-      <Card className="border-red-200 bg-red-50/50 dark:bg-red-950/20">
+      {/* True Cost */}
+      <Card className="border-emerald-200 bg-emerald-50/50 dark:bg-emerald-950/20">
         <CardHeader className="pb-3">
-          <CardTitle className="text-sm font-medium flex items-center gap-2 text-red-700 dark:text-red-400">
-            <TrendingDown className="h-4 w-4" />
-            Biggest Discount
+          <CardTitle className="text-sm font-medium flex items-center gap-2 text-emerald-700 dark:text-emerald-400">
+            <Truck className="h-4 w-4" />
+            True Cost, Delivered
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-2">
-          <div className="text-2xl font-bold text-red-600">
-            {stats.biggestDiscount.discount || 0}% OFF
-          </div>
-          <div className="text-xs text-muted-foreground">
-            {stats.biggestDiscount.vendor}
-          </div>
-          <div className="space-y-1">
-            <div className="text-sm font-medium">
-              {formatPrice(stats.biggestDiscount.price)}
-            </div>
-            {stats.biggestDiscount.originalPrice && (
-              <div className="text-xs text-muted-foreground line-through">
-                {formatPrice(stats.biggestDiscount.originalPrice)}
+          {stats.landedCosts.map((cost, index) => (
+            <div
+              key={cost.product.id}
+              className={cn(
+                'flex items-center justify-between gap-4 rounded-md p-2 text-sm',
+                index === 0 && 'bg-emerald-100/60 dark:bg-emerald-900/30'
+              )}
+            >
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2 font-medium">
+                  <span>{index + 1}. {cost.product.vendor}</span>
+                  {index === 0 && (
+                    <Badge variant="secondary" className="text-xs">
+                      Cheapest delivered
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {describeBreakdown(cost)}
+                </div>
+                {cost.assumed.length > 0 && (
+                  <div className="text-xs text-amber-600">
+                    {cost.assumed.includes('shipping') && 'Shipping not quoted. '}
+                    {cost.assumed.includes('delivery') && 'No delivery estimate.'}
+                  </div>
+                )}
+              </div>
+              <div className="text-right shrink-0">
+                <div className="font-bold text-emerald-600">{formatPrice(cost.total)}</div>
+                {cost.deliveryDays !== null && (
+                  <div className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+                    <Clock className="h-3 w-3" />
+                    ~{cost.deliveryDays} days
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-          <Button 
-            size="sm" 
-            variant="outline"
-            className="w-full mt-2"
-            onClick={() => window.open(stats.biggestDiscount.url, '_blank')}
-          >
-            View Deal
-          </Button>
-        </CardContent>
-      </Card>
-
-      {/* Market Summary */}
-      <Card className="border-purple-200 bg-purple-50/50 dark:bg-purple-950/20">
-        <CardHeader className="pb-3">
-          <CardTitle className="text-sm font-medium flex items-center gap-2 text-purple-700 dark:text-purple-400">
-            <Zap className="h-4 w-4" />
-            Market Summary
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-3">
-          <div className="space-y-1">
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Avg Price:</span>
-              <span className="font-medium">{formatPrice(avgPrice)}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Avg Rating:</span>
-              <span className="font-medium">{avgRating.toFixed(1)}★</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Price Range:</span>
-              <span className="font-medium text-xs">
-                {formatPrice(priceRange.min)} - {formatPrice(priceRange.max)}
-              </span>
             </div>
-          </div>
-          
-          <div className="text-xs text-muted-foreground pt-2 border-t">
-            {products.length} vendors compared
-          </div>
+          ))}
         </CardContent>
       </Card>
     </div>
@@ -13,7 +13,7 @@ import {
   Users,
   CreditCard
 } from 'lucide-react';
-import { isFeatureEnabled } from '@/lib/feature-toggles-client';
+import { isFeatureEnabled } from '@/lib/feature-flags/client';
 
 export default function LandingPage() {
   const router = useRouter();
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2, Zap } from 'lucide-react';
+import { useCardLinkedOffers } from '@/lib/card-linked/offer-engine';
+import { validateAutoEnrollConditions, type AutoEnrollConditions, type AutoEnrollRule } from '@/lib/card-linked/auto-enroll';
+import { useToast } from '@/hooks/use-toast';
+
+interface RuleDraft {
+  name: string;
+  action: AutoEnrollRule['action'];
+  banks: string;
+  merchantCategories: string;
+  merchants: string;
+  valueType: 'any' | 'percentage' | 'fixed';
+  minValue: string;
+  minSpendAbove: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  action: 'activate',
+  banks: '',
+  merchantCategories: '',
+  merchants: '',
+  valueType: 'any',
+  minValue: '',
+  minSpendAbove: ''
+};
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+
+function toConditions(draft: RuleDraft): AutoEnrollConditions {
+  const conditions: AutoEnrollConditions = {};
+  const banks = splitList(draft.banks);
+  const merchantCategories = splitList(draft.merchantCategories);
+  const merchants = splitList(draft.merchants);
+
+  if (banks.length) conditions.banks = banks;
+  if (merchantCategories.length) conditions.merchantCategories = merchantCategories;
+  if (merchants.length) conditions.merchants = merchants;
+  if (draft.valueType !== 'any') conditions.valueType = draft.valueType;
+  if (draft.minValue !== '') conditions.minValue = Number(draft.minValue);
+  if (draft.minSpendAbove !== '') conditions.minSpendAbove = Number(draft.minSpendAbove);
+
+  return conditions;
+}
+
+function describeConditions(conditions: AutoEnrollConditions): string {
+  const parts: string[] = [];
+  if (conditions.banks?.length) parts.push(`${conditions.banks.join(', ')} cards`);
+  if (conditions.merchantCategories?.length) parts.push(conditions.merchantCategories.join(', '));
+  if (conditions.merchants?.length) parts.push(`at ${conditions.merchants.join(', ')}`);
+  if (conditions.minValue !== undefined) {
+    parts.push(`worth ≥ ${conditions.valueType === 'fixed' ? '₹' : ''}${conditions.minValue}${conditions.valueType === 'percentage' ? '%' : ''}`);
+  }
+  if (conditions.minSpendAbove !== undefined) parts.push(`min spend above ₹${conditions.minSpendAbove}`);
+  return parts.length ? parts.join(' · ') : 'All offers';
+}
+
+export default function AutoEnrollRuleEditor() {
+  const { autoEnrollRules, addAutoEnrollRule, updateAutoEnrollRule, removeAutoEnrollRule } = useCardLinkedOffers();
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const { toast } = useToast();
+
+  const update = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) =>
+    setDraft(prev => ({ ...prev, [key]: value }));
+
+  const handleAdd = () => {
+    const invalidNumber = [draft.minValue, draft.minSpendAbove].some(v => v !== '' && !Number.isFinite(Number(v)));
+    const conditions = toConditions(draft);
+    const invalidConditions = validateAutoEnrollConditions(conditions);
+    if (!draft.name.trim() || invalidNumber || invalidConditions) {
+      toast({
+        title: 'Rule not added',
+        description: !draft.name.trim()
+          ? 'Give the rule a name.'
+          : invalidNumber ? 'Amounts must be numbers.' : `${invalidConditions}.`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    addAutoEnrollRule({
+      name: draft.name.trim(),
+      action: draft.action,
+      enabled: true,
+      conditions
+    });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  return (
+    <Card className="shadow-lg mt-4">
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5 text-primary" />
+          Auto-Enroll Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {autoEnrollRules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rules yet. Add one to activate matching card offers as soon as they appear.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {autoEnrollRules.map(rule => (
+              <div
+                key={rule.id}
+                className="border border-border/40 rounded-lg p-4 flex items-center gap-3"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="font-medium truncate">{rule.name}</h4>
+                    <Badge variant={rule.action === 'block' ? 'outline' : 'secondary'}>
+                      {rule.action === 'block' ? 'Never activate' : 'Activate'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">{describeConditions(rule.conditions)}</p>
+                </div>
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(enabled) => updateAutoEnrollRule(rule.id, { enabled })}
+                  aria-label={`Enable ${rule.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => removeAutoEnrollRule(rule.id)}
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t border-border/40 pt-4 grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor="rule-name">Rule name</Label>
+            <Input id="rule-name" value={draft.name} onChange={e => update('name', e.target.value)} placeholder="Dining offers on HDFC" />
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={draft.action} onValueChange={(value) => update('action', value as RuleDraft['action'])}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="activate">Activate matching offers</SelectItem>
+                <SelectItem value="block">Never activate matching offers</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-banks">Banks</Label>
+            <Input id="rule-banks" value={draft.banks} onChange={e => update('banks', e.target.value)} placeholder="HDFC, ICICI" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-categories">Merchant categories</Label>
+            <Input id="rule-categories" value={draft.merchantCategories} onChange={e => update('merchantCategories', e.target.value)} placeholder="dining, travel" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-merchants">Merchants</Label>
+            <Input id="rule-merchants" value={draft.merchants} onChange={e => update('merchants', e.target.value)} placeholder="Swiggy" />
+          </div>
+          <div className="space-y-1">
+            <Label>Minimum value</Label>
+            <div className="flex gap-2">
+              <Select value={draft.valueType} onValueChange={(value) => update('valueType', value as RuleDraft['valueType'])}>
+                <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any type</SelectItem>
+                  <SelectItem value="percentage">%</SelectItem>
+                  <SelectItem value="fixed">₹</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input type="number" min={0} value={draft.minValue} onChange={e => update('minValue', e.target.value)} placeholder="5" />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="rule-min-spend">Only offers needing spend above (₹)</Label>
+            <Input id="rule-min-spend" type="number" min={0} value={draft.minSpendAbove} onChange={e => update('minSpendAbove', e.target.value)} placeholder="5000" />
+          </div>
+          <div className="flex items-end">
+            <Button onClick={handleAdd} className="w-full">
+              <Plus className="h-4 w-4 mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
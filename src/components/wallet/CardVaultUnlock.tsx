@@ -0,0 +1,110 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Lock, ShieldCheck } from 'lucide-react';
+import { useCardLinkedOffers } from '@/lib/card-linked/offer-engine';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/card-linked/secure-card-store';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * Sets or asks for the card vault passphrase until linked cards are unlocked on this device
+ */
+export default function CardVaultUnlock() {
+  const { vaultStatus, loadCards, unlockVault } = useCardLinkedOffers();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadCards();
+  }, [loadCards]);
+
+  if (vaultStatus === 'unlocked') {
+    return null;
+  }
+
+  const isNew = vaultStatus === 'new';
+  const validationError = isNew && passphrase.length < MIN_PASSPHRASE_LENGTH
+    ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters`
+    : isNew && passphrase !== confirmation
+      ? 'Passphrases do not match'
+      : null;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (validationError || !passphrase) return;
+
+    setIsUnlocking(true);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+      toast({
+        title: isNew ? 'Card vault created' : 'Card vault unlocked',
+        description: 'Linked cards stay unlocked on this device'
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not unlock card vault',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg mb-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {isNew ? <ShieldCheck className="h-5 w-5 text-primary" /> : <Lock className="h-5 w-5 text-primary" />}
+          {isNew ? 'Set Up Your Card Vault' : 'Unlock Your Card Vault'}
+        </CardTitle>
+        <CardDescription>
+          {isNew
+            ? 'Linked cards are encrypted with a passphrase only you know. We cannot recover it for you.'
+            : 'Enter your card vault passphrase to see linked cards and offers on this device.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4 max-w-sm">
+          <div className="space-y-2">
+            <Label htmlFor="vault-passphrase">Passphrase</Label>
+            <Input
+              id="vault-passphrase"
+              type="password"
+              autoComplete={isNew ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          {isNew && (
+            <div className="space-y-2">
+              <Label htmlFor="vault-passphrase-confirm">Confirm passphrase</Label>
+              <Input
+                id="vault-passphrase-confirm"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+          {passphrase && validationError && (
+            <p className="text-sm text-destructive">{validationError}</p>
+          )}
+          <Button type="submit" disabled={isUnlocking || !passphrase || !!validationError}>
+            {isUnlocking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {isNew ? 'Create Vault' : 'Unlock'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
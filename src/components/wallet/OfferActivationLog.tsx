@@ -0,0 +1,134 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, Calendar, RefreshCw, RotateCcw } from 'lucide-react';
+import { useCardLinkedOffers } from '@/lib/card-linked/offer-engine';
+import type { ActivationRecord } from '@/lib/card-linked/types';
+import { useToast } from '@/hooks/use-toast';
+
+export default function OfferActivationLog() {
+  const { activationLog, offers, fetchActivationHistory, retryActivation } = useCardLinkedOffers();
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [retrying, setRetrying] = useState<Set<string>>(new Set());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchActivationHistory();
+  }, [fetchActivationHistory]);
+
+  const failedActivations = Object.values(activationLog)
+    .filter(record => record.status === 'failed')
+    .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+
+  const getOfferName = (record: ActivationRecord) => {
+    const offer = offers.get(record.cardId)?.find(o => o.id === record.offerId);
+    return offer ? `${offer.merchantName} ${offer.offerType}` : record.offerId;
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await fetchActivationHistory();
+    setIsRefreshing(false);
+  };
+
+  const handleRetry = async (record: ActivationRecord) => {
+    setRetrying(prev => new Set(prev).add(record.idempotencyKey));
+
+    const success = await retryActivation(record.idempotencyKey);
+    toast({
+      title: success ? 'Offer activated' : 'Activation failed again',
+      description: success
+        ? `${getOfferName(record)} is now active on your card`
+        : useCardLinkedOffers.getState().activationLog[record.idempotencyKey]?.lastError,
+      variant: success ? 'default' : 'destructive'
+    });
+
+    setRetrying(prev => {
+      const next = new Set(prev);
+      next.delete(record.idempotencyKey);
+      return next;
+    });
+  };
+
+  if (failedActivations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg mt-4">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-red-400" />
+          Failed Offer Activations
+        </CardTitle>
+        <Button
+          onClick={handleRefresh}
+          variant="ghost"
+          size="sm"
+          disabled={isRefreshing}
+          className="h-8 w-8 p-0"
+        >
+          <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className={failedActivations.length > 3 ? 'h-[320px]' : undefined}>
+          <div className="space-y-3">
+            {failedActivations.map((record) => {
+              const isRetrying = retrying.has(record.idempotencyKey);
+              const lastAttempt = record.attempts[record.attempts.length - 1];
+
+              return (
+                <div
+                  key={record.idempotencyKey}
+                  className="border border-border/40 rounded-lg p-4 hover:border-primary/30 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h4 className="font-medium truncate">{getOfferName(record)}</h4>
+                        <Badge className="bg-red-500/20 text-red-300 border-red-500/30">
+                          Failed
+                        </Badge>
+                        {lastAttempt?.trigger?.type === 'auto-enroll' && (
+                          <Badge variant="secondary">Auto: {lastAttempt.trigger.ruleName}</Badge>
+                        )}
+                        {lastAttempt && !lastAttempt.retryable && (
+                          <Badge variant="outline">Not retryable</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {record.lastError || 'Unknown error'}
+                      </p>
+                      <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                        <Calendar className="h-3 w-3" />
+                        {new Date(record.updatedAt).toLocaleString()}
+                        <span>
+                          · {record.attempts.length} attempt{record.attempts.length === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                    </div>
+
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRetry(record)}
+                      disabled={isRetrying}
+                    >
+                      <RotateCcw className={`h-4 w-4 mr-1 ${isRetrying ? 'animate-spin' : ''}`} />
+                      Retry
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
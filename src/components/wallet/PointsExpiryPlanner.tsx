@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Hourglass, ShoppingBag, Tag } from 'lucide-react';
+import {
+  holdingFromRewardBalance,
+  holdingsFromCardVault,
+  holdingsFromLoyaltyPrograms,
+  holdingsFromUserCards,
+  mergeHoldings,
+  planPointsBurn,
+  DEFAULT_EXPIRY_HORIZON_DAYS
+} from '@/lib/points-expiry-planner';
+import { RewardIntelligence, useCardLinkedOffers } from '@/lib/card-linked/offer-engine';
+import type { LoyaltyProgram, PointsHolding, RankedOffer, UserCard, WishlistProduct } from '@/lib/types';
+import type { CardVault } from '@/types/card-vault';
+import { useToast } from '@/hooks/use-toast';
+
+const NOTIFIED_STORAGE_KEY = 'dealmate-expiry-notifications';
+
+interface PointsExpiryPlannerProps {
+  cards: UserCard[];
+  loyaltyPrograms: LoyaltyProgram[];
+  vaultCards?: CardVault[];
+  wishlist?: WishlistProduct[];
+  rankedOffers?: RankedOffer[];
+  horizonDays?: number;
+}
+
+export default function PointsExpiryPlanner({
+  cards,
+  loyaltyPrograms,
+  vaultCards = [],
+  wishlist = [],
+  rankedOffers = [],
+  horizonDays = DEFAULT_EXPIRY_HORIZON_DAYS
+}: PointsExpiryPlannerProps) {
+  const { toast } = useToast();
+  const { cards: linkedCards, rewards, rewardRules, fetchRewardBalance } = useCardLinkedOffers();
+
+  useEffect(() => {
+    linkedCards
+      .filter(card => card.isActive && !useCardLinkedOffers.getState().rewards.has(card.id))
+      .forEach(card => fetchRewardBalance(card.id));
+  }, [linkedCards, fetchRewardBalance]);
+
+  // Expiring balances the issuer reported for cards linked to offers
+  const linkedHoldings = useMemo(() => linkedCards
+    .map(card => {
+      const balance = rewards.get(card.id);
+      if (!balance) return null;
+      const rules = RewardIntelligence.getRules(card.id, rewardRules);
+      return holdingFromRewardBalance(balance, card.nickname || `${card.bank} ••${card.lastFourDigits}`, rules.unitValueInr);
+    })
+    .filter((h): h is PointsHolding => h !== null), [linkedCards, rewards, rewardRules]);
+
+  const report = useMemo(() => planPointsBurn({
+    holdings: mergeHoldings(
+      holdingsFromUserCards(cards),
+      holdingsFromCardVault(vaultCards),
+      linkedHoldings,
+      holdingsFromLoyaltyPrograms(loyaltyPrograms)
+    ),
+    wishlist,
+    rankedOffers,
+    horizonDays
+  }), [cards, vaultCards, linkedHoldings, loyaltyPrograms, wishlist, rankedOffers, horizonDays]);
+
+  // Each reminder window fires once per device
+  useEffect(() => {
+    const notified: string[] = JSON.parse(localStorage.getItem(NOTIFIED_STORAGE_KEY) || '[]');
+    const pending = report.notifications.filter(n => !notified.includes(n.id));
+    if (pending.length === 0) return;
+
+    pending.forEach(notification => {
+      toast({
+        title: notification.title,
+        description: notification.message,
+        variant: notification.severity === 'critical' ? 'destructive' : 'default'
+      });
+    });
+
+    localStorage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify([...notified, ...pending.map(n => n.id)].slice(-100)));
+  }, [report, toast]);
+
+  if (report.plans.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="shadow-lg mb-4">
+      <CardHeader>
+        <CardTitle className="text-xl flex items-center gap-2">
+          <Hourglass className="h-5 w-5 text-yellow-400" />
+          Points Expiring Soon
+        </CardTitle>
+        <CardDescription>
+          {report.totalPointsAtRisk.toLocaleString('en-IN')} points worth ₹{Math.round(report.totalValueAtRisk).toLocaleString('en-IN')} expire in the next {report.horizonDays} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {report.plans.map(plan => (
+          <div key={plan.holding.id} className="border border-border/40 rounded-lg p-4">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <h4 className="font-medium">{plan.holding.name}</h4>
+              <Badge className={plan.daysLeft <= 7
+                ? 'bg-red-500/20 text-red-300 border-red-500/30'
+                : 'bg-yellow-500/20 text-yellow-300 border-yellow-500/30'}
+              >
+                {plan.daysLeft <= 0 ? 'Expires today' : `${plan.daysLeft} day${plan.daysLeft === 1 ? '' : 's'} left`}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground mb-3">
+              {plan.holding.expiringPoints.toLocaleString('en-IN')} points · ₹{Math.round(plan.valueAtRisk).toLocaleString('en-IN')} at risk
+            </p>
+
+            {plan.suggestions.length > 0 ? (
+              <ul className="space-y-2">
+                {plan.suggestions.map(suggestion => (
+                  <li key={suggestion.itemId} className="flex items-center gap-2 text-sm">
+                    {suggestion.kind === 'wishlist'
+                      ? <ShoppingBag className="h-4 w-4 text-primary flex-shrink-0" />
+                      : <Tag className="h-4 w-4 text-primary flex-shrink-0" />}
+                    <span className="flex-1 truncate">
+                      {suggestion.productUrl ? (
+                        <a href={suggestion.productUrl} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          {suggestion.name}
+                        </a>
+                      ) : suggestion.name}
+                      <span className="text-muted-foreground"> on {suggestion.platform}</span>
+                    </span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {suggestion.pointsUsed.toLocaleString('en-IN')} pts → ₹{Math.round(suggestion.rupeeValue).toLocaleString('en-IN')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Nothing on your wishlist or in current offers can use these points. Redeem them directly before they lapse.
+              </p>
+            )}
+
+            {plan.suggestions.length > 0 && plan.pointsUnplanned > 0 && (
+              <p className="text-xs text-muted-foreground mt-2">
+                {plan.pointsUnplanned.toLocaleString('en-IN')} points still unplanned.
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
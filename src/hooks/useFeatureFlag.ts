@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect } from 'react';
+import { evaluateFlag, type FlagContext } from '@/lib/feature-flags/evaluate';
+import { FLAG_REFRESH_MS, useFeatureFlagStore } from '@/lib/feature-flags/client';
+import { FEATURE_FLAGS, type FlagKey, type FlagValueOf } from '@/lib/feature-flags/registry';
+
+/**
+ * A flag's value for the current (or given) user. Serves the registry default until the
+ * config has loaded, then follows config changes while the component is mounted.
+ */
+export function useFeatureFlag<K extends FlagKey>(
+  key: K,
+  context: FlagContext = {}
+): { value: FlagValueOf<K>; loading: boolean } {
+  const config = useFeatureFlagStore(state => state.config);
+  const serverUserId = useFeatureFlagStore(state => state.userId);
+  const load = useFeatureFlagStore(state => state.load);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(() => load(), FLAG_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  if (!config) {
+    return { value: FEATURE_FLAGS[key].defaultValue as FlagValueOf<K>, loading: true };
+  }
+
+  return {
+    value: evaluateFlag(key, config, { userId: context.userId ?? serverUserId }),
+    loading: false
+  };
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth0 } from '@auth0/auth0-react';
 import { RecommendationsResponse, Recommendation } from '@/types/recommendations';
 import RecommendationsService from '@/services/recommendations';
-import { isFeatureEnabled } from '@/lib/feature-toggles-client';
+import { isFeatureEnabled } from '@/lib/feature-flags/client';
 
 interface UseRecommendationsOptions {
   autoRefresh?: boolean;
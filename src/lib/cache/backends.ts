@@ -0,0 +1,121 @@
+/**
+ * Cache backends
+ * In-memory LRU by default. The file backend survives restarts on a single server;
+ * Redis shares one cache between instances.
+ */
+
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { CacheBackend, CacheEntry } from './types';
+
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 5000) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.staleUntil) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    // Re-insert so iteration order is least recently used first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+export class FileCacheBackend implements CacheBackend {
+  private store: JsonFileStore<Record<string, CacheEntry>>;
+
+  constructor(fileName = 'comparison-cache.json', private maxEntries = 2000) {
+    this.store = new JsonFileStore(fileName, () => ({}));
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = (await this.store.read())[key];
+    return entry && Date.now() < entry.staleUntil ? (entry as CacheEntry<T>) : null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.store.update(entries => {
+      const now = Date.now();
+      Object.keys(entries).forEach(k => {
+        if (now >= entries[k].staleUntil) delete entries[k];
+      });
+      entries[key] = entry;
+
+      // Oldest first once over the cap
+      const keys = Object.keys(entries);
+      if (keys.length > this.maxEntries) {
+        keys
+          .sort((a, b) => entries[a].storedAt - entries[b].storedAt)
+          .slice(0, keys.length - this.maxEntries)
+          .forEach(k => delete entries[k]);
+      }
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.update(entries => {
+      delete entries[key];
+    });
+  }
+}
+
+// The subset of ioredis / node-redis the backend needs
+export interface RedisClientLike {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', ttlMs: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  constructor(private client: RedisClientLike, private prefix = 'dealmate:cache:') {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const raw = await this.client.get(this.prefix + key);
+    return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    const ttlMs = entry.staleUntil - Date.now();
+    if (ttlMs <= 0) return;
+    await this.client.set(this.prefix + key, JSON.stringify(entry), 'PX', Math.ceil(ttlMs));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+let backend: CacheBackend | null = null;
+
+/**
+ * The process-wide backend: DEALMATE_CACHE_BACKEND=file for the file backend, memory otherwise.
+ * Redis needs a client, so deployments that use it call setCacheBackend at startup.
+ */
+export function getCacheBackend(): CacheBackend {
+  if (!backend) {
+    backend = process.env.DEALMATE_CACHE_BACKEND === 'file' ? new FileCacheBackend() : new MemoryCacheBackend();
+  }
+  return backend;
+}
+
+export function setCacheBackend(next: CacheBackend): void {
+  backend = next;
+}
@@ -0,0 +1,77 @@
+/**
+ * Stale-while-revalidate cache
+ * Fresh values are served from the backend; stale ones are served while one refresh runs
+ * in the background; identical loads in flight are shared rather than repeated.
+ */
+
+import { getCacheBackend } from './backends';
+import type { CacheBackend, CacheEntry, CacheMeta, CachePolicy } from './types';
+
+export interface CachedValue<T> {
+  value: T;
+  meta: CacheMeta;
+}
+
+export class SwrCache {
+  private inFlight = new Map<string, Promise<CacheEntry<unknown>>>();
+
+  constructor(private namespace: string, private backend: () => CacheBackend = getCacheBackend) {}
+
+  async get<T>(key: string, policy: CachePolicy, load: () => Promise<T>): Promise<CachedValue<T>> {
+    const fullKey = `${this.namespace}:${key}`;
+    const now = Date.now();
+
+    // A broken backend means no caching, not a failed request
+    const entry = await this.backend().get<T>(fullKey).catch(error => {
+      console.error(`Error reading cache entry ${fullKey}:`, error);
+      return null;
+    });
+
+    if (entry && now < entry.freshUntil) {
+      return { value: entry.value, meta: toMeta(entry, 'hit', now) };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.refresh(fullKey, policy, load).catch(error => {
+        console.error(`Error revalidating cache entry ${fullKey}:`, error);
+      });
+      return { value: entry.value, meta: toMeta(entry, 'stale', now) };
+    }
+
+    const joined = this.inFlight.has(fullKey);
+    const loaded = (await this.refresh(fullKey, policy, load)) as CacheEntry<T>;
+    return { value: loaded.value, meta: toMeta(loaded, joined ? 'coalesced' : 'miss', Date.now()) };
+  }
+
+  async invalidate(key: string): Promise<void> {
+    await this.backend().delete(`${this.namespace}:${key}`);
+  }
+
+  // One load per key at a time; failures are not cached
+  private refresh<T>(fullKey: string, policy: CachePolicy, load: () => Promise<T>): Promise<CacheEntry<unknown>> {
+    const pending = this.inFlight.get(fullKey);
+    if (pending) return pending;
+
+    const run = (async () => {
+      const value = await load();
+      const storedAt = Date.now();
+      const entry: CacheEntry<T> = {
+        value,
+        storedAt,
+        freshUntil: storedAt + policy.ttlMs,
+        staleUntil: storedAt + policy.ttlMs + policy.staleMs
+      };
+      await this.backend().set(fullKey, entry).catch(error => {
+        console.error(`Error writing cache entry ${fullKey}:`, error);
+      });
+      return entry as CacheEntry<unknown>;
+    })().finally(() => this.inFlight.delete(fullKey));
+
+    this.inFlight.set(fullKey, run);
+    return run;
+  }
+}
+
+function toMeta(entry: CacheEntry<unknown>, status: CacheMeta['status'], now: number): CacheMeta {
+  return { status, storedAt: new Date(entry.storedAt).toISOString(), ageMs: Math.max(0, now - entry.storedAt) };
+}
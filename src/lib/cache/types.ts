@@ -0,0 +1,32 @@
+/**
+ * Cache types
+ * Backends only store entries; freshness, revalidation and coalescing live in SwrCache
+ * so every backend behaves the same.
+ */
+
+// Types
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;
+  freshUntil: number; // Served as-is until then
+  staleUntil: number; // Then served while a refresh runs, until dropped here
+}
+
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CachePolicy {
+  ttlMs: number; // How long a value is fresh
+  staleMs: number; // How long past that it may still be served while it is refreshed
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'coalesced';
+
+export interface CacheMeta {
+  status: CacheStatus; // 'coalesced': joined an identical request already in flight
+  storedAt: string;
+  ageMs: number;
+}
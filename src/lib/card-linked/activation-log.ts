@@ -0,0 +1,90 @@
+/**
+ * Offer Activation Log
+ * Server-side record of every activation attempt, keyed per user by idempotency key
+ */
+
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { ActivationAttempt, ActivationRecord, ActivationRequest } from './types';
+
+// A pending attempt older than this is assumed to have died mid-request
+const PENDING_TIMEOUT_MS = 30000;
+const MAX_RECORDS_PER_USER = 500;
+
+type ActivationData = Record<string, Record<string, ActivationRecord>>;
+
+const store = new JsonFileStore<ActivationData>('offer-activations.json', () => ({}));
+
+export type BeginResult =
+  | { state: 'started'; record: ActivationRecord; attempt: number }
+  | { state: 'succeeded'; record: ActivationRecord }
+  | { state: 'in-progress'; record: ActivationRecord };
+
+export const activationLog = {
+  /**
+   * Claim a key for a new attempt unless it already succeeded or is in flight
+   */
+  async begin(userId: string, key: string, request: ActivationRequest): Promise<BeginResult> {
+    return store.update<BeginResult>(data => {
+      const records = data[userId] || (data[userId] = {});
+      const now = new Date().toISOString();
+      const existing = records[key];
+
+      if (existing?.status === 'succeeded') {
+        return { state: 'succeeded', record: existing };
+      }
+      if (existing?.status === 'pending' && Date.now() - Date.parse(existing.updatedAt) < PENDING_TIMEOUT_MS) {
+        return { state: 'in-progress', record: existing };
+      }
+
+      const record: ActivationRecord = existing
+        ? { ...existing, status: 'pending', updatedAt: now }
+        : {
+            idempotencyKey: key,
+            offerId: request.offerId,
+            cardId: request.cardId,
+            status: 'pending',
+            attempts: [],
+            createdAt: now,
+            updatedAt: now
+          };
+
+      records[key] = record;
+      pruneOldest(records);
+      return { state: 'started', record, attempt: record.attempts.length + 1 };
+    });
+  },
+
+  async complete(
+    userId: string,
+    key: string,
+    attempt: ActivationAttempt,
+    activationId?: string
+  ): Promise<ActivationRecord> {
+    return store.update(data => {
+      const record = data[userId][key];
+      record.attempts.push(attempt);
+      record.status = attempt.status;
+      record.updatedAt = attempt.finishedAt;
+      record.lastError = attempt.status === 'failed' ? attempt.error : undefined;
+      if (activationId) record.activationId = activationId;
+      return record;
+    });
+  },
+
+  async list(userId: string, status?: ActivationRecord['status']): Promise<ActivationRecord[]> {
+    const data = await store.read();
+    return Object.values(data[userId] || {})
+      .filter(r => !status || r.status === status)
+      .sort((a, b) => Date.parse(b.updatedAt) - Date.parse(a.updatedAt));
+  }
+};
+
+function pruneOldest(records: Record<string, ActivationRecord>): void {
+  const keys = Object.keys(records);
+  if (keys.length <= MAX_RECORDS_PER_USER) return;
+
+  keys
+    .sort((a, b) => Date.parse(records[a].updatedAt) - Date.parse(records[b].updatedAt))
+    .slice(0, keys.length - MAX_RECORDS_PER_USER)
+    .forEach(key => delete records[key]);
+}
@@ -0,0 +1,105 @@
+/**
+ * Auto-Enrollment Rules
+ * User-defined rules that activate (or hold back) card-linked offers without a manual tap
+ * e.g. "activate dining offers on my HDFC card worth >= 5%" or
+ * "never activate offers needing more than ₹5000 spend"
+ */
+
+import type { CardDetails, LinkedOffer } from './offer-engine';
+import { getActivationKey, type ActivationRecord } from './types';
+
+// Types
+export interface AutoEnrollConditions {
+  cardIds?: string[];
+  banks?: string[];
+  merchantCategories?: string[];
+  merchants?: string[];
+  offerTypes?: LinkedOffer['offerType'][];
+  valueType?: LinkedOffer['valueType']; // minValue is compared in this unit
+  minValue?: number; // Requires valueType
+  minSpendAbove?: number; // Matches offers whose minimum spend exceeds this
+}
+
+export interface AutoEnrollRule {
+  id: string;
+  name: string;
+  action: 'activate' | 'block'; // Block rules veto any activate rule
+  enabled: boolean;
+  conditions: AutoEnrollConditions;
+  createdAt: string;
+}
+
+export interface AutoEnrollDecision {
+  offer: LinkedOffer;
+  rule: AutoEnrollRule;
+}
+
+/**
+ * Why a rule's conditions can't be saved, or null when they can
+ */
+export function validateAutoEnrollConditions(conditions: AutoEnrollConditions): string | null {
+  if (conditions.minValue !== undefined && !conditions.valueType) {
+    return 'Choose % or ₹ for the minimum value';
+  }
+  return null;
+}
+
+const includesIgnoreCase = (values: string[], value: string) =>
+  values.some(v => v.toLowerCase() === value.toLowerCase());
+
+export class AutoEnrollEngine {
+  static matches(rule: AutoEnrollRule, offer: LinkedOffer, card: CardDetails | undefined): boolean {
+    const c = rule.conditions;
+
+    if (c.cardIds?.length && !c.cardIds.includes(offer.cardId)) return false;
+    if (c.banks?.length && (!card || !includesIgnoreCase(c.banks, card.bank))) return false;
+    if (c.merchantCategories?.length && !includesIgnoreCase(c.merchantCategories, offer.merchantCategory)) return false;
+    if (c.merchants?.length && !includesIgnoreCase(c.merchants, offer.merchantName)) return false;
+    if (c.offerTypes?.length && !c.offerTypes.includes(offer.offerType)) return false;
+    if (c.valueType && offer.valueType !== c.valueType) return false;
+    // A % and a ₹ value can't be compared, so a minimum without its unit never matches
+    if (c.minValue !== undefined && (!c.valueType || offer.value < c.minValue)) return false;
+    if (c.minSpendAbove !== undefined && (offer.minSpend || 0) <= c.minSpendAbove) return false;
+
+    return true;
+  }
+
+  /**
+   * Pick the offers to activate and the first activate rule that selected each one.
+   * Skips activated or expired offers and ones the issuer already rejected outright.
+   */
+  static evaluate(
+    rules: AutoEnrollRule[],
+    offers: LinkedOffer[],
+    cards: CardDetails[],
+    activationLog: Record<string, ActivationRecord> = {},
+    at: Date = new Date()
+  ): AutoEnrollDecision[] {
+    const enabled = rules.filter(r => r.enabled);
+    const activateRules = enabled.filter(r => r.action === 'activate');
+    const blockRules = enabled.filter(r => r.action === 'block');
+    if (activateRules.length === 0) return [];
+
+    const cardsById = new Map(cards.map(c => [c.id, c]));
+    const decisions: AutoEnrollDecision[] = [];
+
+    for (const offer of offers) {
+      if (offer.isActivated || new Date(offer.validUntil) < at) continue;
+
+      const previous = activationLog[getActivationKey(offer.id, offer.cardId)];
+      const lastAttempt = previous?.attempts[previous.attempts.length - 1];
+      if (previous?.status === 'succeeded' || (previous?.status === 'failed' && lastAttempt && !lastAttempt.retryable)) {
+        continue;
+      }
+
+      const card = cardsById.get(offer.cardId);
+      if (card && !card.isActive) continue;
+      if (blockRules.some(r => this.matches(r, offer, card))) continue;
+
+      const rule = activateRules.find(r => this.matches(r, offer, card));
+      if (rule) decisions.push({ offer, rule });
+    }
+
+    return decisions;
+  }
+}
@@ -7,6 +7,27 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { globalDataCache } from '@/lib/performance/lazy-loader';
+import {
+  RewardRuleEngine,
+  DEFAULT_TIERS,
+  defaultRewardRules,
+  rulesFromCardVault,
+  type CardRewardRules,
+  type CardSpendState,
+  type SpendRecord
+} from './reward-rules';
+import { cardsApi } from '@/lib/api/cards';
+import { secureCardStore, stashLegacyCards, getRequestHeaders, type CardVaultStatus } from './secure-card-store';
+import {
+  getActivationKey,
+  type ActivationAttempt,
+  type ActivationHistoryResponse,
+  type ActivationRecord,
+  type ActivationResponse,
+  type ActivationStatus,
+  type ActivationTrigger
+} from './types';
+import { AutoEnrollEngine, validateAutoEnrollConditions, type AutoEnrollRule } from './auto-enroll';
 
 // Types
 export interface CardDetails {
@@ -59,52 +80,28 @@ export interface OfferRecommendation {
   confidence: number;
 }
 
-// Secure Card Storage (using encryption in production)
-class SecureCardStorage {
-  private static STORAGE_KEY = 'dealmate-secure-cards';
-
-  static saveCard(card: CardDetails): void {
-    const cards = this.getCards();
-    cards.push(card);
-    // In production, encrypt before storing
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(cards));
-  }
-
-  static getCards(): CardDetails[] {
-    const stored = localStorage.getItem(this.STORAGE_KEY);
-    if (!stored) return [];
-    // In production, decrypt after retrieving
-    return JSON.parse(stored);
-  }
-
-  static deleteCard(cardId: string): void {
-    const cards = this.getCards().filter(c => c.id !== cardId);
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(cards));
-  }
-
-  static updateCard(cardId: string, updates: Partial<CardDetails>): void {
-    const cards = this.getCards();
-    const index = cards.findIndex(c => c.id === cardId);
-    if (index >= 0) {
-      cards[index] = { ...cards[index], ...updates };
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(cards));
-    }
-  }
-}
-
 // Offer Activation Engine
-class OfferActivationEngine {
-  private static activationQueue: Map<string, Promise<boolean>> = new Map();
-
-  static async activateOffer(offerId: string, cardId: string): Promise<boolean> {
-    const key = `${offerId}-${cardId}`;
+const ACTIVATION_ENDPOINT = '/api/card-offers/activate';
+const MAX_ACTIVATION_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+export class OfferActivationEngine {
+  private static activationQueue: Map<string, Promise<ActivationRecord>> = new Map();
+
+  static async activateOffer(
+    offerId: string,
+    cardId: string,
+    trigger: ActivationTrigger = { type: 'manual' }
+  ): Promise<ActivationRecord> {
+    const key = getActivationKey(offerId, cardId);
     
     // Check if already activating
     if (this.activationQueue.has(key)) {
       return this.activationQueue.get(key)!;
     }
 
-    const activationPromise = this.performActivation(offerId, cardId);
+    const activationPromise = this.performActivation(offerId, cardId, key, trigger);
     this.activationQueue.set(key, activationPromise);
 
     try {
@@ -115,24 +112,105 @@ class OfferActivationEngine {
     }
   }
 
-  private static async performActivation(offerId: string, cardId: string): Promise<boolean> {
-    try {
-      const response = await fetch('/api/card-offers/activate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ offerId, cardId })
-      });
+  /**
+   * Post the activation, retrying transient failures with exponential backoff.
+   * The idempotency key lets the server replay a success instead of re-enrolling.
+   */
+  private static async performActivation(
+    offerId: string,
+    cardId: string,
+    key: string,
+    trigger: ActivationTrigger
+  ): Promise<ActivationRecord> {
+    const localAttempts: ActivationAttempt[] = [];
+    let lastRecord: ActivationRecord | null = null;
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date().toISOString();
+      let response: Response | null = null;
+      let result: ActivationResponse | null = null;
+      let networkError: string | undefined;
+
+      try {
+        response = await fetch(ACTIVATION_ENDPOINT, {
+          method: 'POST',
+          headers: { ...getRequestHeaders(), 'Idempotency-Key': key },
+          body: JSON.stringify({ offerId, cardId, trigger })
+        });
+        result = await response.json().catch(() => null);
+      } catch (error) {
+        networkError = (error as Error).message;
+      }
 
-      if (!response.ok) throw new Error('Activation failed');
-      
-      const result = await response.json();
-      return result.success;
-    } catch (error) {
-      console.error('Offer activation error:', error);
-      return false;
+      if (result?.record) {
+        lastRecord = result.record;
+        if (result.success) return result.record;
+      }
+
+      const status = response?.status;
+      const retryable = !response || status === 409 || status === 429 || (status ?? 0) >= 500;
+
+      // Keep our own trail when the server never recorded the attempt
+      if (!result?.record) {
+        localAttempts.push({
+          attempt,
+          trigger,
+          status: 'failed',
+          httpStatus: status,
+          error: networkError ? `Network error: ${networkError}` : `HTTP ${status}`,
+          retryable,
+          startedAt,
+          finishedAt: new Date().toISOString()
+        });
+      }
+
+      if (!retryable || attempt >= MAX_ACTIVATION_ATTEMPTS) {
+        if (lastRecord && lastRecord.status !== 'pending') return lastRecord;
+        return this.createLocalFailure(offerId, cardId, key, localAttempts, result?.error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.getRetryDelay(attempt, response)));
     }
   }
 
+  private static getRetryDelay(attempt: number, response: Response | null): number {
+    const retryAfter = Number(response?.headers.get('Retry-After'));
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+
+    // Full jitter keeps a batch of failed activations from retrying in lockstep
+    const ceiling = Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+    return Math.random() * ceiling;
+  }
+
+  private static createLocalFailure(
+    offerId: string,
+    cardId: string,
+    key: string,
+    attempts: ActivationAttempt[],
+    error?: string
+  ): ActivationRecord {
+    const now = new Date().toISOString();
+    return {
+      idempotencyKey: key,
+      offerId,
+      cardId,
+      status: 'failed',
+      lastError: error || attempts[attempts.length - 1]?.error || 'Activation failed',
+      attempts,
+      createdAt: attempts[0]?.startedAt || now,
+      updatedAt: now
+    };
+  }
+
+  static async fetchHistory(status?: ActivationStatus): Promise<ActivationRecord[]> {
+    const query = status ? `?status=${status}` : '';
+    const response = await fetch(`/api/card-offers/activations${query}`, { headers: getRequestHeaders() });
+    if (!response.ok) throw new Error('Failed to fetch activation history');
+
+    const { activations }: ActivationHistoryResponse = await response.json();
+    return activations;
+  }
+
   static async activateMultiple(offers: Array<{ offerId: string; cardId: string }>): Promise<Map<string, boolean>> {
     const results = new Map<string, boolean>();
     
@@ -141,7 +219,7 @@ class OfferActivationEngine {
     
     for (const batch of batches) {
       const promises = batch.map(({ offerId, cardId }) => 
-        this.activateOffer(offerId, cardId).then(success => ({ offerId, success }))
+        this.activateOffer(offerId, cardId).then(record => ({ offerId, success: record.status === 'succeeded' }))
       );
       
       const batchResults = await Promise.all(promises);
@@ -153,7 +231,7 @@ class OfferActivationEngine {
     return results;
   }
 
-  private static createBatches<T>(items: T[], batchSize: number): T[][] {
+  static createBatches<T>(items: T[], batchSize: number): T[][] {
     const batches: T[][] = [];
     for (let i = 0; i < items.length; i += batchSize) {
       batches.push(items.slice(i, i + batchSize));
@@ -163,13 +241,43 @@ class OfferActivationEngine {
 }
 
 // Reward Intelligence
-class RewardIntelligence {
+export class RewardIntelligence {
+  static readonly BASE_REWARD_RATE = 0.01; // Used for cards without earn rules
+
+  /**
+   * Earn rules for a card, falling back to the flat default rate
+   */
+  static getRules(cardId: string, rewardRules: Record<string, CardRewardRules> = {}): CardRewardRules {
+    return rewardRules[cardId] || defaultRewardRules(cardId, this.BASE_REWARD_RATE);
+  }
+
+  /**
+   * Activated, in-date offers on a card that apply to this merchant or category
+   */
+  static getEligibleOffers(
+    card: CardDetails,
+    offers: LinkedOffer[],
+    merchant: string,
+    category: string,
+    at: Date = new Date()
+  ): LinkedOffer[] {
+    return offers.filter(o =>
+      o.cardId === card.id &&
+      o.isActivated &&
+      new Date(o.validFrom) <= at &&
+      new Date(o.validUntil) >= at &&
+      (o.merchantName === merchant || o.merchantCategory === category)
+    );
+  }
+
   static calculateOptimalCard(
     purchaseAmount: number,
     merchant: string,
     category: string,
     cards: CardDetails[],
-    offers: LinkedOffer[]
+    offers: LinkedOffer[],
+    rewardRules: Record<string, CardRewardRules> = {},
+    spendStates: Record<string, CardSpendState> = {}
   ): { cardId: string; totalReward: number; breakdown: string[] } | null {
     let bestCard = null;
     let maxReward = 0;
@@ -178,41 +286,43 @@ class RewardIntelligence {
     for (const card of cards) {
       if (!card.isActive) continue;
 
-      const cardOffers = offers.filter(o => 
-        o.cardId === card.id && 
-        o.isActivated &&
-        new Date(o.validFrom) <= new Date() &&
-        new Date(o.validUntil) >= new Date() &&
-        (!o.minSpend || purchaseAmount >= o.minSpend)
-      );
+      const cardOffers = this.getEligibleOffers(card, offers, merchant, category)
+        .filter(o => !o.minSpend || purchaseAmount >= o.minSpend);
 
       let totalReward = 0;
       const breakdown: string[] = [];
 
-      // Calculate base rewards (assumed 1% default)
-      const baseReward = purchaseAmount * 0.01;
-      totalReward += baseReward;
+      // Calculate rewards from the card's earn rules
+      const rules = this.getRules(card.id, rewardRules);
+      const earned = RewardRuleEngine.evaluate(
+        rules,
+        { amount: purchaseAmount, merchant, category },
+        spendStates[card.id]
+      );
+      const baseReward = earned.units * rules.unitValueInr;
+      totalReward += earned.valueInr;
       breakdown.push(`Base reward: ${baseReward.toFixed(2)}`);
+      if (earned.milestoneUnits > 0) {
+        breakdown.push(`Milestone bonus: ${(earned.milestoneUnits * rules.unitValueInr).toFixed(2)}`);
+      }
 
       // Apply offers
       for (const offer of cardOffers) {
-        if (offer.merchantName === merchant || offer.merchantCategory === category) {
-          let offerReward = 0;
-          
-          if (offer.valueType === 'percentage') {
-            offerReward = purchaseAmount * (offer.value / 100);
-            if (offer.maxBenefit) {
-              offerReward = Math.min(offerReward, offer.maxBenefit);
-            }
-          } else if (offer.valueType === 'fixed') {
-            offerReward = offer.value;
-          } else if (offer.valueType === 'multiplier') {
-            offerReward = baseReward * (offer.value - 1); // Additional reward
-          }
+        let offerReward = 0;
 
-          totalReward += offerReward;
-          breakdown.push(`${offer.merchantName} offer: ${offerReward.toFixed(2)}`);
+        if (offer.valueType === 'percentage') {
+          offerReward = purchaseAmount * (offer.value / 100);
+          if (offer.maxBenefit) {
+            offerReward = Math.min(offerReward, offer.maxBenefit);
+          }
+        } else if (offer.valueType === 'fixed') {
+          offerReward = offer.value;
+        } else if (offer.valueType === 'multiplier') {
+          offerReward = baseReward * (offer.value - 1); // Additional reward
         }
+
+        totalReward += offerReward;
+        breakdown.push(`${offer.merchantName} offer: ${offerReward.toFixed(2)}`);
       }
 
       if (totalReward > maxReward) {
@@ -231,82 +341,144 @@ class RewardIntelligence {
 
   static predictNextTierBenefit(
     balance: RewardBalance,
-    monthlySpend: number
+    monthlySpend: number,
+    rewardRules: Record<string, CardRewardRules> = {}
   ): { monthsToNextTier: number; additionalBenefits: string[] } {
-    const pointsNeeded = balance.nextTierThreshold - balance.tierProgress;
-    const monthlyPoints = monthlySpend * 0.01; // Assuming 1 point per dollar
-    const monthsToNextTier = Math.ceil(pointsNeeded / monthlyPoints);
-
-    // Simulated tier benefits
-    const tierBenefits: Record<string, string[]> = {
-      'silver': ['2x points on dining', '1.5x points on gas'],
-      'gold': ['3x points on dining', '2x points on gas', 'Free airport lounge access'],
-      'platinum': ['4x points on dining', '3x points on gas', 'Free hotel night annually']
-    };
+    const rules = this.getRules(balance.cardId, rewardRules);
+    const tiers = rules.tiers || DEFAULT_TIERS;
+    const nextTier = this.getNextTier(balance.tier, tiers);
 
-    const nextTier = this.getNextTier(balance.tier);
-    const additionalBenefits = tierBenefits[nextTier] || [];
+    const pointsNeeded = Math.max(0, balance.nextTierThreshold - balance.tierProgress);
+    const monthlyPoints = monthlySpend * rules.baseRate;
+    const monthsToNextTier = pointsNeeded === 0
+      ? 0
+      : monthlyPoints > 0 ? Math.ceil(pointsNeeded / monthlyPoints) : Infinity;
 
-    return { monthsToNextTier, additionalBenefits };
+    return { monthsToNextTier, additionalBenefits: nextTier?.benefits || [] };
   }
 
-  private static getNextTier(currentTier: string): string {
-    const tiers = ['bronze', 'silver', 'gold', 'platinum'];
-    const currentIndex = tiers.indexOf(currentTier.toLowerCase());
-    return currentIndex < tiers.length - 1 ? tiers[currentIndex + 1] : 'platinum';
+  private static getNextTier(currentTier: string, tiers: typeof DEFAULT_TIERS) {
+    const currentIndex = tiers.findIndex(t => t.name.toLowerCase() === currentTier.toLowerCase());
+    return currentIndex < tiers.length - 1 ? tiers[currentIndex + 1] : tiers[tiers.length - 1];
   }
 }
 
 // Card-Linked Offer Store
 interface CardLinkedStore {
   cards: CardDetails[];
+  vaultStatus: CardVaultStatus;
   offers: Map<string, LinkedOffer[]>;
   rewards: Map<string, RewardBalance>;
+  rewardRules: Record<string, CardRewardRules>;
+  spendStates: Record<string, CardSpendState>;
+  activationLog: Record<string, ActivationRecord>; // Keyed by idempotency key
+  autoEnrollRules: AutoEnrollRule[];
   recommendations: OfferRecommendation[];
   loading: boolean;
   error: Error | null;
 
   // Actions
-  addCard: (card: Omit<CardDetails, 'id' | 'addedAt'>) => void;
-  removeCard: (cardId: string) => void;
+  loadCards: () => Promise<void>;
+  unlockVault: (passphrase: string) => Promise<void>;
+  addCard: (card: Omit<CardDetails, 'id' | 'addedAt'>) => Promise<void>;
+  removeCard: (cardId: string) => Promise<void>;
   fetchOffers: (cardId: string) => Promise<void>;
-  activateOffer: (offerId: string, cardId: string) => Promise<boolean>;
+  activateOffer: (offerId: string, cardId: string, trigger?: ActivationTrigger) => Promise<boolean>;
+  retryActivation: (idempotencyKey: string) => Promise<boolean>;
+  fetchActivationHistory: () => Promise<void>;
+  addAutoEnrollRule: (rule: Omit<AutoEnrollRule, 'id' | 'createdAt'>) => void;
+  updateAutoEnrollRule: (ruleId: string, updates: Partial<AutoEnrollRule>) => void;
+  removeAutoEnrollRule: (ruleId: string) => void;
+  runAutoEnroll: (cardId?: string) => Promise<ActivationRecord[]>;
   fetchRewardBalance: (cardId: string) => Promise<void>;
+  setRewardRules: (cardId: string, rules: CardRewardRules) => void;
+  syncVaultRewardRules: () => Promise<void>;
+  fetchSpendHistory: (cardId: string) => Promise<void>;
   calculateBestCard: (amount: number, merchant: string, category: string) => any;
   syncAllOffers: () => Promise<void>;
   generateRecommendations: (offers: LinkedOffer[]) => OfferRecommendation[];
 }
 
+type PersistedCardLinkedState = Pick<CardLinkedStore, 'rewardRules' | 'activationLog' | 'autoEnrollRules'>;
+
+// Auto-enroll runs in flight per card, and cards to run again once theirs finishes
+const autoEnrollRuns = new Map<string, Promise<void>>();
+const autoEnrollReruns = new Set<string>();
+
+/**
+ * Run auto-enroll for a card in the background. Offers that are already activated
+ * are skipped by the engine, so running on every fetch only activates new matches.
+ */
+function scheduleAutoEnroll(
+  get: () => CardLinkedStore,
+  set: (partial: Partial<CardLinkedStore>) => void,
+  cardId: string
+): void {
+  if (autoEnrollRuns.has(cardId)) {
+    autoEnrollReruns.add(cardId);
+    return;
+  }
+
+  const run = get().runAutoEnroll(cardId)
+    .then(() => undefined, error => set({ error: error as Error }))
+    .finally(() => {
+      autoEnrollRuns.delete(cardId);
+      if (autoEnrollReruns.delete(cardId)) scheduleAutoEnroll(get, set, cardId);
+    });
+  autoEnrollRuns.set(cardId, run);
+}
+
 export const useCardLinkedOffers = create<CardLinkedStore>()(
   persist(
     (set, get) => ({
-      cards: SecureCardStorage.getCards(),
+      cards: [],
+      vaultStatus: 'new',
       offers: new Map(),
       rewards: new Map(),
+      rewardRules: {},
+      spendStates: {},
+      activationLog: {},
+      autoEnrollRules: [],
       recommendations: [],
       loading: false,
       error: null,
 
-      addCard: (cardData) => {
+      loadCards: async () => {
+        try {
+          const cards = await secureCardStore.load();
+          set({ cards, vaultStatus: secureCardStore.getStatus() });
+        } catch (error) {
+          set({ error: error as Error });
+        }
+      },
+
+      unlockVault: async (passphrase) => {
+        const cards = await secureCardStore.unlock(passphrase);
+        set({ cards, vaultStatus: secureCardStore.getStatus(), error: null });
+      },
+
+      addCard: async (cardData) => {
         const card: CardDetails = {
           ...cardData,
           id: `card-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
           addedAt: new Date().toISOString()
         };
         
-        SecureCardStorage.saveCard(card);
-        set((state) => ({ cards: [...state.cards, card] }));
+        await secureCardStore.saveCard(card);
+        set({ cards: secureCardStore.getCards() });
         
         // Fetch offers for new card
         get().fetchOffers(card.id);
       },
 
-      removeCard: (cardId) => {
-        SecureCardStorage.deleteCard(cardId);
+      removeCard: async (cardId) => {
+        await secureCardStore.deleteCard(cardId);
         set((state) => ({
-          cards: state.cards.filter(c => c.id !== cardId),
+          cards: secureCardStore.getCards(),
           offers: new Map(Array.from(state.offers.entries()).filter(([id]) => id !== cardId)),
-          rewards: new Map(Array.from(state.rewards.entries()).filter(([id]) => id !== cardId))
+          rewards: new Map(Array.from(state.rewards.entries()).filter(([id]) => id !== cardId)),
+          rewardRules: Object.fromEntries(Object.entries(state.rewardRules).filter(([id]) => id !== cardId)),
+          spendStates: Object.fromEntries(Object.entries(state.spendStates).filter(([id]) => id !== cardId))
         }));
       },
 
@@ -316,6 +488,7 @@ export const useCardLinkedOffers = create<CardLinkedStore>()(
           set((state) => ({
             offers: new Map(state.offers).set(cardId, cached)
           }));
+          scheduleAutoEnroll(get, set, cardId);
           return;
         }
 
@@ -337,32 +510,104 @@ export const useCardLinkedOffers = create<CardLinkedStore>()(
           // Generate recommendations
           const recommendations = get().generateRecommendations(offers);
           set({ recommendations });
+
+          scheduleAutoEnroll(get, set, cardId);
         } catch (error) {
           set({ error: error as Error, loading: false });
         }
       },
 
-      activateOffer: async (offerId, cardId) => {
-        const success = await OfferActivationEngine.activateOffer(offerId, cardId);
+      activateOffer: async (offerId, cardId, trigger) => {
+        const record = await OfferActivationEngine.activateOffer(offerId, cardId, trigger);
+        const success = record.status === 'succeeded';
         
-        if (success) {
-          set((state) => {
-            const offers = state.offers.get(cardId) || [];
-            const updatedOffers = offers.map(o => 
-              o.id === offerId 
-                ? { ...o, isActivated: true, activationDate: new Date().toISOString() }
-                : o
-            );
-            
-            return {
-              offers: new Map(state.offers).set(cardId, updatedOffers)
-            };
-          });
-        }
+        set((state) => {
+          const activationLog = { ...state.activationLog, [record.idempotencyKey]: record };
+          if (!success) return { activationLog };
+
+          const offers = state.offers.get(cardId) || [];
+          const updatedOffers = offers.map(o => 
+            o.id === offerId 
+              ? { ...o, isActivated: true, activationDate: record.updatedAt }
+              : o
+          );
+          
+          return {
+            activationLog,
+            offers: new Map(state.offers).set(cardId, updatedOffers)
+          };
+        });
         
         return success;
       },
 
+      retryActivation: async (idempotencyKey) => {
+        const record = get().activationLog[idempotencyKey];
+        if (!record) return false;
+        return get().activateOffer(record.offerId, record.cardId);
+      },
+
+      fetchActivationHistory: async () => {
+        try {
+          const activations = await OfferActivationEngine.fetchHistory();
+          
+          // Server records win; failures it never saw (offline) stay visible
+          set((state) => ({
+            activationLog: {
+              ...state.activationLog,
+              ...Object.fromEntries(activations.map(a => [a.idempotencyKey, a]))
+            }
+          }));
+        } catch (error) {
+          set({ error: error as Error });
+        }
+      },
+
+      addAutoEnrollRule: (rule) => {
+        const invalid = validateAutoEnrollConditions(rule.conditions);
+        if (invalid) throw new Error(invalid);
+
+        const newRule: AutoEnrollRule = {
+          ...rule,
+          id: `rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          createdAt: new Date().toISOString()
+        };
+
+        set((state) => ({ autoEnrollRules: [...state.autoEnrollRules, newRule] }));
+        Array.from(get().offers.keys()).forEach(cardId => scheduleAutoEnroll(get, set, cardId));
+      },
+
+      updateAutoEnrollRule: (ruleId, updates) => {
+        const invalid = updates.conditions && validateAutoEnrollConditions(updates.conditions);
+        if (invalid) throw new Error(invalid);
+
+        set((state) => ({
+          autoEnrollRules: state.autoEnrollRules.map(r => (r.id === ruleId ? { ...r, ...updates, id: r.id } : r))
+        }));
+        Array.from(get().offers.keys()).forEach(cardId => scheduleAutoEnroll(get, set, cardId));
+      },
+
+      removeAutoEnrollRule: (ruleId) => {
+        set((state) => ({ autoEnrollRules: state.autoEnrollRules.filter(r => r.id !== ruleId) }));
+      },
+
+      runAutoEnroll: async (cardId) => {
+        const { autoEnrollRules, offers, cards, activationLog } = get();
+        const candidates = cardId ? offers.get(cardId) || [] : Array.from(offers.values()).flat();
+        const decisions = AutoEnrollEngine.evaluate(autoEnrollRules, candidates, cards, activationLog);
+        if (decisions.length === 0) return [];
+
+        // Same 5-wide batching as manual bulk activation
+        for (const batch of OfferActivationEngine.createBatches(decisions, 5)) {
+          await Promise.all(batch.map(({ offer, rule }) =>
+            get().activateOffer(offer.id, offer.cardId, { type: 'auto-enroll', ruleId: rule.id, ruleName: rule.name })
+          ));
+        }
+
+        const log = get().activationLog;
+        return decisions.map(({ offer }) => log[getActivationKey(offer.id, offer.cardId)]);
+      },
+
       fetchRewardBalance: async (cardId) => {
         set({ loading: true });
 
@@ -381,8 +626,56 @@ export const useCardLinkedOffers = create<CardLinkedStore>()(
         }
       },
 
+      setRewardRules: (cardId, rules) => {
+        set((state) => ({
+          rewardRules: { ...state.rewardRules, [cardId]: { ...rules, cardId } }
+        }));
+      },
+
+      syncVaultRewardRules: async () => {
+        try {
+          const vaultCards = await cardsApi.getUserCards();
+
+          // Card vault entries are matched to linked cards by bank and last four digits
+          set((state) => {
+            const rewardRules = { ...state.rewardRules };
+            for (const card of state.cards) {
+              const match = vaultCards.find(v =>
+                v.isActive &&
+                v.lastFourDigits === card.lastFourDigits &&
+                v.bankName.toLowerCase() === card.bank.toLowerCase()
+              );
+              if (match) rewardRules[card.id] = rulesFromCardVault(match, card.id);
+            }
+            return { rewardRules };
+          });
+        } catch (error) {
+          set({ error: error as Error });
+        }
+      },
+
+      fetchSpendHistory: async (cardId) => {
+        try {
+          const response = await fetch(`/api/rewards/transactions/${encodeURIComponent(cardId)}`, { headers: getRequestHeaders() });
+          if (!response.ok) throw new Error('Failed to fetch card spend');
+
+          const history: SpendRecord[] = await response.json();
+          set((state) => ({
+            spendStates: {
+              ...state.spendStates,
+              [cardId]: RewardRuleEngine.stateFromHistory(
+                RewardIntelligence.getRules(cardId, state.rewardRules),
+                history
+              )
+            }
+          }));
+        } catch (error) {
+          set({ error: error as Error });
+        }
+      },
+
       calculateBestCard: (amount, merchant, category) => {
-        const { cards, offers } = get();
+        const { cards, offers, rewardRules, spendStates } = get();
         const allOffers = Array.from(offers.values()).flat();
         
         return RewardIntelligence.calculateOptimalCard(
@@ -390,7 +683,9 @@ export const useCardLinkedOffers = create<CardLinkedStore>()(
           merchant,
           category,
           cards,
-          allOffers
+          allOffers,
+          rewardRules,
+          spendStates
         );
       },
 
@@ -399,7 +694,12 @@ export const useCardLinkedOffers = create<CardLinkedStore>()(
         set({ loading: true });
 
         try {
-          await Promise.all(cards.map(card => get().fetchOffers(card.id)));
+          // Earn rules first so spend history is replayed against the right caps
+          await get().syncVaultRewardRules();
+          await Promise.all(cards.flatMap(card => [
+            get().fetchOffers(card.id),
+            get().fetchSpendHistory(card.id)
+          ]));
           set({ loading: false });
         } catch (error) {
           set({ error: error as Error, loading: false });
@@ -449,7 +749,24 @@ export const useCardLinkedOffers = create<CardLinkedStore>()(
     }),
     {
       name: 'dealmate-card-linked-offers',
-      partialize: (state) => ({ cards: state.cards })
+      version: 1,
+      // Cards live in the encrypted card vault, never in this plaintext store
+      partialize: (state) => ({
+        rewardRules: state.rewardRules,
+        activationLog: state.activationLog,
+        autoEnrollRules: state.autoEnrollRules
+      }),
+      // v0 kept plaintext cards here; hand them to the vault, which encrypts them on unlock
+      migrate: (persisted: unknown) => {
+        const { cards, ...rest } = typeof persisted === 'object' && persisted !== null
+          ? persisted as Record<string, unknown>
+          : {};
+        if (Array.isArray(cards)) stashLegacyCards(cards);
+        return rest as PersistedCardLinkedState;
+      },
+      onRehydrateStorage: () => (state) => {
+        state?.loadCards();
+      }
     }
   )
 );
@@ -0,0 +1,295 @@
+/**
+ * Reward Earn Rules
+ * Declarative per-card earn structures: base rate, category and merchant
+ * acceleration, excluded MCCs, monthly caps and spend milestones
+ */
+
+import type { CardVault } from '@/types/card-vault';
+
+// Types
+export interface RewardEarnRule {
+  id: string;
+  description?: string;
+  categories?: string[];
+  merchants?: string[];
+  mccs?: string[];
+  multiplier?: number; // Times the base rate
+  rate?: number; // Reward units per ₹, overrides multiplier
+  monthlyCap?: number; // Max units this rule earns per month, spend beyond it earns the base rate
+  exclude?: boolean; // Spend matching this rule earns nothing
+}
+
+export interface RewardMilestone {
+  id: string;
+  spendThreshold: number; // ₹ spent in the period
+  bonusUnits: number;
+  period: 'monthly' | 'quarterly' | 'annual';
+  description?: string;
+}
+
+export interface RewardTier {
+  name: string;
+  threshold: number; // Units needed to reach the tier
+  benefits: string[];
+}
+
+export interface CardRewardRules {
+  cardId: string;
+  rewardType: 'points' | 'cashback' | 'miles';
+  baseRate: number; // Reward units per ₹ spent
+  unitValueInr: number; // ₹ value of one reward unit
+  rules: RewardEarnRule[]; // First matching rule wins
+  excludedMccs?: string[];
+  monthlyCap?: number; // Max units per month across all spends
+  milestones?: RewardMilestone[];
+  tiers?: RewardTier[]; // Ascending by threshold
+}
+
+export interface RewardTransaction {
+  amount: number;
+  merchant: string;
+  category: string;
+  mcc?: string;
+}
+
+export interface SpendRecord extends RewardTransaction {
+  date: string; // ISO date the card was charged
+}
+
+// Running totals for the card in the current periods, used for caps and milestones
+export interface CardSpendState {
+  monthUnits: number;
+  monthUnitsByRule: Record<string, number>;
+  periodSpend: Record<RewardMilestone['period'], number>;
+  claimedMilestones: string[];
+}
+
+export interface RewardEvaluation {
+  cardId: string;
+  units: number; // Units earned on the spend itself
+  milestoneUnits: number;
+  valueInr: number; // Total value including milestone bonuses
+  matchedRule?: string;
+  capped: boolean;
+  milestonesReached: RewardMilestone[];
+  breakdown: string[];
+}
+
+export const DEFAULT_TIERS: RewardTier[] = [
+  { name: 'bronze', threshold: 0, benefits: [] },
+  { name: 'silver', threshold: 10000, benefits: ['2x points on dining', '1.5x points on gas'] },
+  { name: 'gold', threshold: 25000, benefits: ['3x points on dining', '2x points on gas', 'Free airport lounge access'] },
+  { name: 'platinum', threshold: 50000, benefits: ['4x points on dining', '3x points on gas', 'Free hotel night annually'] }
+];
+
+export function emptySpendState(): CardSpendState {
+  return {
+    monthUnits: 0,
+    monthUnitsByRule: {},
+    periodSpend: { monthly: 0, quarterly: 0, annual: 0 },
+    claimedMilestones: []
+  };
+}
+
+/**
+ * Flat-rate rules for cards with no configured earn structure
+ */
+export function defaultRewardRules(cardId: string, baseRate = 0.01): CardRewardRules {
+  return {
+    cardId,
+    rewardType: 'cashback',
+    baseRate,
+    unitValueInr: 1,
+    rules: []
+  };
+}
+
+/**
+ * Build rules from a card vault entry.
+ * Cashback rates are stored as percentages, points rates as points per ₹.
+ */
+export function rulesFromCardVault(card: CardVault, cardId: string = card.id): CardRewardRules {
+  const toUnits = (rate: number) => (card.rewardType === 'cashback' ? rate / 100 : rate);
+
+  return {
+    cardId,
+    rewardType: card.rewardType,
+    baseRate: toUnits(card.baseRewardRate),
+    unitValueInr: card.rewardType === 'cashback' ? 1 : card.pointValueInr,
+    rules: Object.entries(card.categoryRewards).map(([category, rate]) => ({
+      id: `category-${category}`,
+      description: `${category} rewards`,
+      categories: [category],
+      rate: toUnits(rate)
+    })),
+    milestones: card.milestoneConfig.map((m, index) => ({
+      id: `milestone-${index}`,
+      spendThreshold: m.threshold,
+      bonusUnits: card.pointValueInr > 0 ? m.rewardValue / card.pointValueInr : m.rewardValue,
+      period: 'annual',
+      description: m.description
+    }))
+  };
+}
+
+export class RewardRuleEngine {
+  /**
+   * Evaluate what a card earns on a transaction given its running spend state
+   */
+  static evaluate(
+    rules: CardRewardRules,
+    txn: RewardTransaction,
+    state: CardSpendState = emptySpendState()
+  ): RewardEvaluation {
+    const breakdown: string[] = [];
+    const result: RewardEvaluation = {
+      cardId: rules.cardId,
+      units: 0,
+      milestoneUnits: 0,
+      valueInr: 0,
+      capped: false,
+      milestonesReached: [],
+      breakdown
+    };
+
+    if (txn.mcc && rules.excludedMccs?.includes(txn.mcc)) {
+      breakdown.push(`MCC ${txn.mcc} is excluded from rewards`);
+      return result;
+    }
+
+    const rule = this.findRule(rules, txn);
+    result.matchedRule = rule?.id;
+
+    if (rule?.exclude) {
+      breakdown.push(`${rule.description || rule.id}: no rewards`);
+      return result;
+    }
+
+    // Accelerated earn up to the rule's monthly cap, base rate beyond it
+    const rate = rule ? rule.rate ?? rules.baseRate * (rule.multiplier ?? 1) : rules.baseRate;
+    let units = txn.amount * rate;
+
+    if (rule?.monthlyCap !== undefined && rate > 0) {
+      const available = Math.max(0, rule.monthlyCap - (state.monthUnitsByRule[rule.id] || 0));
+      if (units > available) {
+        const acceleratedSpend = available / rate;
+        units = available + (txn.amount - acceleratedSpend) * rules.baseRate;
+        result.capped = true;
+        breakdown.push(`${rule.description || rule.id} cap reached, remaining spend earns base rate`);
+      }
+    }
+
+    if (rules.monthlyCap !== undefined) {
+      const available = Math.max(0, rules.monthlyCap - state.monthUnits);
+      if (units > available) {
+        units = available;
+        result.capped = true;
+        breakdown.push('Monthly reward cap reached');
+      }
+    }
+
+    result.units = units;
+    breakdown.push(`${rule ? rule.description || rule.id : 'Base reward'}: ${units.toFixed(2)} ${rules.rewardType}`);
+
+    for (const milestone of rules.milestones || []) {
+      if (state.claimedMilestones.includes(milestone.id)) continue;
+      const before = state.periodSpend[milestone.period] || 0;
+      if (before < milestone.spendThreshold && before + txn.amount >= milestone.spendThreshold) {
+        result.milestoneUnits += milestone.bonusUnits;
+        result.milestonesReached.push(milestone);
+        breakdown.push(`Milestone ${milestone.description || milestone.id}: ${milestone.bonusUnits} bonus ${rules.rewardType}`);
+      }
+    }
+
+    result.valueInr = (result.units + result.milestoneUnits) * rules.unitValueInr;
+    return result;
+  }
+
+  /**
+   * Fold a transaction's earnings into the running spend state
+   */
+  static recordSpend(
+    rules: CardRewardRules,
+    txn: RewardTransaction,
+    state: CardSpendState
+  ): CardSpendState {
+    const evaluation = this.evaluate(rules, txn, state);
+    const monthUnitsByRule = { ...state.monthUnitsByRule };
+    if (evaluation.matchedRule) {
+      monthUnitsByRule[evaluation.matchedRule] = (monthUnitsByRule[evaluation.matchedRule] || 0) + evaluation.units;
+    }
+
+    return {
+      monthUnits: state.monthUnits + evaluation.units,
+      monthUnitsByRule,
+      periodSpend: {
+        monthly: state.periodSpend.monthly + txn.amount,
+        quarterly: state.periodSpend.quarterly + txn.amount,
+        annual: state.periodSpend.annual + txn.amount
+      },
+      claimedMilestones: [...state.claimedMilestones, ...evaluation.milestonesReached.map(m => m.id)]
+    };
+  }
+
+  /**
+   * Rebuild the running state from the card's charges in the current month, quarter and year
+   */
+  static stateFromHistory(
+    rules: CardRewardRules,
+    history: SpendRecord[],
+    now: Date = new Date()
+  ): CardSpendState {
+    const inPeriod = (date: Date, period: RewardMilestone['period']) =>
+      date.getFullYear() === now.getFullYear() &&
+      (period === 'annual' ||
+        (period === 'quarterly' && Math.floor(date.getMonth() / 3) === Math.floor(now.getMonth() / 3)) ||
+        (period === 'monthly' && date.getMonth() === now.getMonth()));
+
+    const dated = history
+      .map(txn => ({ txn, date: new Date(txn.date) }))
+      .filter(({ date }) => !Number.isNaN(date.getTime()) && date <= now)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    // Caps are monthly, so units come from replaying this month's charges in order
+    let state = emptySpendState();
+    for (const { txn, date } of dated) {
+      if (inPeriod(date, 'monthly')) state = this.recordSpend(rules, txn, state);
+    }
+
+    const periodSpend = { ...state.periodSpend };
+    for (const period of ['monthly', 'quarterly', 'annual'] as const) {
+      periodSpend[period] = dated
+        .filter(({ date }) => inPeriod(date, period))
+        .reduce((sum, { txn }) => sum + txn.amount, 0);
+    }
+
+    return {
+      ...state,
+      periodSpend,
+      claimedMilestones: (rules.milestones || [])
+        .filter(m => periodSpend[m.period] >= m.spendThreshold)
+        .map(m => m.id)
+    };
+  }
+
+  /**
+   * Effective earn rate in ₹ per ₹ spent for a category, ignoring caps
+   */
+  static effectiveRate(rules: CardRewardRules, merchant: string, category: string): number {
+    const rule = this.findRule(rules, { amount: 0, merchant, category });
+    if (rule?.exclude) return 0;
+    const rate = rule ? rule.rate ?? rules.baseRate * (rule.multiplier ?? 1) : rules.baseRate;
+    return rate * rules.unitValueInr;
+  }
+
+  private static findRule(rules: CardRewardRules, txn: RewardTransaction): RewardEarnRule | undefined {
+    const merchant = txn.merchant.toLowerCase();
+    const category = txn.category.toLowerCase();
+
+    return rules.rules.find(rule =>
+      (rule.merchants?.some(m => m.toLowerCase() === merchant) ?? false) ||
+      (rule.categories?.some(c => c.toLowerCase() === category) ?? false) ||
+      (!!txn.mcc && (rule.mccs?.includes(txn.mcc) ?? false))
+    );
+  }
+}
@@ -0,0 +1,542 @@
+/**
+ * Secure Card Store
+ * Envelope-encrypted card metadata synced to /api/card-vault
+ * A random data key encrypts the payload; a key derived from a passphrase the user
+ * chooses wraps it, so the server only ever sees ciphertext it cannot unlock.
+ * After an unlock the data key stays on this device as a non-extractable IndexedDB key.
+ */
+
+import { authApi } from '@/lib/auth';
+import type { CardDetails } from './offer-engine';
+
+// Types
+export interface EncryptedEnvelope {
+  format: 1 | 2; // 1: wrapped with a session-derived key, read once for migration
+  keyId?: string; // Format 2: names the data key in the device key cache
+  schemaVersion: number;
+  revision: number; // Incremented on every save, used for sync conflict detection
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  wrappedKey: string;
+  wrapIv: string;
+  iv: string;
+  ciphertext: string;
+  updatedAt: string;
+}
+
+export type CardVaultStatus = 'new' | 'locked' | 'unlocked';
+
+export interface CardVaultPayload {
+  schemaVersion: number;
+  cards: CardDetails[];
+}
+
+export const CURRENT_SCHEMA_VERSION = 2;
+
+const LEGACY_STORAGE_KEY = 'dealmate-secure-cards';
+const LOCAL_ENVELOPE_KEY = 'dealmate-card-vault';
+const API_ENDPOINT = '/api/card-vault';
+const PBKDF2_ITERATIONS = 210000;
+const ENVELOPE_FORMAT = 2;
+export const MIN_PASSPHRASE_LENGTH = 8;
+const DEVICE_KEY_DB = 'dealmate-card-vault';
+const DEVICE_KEY_STORE = 'keys';
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isVaultPayload(value: unknown): value is CardVaultPayload {
+  return isRecord(value) && typeof value.schemaVersion === 'number' && Array.isArray(value.cards);
+}
+
+/**
+ * Schema migrations, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+  // v1: the plaintext CardDetails[] written by the old localStorage storage
+  1: (data): CardVaultPayload => {
+    if (!Array.isArray(data)) throw new Error('Card vault v1 data is not a card list');
+    return {
+      schemaVersion: 2,
+      cards: data.filter(isRecord).map(card => ({
+        ...card,
+        network: String(card.network || 'visa').toLowerCase(),
+        isActive: card.isActive ?? true,
+        addedAt: card.addedAt || new Date().toISOString()
+      }) as CardDetails)
+    };
+  }
+};
+
+export function migratePayload(data: unknown, fromVersion: number): CardVaultPayload {
+  let current = data;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No card vault migration from schema v${version}`);
+    current = migrate(current);
+  }
+  if (!isVaultPayload(current)) throw new Error(`Card vault payload is not schema v${CURRENT_SCHEMA_VERSION}`);
+  return current;
+}
+
+// Encoding helpers
+function toBase64(bytes: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer as ArrayBuffer;
+}
+
+function randomBytes(length: number): ArrayBuffer {
+  return crypto.getRandomValues(new Uint8Array(length)).buffer as ArrayBuffer;
+}
+
+/**
+ * Secret format 1 envelopes were wrapped with. The server can rebuild it, so it is
+ * only used to open an old vault once before re-wrapping it under a passphrase.
+ */
+function getLegacySessionSecret(): string {
+  const token = authApi.getToken();
+  if (!token) return 'dealmate-demo-session';
+
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (payload.sub) return `dealmate-user:${payload.sub}`;
+  } catch {
+    // Opaque token, use it as-is
+  }
+  return token;
+}
+
+export function getRequestHeaders(): HeadersInit {
+  const token = authApi.getToken();
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : { 'X-Demo-User': 'demo' })
+  };
+}
+
+export class CardVaultConflictError extends Error {
+  constructor(public serverEnvelope: EncryptedEnvelope) {
+    super('Card vault was modified by another session');
+  }
+}
+
+export class CardVaultLockedError extends Error {
+  constructor(public status: Exclude<CardVaultStatus, 'unlocked'>) {
+    super(status === 'new'
+      ? 'Choose a card vault passphrase to store cards'
+      : 'Enter the card vault passphrase to unlock cards on this device');
+  }
+}
+
+// Device key cache: data keys stored as non-extractable CryptoKeys, keyed by keyId
+function openDeviceKeyDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DEVICE_KEY_DB, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DEVICE_KEY_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function deviceKeyRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDeviceKeyDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(DEVICE_KEY_STORE, mode).objectStore(DEVICE_KEY_STORE));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function readDeviceKey(keyId: string): Promise<CryptoKey | null> {
+  try {
+    return (await deviceKeyRequest<CryptoKey | undefined>('readonly', store => store.get(keyId))) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plaintext cards found outside the vault (old storage), folded in on the next unlock
+ */
+export function stashLegacyCards(cards: unknown[]): void {
+  if (cards.length === 0) return;
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  const existing: unknown[] = stored ? JSON.parse(stored) : [];
+  localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify([...existing, ...cards]));
+}
+
+// Secure Card Store
+interface VaultKeying {
+  keyId: string;
+  kdf: EncryptedEnvelope['kdf'];
+  wrappedKey: string;
+  wrapIv: string;
+}
+
+export class SecureCardStore {
+  private cards: CardDetails[] = [];
+  private envelope: EncryptedEnvelope | null = null;
+  private dataKey: CryptoKey | null = null;
+  private keying: VaultKeying | null = null; // Stays the same across saves
+  private status: CardVaultStatus = 'new';
+  private localAhead = false;
+  private serverRevision = 0;
+  private loaded: Promise<void> | null = null;
+
+  getCards(): CardDetails[] {
+    return this.cards;
+  }
+
+  getStatus(): CardVaultStatus {
+    return this.status;
+  }
+
+  /**
+   * Load cards from the newest of the server and local copies. Cards stay empty
+   * until the vault is unlocked, either by a key held on this device or unlock().
+   */
+  load(): Promise<CardDetails[]> {
+    if (!this.loaded) {
+      this.loaded = this.performLoad().catch(error => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded.then(() => this.cards);
+  }
+
+  /**
+   * Open the vault with the user's passphrase. On a new or format 1 vault this sets
+   * the passphrase, re-wrapping any existing cards under it.
+   */
+  async unlock(passphrase: string): Promise<CardDetails[]> {
+    await this.load();
+    if (this.status === 'unlocked') return this.cards;
+
+    const envelope = this.envelope;
+    if (envelope?.format === ENVELOPE_FORMAT && envelope.keyId) {
+      let dataKey: CryptoKey;
+      try {
+        const wrappingKey = await this.deriveWrappingKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+        dataKey = await crypto.subtle.unwrapKey(
+          'raw',
+          fromBase64(envelope.wrappedKey),
+          wrappingKey,
+          { name: 'AES-GCM', iv: fromBase64(envelope.wrapIv) },
+          { name: 'AES-GCM', length: 256 },
+          false,
+          ['encrypt', 'decrypt']
+        );
+      } catch {
+        throw new Error('Incorrect card vault passphrase');
+      }
+      await this.rememberDeviceKey(envelope.keyId, dataKey);
+      return this.open(dataKey, envelope);
+    }
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`Card vault passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    // New vault, or a format 1 vault moving to a passphrase
+    const existing = envelope ? await this.decryptLegacy(envelope) : [];
+    await this.createKey(passphrase);
+    this.cards = existing;
+    this.status = 'unlocked';
+    return this.finishOpen(true);
+  }
+
+  async saveCard(card: CardDetails): Promise<void> {
+    await this.mutate(cards => [...cards.filter(c => c.id !== card.id), card]);
+  }
+
+  async deleteCard(cardId: string): Promise<void> {
+    await this.mutate(cards => cards.filter(c => c.id !== cardId));
+  }
+
+  async updateCard(cardId: string, updates: Partial<CardDetails>): Promise<void> {
+    await this.mutate(cards => cards.map(c => (c.id === cardId ? { ...c, ...updates } : c)));
+  }
+
+  private async performLoad(): Promise<void> {
+    const local = this.readLocalEnvelope();
+    const remote = await this.fetchRemoteEnvelope();
+    this.serverRevision = remote?.revision ?? 0;
+    this.envelope = [local, remote]
+      .filter((e): e is EncryptedEnvelope => !!e)
+      .sort((a, b) => b.revision - a.revision)[0] ?? null;
+    this.localAhead = !!local && this.envelope === local && (!remote || remote.revision < local.revision);
+
+    const envelope = this.envelope;
+    const deviceKey = envelope?.format === ENVELOPE_FORMAT && envelope.keyId
+      ? await readDeviceKey(envelope.keyId)
+      : null;
+
+    if (!envelope || !deviceKey) {
+      // A format 1 vault has no passphrase yet, so it is set up like a new one
+      this.status = envelope?.format === ENVELOPE_FORMAT ? 'locked' : 'new';
+      this.cards = [];
+      return;
+    }
+
+    try {
+      await this.open(deviceKey, envelope);
+    } catch (error) {
+      throw new Error('Card vault could not be unlocked on this device');
+    }
+  }
+
+  private async open(dataKey: CryptoKey, envelope: EncryptedEnvelope): Promise<CardDetails[]> {
+    this.dataKey = dataKey;
+    this.keying = this.keyingOf(envelope);
+    this.cards = await this.decrypt(envelope);
+    this.status = 'unlocked';
+    return this.finishOpen(envelope.schemaVersion < CURRENT_SCHEMA_VERSION || this.localAhead);
+  }
+
+  /**
+   * Fold in plaintext cards left by the old storage and persist when anything changed.
+   * The plaintext copy is only removed once the encrypted one is written.
+   */
+  private async finishOpen(needsSave: boolean): Promise<CardDetails[]> {
+    const legacy = this.readLegacyCards();
+    if (legacy.length > 0) {
+      const known = new Set(this.cards.map(c => c.id));
+      this.cards = [...this.cards, ...legacy.filter(c => !known.has(c.id))];
+    }
+
+    if (needsSave || legacy.length > 0) {
+      await this.persist(this.cards);
+    }
+    if (legacy.length > 0) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    this.localAhead = false;
+
+    return this.cards;
+  }
+
+  private async mutate(change: (cards: CardDetails[]) => CardDetails[]): Promise<void> {
+    await this.load();
+    if (this.status !== 'unlocked') throw new CardVaultLockedError(this.status);
+
+    try {
+      this.cards = change(this.cards);
+      await this.persist(this.cards);
+    } catch (error) {
+      if (!(error instanceof CardVaultConflictError)) throw error;
+
+      // Another session saved first: rebase the change on its copy and retry once
+      const serverEnvelope = error.serverEnvelope;
+      this.serverRevision = serverEnvelope.revision;
+      if (serverEnvelope.keyId !== this.keying?.keyId) {
+        const deviceKey = serverEnvelope.keyId ? await readDeviceKey(serverEnvelope.keyId) : null;
+        if (!deviceKey) {
+          this.envelope = serverEnvelope;
+          this.status = 'locked';
+          this.cards = [];
+          throw new CardVaultLockedError('locked');
+        }
+        this.dataKey = deviceKey;
+        this.keying = this.keyingOf(serverEnvelope);
+      }
+      this.envelope = serverEnvelope;
+      this.cards = change(await this.decrypt(serverEnvelope));
+      await this.persist(this.cards);
+    }
+  }
+
+  private async persist(cards: CardDetails[]): Promise<void> {
+    const revision = Math.max(this.envelope?.revision ?? 0, this.serverRevision) + 1;
+    const envelope = await this.encrypt({ schemaVersion: CURRENT_SCHEMA_VERSION, cards }, revision);
+    localStorage.setItem(LOCAL_ENVELOPE_KEY, JSON.stringify(envelope));
+
+    try {
+      const response = await fetch(API_ENDPOINT, {
+        method: 'PUT',
+        headers: getRequestHeaders(),
+        body: JSON.stringify({ envelope, baseRevision: this.serverRevision })
+      });
+
+      if (response.status === 409) {
+        const { envelope: serverEnvelope } = await response.json();
+        throw new CardVaultConflictError(serverEnvelope);
+      }
+      if (!response.ok) throw new Error(`Card vault sync failed: HTTP ${response.status}`);
+      this.serverRevision = envelope.revision;
+    } catch (error) {
+      if (error instanceof CardVaultConflictError) throw error;
+      // Offline or server error: the encrypted local copy syncs on next load
+    }
+
+    this.envelope = envelope;
+  }
+
+  /**
+   * Generate the data key, wrap it under the passphrase and keep a non-extractable copy
+   */
+  private async createKey(passphrase: string): Promise<void> {
+    const salt = randomBytes(16);
+    const wrapIv = randomBytes(12);
+    const wrappingKey = await this.deriveWrappingKey(passphrase, salt);
+    const exportable = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const wrappedKey = await crypto.subtle.wrapKey('raw', exportable, wrappingKey, { name: 'AES-GCM', iv: wrapIv });
+
+    const dataKey = await crypto.subtle.importKey(
+      'raw',
+      await crypto.subtle.exportKey('raw', exportable),
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+
+    this.keying = {
+      keyId: crypto.randomUUID(),
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+      wrappedKey: toBase64(wrappedKey),
+      wrapIv: toBase64(wrapIv)
+    };
+    this.dataKey = dataKey;
+    await this.rememberDeviceKey(this.keying.keyId, dataKey);
+  }
+
+  private async rememberDeviceKey(keyId: string, dataKey: CryptoKey): Promise<void> {
+    try {
+      await deviceKeyRequest('readwrite', store => store.put(dataKey, keyId));
+    } catch {
+      // No IndexedDB (private mode): the passphrase is asked for again next session
+    }
+  }
+
+  private keyingOf(envelope: EncryptedEnvelope): VaultKeying {
+    return {
+      keyId: envelope.keyId || '',
+      kdf: envelope.kdf,
+      wrappedKey: envelope.wrappedKey,
+      wrapIv: envelope.wrapIv
+    };
+  }
+
+  private async encrypt(payload: CardVaultPayload, revision: number): Promise<EncryptedEnvelope> {
+    if (!this.dataKey || !this.keying) throw new CardVaultLockedError(this.status === 'new' ? 'new' : 'locked');
+
+    const iv = randomBytes(12);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.dataKey,
+      new TextEncoder().encode(JSON.stringify(payload))
+    );
+
+    return {
+      format: ENVELOPE_FORMAT,
+      keyId: this.keying.keyId,
+      schemaVersion: payload.schemaVersion,
+      revision,
+      kdf: this.keying.kdf,
+      wrappedKey: this.keying.wrappedKey,
+      wrapIv: this.keying.wrapIv,
+      iv: toBase64(iv),
+      ciphertext: toBase64(ciphertext),
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  private async decrypt(envelope: EncryptedEnvelope, dataKey = this.dataKey): Promise<CardDetails[]> {
+    if (!dataKey) throw new CardVaultLockedError('locked');
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(envelope.iv) },
+      dataKey,
+      fromBase64(envelope.ciphertext)
+    );
+
+    const payload = JSON.parse(new TextDecoder().decode(plaintext));
+    return migratePayload(payload, envelope.schemaVersion).cards;
+  }
+
+  private async decryptLegacy(envelope: EncryptedEnvelope): Promise<CardDetails[]> {
+    try {
+      const wrappingKey = await this.deriveWrappingKey(
+        getLegacySessionSecret(),
+        fromBase64(envelope.kdf.salt),
+        envelope.kdf.iterations
+      );
+      const dataKey = await crypto.subtle.unwrapKey(
+        'raw',
+        fromBase64(envelope.wrappedKey),
+        wrappingKey,
+        { name: 'AES-GCM', iv: fromBase64(envelope.wrapIv) },
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['decrypt']
+      );
+      return await this.decrypt(envelope, dataKey);
+    } catch (error) {
+      throw new Error('Card vault could not be unlocked for this session');
+    }
+  }
+
+  private async deriveWrappingKey(secret: string, salt: ArrayBuffer, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['wrapKey', 'unwrapKey']
+    );
+  }
+
+  private readLocalEnvelope(): EncryptedEnvelope | null {
+    const stored = localStorage.getItem(LOCAL_ENVELOPE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  }
+
+  private async fetchRemoteEnvelope(): Promise<EncryptedEnvelope | null> {
+    try {
+      const response = await fetch(API_ENDPOINT, { headers: getRequestHeaders() });
+      if (!response.ok) return null;
+      const { envelope } = await response.json();
+      return envelope || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private readLegacyCards(): CardDetails[] {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!stored) return [];
+
+    try {
+      return migratePayload(JSON.parse(stored), 1).cards;
+    } catch {
+      return [];
+    }
+  }
+}
+
+export const secureCardStore = new SecureCardStore();
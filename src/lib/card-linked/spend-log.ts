@@ -0,0 +1,44 @@
+/**
+ * Card Spend Log
+ * Server-side record of each card's charges, replayed on the client into reward caps
+ * and milestone progress
+ */
+
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { SpendRecord } from './reward-rules';
+
+const MAX_RECORDS_PER_CARD = 1000; // Well past a year of charges; milestones look back at most a year
+
+type SpendData = Record<string, Record<string, SpendRecord[]>>;
+
+const store = new JsonFileStore<SpendData>('card-spend.json', () => ({}));
+
+/**
+ * A charge from a request body, or null when it is malformed
+ */
+export function parseSpendRecord(input: unknown): SpendRecord | null {
+  if (!input || typeof input !== 'object') return null;
+  const { amount, merchant, category, mcc, date } = input as Record<string, unknown>;
+
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) return null;
+  if (typeof merchant !== 'string' || typeof category !== 'string') return null;
+  if (mcc !== undefined && typeof mcc !== 'string') return null;
+  if (typeof date !== 'string' || Number.isNaN(Date.parse(date))) return null;
+
+  return { amount, merchant, category, ...(mcc !== undefined && { mcc }), date: new Date(date).toISOString() };
+}
+
+export const spendLog = {
+  async list(userId: string, cardId: string): Promise<SpendRecord[]> {
+    const data = await store.read();
+    return data[userId]?.[cardId] || [];
+  },
+
+  async record(userId: string, cardId: string, spend: SpendRecord): Promise<void> {
+    await store.update(data => {
+      const cards = data[userId] || (data[userId] = {});
+      const records = [...(cards[cardId] || []), spend].sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+      cards[cardId] = records.slice(-MAX_RECORDS_PER_CARD);
+    });
+  }
+};
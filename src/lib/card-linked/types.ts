@@ -0,0 +1,58 @@
+/**
+ * Type definitions shared by the card-linked offer engine and its API routes
+ */
+
+export type ActivationStatus = 'pending' | 'succeeded' | 'failed';
+
+export type ActivationTrigger =
+  | { type: 'manual' }
+  | { type: 'auto-enroll'; ruleId: string; ruleName: string };
+
+export interface ActivationAttempt {
+  attempt: number;
+  trigger?: ActivationTrigger;
+  status: 'succeeded' | 'failed';
+  httpStatus?: number;
+  error?: string;
+  retryable: boolean;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface ActivationRecord {
+  idempotencyKey: string;
+  offerId: string;
+  cardId: string;
+  status: ActivationStatus;
+  activationId?: string;
+  lastError?: string;
+  attempts: ActivationAttempt[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ActivationRequest {
+  offerId: string;
+  cardId: string;
+  trigger?: ActivationTrigger;
+}
+
+export interface ActivationResponse {
+  success: boolean;
+  record: ActivationRecord;
+  replayed: boolean; // True when an earlier success was returned for the same key
+  retryable: boolean;
+  error?: string;
+}
+
+export interface ActivationHistoryResponse {
+  activations: ActivationRecord[];
+  total: number;
+}
+
+/**
+ * Default idempotency key: one activation per offer and card
+ */
+export function getActivationKey(offerId: string, cardId: string): string {
+  return `${offerId}:${cardId}`;
+}
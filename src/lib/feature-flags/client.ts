@@ -0,0 +1,74 @@
+'use client';
+
+/**
+ * Feature flags in the browser
+ * Fetches the resolved config once and evaluates it locally with the same code as the server.
+ * The config is refetched once it is older than a minute, so file edits reach open pages.
+ */
+
+import { create } from 'zustand';
+import { getRequestHeaders } from '@/lib/card-linked/secure-card-store';
+import { evaluateFlag, resolveFlagConfig, type FlagConfig, type FlagContext } from './evaluate';
+import type { BooleanFlagKey, FlagKey, FlagValueOf } from './registry';
+
+export const FLAG_REFRESH_MS = 60 * 1000;
+
+export interface FeatureFlagsResponse {
+  toggles: Record<FlagKey, FlagValueOf<FlagKey>>; // Evaluated for the caller
+  config: FlagConfig; // Targeting lists trimmed to the caller
+  userId: string | null; // Who the server evaluated for
+}
+
+interface FeatureFlagState {
+  config: FlagConfig | null;
+  userId: string | null;
+  fetchedAt: number;
+  load: (force?: boolean) => Promise<FlagConfig>;
+}
+
+let inflight: Promise<FlagConfig> | null = null;
+
+export const useFeatureFlagStore = create<FeatureFlagState>()((set, get) => ({
+  config: null,
+  userId: null,
+  fetchedAt: 0,
+
+  load: async (force = false) => {
+    const { config, fetchedAt } = get();
+    if (config && !force && Date.now() - fetchedAt < FLAG_REFRESH_MS) return config;
+    if (inflight) return inflight;
+
+    inflight = (async () => {
+      try {
+        const response = await fetch('/api/feature-toggles', { headers: getRequestHeaders() });
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        const data: FeatureFlagsResponse = await response.json();
+        set({ config: data.config, userId: data.userId, fetchedAt: Date.now() });
+        return data.config;
+      } catch (error) {
+        // Log error type only, not user data
+        console.warn('Failed to fetch feature flags, using defaults');
+        const fallback = get().config ?? resolveFlagConfig(null);
+        set({ config: fallback, fetchedAt: Date.now() });
+        return fallback;
+      } finally {
+        inflight = null;
+      }
+    })();
+    return inflight;
+  }
+}));
+
+/**
+ * Evaluate outside React. Without a user id, evaluates for the user the server saw.
+ */
+export async function getFlag<K extends FlagKey>(key: K, context: FlagContext = {}): Promise<FlagValueOf<K>> {
+  const config = await useFeatureFlagStore.getState().load();
+  return evaluateFlag(key, config, { userId: context.userId ?? useFeatureFlagStore.getState().userId });
+}
+
+export async function isFeatureEnabled(key: BooleanFlagKey, context: FlagContext = {}): Promise<boolean> {
+  return (await getFlag(key, context)) === true;
+}
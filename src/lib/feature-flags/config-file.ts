@@ -0,0 +1,54 @@
+/**
+ * Feature flag config file
+ * Loads feature-toggles.json and picks up edits without a restart. Kept apart from
+ * server.ts so request identity can read flags without an import cycle.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { resolveFlagConfig, type FlagConfig, type FlagConfigFile } from './evaluate';
+
+const CONFIG_PATH = path.join(process.cwd(), '..', 'feature-toggles.json');
+const RECHECK_MS = 1000; // At most one stat per second on hot paths
+
+let loaded: { mtimeMs: number; config: FlagConfig } | null = null;
+let checkedAt = 0;
+
+/**
+ * The active config, re-read whenever the file's modification time changes
+ */
+export function getFlagConfig(now = Date.now()): FlagConfig {
+  if (loaded && now - checkedAt < RECHECK_MS) return loaded.config;
+  checkedAt = now;
+
+  let mtimeMs = -1;
+  try {
+    mtimeMs = fs.statSync(CONFIG_PATH).mtimeMs;
+  } catch {
+    // No file: every flag serves its default
+  }
+  if (loaded && loaded.mtimeMs === mtimeMs) return loaded.config;
+
+  let file: FlagConfigFile | null = null;
+  if (mtimeMs !== -1) {
+    try {
+      file = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf8'));
+    } catch (error) {
+      // Keep serving the last good config while the file is mid-edit or invalid
+      console.error('Error reading feature flags, keeping previous config:', error);
+      if (loaded) {
+        loaded.mtimeMs = mtimeMs;
+        return loaded.config;
+      }
+    }
+  }
+
+  loaded = {
+    mtimeMs,
+    config: resolveFlagConfig(file, {
+      environment: process.env.DEALMATE_ENV || process.env.NODE_ENV,
+      env: process.env
+    })
+  };
+  return loaded.config;
+}
@@ -0,0 +1,174 @@
+/**
+ * Feature Flag Evaluation
+ * The one evaluation path shared by the server helper and the React hook, so a user gets
+ * the same value on both sides. Pure functions only: no Node or browser APIs.
+ */
+
+import { FEATURE_FLAGS, FLAG_KEYS, type EvaluatedFlags, type FlagDefinition, type FlagKey, type FlagValue, type FlagValueOf } from './registry';
+
+// Types
+export interface FlagRollout<V extends FlagValue = FlagValue> {
+  value: V;
+  percentage: number; // Share of signed-in users, 0-100
+}
+
+export interface FlagRule<V extends FlagValue = FlagValue> {
+  value?: V; // Served when no list or rollout slice applies
+  rollout?: FlagRollout<V>[]; // Consecutive slices of the user buckets
+  allow?: string[]; // User ids that always get the flag's on value
+  deny?: string[]; // User ids that always get the flag's off value; wins over allow
+}
+
+export type FlagConfig = Partial<Record<FlagKey, FlagRule>>;
+
+export interface FlagContext {
+  userId?: string | null;
+}
+
+/**
+ * feature-toggles.json: flag rules at the top level, per-environment rules under `environments`.
+ * A bare value (`"Login": false`) is shorthand for `{ "value": false }`.
+ */
+export interface FlagConfigFile {
+  environments?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+export interface ResolveFlagOptions {
+  environment?: string;
+  env?: Record<string, string | undefined>; // FEATURE_FLAG_<NAME> forces a value for everyone
+}
+
+/**
+ * Stable bucket in [0, 100) for a user on a flag. Hashing the flag key too means
+ * the same users aren't always first in every rollout.
+ */
+export function flagBucket(key: string, userId: string): number {
+  // FNV-1a, 32-bit
+  let hash = 0x811c9dc5;
+  const input = `${key}:${userId}`;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return ((hash >>> 0) % 10000) / 100;
+}
+
+export function evaluateFlag<K extends FlagKey>(key: K, config: FlagConfig, context: FlagContext = {}): FlagValueOf<K> {
+  const definition = FEATURE_FLAGS[key] as FlagDefinition;
+  const rule = config[key];
+  const userId = context.userId;
+
+  if (rule && userId) {
+    if (rule.deny?.includes(userId)) return definition.offValue as FlagValueOf<K>;
+    if (rule.allow?.includes(userId)) return definition.onValue as FlagValueOf<K>;
+
+    // Anonymous callers have no stable bucket, so they only ever see the base value
+    const bucket = flagBucket(key, userId);
+    let upper = 0;
+    for (const slice of rule.rollout || []) {
+      upper += slice.percentage;
+      if (bucket < upper) return slice.value as FlagValueOf<K>;
+    }
+  }
+
+  return (rule?.value ?? definition.defaultValue) as FlagValueOf<K>;
+}
+
+export function evaluateFlags(config: FlagConfig, context: FlagContext = {}): EvaluatedFlags {
+  const flags = {} as Record<FlagKey, FlagValue>;
+  FLAG_KEYS.forEach(key => {
+    flags[key] = evaluateFlag(key, config, context);
+  });
+  return flags as EvaluatedFlags;
+}
+
+/**
+ * Build the active config: top-level rules, then the environment's rules field by field,
+ * then environment variables. Values a flag doesn't define are dropped, not guessed at.
+ */
+export function resolveFlagConfig(file: FlagConfigFile | null, options: ResolveFlagOptions = {}): FlagConfig {
+  const config: FlagConfig = {};
+  const environmentRules = options.environment ? file?.environments?.[options.environment] : undefined;
+
+  FLAG_KEYS.forEach(key => {
+    const definition = FEATURE_FLAGS[key] as FlagDefinition;
+    const base = parseFlagRule(definition, file?.[key]);
+    const override = parseFlagRule(definition, environmentRules?.[key]);
+    let rule = base || override ? { ...base, ...override } : undefined;
+
+    const forced = options.env?.[flagEnvVar(key)];
+    if (forced !== undefined) {
+      const value = parseFlagValue(definition, forced);
+      if (value !== undefined) rule = { value };
+    }
+
+    if (rule) config[key] = rule;
+  });
+
+  return config;
+}
+
+/**
+ * The config as one user may see it: allow and deny lists keep only that user's entry,
+ * so client-side evaluation matches the server without publishing who is targeted.
+ */
+export function redactFlagConfig(config: FlagConfig, userId: string | null): FlagConfig {
+  const redacted: FlagConfig = {};
+  (Object.keys(config) as FlagKey[]).forEach(key => {
+    const { allow, deny, ...rule } = config[key] as FlagRule;
+    redacted[key] = {
+      ...rule,
+      ...(userId && allow?.includes(userId) ? { allow: [userId] } : {}),
+      ...(userId && deny?.includes(userId) ? { deny: [userId] } : {})
+    };
+  });
+  return redacted;
+}
+
+// FraudDetection -> FEATURE_FLAG_FRAUD_DETECTION
+export function flagEnvVar(key: FlagKey): string {
+  return `FEATURE_FLAG_${key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+function parseFlagRule(definition: FlagDefinition, raw: unknown): FlagRule | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    const value = parseFlagValue(definition, raw);
+    return value === undefined ? undefined : { value };
+  }
+
+  const source = raw as Record<string, unknown>;
+  const rule: FlagRule = {};
+
+  const value = parseFlagValue(definition, source.value);
+  if (value !== undefined) rule.value = value;
+
+  if (Array.isArray(source.rollout)) {
+    rule.rollout = source.rollout.flatMap(slice => {
+      const sliceValue = parseFlagValue(definition, slice?.value);
+      const percentage = Number(slice?.percentage);
+      return sliceValue !== undefined && Number.isFinite(percentage)
+        ? [{ value: sliceValue, percentage: Math.max(0, Math.min(100, percentage)) }]
+        : [];
+    });
+  }
+
+  if (Array.isArray(source.allow)) rule.allow = source.allow.filter((id): id is string => typeof id === 'string');
+  if (Array.isArray(source.deny)) rule.deny = source.deny.filter((id): id is string => typeof id === 'string');
+
+  return rule;
+}
+
+// Accepts the flag's own values, plus "true"/"false" style strings for boolean flags
+function parseFlagValue(definition: FlagDefinition, raw: unknown): FlagValue | undefined {
+  if (definition.variants.includes(raw as FlagValue)) return raw as FlagValue;
+
+  if (typeof raw === 'string' && typeof definition.defaultValue === 'boolean') {
+    const normalized = raw.trim().toLowerCase();
+    if (['true', '1', 'on', 'yes'].includes(normalized)) return true;
+    if (['false', '0', 'off', 'no'].includes(normalized)) return false;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,58 @@
+/**
+ * Feature Flag Registry
+ * Every flag the app reads, with its type and default. Values, rollouts and targeting
+ * come from feature-toggles.json; a flag missing there serves its default.
+ */
+
+// Types
+export type FlagValue = boolean | string;
+
+export interface FlagDefinition<V extends FlagValue = FlagValue> {
+  description: string;
+  variants: readonly V[];
+  defaultValue: V;
+  onValue: V; // Served to allow-listed users
+  offValue: V; // Served to deny-listed users
+}
+
+export function defineBooleanFlag(description: string, defaultValue: boolean): FlagDefinition<boolean> {
+  return { description, variants: [true, false], defaultValue, onValue: true, offValue: false };
+}
+
+export function defineVariantFlag<V extends string>(
+  description: string,
+  variants: readonly V[],
+  options: { defaultValue: V; onValue?: V; offValue?: V }
+): FlagDefinition<V> {
+  return {
+    description,
+    variants,
+    defaultValue: options.defaultValue,
+    onValue: options.onValue ?? options.defaultValue,
+    offValue: options.offValue ?? options.defaultValue
+  };
+}
+
+export const FEATURE_FLAGS = {
+  Login: defineBooleanFlag('Require sign-in; when off the app runs as a demo user', true),
+  FraudDetection: defineBooleanFlag('Fraud scan, anomaly and stats APIs', true),
+  ComparisonDefaultSort: defineVariantFlag(
+    'Order of comparison results until the user picks a sort',
+    ['price', 'landedCost'] as const,
+    { defaultValue: 'price', onValue: 'landedCost', offValue: 'price' }
+  )
+};
+
+export type FlagKey = keyof typeof FEATURE_FLAGS;
+
+export type FlagValueOf<K extends FlagKey> = (typeof FEATURE_FLAGS)[K] extends FlagDefinition<infer V> ? V : never;
+
+export type BooleanFlagKey = { [K in FlagKey]: FlagValueOf<K> extends boolean ? K : never }[FlagKey];
+
+export type EvaluatedFlags = { [K in FlagKey]: FlagValueOf<K> };
+
+export const FLAG_KEYS = Object.keys(FEATURE_FLAGS) as FlagKey[];
+
+export function isFlagKey(key: string): key is FlagKey {
+  return Object.prototype.hasOwnProperty.call(FEATURE_FLAGS, key);
+}
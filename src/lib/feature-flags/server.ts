@@ -0,0 +1,32 @@
+/**
+ * Feature flags for server code and API routes
+ * Reads feature-toggles.json and picks up edits without a restart; evaluation is shared
+ * with the client hook.
+ */
+
+import type { NextRequest } from 'next/server';
+import { getRequestUserId } from '@/lib/server/request-user';
+import { getFlagConfig } from './config-file';
+import { evaluateFlag, evaluateFlags, type FlagContext } from './evaluate';
+import type { BooleanFlagKey, EvaluatedFlags, FlagKey, FlagValueOf } from './registry';
+
+export { getFlagConfig };
+
+export function getFlag<K extends FlagKey>(key: K, context: FlagContext = {}): FlagValueOf<K> {
+  return evaluateFlag(key, getFlagConfig(), context);
+}
+
+export function isFeatureEnabled(key: BooleanFlagKey, context: FlagContext = {}): boolean {
+  return getFlag(key, context) === true;
+}
+
+export function getFeatureFlags(context: FlagContext = {}): EvaluatedFlags {
+  return evaluateFlags(getFlagConfig(), context);
+}
+
+/**
+ * Evaluate for the user making the request, the same id the client hook is handed
+ */
+export function getRequestFlagContext(request: NextRequest): FlagContext {
+  return { userId: getRequestUserId(request) };
+}
@@ -0,0 +1,119 @@
+/**
+ * Bot Detector
+ * Bounded per-identity request logs scored for bot-like traffic: bursts, sustained high rates,
+ * repeated rate-limit hits and machine-regular timing
+ */
+
+import type { FraudCheckResult } from './fraud-detection-engine';
+
+// Types
+export type BotTechnique = 'burst' | 'sustained-rate' | 'rate-limit-abuse' | 'machine-timing';
+
+export interface BotDetectorOptions {
+  maxIdentities?: number;
+  maxEventsPerIdentity?: number; // Must cover the sustained-rate limit
+  burstLimit?: number; // Requests per second
+  sustainedLimit?: number; // Requests per minute
+  rateLimitHits?: number; // Rejected requests per minute
+  minTimingSamples?: number;
+  timingVariation?: number; // Coefficient of variation of request gaps below which timing looks scripted
+  reportCooldownMs?: number;
+}
+
+export interface BotObservation {
+  identity: string;
+  results: FraudCheckResult[];
+  reportable: boolean; // True at most once per cooldown, so callers don't re-report the same bot
+}
+
+interface IdentityLog {
+  requests: number[];
+  rejections: number[];
+  lastReportedAt: number;
+}
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60000;
+
+const DEFAULT_OPTIONS: Required<BotDetectorOptions> = {
+  maxIdentities: 10000,
+  maxEventsPerIdentity: 200,
+  burstLimit: 10,
+  sustainedLimit: 100,
+  rateLimitHits: 5,
+  minTimingSamples: 20,
+  timingVariation: 0.1,
+  reportCooldownMs: 10 * MINUTE_MS
+};
+
+export class BotDetector {
+  private logs: Map<string, IdentityLog> = new Map();
+  private options: Required<BotDetectorOptions>;
+
+  constructor(options: BotDetectorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Record a request (or a rejected one) and score the identity's recent traffic
+   */
+  observe(identity: string, action: string, rateLimited = false, now = Date.now()): BotObservation {
+    const log = this.logs.get(identity) || { requests: [], rejections: [], lastReportedAt: -Infinity };
+    this.logs.delete(identity);
+    this.logs.set(identity, log);
+    if (this.logs.size > this.options.maxIdentities) {
+      this.logs.delete(this.logs.keys().next().value as string);
+    }
+
+    log.requests = [...log.requests.filter(t => now - t < MINUTE_MS), now].slice(-this.options.maxEventsPerIdentity);
+    log.rejections = log.rejections.filter(t => now - t < MINUTE_MS);
+    if (rateLimited) log.rejections = [...log.rejections, now].slice(-this.options.maxEventsPerIdentity);
+
+    const results = this.score(log, action, now);
+    const reportable = results.length > 0 && now - log.lastReportedAt >= this.options.reportCooldownMs;
+    if (reportable) log.lastReportedAt = now;
+
+    return { identity, results, reportable };
+  }
+
+  clear(): void {
+    this.logs.clear();
+  }
+
+  private score(log: IdentityLog, action: string, now: number): FraudCheckResult[] {
+    const { burstLimit, sustainedLimit, rateLimitHits, minTimingSamples, timingVariation } = this.options;
+    const results: FraudCheckResult[] = [];
+    const result = (fraudType: string, technique: BotTechnique, confidence: number, reason: string) =>
+      results.push({ isFraudulent: true, fraudType, technique, confidence, reason });
+
+    const lastSecond = log.requests.filter(t => now - t < SECOND_MS).length;
+    if (lastSecond > burstLimit) {
+      result('suspicious_behavior', 'burst', Math.min(lastSecond / 15, 0.95), `${lastSecond} ${action} requests in 1 second`);
+    }
+
+    if (log.requests.length > sustainedLimit) {
+      result('bot_behavior', 'sustained-rate', 0.85, `${log.requests.length} requests in the last minute`);
+    }
+
+    if (log.rejections.length >= rateLimitHits) {
+      result(
+        'bot_behavior',
+        'rate-limit-abuse',
+        Math.min(0.5 + log.rejections.length / 20, 0.95),
+        `Kept retrying after ${log.rejections.length} rate-limited requests in the last minute`
+      );
+    }
+
+    // People click irregularly; scripts fire on a timer
+    if (log.requests.length >= minTimingSamples) {
+      const gaps = log.requests.slice(1).map((t, i) => t - log.requests[i]);
+      const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+      const deviation = Math.sqrt(gaps.reduce((sum, gap) => sum + (gap - mean) ** 2, 0) / gaps.length);
+      if (mean > 0 && deviation / mean < timingVariation) {
+        result('bot_behavior', 'machine-timing', 0.8, `Requests arrive every ${Math.round(mean)}ms with almost no variation`);
+      }
+    }
+
+    return results;
+  }
+}
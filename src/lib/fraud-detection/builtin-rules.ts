@@ -0,0 +1,124 @@
+/**
+ * Built-in fraud rules
+ * Thin wrappers that run the engine's detectors with the thresholds from the rule config
+ */
+
+import type { FraudRule } from './rule-registry';
+import type { CategoryThresholds } from './fraud-detection-engine';
+import type { UrlTechnique } from './url-analyzer';
+import type { ReferencePriceTechnique } from './reference-price';
+
+export interface FakeDealRuleConfig {
+  categoryThresholds: CategoryThresholds;
+  confidencePerPoint: number; // Confidence added per percentage point above the threshold
+  maxConfidence: number;
+}
+
+export interface CounterfeitRuleConfig {
+  categoryPriors: { [category: string]: number }; // Typical rating per category, must include default
+  priorWeight: number; // Pseudo-reviews at the prior rating
+  velocityWindowDays: number;
+  velocityBaselineDays: number;
+  velocitySpikeRatio: number; // Recent vs usual review rate that looks like bought reviews
+  minBurstReviews: number;
+  matureAgeDays: number; // Age at which a seller stops counting as new
+  marketplaceTrustPivot: number; // Marketplace trust level (0-1) that neither raises nor lowers risk
+  intercept: number; // Base log-odds of a counterfeit seller
+  weights: {
+    ratingShortfall: number; // Per star below the prior
+    reviewVelocity: number;
+    sellerAge: number;
+    marketplaceTrust: number;
+    verifiedSeller: number;
+    confirmedFraud: number; // Scaled by log2(1 + confirmed reports)
+  };
+  calibration: { slope: number; offset: number }; // Platt scaling of the raw log-odds; identity until fitted on moderator verdicts
+  flagThreshold: number; // Probability at which a seller is flagged
+  maxConfidence: number;
+}
+
+export interface PhishingRuleConfig {
+  confidence: number; // For known patterns and any technique without its own entry
+  techniqueConfidence: Partial<Record<UrlTechnique, number>>;
+}
+
+export interface PriceManipulationRuleConfig {
+  windowDays: number; // Rolling window of history kept and scored against
+  maxHistoryPoints: number;
+  minHistory: number;
+  robustZThreshold: number; // Band half-width in robust standard deviations
+  minRelativeDeviation: number; // Floor on the robust standard deviation, as a share of the median
+  ewmaAlpha: number;
+  seasonalPeriodDays: number;
+  minSeasonalSamples: number; // Observations needed in a season slot before its offset is used
+  changePointMinShift: number; // Smallest relative level shift treated as a change point
+  changePointThreshold: number; // Shift in robust standard deviations needed for a change point
+  pumpWindowDays: number; // How recent a price hike must be to count as a pump
+  maxConfidence: number;
+}
+
+export interface ReferencePriceRuleConfig {
+  evidenceWindowDays: number; // How far back prices count as evidence
+  preSaleWindowDays: number; // Window before the sale checked for a price hike
+  minObservations: number; // Prices needed before the MRP can be judged
+  mrpTolerance: number; // How far the claimed MRP may exceed the highest observed price
+  preSaleIncreaseThreshold: number; // Hike over the baseline that counts as inflation
+  confidence: number; // For any technique without its own entry
+  techniqueConfidence: Partial<Record<ReferencePriceTechnique, number>>;
+}
+
+// Config shape of each built-in rule, by rule id
+export interface FraudRuleConfigMap {
+  fake_deal: FakeDealRuleConfig;
+  counterfeit_product: CounterfeitRuleConfig;
+  phishing_link: PhishingRuleConfig;
+  price_manipulation: PriceManipulationRuleConfig;
+  reference_price: ReferencePriceRuleConfig;
+}
+
+export const fakeDealRule: FraudRule<FakeDealRuleConfig> = {
+  id: 'fake_deal',
+  name: 'Unrealistic discount',
+  description: 'Discount exceeds what is plausible for the deal category',
+  evaluate: ({ deal, engine }, config) => engine.detectFakeDeals([deal], config)
+};
+
+export const counterfeitProductRule: FraudRule<CounterfeitRuleConfig> = {
+  id: 'counterfeit_product',
+  name: 'Low-reputation seller',
+  description: 'Seller reputation model puts the chance of counterfeit goods too high',
+  evaluate: ({ deal, sellerId, engine }, config) =>
+    sellerId ? engine.detectCounterfeitProducts([sellerId], config, deal.category) : []
+};
+
+export const phishingLinkRule: FraudRule<PhishingRuleConfig> = {
+  id: 'phishing_link',
+  name: 'Phishing link',
+  description: 'Deal URL matches a known phishing pattern or imitates a trusted domain',
+  evaluate: ({ deal, engine }, config) => (deal.url ? engine.detectPhishingLinks([deal.url], config) : [])
+};
+
+export const priceManipulationRule: FraudRule<PriceManipulationRuleConfig> = {
+  id: 'price_manipulation',
+  name: 'Manipulated price',
+  description: 'Sale price is anomalous against the product price history, or follows a pump-and-dump',
+  evaluate: ({ deal, engine }, config) => {
+    const result = engine.detectPriceManipulation(deal.id, deal.discountedPrice, config, deal.timestamp);
+    return result.isFraudulent ? [result] : [];
+  }
+};
+
+export const referencePriceRule: FraudRule<ReferencePriceRuleConfig> = {
+  id: 'reference_price',
+  name: 'Inflated original price',
+  description: 'Claimed original price is impossible or above what the product actually sold for',
+  evaluate: ({ deal, engine }, config) => engine.detectReferencePriceFraud(deal, config)
+};
+
+export const BUILTIN_FRAUD_RULES: FraudRule[] = [
+  fakeDealRule,
+  counterfeitProductRule,
+  phishingLinkRule,
+  priceManipulationRule,
+  referencePriceRule
+];
@@ -3,6 +3,38 @@
  * Detects fake deals, counterfeit products, phishing links, price manipulation, and suspicious user behavior
  */
 
+import { FraudRuleRegistry, getRiskLevel, isAtLeast, DEFAULT_FRAUD_RULES_CONFIG } from './rule-registry';
+import {
+  BUILTIN_FRAUD_RULES,
+  type CounterfeitRuleConfig,
+  type FakeDealRuleConfig,
+  type PhishingRuleConfig,
+  type PriceManipulationRuleConfig,
+  type ReferencePriceRuleConfig
+} from './builtin-rules';
+import { UrlAnalyzer, type UrlAnalysis } from './url-analyzer';
+import { PhishingPatternMatcher } from './phishing-matcher';
+import {
+  analyzePriceSeries,
+  trimPriceHistory,
+  type PriceAnomalyAnalysis,
+  type PriceAnomalyClassification,
+  type PriceBand,
+  type PriceBaseline,
+  type PriceChangePoint
+} from './price-anomaly';
+import { SellerReputationModel, type SellerReputation } from './seller-reputation';
+import { BotDetector, type BotObservation } from './bot-detector';
+import {
+  analyzeReferencePrice,
+  type ReferencePriceAnalysis,
+  type ReferencePriceEvidence,
+  type VendorPriceQuote
+} from './reference-price';
+import type { FraudRiskAssessment, FraudRulesConfig, RiskExplanationStep } from './types';
+import type { MarketplaceTrustScore } from '@/lib/marketplace/types';
+import fraudData from './fraud-data.json';
+
 // MinHeap implementation for tracking anomalies
 class MinHeap<T> {
   private heap: T[] = [];
@@ -62,48 +94,49 @@ class MinHeap<T> {
   }
 }
 
-// Trie implementation for phishing URL detection
-class TrieNode {
-  children: Map<string, TrieNode> = new Map();
-  isEndOfPattern: boolean = false;
+interface Anomaly {
+  dealId: string;
+  anomalyScore: number;
 }
 
-class Trie {
-  private root: TrieNode = new TrieNode();
+const MAX_TRACKED_ANOMALIES = 1000;
 
-  insert(pattern: string): void {
-    let current = this.root;
-    for (const char of pattern) {
-      if (!current.children.has(char)) {
-        current.children.set(char, new TrieNode());
-      }
-      current = current.children.get(char)!;
+// The strongest anomalies, one per deal. The map holds each deal's current score; the min-heap
+// finds the weakest tracked deal to evict. Heap entries whose score no longer matches the map
+// are stale (the deal was rescanned or dropped) and skipped when they surface.
+class TopAnomalies {
+  private scores: Map<string, number> = new Map();
+  private heap: MinHeap<Anomaly> = new MinHeap((a, b) => a.anomalyScore - b.anomalyScore);
+
+  constructor(private capacity: number) {}
+
+  record(dealId: string, anomalyScore: number): void {
+    if (this.scores.get(dealId) === anomalyScore) return;
+    this.scores.set(dealId, anomalyScore);
+    this.heap.insert({ dealId, anomalyScore });
+
+    while (this.scores.size > this.capacity) {
+      const weakest = this.heap.extractMin();
+      if (!weakest) break;
+      if (this.scores.get(weakest.dealId) === weakest.anomalyScore) this.scores.delete(weakest.dealId);
     }
-    current.isEndOfPattern = true;
+
+    if (this.heap.size() > 2 * this.capacity) this.compact();
   }
 
-  search(text: string): boolean {
-    for (let i = 0; i < text.length; i++) {
-      if (this.searchFromIndex(text, i)) {
-        return true;
-      }
-    }
-    return false;
+  remove(dealId: string): void {
+    this.scores.delete(dealId);
   }
 
-  private searchFromIndex(text: string, startIndex: number): boolean {
-    let current = this.root;
-    for (let i = startIndex; i < text.length; i++) {
-      const char = text[i];
-      if (!current.children.has(char)) {
-        return false;
-      }
-      current = current.children.get(char)!;
-      if (current.isEndOfPattern) {
-        return true;
-      }
-    }
-    return false;
+  top(count: number): Anomaly[] {
+    return Array.from(this.scores, ([dealId, anomalyScore]) => ({ dealId, anomalyScore }))
+      .sort((a, b) => b.anomalyScore - a.anomalyScore)
+      .slice(0, count);
+  }
+
+  private compact(): void {
+    this.heap = new MinHeap((a, b) => a.anomalyScore - b.anomalyScore);
+    this.scores.forEach((anomalyScore, dealId) => this.heap.insert({ dealId, anomalyScore }));
   }
 }
 
@@ -124,6 +157,10 @@ export interface Seller {
   name: string;
   rating: number;
   reviewCount: number;
+  category?: string; // Main category, used for the rating prior when a deal has none
+  joinedAt?: number;
+  reviewHistory?: { date: number; count: number }[]; // Reviews received per day
+  confirmedFraudReports?: number; // Moderator-confirmed fraud on this seller's deals or listings
 }
 
 export interface PriceHistory {
@@ -138,10 +175,20 @@ export interface UserActivity {
 }
 
 export interface FraudCheckResult {
+  ruleId?: string;
   isFraudulent: boolean;
   fraudType?: string;
   confidence: number;
   reason?: string;
+  technique?: string; // How a phishing link imitates a trusted site
+  matchedPatterns?: string[]; // Known phishing patterns found in the URL
+  matchedDomain?: string; // Trusted domain being imitated
+  evidence?: ReferencePriceEvidence; // Price window a reference-price finding was judged on
+  priceClassification?: PriceAnomalyClassification;
+  baseline?: PriceBaseline; // What a price was compared against
+  band?: PriceBand;
+  changePoint?: PriceChangePoint;
+  reputation?: SellerReputation; // Seller model output behind a counterfeit finding
 }
 
 export interface CategoryThresholds {
@@ -150,26 +197,25 @@ export interface CategoryThresholds {
 
 // Fraud Detection Engine
 export class FraudDetectionEngine {
-  private phishingTrie: Trie;
-  private userActivityCache: Map<string, number[]>;
-  private categoryThresholds: CategoryThresholds;
-  private anomalyHeap: MinHeap<{ dealId: string; anomalyScore: number }>;
-  private sellerReputationCache: Map<string, Seller>;
+  private phishingMatcher: PhishingPatternMatcher;
+  private urlAnalyzer: UrlAnalyzer;
+  private botDetector: BotDetector;
+  private ruleRegistry: FraudRuleRegistry;
+  private anomalies: TopAnomalies;
+  private sellerReputation: SellerReputationModel;
   private priceHistoryCache: Map<string, PriceHistory>;
-
-  constructor() {
-    this.phishingTrie = new Trie();
-    this.userActivityCache = new Map();
-    this.categoryThresholds = {
-      electronics: 0.7,
-      fashion: 0.9,
-      home: 0.8,
-      food: 0.6,
-      default: 0.85
-    };
-    this.anomalyHeap = new MinHeap((a, b) => b.anomalyScore - a.anomalyScore);
-    this.sellerReputationCache = new Map();
+  private vendorPriceCache: Map<string, VendorPriceQuote[]>;
+
+  constructor(rulesConfig: FraudRulesConfig = DEFAULT_FRAUD_RULES_CONFIG) {
+    this.phishingMatcher = new PhishingPatternMatcher();
+    this.urlAnalyzer = new UrlAnalyzer({ trustedDomains: fraudData.trustedDomains });
+    this.botDetector = new BotDetector();
+    this.ruleRegistry = new FraudRuleRegistry(rulesConfig);
+    BUILTIN_FRAUD_RULES.forEach(rule => this.ruleRegistry.register(rule));
+    this.anomalies = new TopAnomalies(MAX_TRACKED_ANOMALIES);
+    this.sellerReputation = new SellerReputationModel();
     this.priceHistoryCache = new Map();
+    this.vendorPriceCache = new Map();
 
     // Initialize with known phishing patterns
     this.initializePhishingPatterns();
@@ -177,64 +223,112 @@ export class FraudDetectionEngine {
     this.initializeSellerData();
     // Initialize with mock price history
     this.initializePriceHistory();
+    // Initialize with mock vendor prices
+    this.initializeVendorPrices();
   }
 
   /**
-   * Main fraud detection method that runs all checks
+   * Main fraud detection method that runs all enabled rules
    */
   async detectFraud(deal: Deal, sellerId?: string): Promise<FraudCheckResult[]> {
-    const results: FraudCheckResult[] = [];
+    return this.evaluateRules(deal, sellerId).flatMap(({ results }) => results);
+  }
 
-    // Check for fake deals
-    const fakeDealsResult = this.detectFakeDeals([deal]);
-    if (fakeDealsResult.length > 0) {
-      results.push(...fakeDealsResult);
+  /**
+   * Run all rules and fold their results into one weighted risk score.
+   * Scores combine as a noisy-OR, so independent weak signals add up without exceeding 1.
+   */
+  async assessRisk(deal: Deal, sellerId?: string): Promise<FraudRiskAssessment> {
+    const config = this.ruleRegistry.getConfig();
+    const explanation: RiskExplanationStep[] = [];
+    const evaluations = this.evaluateRules(deal, sellerId);
+    const evaluated = new Map(evaluations.map(e => [e.ruleId, e.results]));
+
+    for (const rule of this.ruleRegistry.list()) {
+      const settings = this.ruleRegistry.getSettings(rule.id);
+      const results = evaluated.get(rule.id) || [];
+      const strongest = results.reduce<FraudCheckResult | null>(
+        (best, r) => (!best || r.confidence > best.confidence ? r : best),
+        null
+      );
+      const confidence = strongest?.confidence ?? 0;
+
+      explanation.push({
+        ruleId: rule.id,
+        ruleName: rule.name,
+        enabled: settings.enabled,
+        fired: !!strongest,
+        weight: settings.weight,
+        confidence,
+        contribution: settings.enabled ? settings.weight * confidence : 0,
+        reason: strongest?.reason
+      });
     }
 
-    // Check for counterfeit products
-    if (sellerId) {
-      const counterfeitsResult = this.detectCounterfeitProducts([sellerId]);
-      if (counterfeitsResult.length > 0) {
-        results.push(...counterfeitsResult);
-      }
-    }
+    const riskScore = 1 - explanation.reduce((clean, step) => clean * (1 - step.contribution), 1);
+    const riskLevel = getRiskLevel(riskScore, config.riskThresholds);
 
-    // Check for phishing links
-    const phishingResult = this.detectPhishingLinks([deal.url]);
-    if (phishingResult.length > 0) {
-      results.push(...phishingResult);
-    }
+    return {
+      dealId: deal.id,
+      riskScore,
+      riskLevel,
+      blocked: isAtLeast(riskLevel, config.blockAt),
+      results: evaluations.flatMap(e => e.results),
+      explanation: explanation.sort((a, b) => b.contribution - a.contribution)
+    };
+  }
 
-    // Check for price manipulation
-    const priceManipulationResult = this.detectPriceManipulation(deal.id, deal.originalPrice);
-    if (priceManipulationResult.isFraudulent) {
-      results.push(priceManipulationResult);
-    }
+  /**
+   * Replace the active rule settings, e.g. after ops edits the rules JSON
+   */
+  configureRules(overrides: unknown): void {
+    this.ruleRegistry.configure(overrides);
+  }
 
-    return results;
+  getRuleRegistry(): FraudRuleRegistry {
+    return this.ruleRegistry;
+  }
+
+  private evaluateRules(deal: Deal, sellerId?: string): Array<{ ruleId: string; results: FraudCheckResult[] }> {
+    return this.ruleRegistry.list()
+      .filter(rule => this.ruleRegistry.getSettings(rule.id).enabled)
+      .map(rule => {
+        const { config } = this.ruleRegistry.getSettings(rule.id);
+        const results = rule.evaluate({ deal, sellerId, engine: this }, config)
+          .filter(r => r.isFraudulent)
+          .map(r => ({ ...r, ruleId: rule.id }));
+        return { ruleId: rule.id, results };
+      });
   }
 
   /**
    * Detect fake deals based on discount percentages
    */
-  detectFakeDeals(deals: Deal[]): FraudCheckResult[] {
+  detectFakeDeals(
+    deals: Deal[],
+    config: FakeDealRuleConfig = this.ruleRegistry.getSettings('fake_deal').config
+  ): FraudCheckResult[] {
     const results: FraudCheckResult[] = [];
+    const thresholds = config.categoryThresholds;
 
     for (const deal of deals) {
       const discountPercentage = ((deal.originalPrice - deal.discountedPrice) / deal.originalPrice) * 100;
-      const threshold = this.categoryThresholds[deal.category] || this.categoryThresholds.default;
+      const threshold = thresholds[deal.category] || thresholds.default;
       const thresholdPercentage = threshold * 100;
 
       if (discountPercentage > thresholdPercentage) {
         const anomalyScore = discountPercentage - thresholdPercentage;
-        this.anomalyHeap.insert({ dealId: deal.id, anomalyScore });
+        this.anomalies.record(deal.id, anomalyScore);
 
         results.push({
           isFraudulent: true,
           fraudType: 'fake_deal',
-          confidence: Math.min(anomalyScore / 20, 0.95),
+          confidence: Math.min(anomalyScore * config.confidencePerPoint, config.maxConfidence),
           reason: `Discount of ${discountPercentage.toFixed(1)}% exceeds category threshold of ${thresholdPercentage}%`
         });
+      } else {
+        // A rescan that no longer looks anomalous drops out of the top anomalies
+        this.anomalies.remove(deal.id);
       }
     }
 
@@ -242,43 +336,73 @@ export class FraudDetectionEngine {
   }
 
   /**
-   * Detect counterfeit products based on seller reputation
+   * Detect counterfeit products from the seller reputation model
    */
-  detectCounterfeitProducts(sellerIds: string[]): FraudCheckResult[] {
+  detectCounterfeitProducts(
+    sellerIds: string[],
+    config: CounterfeitRuleConfig = this.ruleRegistry.getSettings('counterfeit_product').config,
+    category?: string
+  ): FraudCheckResult[] {
     const results: FraudCheckResult[] = [];
-    const RATING_THRESHOLD = 3.5;
-    const REVIEW_COUNT_THRESHOLD = 50;
 
     for (const sellerId of sellerIds) {
-      const seller = this.sellerReputationCache.get(sellerId);
-      if (!seller) continue;
+      const reputation = this.sellerReputation.assess(sellerId, config, category);
+      if (!reputation || reputation.counterfeitProbability < config.flagThreshold) continue;
 
-      if (seller.rating < RATING_THRESHOLD || seller.reviewCount < REVIEW_COUNT_THRESHOLD) {
-        results.push({
-          isFraudulent: true,
-          fraudType: 'counterfeit_product',
-          confidence: seller.rating < 2.5 ? 0.9 : 0.7,
-          reason: `Seller has low rating (${seller.rating}/5) or insufficient reviews (${seller.reviewCount})`
-        });
-      }
+      const drivers = reputation.factors.filter(f => f.logOdds > 0).slice(0, 3).map(f => f.detail);
+      results.push({
+        isFraudulent: true,
+        fraudType: 'counterfeit_product',
+        confidence: Math.min(reputation.counterfeitProbability, config.maxConfidence),
+        reason: `${(reputation.counterfeitProbability * 100).toFixed(0)}% counterfeit risk for ${reputation.sellerName}: ${drivers.join('; ')}`,
+        reputation
+      });
     }
 
     return results;
   }
 
   /**
-   * Detect phishing links using Trie pattern matching
+   * Reputation of a seller with the contributing factors, whether or not it would be flagged
    */
-  detectPhishingLinks(urls: string[]): FraudCheckResult[] {
+  assessSeller(
+    sellerId: string,
+    category?: string,
+    config: CounterfeitRuleConfig = this.ruleRegistry.getSettings('counterfeit_product').config
+  ): SellerReputation | undefined {
+    return this.sellerReputation.assess(sellerId, config, category);
+  }
+
+  /**
+   * Detect phishing links: known patterns via Aho-Corasick, then lookalike analysis of the URL itself
+   */
+  detectPhishingLinks(
+    urls: string[],
+    config: PhishingRuleConfig = this.ruleRegistry.getSettings('phishing_link').config
+  ): FraudCheckResult[] {
     const results: FraudCheckResult[] = [];
 
     for (const url of urls) {
-      if (this.phishingTrie.search(url.toLowerCase())) {
+      const matchedPatterns = this.phishingMatcher.matchedPatterns(url);
+      if (matchedPatterns.length > 0) {
         results.push({
           isFraudulent: true,
           fraudType: 'phishing_link',
-          confidence: 0.95,
-          reason: 'URL matches known phishing patterns'
+          confidence: config.confidence,
+          reason: `URL matches known phishing patterns: ${matchedPatterns.join(', ')}`,
+          technique: 'known-pattern',
+          matchedPatterns
+        });
+      }
+
+      for (const finding of this.urlAnalyzer.analyze(url).findings) {
+        results.push({
+          isFraudulent: true,
+          fraudType: 'phishing_link',
+          confidence: config.techniqueConfidence[finding.technique] ?? config.confidence,
+          reason: finding.detail,
+          technique: finding.technique,
+          matchedDomain: finding.matchedDomain
         });
       }
     }
@@ -287,95 +411,115 @@ export class FraudDetectionEngine {
   }
 
   /**
-   * Detect price manipulation through historical analysis
+   * Detect price manipulation with robust statistics over the product's price history
    */
-  detectPriceManipulation(productId: string, currentPrice: number): FraudCheckResult {
-    const history = this.priceHistoryCache.get(productId);
-    if (!history || history.prices.length < 3) {
-      return { isFraudulent: false, confidence: 0 };
-    }
+  detectPriceManipulation(
+    productId: string,
+    currentPrice: number,
+    config: PriceManipulationRuleConfig = this.ruleRegistry.getSettings('price_manipulation').config,
+    at: number = Date.now()
+  ): FraudCheckResult {
+    const analysis = this.analyzePriceHistory(productId, currentPrice, config, at);
+    const details = {
+      priceClassification: analysis.classification,
+      baseline: analysis.baseline,
+      band: analysis.band,
+      changePoint: analysis.changePoint
+    };
 
-    // Calculate median price using median-of-medians approach for efficiency
-    const prices = history.prices.map(p => p.price);
-    const medianPrice = this.calculateMedian(prices);
-    const deviation = Math.abs(currentPrice - medianPrice) / medianPrice;
-    const DEVIATION_THRESHOLD = 0.3; // 30% deviation
+    if (!analysis.isAnomalous || !analysis.baseline || !analysis.band) {
+      return { isFraudulent: false, confidence: 0, ...details };
+    }
 
-    if (deviation > DEVIATION_THRESHOLD) {
-      return {
-        isFraudulent: true,
-        fraudType: 'price_manipulation',
-        confidence: Math.min(deviation * 2, 0.95),
-        reason: `Price deviates ${(deviation * 100).toFixed(1)}% from historical median of ₹${medianPrice.toFixed(2)}`
-      };
+    const { baseline, band, changePoint } = analysis;
+    const bandText = `₹${band.lower.toFixed(0)}-₹${band.upper.toFixed(0)}`;
+    let confidence: number;
+    let reason: string;
+
+    if (analysis.classification === 'pump-and-dump' && changePoint) {
+      confidence = Math.min(0.5 + changePoint.shift, config.maxConfidence);
+      reason = `Price was pumped ${(changePoint.shift * 100).toFixed(0)}% to ₹${changePoint.after.toFixed(0)} and dropped back to ₹${currentPrice.toFixed(0)}, within the usual range of ${bandText}`;
+    } else {
+      const excess = Math.abs(analysis.robustZ) - config.robustZThreshold;
+      confidence = Math.min(0.5 + excess / (2 * config.robustZThreshold), config.maxConfidence);
+      reason = `Price ₹${currentPrice.toFixed(0)} is ${analysis.robustZ.toFixed(1)} robust SDs from the expected ₹${baseline.expected.toFixed(0)} (band ${bandText})` +
+        (analysis.classification === 'pump' ? ' after a recent price hike' : '');
     }
 
-    return { isFraudulent: false, confidence: 0 };
+    return { isFraudulent: true, fraudType: 'price_manipulation', confidence, reason, ...details };
   }
 
   /**
-   * Detect suspicious user behavior (bots, rapid actions)
+   * Robust z-score, seasonal baseline and change point for a price against the stored history
    */
-  detectSuspiciousUserBehavior(userId: string, action: string): FraudCheckResult {
-    const now = Date.now();
-    const userTimestamps = this.userActivityCache.get(userId) || [];
-    
-    // Add current timestamp
-    userTimestamps.push(now);
-    
-    // Keep only recent timestamps (last 60 seconds)
-    const recentTimestamps = userTimestamps.filter(ts => now - ts < 60000);
-    this.userActivityCache.set(userId, recentTimestamps);
-
-    // Check for rapid actions (more than 10 actions in 1 second)
-    const oneSecondAgo = now - 1000;
-    const rapidActions = recentTimestamps.filter(ts => ts > oneSecondAgo).length;
-
-    if (rapidActions > 10) {
-      return {
-        isFraudulent: true,
-        fraudType: 'suspicious_behavior',
-        confidence: Math.min(rapidActions / 15, 0.95),
-        reason: `User performed ${rapidActions} actions in 1 second`
-      };
-    }
+  analyzePriceHistory(
+    productId: string,
+    price: number,
+    config: PriceManipulationRuleConfig = this.ruleRegistry.getSettings('price_manipulation').config,
+    at: number = Date.now()
+  ): PriceAnomalyAnalysis {
+    return analyzePriceSeries(this.priceHistoryCache.get(productId)?.prices || [], price, at, config);
+  }
 
-    // Check for sustained high activity (more than 100 actions per minute)
-    if (recentTimestamps.length > 100) {
-      return {
-        isFraudulent: true,
-        fraudType: 'bot_behavior',
-        confidence: 0.85,
-        reason: `User performed ${recentTimestamps.length} actions in the last minute`
-      };
-    }
+  /**
+   * Detect fake discounts by checking the claimed original price against observed history and vendor prices
+   */
+  detectReferencePriceFraud(
+    deal: Deal,
+    config: ReferencePriceRuleConfig = this.ruleRegistry.getSettings('reference_price').config
+  ): FraudCheckResult[] {
+    const analysis = this.analyzeReferencePrice(deal, config);
+
+    return analysis.findings.map(finding => ({
+      isFraudulent: true,
+      fraudType: 'fake_discount',
+      confidence: config.techniqueConfidence[finding.technique] ?? config.confidence,
+      reason: finding.detail,
+      technique: finding.technique,
+      evidence: analysis.evidence
+    }));
+  }
 
-    return { isFraudulent: false, confidence: 0 };
+  /**
+   * Full reference-price analysis for a deal, including the evidence window and effective discount
+   */
+  analyzeReferencePrice(
+    deal: Deal,
+    config: ReferencePriceRuleConfig = this.ruleRegistry.getSettings('reference_price').config
+  ): ReferencePriceAnalysis {
+    return analyzeReferencePrice({
+      dealId: deal.id,
+      originalPrice: deal.originalPrice,
+      salePrice: deal.discountedPrice,
+      saleStartedAt: deal.timestamp,
+      history: this.priceHistoryCache.get(deal.id)?.prices || [],
+      vendorQuotes: this.vendorPriceCache.get(deal.id) || []
+    }, config);
   }
 
   /**
-   * Get top anomalies from the heap
+   * Detect suspicious user behavior (bots, rapid actions); returns the strongest finding
    */
-  getTopAnomalies(count: number): { dealId: string; anomalyScore: number }[] {
-    const anomalies: { dealId: string; anomalyScore: number }[] = [];
-    for (let i = 0; i < count && this.anomalyHeap.size() > 0; i++) {
-      const anomaly = this.anomalyHeap.extractMin();
-      if (anomaly) anomalies.push(anomaly);
-    }
-    // Re-insert for future use
-    anomalies.forEach(a => this.anomalyHeap.insert(a));
-    return anomalies;
+  detectSuspiciousUserBehavior(userId: string, action: string): FraudCheckResult {
+    const { results } = this.botDetector.observe(userId, action);
+    return results.reduce<FraudCheckResult>(
+      (strongest, r) => (r.confidence > strongest.confidence ? r : strongest),
+      { isFraudulent: false, confidence: 0 }
+    );
   }
 
   /**
-   * Efficient median calculation using median-of-medians
+   * Record an API request for bot detection, including ones the rate limiter rejected
    */
-  private calculateMedian(numbers: number[]): number {
-    const sorted = [...numbers].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    return sorted.length % 2 === 0
-      ? (sorted[mid - 1] + sorted[mid]) / 2
-      : sorted[mid];
+  observeRequest(identity: string, action: string, rateLimited: boolean): BotObservation {
+    return this.botDetector.observe(identity, action, rateLimited);
+  }
+
+  /**
+   * Strongest anomalies, one per deal
+   */
+  getTopAnomalies(count: number): { dealId: string; anomalyScore: number }[] {
+    return this.anomalies.top(count);
   }
 
   /**
@@ -397,22 +541,38 @@ export class FraudDetectionEngine {
       'verify-account.scam'
     ];
 
-    phishingPatterns.forEach(pattern => this.phishingTrie.insert(pattern));
+    this.phishingMatcher.addAll(phishingPatterns);
   }
 
   /**
    * Initialize mock seller data
    */
   private initializeSellerData(): void {
+    const day = 86400000;
+    const now = Date.now();
     const sellers: Seller[] = [
-      { id: 'seller1', name: 'TechStore Pro', rating: 4.8, reviewCount: 1250 },
-      { id: 'seller2', name: 'FashionHub', rating: 4.5, reviewCount: 890 },
-      { id: 'seller3', name: 'SuspiciousSeller', rating: 2.1, reviewCount: 12 },
-      { id: 'seller4', name: 'NewSeller', rating: 3.2, reviewCount: 25 },
-      { id: 'seller5', name: 'TrustedMart', rating: 4.9, reviewCount: 5420 }
+      { id: 'seller1', name: 'TechStore Pro', rating: 4.8, reviewCount: 1250, category: 'electronics', joinedAt: now - day * 900 },
+      { id: 'seller2', name: 'FashionHub', rating: 4.5, reviewCount: 890, category: 'fashion', joinedAt: now - day * 640 },
+      {
+        id: 'seller3',
+        name: 'SuspiciousSeller',
+        rating: 2.1,
+        reviewCount: 45,
+        category: 'electronics',
+        joinedAt: now - day * 21,
+        // Burst of reviews in the last few days
+        reviewHistory: [
+          { date: now - day * 18, count: 1 },
+          { date: now - day * 3, count: 14 },
+          { date: now - day * 2, count: 19 },
+          { date: now - day, count: 11 }
+        ]
+      },
+      { id: 'seller4', name: 'NewSeller', rating: 3.2, reviewCount: 25, joinedAt: now - day * 45 },
+      { id: 'seller5', name: 'TrustedMart', rating: 4.9, reviewCount: 5420, joinedAt: now - day * 2100 }
     ];
 
-    sellers.forEach(seller => this.sellerReputationCache.set(seller.id, seller));
+    sellers.forEach(seller => this.sellerReputation.upsertSeller(seller));
   }
 
   /**
@@ -437,37 +597,118 @@ export class FraudDetectionEngine {
           { price: 510, timestamp: Date.now() - 86400000 * 3 },
           { price: 1500, timestamp: Date.now() } // Manipulated price
         ]
+      },
+      {
+        productId: 'deal2',
+        prices: [
+          { price: 79999, timestamp: Date.now() - 86400000 * 25 },
+          { price: 74999, timestamp: Date.now() - 86400000 * 15 },
+          { price: 72999, timestamp: Date.now() - 86400000 * 6 }
+        ]
+      },
+      {
+        productId: 'deal4',
+        prices: [
+          { price: 19990, timestamp: Date.now() - 86400000 * 28 },
+          { price: 19990, timestamp: Date.now() - 86400000 * 20 },
+          { price: 20490, timestamp: Date.now() - 86400000 * 12 },
+          { price: 29990, timestamp: Date.now() - 86400000 * 4 } // Raised just before the sale
+        ]
       }
     ];
 
     histories.forEach(history => this.priceHistoryCache.set(history.productId, history));
   }
 
+  /**
+   * Initialize mock cross-vendor prices
+   */
+  private initializeVendorPrices(): void {
+    const observedAt = Date.now() - 86400000;
+    this.vendorPriceCache.set('deal2', [
+      { vendor: 'Amazon.in', price: 61999, listPrice: 79999, observedAt },
+      { vendor: 'Flipkart', price: 59999, listPrice: 79999, observedAt },
+      { vendor: 'Croma', price: 64990, listPrice: 79999, observedAt }
+    ]);
+    this.vendorPriceCache.set('deal4', [
+      { vendor: 'Amazon.in', price: 19990, listPrice: 34990, observedAt },
+      { vendor: 'Croma', price: 20990, listPrice: 34990, observedAt }
+    ]);
+  }
+
   /**
    * Update seller reputation
    */
   updateSellerReputation(seller: Seller): void {
-    this.sellerReputationCache.set(seller.id, seller);
+    this.sellerReputation.upsertSeller(seller);
+  }
+
+  /**
+   * Record moderator-confirmed fraud against a seller
+   */
+  recordConfirmedFraud(sellerId: string): void {
+    this.sellerReputation.recordConfirmedFraud(sellerId);
+  }
+
+  /**
+   * Withdraw a confirmed fraud report that a moderator overturned
+   */
+  retractConfirmedFraud(sellerId: string): void {
+    this.sellerReputation.retractConfirmedFraud(sellerId);
+  }
+
+  /**
+   * Feed a marketplace trust score into the seller reputation model
+   */
+  updateMarketplaceTrust(trust: MarketplaceTrustScore, profile?: Pick<Seller, 'name' | 'joinedAt'>): void {
+    this.sellerReputation.recordMarketplaceTrust(trust, profile);
+  }
+
+  /**
+   * Parse a URL and report how it imitates trusted domains, if at all
+   */
+  analyzeUrl(url: string): UrlAnalysis {
+    return this.urlAnalyzer.analyze(url);
+  }
+
+  /**
+   * Add trusted domain
+   */
+  addTrustedDomain(domain: string): void {
+    this.urlAnalyzer.addTrustedDomain(domain);
+  }
+
+  /**
+   * Replace the cross-vendor prices for a product, e.g. from a comparison search
+   */
+  updateVendorPrices(productId: string, quotes: VendorPriceQuote[]): void {
+    this.vendorPriceCache.set(productId, quotes);
   }
 
   /**
    * Add phishing pattern
    */
   addPhishingPattern(pattern: string): void {
-    this.phishingTrie.insert(pattern.toLowerCase());
+    this.phishingMatcher.add(pattern);
+  }
+
+  /**
+   * Remove phishing pattern
+   */
+  removePhishingPattern(pattern: string): void {
+    this.phishingMatcher.remove(pattern);
   }
 
   /**
    * Update price history
    */
-  updatePriceHistory(productId: string, price: number): void {
+  updatePriceHistory(productId: string, price: number, timestamp: number = Date.now()): void {
+    const { windowDays, maxHistoryPoints } = this.ruleRegistry.getSettings('price_manipulation').config;
     const history = this.priceHistoryCache.get(productId) || { productId, prices: [] };
-    history.prices.push({ price, timestamp: Date.now() });
-    
-    // Keep only last 30 days of history
-    const thirtyDaysAgo = Date.now() - 30 * 86400000;
-    history.prices = history.prices.filter(p => p.timestamp > thirtyDaysAgo);
-    
+
+    // Bounded rolling window: by age and by count
+    history.prices = trimPriceHistory([...history.prices, { price, timestamp }], windowDays, maxHistoryPoints);
+
     this.priceHistoryCache.set(productId, history);
   }
 
@@ -475,7 +716,7 @@ export class FraudDetectionEngine {
    * Clear user activity cache (for cleanup)
    */
   clearUserActivityCache(): void {
-    this.userActivityCache.clear();
+    this.botDetector.clear();
   }
 }
 
@@ -0,0 +1,67 @@
+/**
+ * Marketplace trust source
+ * Pulls a listing seller's trust score from the marketplace profile endpoint into the
+ * seller reputation model, at most once per seller per TTL.
+ */
+
+import type { MarketplaceProfile, MarketplaceTrustScore } from '@/lib/marketplace/types';
+import type { FraudDetectionEngine } from './fraud-detection-engine';
+
+const MARKETPLACE_API_URL = `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080'}/api`;
+const TRUST_TTL_MS = 60 * 60 * 1000; // Trust scores are recalculated by the marketplace, not per request
+const FETCH_TIMEOUT_MS = 3000;
+const MAX_TRACKED = 10000;
+
+// Last lookup per seller, successful or not, so a marketplace outage isn't hit on every scan
+const lastFetched = new Map<string, number>();
+
+function isTrustScore(value: unknown): value is MarketplaceTrustScore {
+  if (!value || typeof value !== 'object') return false;
+  const trust = value as Record<string, unknown>;
+  return typeof trust.user_id === 'string' &&
+    ['total_transactions', 'successful_transactions', 'average_rating', 'total_reviews', 'trust_score']
+      .every(key => typeof trust[key] === 'number' && Number.isFinite(trust[key])) &&
+    typeof trust.verified_seller === 'boolean';
+}
+
+/**
+ * The seller's public marketplace profile, or null when it is missing or malformed
+ */
+export async function fetchMarketplaceProfile(sellerId: string): Promise<MarketplaceProfile | null> {
+  const response = await fetch(`${MARKETPLACE_API_URL}/marketplace/profile/${encodeURIComponent(sellerId)}`, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Marketplace profile request failed with status ${response.status}`);
+
+  const profile = await response.json() as Partial<MarketplaceProfile> | null;
+  if (!profile || !isTrustScore(profile.trust_score) || profile.trust_score.user_id !== sellerId) return null;
+  return profile as MarketplaceProfile;
+}
+
+/**
+ * Refresh the engine's marketplace trust for a listing seller when the last lookup is stale
+ */
+export async function refreshMarketplaceTrust(engine: FraudDetectionEngine, sellerId: string, now = Date.now()): Promise<void> {
+  const fetchedAt = lastFetched.get(sellerId);
+  if (fetchedAt !== undefined && now - fetchedAt < TRUST_TTL_MS) return;
+
+  lastFetched.delete(sellerId);
+  lastFetched.set(sellerId, now);
+  if (lastFetched.size > MAX_TRACKED) {
+    lastFetched.delete(lastFetched.keys().next().value as string);
+  }
+
+  try {
+    const profile = await fetchMarketplaceProfile(sellerId);
+    if (!profile) return;
+
+    const memberSince = Date.parse(profile.member_since);
+    engine.updateMarketplaceTrust(profile.trust_score, {
+      name: profile.username || sellerId,
+      joinedAt: Number.isFinite(memberSince) ? memberSince : undefined
+    });
+  } catch (error) {
+    console.error(`Error fetching marketplace trust for seller ${sellerId}:`, error);
+  }
+}
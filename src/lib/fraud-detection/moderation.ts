@@ -0,0 +1,306 @@
+/**
+ * Fraud Review Queue
+ * Flagged deals, marketplace listings and bot-like clients waiting for a moderator, with their decisions.
+ * Confirmed fraud is fed back into the engine and kept so it survives restarts.
+ */
+
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { Deal, FraudDetectionEngine } from './fraud-detection-engine';
+import type { MarketplaceListing } from '@/lib/marketplace/types';
+import type {
+  FraudRiskAssessment,
+  FraudRiskLevel,
+  LearnedFeedback,
+  ModerationDecision,
+  ModerationDecisionResponse,
+  ReviewItemType,
+  ReviewQueueItem,
+  ReviewStatus
+} from './types';
+
+const MAX_ITEMS = 2000;
+
+export const SEVERITY_ORDER: FraudRiskLevel[] = ['critical', 'high', 'medium', 'low'];
+
+const DECISION_STATUS: Record<ModerationDecision, ReviewStatus> = {
+  confirm: 'confirmed',
+  false_positive: 'false_positive',
+  escalate: 'escalated'
+};
+
+interface ModerationFeedback {
+  phishingPatterns: string[];
+  patternBackers?: Record<string, number>; // Confirmed items backing each learned domain
+  sellerReports: Record<string, number>; // Confirmed reports per seller
+}
+
+interface ModerationData {
+  items: Record<string, ReviewQueueItem>;
+  feedback: ModerationFeedback;
+}
+
+const store = new JsonFileStore<ModerationData>('fraud-review-queue.json', () => ({
+  items: {},
+  feedback: { phishingPatterns: [], patternBackers: {}, sellerReports: {} }
+}));
+
+// What a queue entry is about: a deal, a listing converted to a deal, or a client identity
+export interface ReviewSubject {
+  id: string;
+  title: string;
+  url?: string;
+  sellerId?: string;
+}
+
+export const getReviewItemId = (itemType: ReviewItemType, itemId: string) => `${itemType}:${itemId}`;
+
+/**
+ * Scan a marketplace listing like a deal; the link, if any, comes from the description
+ */
+export function dealFromListing(listing: MarketplaceListing): Deal {
+  const url = listing.description?.match(/https?:\/\/[^\s)]+/i)?.[0] || '';
+  return {
+    id: listing.id,
+    title: listing.title,
+    originalPrice: listing.original_value ?? listing.selling_price,
+    discountedPrice: listing.selling_price,
+    category: listing.category,
+    sellerId: listing.seller_id,
+    url,
+    timestamp: Date.parse(listing.created_at) || Date.now()
+  };
+}
+
+export const reviewQueue = {
+  /**
+   * Queue an assessment that produced findings. Re-scanning refreshes the findings but keeps
+   * the moderation history; clean assessments are not queued. A rescan whose title, link or
+   * seller differs records the old subject and starts a new review, so a decision is never
+   * carried over to a subject nobody looked at. What an earlier confirmation taught the engine
+   * stays on the item until the new review decides it.
+   */
+  async submit(
+    itemType: ReviewItemType,
+    subject: ReviewSubject,
+    assessment: Pick<FraudRiskAssessment, 'riskLevel' | 'riskScore' | 'results'>,
+    submittedBy: string
+  ): Promise<ReviewQueueItem | undefined> {
+    if (assessment.results.length === 0) return undefined;
+
+    return store.update(data => {
+      const id = getReviewItemId(itemType, subject.id);
+      const now = new Date().toISOString();
+      const url = subject.url || undefined;
+      const sellerId = subject.sellerId || undefined;
+      const existing = data.items[id];
+      const changed = !!existing &&
+        (existing.title !== subject.title || existing.url !== url || existing.sellerId !== sellerId);
+      const current = changed ? undefined : existing;
+
+      const item: ReviewQueueItem = {
+        id,
+        itemType,
+        itemId: subject.id,
+        title: subject.title,
+        url,
+        sellerId,
+        severity: assessment.riskLevel,
+        riskScore: assessment.riskScore,
+        results: assessment.results,
+        status: current?.status ?? 'pending',
+        submittedBy: current?.submittedBy ?? submittedBy,
+        submittedAt: current?.submittedAt ?? now,
+        updatedAt: now,
+        decisions: existing?.decisions ?? [],
+        learned: existing?.learned,
+        revisions: existing?.revisions
+      };
+
+      if (changed) {
+        item.revisions = [...(existing.revisions ?? []), {
+          title: existing.title,
+          url: existing.url,
+          sellerId: existing.sellerId,
+          status: existing.status,
+          replacedAt: now
+        }];
+      }
+
+      data.items[id] = item;
+      pruneDecided(data.items);
+      return item;
+    });
+  },
+
+  /**
+   * Most severe first, then highest score, then oldest
+   */
+  async list(filters: { severity?: FraudRiskLevel; status?: ReviewStatus } = {}): Promise<ReviewQueueItem[]> {
+    const data = await store.read();
+    return Object.values(data.items)
+      .filter(item => !filters.severity || item.severity === filters.severity)
+      .filter(item => !filters.status || item.status === filters.status)
+      .sort((a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+        b.riskScore - a.riskScore ||
+        Date.parse(a.submittedAt) - Date.parse(b.submittedAt)
+      );
+  },
+
+  async pendingCounts(): Promise<Record<FraudRiskLevel, number>> {
+    const data = await store.read();
+    const counts: Record<FraudRiskLevel, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+    Object.values(data.items)
+      .filter(item => item.status === 'pending' || item.status === 'escalated')
+      .forEach(item => counts[item.severity]++);
+    return counts;
+  },
+
+  /**
+   * Record a decision. Confirming teaches the engine about the item's current seller and link,
+   * replacing what a confirmation before a subject change taught; marking a confirmed item a
+   * false positive takes that back. The engine only changes once the decision is saved.
+   */
+  async decide(
+    id: string,
+    decision: ModerationDecision,
+    moderatorId: string,
+    engine: FraudDetectionEngine,
+    note?: string
+  ): Promise<ModerationDecisionResponse | null> {
+    const response = await store.update(data => {
+      const item = data.items[id];
+      if (!item) return null;
+
+      const decidedAt = new Date().toISOString();
+      item.decisions.push({ decision, moderatorId, note, decidedAt });
+      item.status = DECISION_STATUS[decision];
+      item.updatedAt = decidedAt;
+
+      let learned: LearnedFeedback = {};
+      let unlearned: LearnedFeedback = {};
+      if (decision === 'confirm') {
+        const removed = item.learned ? reverseConfirmedFraud(item.learned, data.feedback) : {};
+        const { backed, added } = applyConfirmedFraud(engine, item, data.feedback);
+        item.learned = backed;
+        learned = withoutShared(added, removed);
+        unlearned = withoutShared(removed, added);
+      } else if (decision === 'false_positive' && item.learned) {
+        unlearned = reverseConfirmedFraud(item.learned, data.feedback);
+        delete item.learned;
+      }
+
+      return { item, learned, unlearned };
+    });
+
+    if (response) updateEngine(engine, response);
+    return response;
+  }
+};
+
+/**
+ * Record a confirmed item in the stored feedback. Returns what the item now backs and what of
+ * it is new to the engine; a domain already learned from another item is backed, not re-added.
+ */
+function applyConfirmedFraud(
+  engine: FraudDetectionEngine,
+  item: ReviewQueueItem,
+  feedback: ModerationFeedback
+): { backed: LearnedFeedback; added: LearnedFeedback } {
+  const backed: LearnedFeedback = {};
+  const added: LearnedFeedback = {};
+
+  if (item.sellerId) {
+    feedback.sellerReports[item.sellerId] = (feedback.sellerReports[item.sellerId] || 0) + 1;
+    backed.sellerId = added.sellerId = item.sellerId;
+  }
+
+  // Only learn the domain when the link itself was part of the finding; never a trusted domain
+  if (item.url && item.results.some(r => r.fraudType === 'phishing_link')) {
+    const analysis = engine.analyzeUrl(item.url);
+    const domain = analysis.registrableDomain;
+    if (domain && !analysis.isTrusted) {
+      backed.phishingPattern = domain;
+      feedback.patternBackers = { ...feedback.patternBackers, [domain]: (feedback.patternBackers?.[domain] || 0) + 1 };
+      if (!feedback.phishingPatterns.includes(domain)) {
+        feedback.phishingPatterns.push(domain);
+        added.phishingPattern = domain;
+      }
+    }
+  }
+
+  return { backed, added };
+}
+
+/**
+ * Take back what an overturned item taught from the stored feedback. A domain stays while
+ * another confirmed item still backs it.
+ */
+function reverseConfirmedFraud(
+  learned: LearnedFeedback,
+  feedback: ModerationFeedback
+): LearnedFeedback {
+  const removed: LearnedFeedback = {};
+
+  if (learned.sellerId && feedback.sellerReports[learned.sellerId]) {
+    feedback.sellerReports[learned.sellerId]--;
+    if (feedback.sellerReports[learned.sellerId] === 0) delete feedback.sellerReports[learned.sellerId];
+    removed.sellerId = learned.sellerId;
+  }
+
+  const pattern = learned.phishingPattern;
+  if (pattern) {
+    const backers = { ...feedback.patternBackers };
+    backers[pattern] = (backers[pattern] || 0) - 1;
+    if (backers[pattern] <= 0) delete backers[pattern];
+    feedback.patternBackers = backers;
+
+    if (!backers[pattern] && feedback.phishingPatterns.includes(pattern)) {
+      feedback.phishingPatterns = feedback.phishingPatterns.filter(p => p !== pattern);
+      removed.phishingPattern = pattern;
+    }
+  }
+
+  return removed;
+}
+
+// Feedback in `feedback` that `other` doesn't cancel out, e.g. a seller re-confirmed by the same item
+function withoutShared(feedback: LearnedFeedback, other: LearnedFeedback): LearnedFeedback {
+  const result: LearnedFeedback = {};
+  if (feedback.sellerId && feedback.sellerId !== other.sellerId) result.sellerId = feedback.sellerId;
+  if (feedback.phishingPattern && feedback.phishingPattern !== other.phishingPattern) {
+    result.phishingPattern = feedback.phishingPattern;
+  }
+  return result;
+}
+
+// Mirror a saved decision into the live engine
+function updateEngine(engine: FraudDetectionEngine, { learned, unlearned }: ModerationDecisionResponse): void {
+  if (unlearned.sellerId) engine.retractConfirmedFraud(unlearned.sellerId);
+  if (unlearned.phishingPattern) engine.removePhishingPattern(unlearned.phishingPattern);
+  if (learned.sellerId) engine.recordConfirmedFraud(learned.sellerId);
+  if (learned.phishingPattern) engine.addPhishingPattern(learned.phishingPattern);
+}
+
+/**
+ * Replay stored feedback into a fresh engine
+ */
+export async function restoreModerationFeedback(engine: FraudDetectionEngine): Promise<void> {
+  const { feedback } = await store.read();
+  feedback.phishingPatterns.forEach(pattern => engine.addPhishingPattern(pattern));
+  Object.entries(feedback.sellerReports).forEach(([sellerId, reports]) => {
+    for (let i = 0; i < reports; i++) engine.recordConfirmedFraud(sellerId);
+  });
+}
+
+// Decided items go first when the queue outgrows its cap; open items are never dropped
+function pruneDecided(items: Record<string, ReviewQueueItem>): void {
+  const ids = Object.keys(items);
+  if (ids.length <= MAX_ITEMS) return;
+
+  ids
+    .filter(id => items[id].status === 'confirmed' || items[id].status === 'false_positive')
+    .sort((a, b) => Date.parse(items[a].updatedAt) - Date.parse(items[b].updatedAt))
+    .slice(0, ids.length - MAX_ITEMS)
+    .forEach(id => delete items[id]);
+}
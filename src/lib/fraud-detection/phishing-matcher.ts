@@ -0,0 +1,216 @@
+/**
+ * Phishing Pattern Matcher
+ * Aho-Corasick automata that find every known phishing pattern in a URL in a single pass
+ */
+
+export interface PatternMatch {
+  pattern: string;
+  start: number; // Index of the first matched character
+  end: number; // Index after the last matched character
+}
+
+// Aho-Corasick automaton over a fixed pattern set.
+// Failure links are folded into a dense transition table, so a search does one array lookup per character.
+export class AhoCorasick {
+  private patterns: string[];
+  private alphabet: Map<number, number> = new Map(); // Char code -> column; unknown chars map to column 0
+  private asciiColumns: Int32Array = new Int32Array(128); // Fast path of the alphabet for ASCII
+  private width = 1;
+  private transitions: Int32Array = new Int32Array(0);
+  private output: number[][] = []; // Patterns ending exactly at each state
+  private outputLink: Int32Array = new Int32Array(0); // Nearest state on the failure chain with output, or -1
+
+  constructor(patterns: string[]) {
+    this.patterns = patterns;
+    this.build();
+  }
+
+  get size(): number {
+    return this.patterns.length;
+  }
+
+  getPatterns(): string[] {
+    return this.patterns;
+  }
+
+  /**
+   * All pattern occurrences in the text, in order of where they end
+   */
+  search(text: string): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    this.scan(text, (patternIndex, end) => {
+      const pattern = this.patterns[patternIndex];
+      matches.push({ pattern, start: end - pattern.length, end });
+    });
+    return matches;
+  }
+
+  /**
+   * Add the distinct patterns found in the text to the given set
+   */
+  collect(text: string, found: Set<string>): void {
+    this.scan(text, patternIndex => found.add(this.patterns[patternIndex]));
+  }
+
+  private scan(text: string, onMatch: (patternIndex: number, end: number) => void): void {
+    let state = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      const column = code < 128 ? this.asciiColumns[code] : this.alphabet.get(code) ?? 0;
+      state = this.transitions[state * this.width + column];
+
+      for (let node = this.output[state].length ? state : this.outputLink[state]; node !== -1; node = this.outputLink[node]) {
+        for (const patternIndex of this.output[node]) onMatch(patternIndex, i + 1);
+      }
+    }
+  }
+
+  private build(): void {
+    this.patterns.forEach(pattern => {
+      for (let i = 0; i < pattern.length; i++) {
+        const code = pattern.charCodeAt(i);
+        if (!this.alphabet.has(code)) this.alphabet.set(code, this.alphabet.size + 1);
+      }
+    });
+    this.width = this.alphabet.size + 1;
+    this.alphabet.forEach((column, code) => {
+      if (code < 128) this.asciiColumns[code] = column;
+    });
+
+    // Trie of the patterns; -1 marks a missing edge until failure links fill it in
+    const edges: number[] = new Array(this.width).fill(-1);
+    this.output = [[]];
+    this.patterns.forEach((pattern, index) => {
+      let current = 0;
+      for (let i = 0; i < pattern.length; i++) {
+        const slot = current * this.width + this.alphabet.get(pattern.charCodeAt(i))!;
+        if (edges[slot] === -1) {
+          edges[slot] = this.output.length;
+          this.output.push([]);
+          for (let c = 0; c < this.width; c++) edges.push(-1);
+        }
+        current = edges[slot];
+      }
+      this.output[current].push(index);
+    });
+
+    this.transitions = Int32Array.from(edges);
+    this.outputLink = new Int32Array(this.output.length).fill(-1);
+    this.buildFailureLinks();
+  }
+
+  /**
+   * Breadth-first pass: each state fails over to the longest proper suffix that is also a prefix,
+   * and missing edges are replaced by the edge from that failure state
+   */
+  private buildFailureLinks(): void {
+    const fail = new Int32Array(this.output.length);
+    const queue: number[] = [];
+
+    for (let c = 0; c < this.width; c++) {
+      const child = this.transitions[c];
+      if (child === -1) {
+        this.transitions[c] = 0;
+      } else {
+        fail[child] = 0;
+        queue.push(child);
+      }
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      const failState = fail[current];
+      this.outputLink[current] = this.output[failState].length ? failState : this.outputLink[failState];
+
+      for (let c = 0; c < this.width; c++) {
+        const slot = current * this.width + c;
+        const child = this.transitions[slot];
+        const fallback = this.transitions[failState * this.width + c];
+        if (child === -1) {
+          this.transitions[slot] = fallback;
+        } else {
+          fail[child] = fallback;
+          queue.push(child);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Pattern set that accepts new patterns at runtime.
+ * Keeps a few automata of decreasing size (like a binary counter): an added pattern gets its
+ * own small automaton, merged into a larger one only when sizes meet, so adds never rebuild
+ * the full set and searches scan at most O(log n) automata.
+ */
+export class PhishingPatternMatcher {
+  private automata: AhoCorasick[] = [];
+  private known: Set<string> = new Set();
+
+  constructor(patterns: string[] = []) {
+    this.addAll(patterns);
+  }
+
+  get size(): number {
+    return this.known.size;
+  }
+
+  add(pattern: string): boolean {
+    return this.addAll([pattern]) > 0;
+  }
+
+  /**
+   * Add patterns as one batch; returns how many were new
+   */
+  addAll(patterns: string[]): number {
+    const fresh = Array.from(new Set(patterns.map(p => p.toLowerCase()).filter(p => p && !this.known.has(p))));
+    if (fresh.length === 0) return 0;
+
+    fresh.forEach(p => this.known.add(p));
+    let merged = fresh;
+
+    while (this.automata.length > 0 && this.automata[this.automata.length - 1].size <= merged.length) {
+      merged = [...this.automata.pop()!.getPatterns(), ...merged];
+    }
+    this.automata.push(new AhoCorasick(merged));
+
+    return fresh.length;
+  }
+
+  /**
+   * Drop a pattern; only the automaton holding it is rebuilt
+   */
+  remove(pattern: string): boolean {
+    const lower = pattern.toLowerCase();
+    if (!this.known.delete(lower)) return false;
+
+    const index = this.automata.findIndex(automaton => automaton.getPatterns().includes(lower));
+    const remaining = this.automata[index].getPatterns().filter(p => p !== lower);
+    if (remaining.length > 0) this.automata[index] = new AhoCorasick(remaining);
+    else this.automata.splice(index, 1);
+
+    return true;
+  }
+
+  search(text: string): PatternMatch[] {
+    const lower = text.toLowerCase();
+    return this.automata
+      .flatMap(automaton => automaton.search(lower))
+      .sort((a, b) => a.end - b.end || a.start - b.start);
+  }
+
+  /**
+   * Distinct patterns found in the text
+   */
+  matchedPatterns(text: string): string[] {
+    const lower = text.toLowerCase();
+    const found = new Set<string>();
+    this.automata.forEach(automaton => automaton.collect(lower, found));
+    return Array.from(found);
+  }
+
+  test(text: string): boolean {
+    return this.matchedPatterns(text).length > 0;
+  }
+}
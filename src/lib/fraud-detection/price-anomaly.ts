@@ -0,0 +1,215 @@
+/**
+ * Price Anomaly Detector
+ * Robust statistics over a product's price history: MAD-based z-scores around a seasonal EWMA baseline,
+ * plus change-point detection to tell a genuine sale from a price pumped up and "discounted" back down
+ */
+
+import type { PriceManipulationRuleConfig } from './builtin-rules';
+
+// Types
+export interface PricePoint {
+  price: number;
+  timestamp: number;
+}
+
+export type PriceAnomalyClassification =
+  | 'insufficient-data'
+  | 'normal'
+  | 'sale' // Below the band with no recent hike: a real discount
+  | 'spike' // Above the band
+  | 'pump' // Above the band right after a recent hike
+  | 'pump-and-dump'; // Back down to the old level after a recent hike, sold as a discount
+
+export interface PriceBaseline {
+  median: number;
+  mad: number; // Median absolute deviation
+  scale: number; // Robust standard deviation used for z-scores
+  ewma: number;
+  seasonalOffset: number; // Added to the EWMA for the evaluated point's position in the season
+  expected: number; // ewma + seasonalOffset, the band centre
+  points: number; // History points the baseline was fitted on
+  from: number;
+  to: number;
+}
+
+export interface PriceBand {
+  lower: number;
+  upper: number;
+}
+
+export interface PriceChangePoint {
+  timestamp: number; // First point of the new level
+  before: number; // Median price before
+  after: number; // Median price from the change on
+  shift: number; // Relative change, after / before - 1
+  score: number; // Shift in robust standard deviations
+}
+
+export interface PriceAnomalyAnalysis {
+  classification: PriceAnomalyClassification;
+  isAnomalous: boolean;
+  price: number;
+  robustZ: number;
+  baseline?: PriceBaseline;
+  band?: PriceBand;
+  changePoint?: PriceChangePoint; // Only set when the shift is significant
+}
+
+const DAY_MS = 86400000;
+const MAD_TO_SIGMA = 1.4826; // Makes the MAD a consistent estimator of the standard deviation
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function medianAbsoluteDeviation(values: number[], center: number): number {
+  return median(values.map(v => Math.abs(v - center)));
+}
+
+/**
+ * Keep a history bounded: drop points outside the window, then keep the newest maxPoints
+ */
+export function trimPriceHistory(points: PricePoint[], windowDays: number, maxPoints: number, now = Date.now()): PricePoint[] {
+  const cutoff = now - windowDays * DAY_MS;
+  return points
+    .filter(p => p.timestamp > cutoff)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-maxPoints);
+}
+
+/**
+ * Single most likely level shift (binary segmentation): the split leaving the least absolute
+ * deviation around each segment's median, scored against the noise in both segments.
+ * Medians alone can't place the split, since one point either side of it doesn't move them.
+ */
+export function findChangePoint(points: PricePoint[], minShift: number, threshold: number): PriceChangePoint | undefined {
+  let best: { split: number; cost: number; before: number; after: number; deviations: number[] } | undefined;
+
+  for (let split = 1; split < points.length; split++) {
+    const left = points.slice(0, split).map(p => p.price);
+    const right = points.slice(split).map(p => p.price);
+    const before = median(left);
+    const after = median(right);
+    const deviations = [...left.map(v => Math.abs(v - before)), ...right.map(v => Math.abs(v - after))];
+    const cost = deviations.reduce((sum, d) => sum + d, 0);
+
+    if (!best || cost < best.cost) best = { split, cost, before, after, deviations };
+  }
+  if (!best) return undefined;
+
+  // Flat segments have no noise; fall back to the minimum shift so the score stays finite
+  const scale = Math.max(MAD_TO_SIGMA * median(best.deviations), best.before * minShift / threshold);
+  const change: PriceChangePoint = {
+    timestamp: points[best.split].timestamp,
+    before: best.before,
+    after: best.after,
+    shift: best.after / best.before - 1,
+    score: Math.abs(best.after - best.before) / scale
+  };
+
+  return Math.abs(change.shift) >= minShift && change.score >= threshold ? change : undefined;
+}
+
+// Position of a timestamp within the season, e.g. day of week for a 7-day period
+const seasonSlot = (timestamp: number, periodDays: number) => Math.floor(timestamp / DAY_MS) % periodDays;
+
+/**
+ * EWMA level over the baseline points, with per-slot seasonal offsets taken as the median one-step residual.
+ * Prices are clipped to the band around the median first, so one outlier can't drag the level or an offset.
+ */
+function fitBaseline(
+  points: PricePoint[],
+  at: number,
+  config: PriceManipulationRuleConfig,
+  center: number,
+  scale: number
+): Pick<PriceBaseline, 'ewma' | 'seasonalOffset'> {
+  const limit = config.robustZThreshold * scale;
+  const clip = (price: number) => Math.min(Math.max(price, center - limit), center + limit);
+  const residuals = new Map<number, number[]>();
+  let ewma = clip(points[0].price);
+
+  for (let i = 1; i < points.length; i++) {
+    const price = clip(points[i].price);
+    const slot = seasonSlot(points[i].timestamp, config.seasonalPeriodDays);
+    residuals.set(slot, [...(residuals.get(slot) || []), price - ewma]);
+    ewma = config.ewmaAlpha * price + (1 - config.ewmaAlpha) * ewma;
+  }
+
+  // Seasonality needs at least two full periods of history to mean anything
+  const span = points[points.length - 1].timestamp - points[0].timestamp;
+  const slotResiduals = residuals.get(seasonSlot(at, config.seasonalPeriodDays)) || [];
+  const seasonalOffset = span >= 2 * config.seasonalPeriodDays * DAY_MS && slotResiduals.length >= config.minSeasonalSamples
+    ? median(slotResiduals)
+    : 0;
+
+  return { ewma, seasonalOffset };
+}
+
+/**
+ * Score a price against the product's recent history.
+ * A significant upward change point inside the pump window is not trusted as the new normal:
+ * the baseline is fitted on the prices before it instead.
+ */
+export function analyzePriceSeries(
+  history: PricePoint[],
+  price: number,
+  at: number,
+  config: PriceManipulationRuleConfig
+): PriceAnomalyAnalysis {
+  const points = trimPriceHistory(history.filter(p => p.timestamp < at), config.windowDays, config.maxHistoryPoints, at);
+  if (points.length < config.minHistory) {
+    return { classification: 'insufficient-data', isAnomalous: false, price, robustZ: 0 };
+  }
+
+  const changePoint = findChangePoint(points, config.changePointMinShift, config.changePointThreshold);
+  const recentPump = !!changePoint && changePoint.shift > 0 && at - changePoint.timestamp <= config.pumpWindowDays * DAY_MS;
+  const baselinePoints = changePoint
+    ? points.filter(p => (recentPump ? p.timestamp < changePoint.timestamp : p.timestamp >= changePoint.timestamp))
+    : points;
+
+  const prices = baselinePoints.map(p => p.price);
+  const center = median(prices);
+  const mad = medianAbsoluteDeviation(prices, center);
+  const scale = Math.max(MAD_TO_SIGMA * mad, center * config.minRelativeDeviation);
+  const { ewma, seasonalOffset } = fitBaseline(baselinePoints, at, config, center, scale);
+  const expected = ewma + seasonalOffset;
+
+  const baseline: PriceBaseline = {
+    median: center,
+    mad,
+    scale,
+    ewma,
+    seasonalOffset,
+    expected,
+    points: baselinePoints.length,
+    from: baselinePoints[0].timestamp,
+    to: baselinePoints[baselinePoints.length - 1].timestamp
+  };
+  const band: PriceBand = {
+    lower: Math.max(0, expected - config.robustZThreshold * scale),
+    upper: expected + config.robustZThreshold * scale
+  };
+  const robustZ = (price - expected) / scale;
+
+  let classification: PriceAnomalyClassification = 'normal';
+  if (price > band.upper) {
+    classification = recentPump ? 'pump' : 'spike';
+  } else if (price < band.lower) {
+    classification = 'sale';
+  } else if (recentPump && price <= changePoint!.after * (1 - config.changePointMinShift)) {
+    classification = 'pump-and-dump';
+  }
+
+  return {
+    classification,
+    isAnomalous: classification === 'spike' || classification === 'pump' || classification === 'pump-and-dump',
+    price,
+    robustZ,
+    baseline,
+    band,
+    changePoint
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Reference Price Analyzer
+ * Checks a deal's claimed original price (MRP) against the prices the product actually sold at,
+ * both in its own price history and across vendors, to catch inflated "was" prices
+ */
+
+import type { Product } from '@/types/comparison';
+import type { ReferencePriceRuleConfig } from './builtin-rules';
+
+// Types
+export type ReferencePriceTechnique =
+  | 'impossible-price'
+  | 'inflated-before-sale'
+  | 'inflated-mrp'
+  | 'above-market';
+
+export interface VendorPriceQuote {
+  vendor: string;
+  price: number; // Current selling price
+  listPrice?: number; // The vendor's own MRP / "was" price
+  observedAt: number;
+}
+
+export interface ReferencePriceInput {
+  dealId: string;
+  originalPrice: number;
+  salePrice: number;
+  saleStartedAt: number;
+  history: { price: number; timestamp: number }[];
+  vendorQuotes: VendorPriceQuote[];
+}
+
+export interface ReferencePriceEvidence {
+  windowStart: number;
+  windowEnd: number;
+  preSaleWindowStart: number;
+  historyPoints: number; // History entries inside the window
+  vendorQuotes: number; // Vendor quotes inside the window
+  source: 'history' | 'vendors' | 'history+vendors' | 'none';
+  referencePrice?: number; // Median of the prices observed in the window
+  highestObservedPrice?: number;
+  baselinePrice?: number; // Median before the pre-sale window
+  preSalePeakPrice?: number;
+  preSalePeakAt?: number;
+}
+
+export interface ReferencePriceFinding {
+  technique: ReferencePriceTechnique;
+  detail: string;
+}
+
+export interface ReferencePriceAnalysis {
+  dealId: string;
+  claimedDiscount: number; // 0-1, as advertised
+  effectiveDiscount?: number; // 0-1, against the reference price; negative when the "deal" costs more
+  findings: ReferencePriceFinding[];
+  evidence: ReferencePriceEvidence;
+}
+
+const DAY_MS = 86400000;
+
+const formatPrice = (value: number) => `₹${Math.round(value).toLocaleString('en-IN')}`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+const isValidPrice = (value: number) => Number.isFinite(value) && value > 0;
+
+/**
+ * Vendor quotes from comparison engine products, skipping listings without a usable price
+ */
+export function vendorQuotesFromProducts(products: Product[]): VendorPriceQuote[] {
+  return products
+    .filter(product => isValidPrice(product.price))
+    .map(product => ({
+      vendor: product.vendor,
+      price: product.price,
+      listPrice: product.originalPrice,
+      observedAt: new Date(product.lastUpdated).getTime()
+    }));
+}
+
+/**
+ * Compare the claimed original price with observed prices in the evidence window.
+ * The window ends when the sale started, so the sale price itself never becomes its own reference.
+ */
+export function analyzeReferencePrice(input: ReferencePriceInput, config: ReferencePriceRuleConfig): ReferencePriceAnalysis {
+  const { originalPrice, salePrice } = input;
+  const windowEnd = input.saleStartedAt;
+  const windowStart = windowEnd - config.evidenceWindowDays * DAY_MS;
+  const preSaleWindowStart = windowEnd - config.preSaleWindowDays * DAY_MS;
+
+  const history = input.history
+    .filter(p => isValidPrice(p.price) && p.timestamp >= windowStart && p.timestamp < windowEnd)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const quotes = input.vendorQuotes.filter(q => isValidPrice(q.price) && q.observedAt >= windowStart);
+
+  const evidence: ReferencePriceEvidence = {
+    windowStart,
+    windowEnd,
+    preSaleWindowStart,
+    historyPoints: history.length,
+    vendorQuotes: quotes.length,
+    source: history.length && quotes.length ? 'history+vendors' : history.length ? 'history' : quotes.length ? 'vendors' : 'none'
+  };
+  const findings: ReferencePriceFinding[] = [];
+  const claimedDiscount = isValidPrice(originalPrice) ? (originalPrice - salePrice) / originalPrice : 0;
+
+  // Prices that cannot describe a real discount make every other check meaningless
+  if (!isValidPrice(originalPrice) || !isValidPrice(salePrice)) {
+    findings.push({
+      technique: 'impossible-price',
+      detail: `Deal lists a non-positive or missing price (original ${originalPrice}, sale ${salePrice})`
+    });
+    return { dealId: input.dealId, claimedDiscount, findings, evidence };
+  }
+  if (salePrice > originalPrice) {
+    findings.push({
+      technique: 'impossible-price',
+      detail: `Sale price ${formatPrice(salePrice)} is above the claimed original ${formatPrice(originalPrice)}`
+    });
+  }
+
+  const observed = [...history.map(p => p.price), ...quotes.map(q => q.price)];
+  let effectiveDiscount: number | undefined;
+
+  if (observed.length >= config.minObservations) {
+    const referencePrice = median(observed);
+    const highestObservedPrice = Math.max(...observed, ...quotes.map(q => q.listPrice ?? 0));
+    evidence.referencePrice = referencePrice;
+    evidence.highestObservedPrice = highestObservedPrice;
+    effectiveDiscount = (referencePrice - salePrice) / referencePrice;
+
+    if (originalPrice > highestObservedPrice * (1 + config.mrpTolerance)) {
+      findings.push({
+        technique: 'inflated-mrp',
+        detail: `Claimed original ${formatPrice(originalPrice)} is ${formatPercent(originalPrice / highestObservedPrice - 1)} above the highest price seen in the last ${config.evidenceWindowDays} days (${formatPrice(highestObservedPrice)})`
+      });
+    }
+  }
+
+  // A hike shortly before the sale, with the discount measured from the hiked price
+  const baseline = history.filter(p => p.timestamp < preSaleWindowStart);
+  const preSale = history.filter(p => p.timestamp >= preSaleWindowStart);
+  if (baseline.length >= Math.max(1, config.minObservations - 1) && preSale.length > 0) {
+    const baselinePrice = median(baseline.map(p => p.price));
+    const peak = preSale.reduce((max, p) => (p.price > max.price ? p : max));
+    evidence.baselinePrice = baselinePrice;
+    evidence.preSalePeakPrice = peak.price;
+    evidence.preSalePeakAt = peak.timestamp;
+
+    const hike = peak.price / baselinePrice - 1;
+    if (hike >= config.preSaleIncreaseThreshold && originalPrice >= peak.price * (1 - config.mrpTolerance)) {
+      const daysBefore = Math.max(1, Math.round((windowEnd - peak.timestamp) / DAY_MS));
+      findings.push({
+        technique: 'inflated-before-sale',
+        detail: `Price was raised ${formatPercent(hike)} from ${formatPrice(baselinePrice)} to ${formatPrice(peak.price)} ${daysBefore} day(s) before the sale; against the usual price the discount is ${formatPercent((baselinePrice - salePrice) / baselinePrice)}, not ${formatPercent(claimedDiscount)}`
+      });
+    }
+  }
+
+  // The "deal" costs more than most vendors already charge
+  if (quotes.length >= 2) {
+    const marketPrice = median(quotes.map(q => q.price));
+    if (salePrice > marketPrice * (1 + config.mrpTolerance)) {
+      const cheapest = quotes.reduce((min, q) => (q.price < min.price ? q : min));
+      findings.push({
+        technique: 'above-market',
+        detail: `Sale price ${formatPrice(salePrice)} is above the typical vendor price of ${formatPrice(marketPrice)} (lowest: ${cheapest.vendor} at ${formatPrice(cheapest.price)})`
+      });
+    }
+  }
+
+  return { dealId: input.dealId, claimedDiscount, effectiveDiscount, findings, evidence };
+}
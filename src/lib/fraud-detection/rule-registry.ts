@@ -0,0 +1,153 @@
+/**
+ * Fraud Rule Registry
+ * Named, individually configurable fraud checks with weights and enable flags
+ * Settings come from fraud-rules.json and can be overridden at runtime
+ */
+
+import defaultRulesJson from './fraud-rules.json';
+import type { Deal, FraudCheckResult, FraudDetectionEngine } from './fraud-detection-engine';
+import type { FraudRuleConfigMap } from './builtin-rules';
+import type { FraudRiskLevel, FraudRuleSettings, FraudRulesConfig } from './types';
+
+// Types
+export interface FraudRuleContext {
+  deal: Deal;
+  sellerId?: string;
+  engine: FraudDetectionEngine;
+}
+
+// Registered rules are held as FraudRule<object>; each rule reads its own config shape
+export interface FraudRule<C extends object = object> {
+  id: string;
+  name: string;
+  description: string;
+  evaluate(context: FraudRuleContext, config: C): FraudCheckResult[];
+}
+
+export const DEFAULT_FRAUD_RULES_CONFIG = defaultRulesJson as FraudRulesConfig;
+
+const RISK_LEVELS: FraudRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isRiskLevel = (value: unknown): value is FraudRiskLevel =>
+  RISK_LEVELS.includes(value as FraudRiskLevel);
+
+/**
+ * Overlay an untrusted JSON config onto a base config.
+ * Unknown or mistyped fields are ignored rather than failing the whole file.
+ */
+export function mergeFraudRulesConfig(base: FraudRulesConfig, overrides: unknown): FraudRulesConfig {
+  const merged: FraudRulesConfig = {
+    ...base,
+    riskThresholds: { ...base.riskThresholds },
+    rules: Object.fromEntries(
+      Object.entries(base.rules).map(([id, s]) => [id, { ...s, config: { ...s.config } }])
+    )
+  };
+  if (!isRecord(overrides)) return merged;
+
+  if (typeof overrides.version === 'number') merged.version = overrides.version;
+  if (isRiskLevel(overrides.blockAt)) merged.blockAt = overrides.blockAt;
+
+  const thresholds = isRecord(overrides.riskThresholds) ? overrides.riskThresholds : {};
+  for (const level of ['medium', 'high', 'critical'] as const) {
+    const value = thresholds[level];
+    if (typeof value === 'number') merged.riskThresholds[level] = clamp01(value);
+  }
+
+  for (const [id, settings] of Object.entries(isRecord(overrides.rules) ? overrides.rules : {})) {
+    if (!isRecord(settings)) continue;
+    const current = merged.rules[id] || { enabled: true, weight: 0.5, config: {} };
+
+    merged.rules[id] = {
+      enabled: typeof settings.enabled === 'boolean' ? settings.enabled : current.enabled,
+      weight: typeof settings.weight === 'number' ? clamp01(settings.weight) : current.weight,
+      config: isRecord(settings.config)
+        ? mergeRuleConfig(current.config, settings.config)
+        : current.config
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Nested maps such as categoryThresholds merge key by key, so overriding one entry keeps the rest.
+ * A value whose type differs from the base value is dropped, so rule configs keep their shape.
+ */
+function mergeRuleConfig(base: Record<string, unknown>, overrides: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    const current = base[key];
+    if (isRecord(current)) {
+      if (isRecord(value)) merged[key] = mergeRuleConfig(current, value);
+    } else if (current === undefined || typeof value === typeof current) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
+
+export function getRiskLevel(score: number, thresholds: FraudRulesConfig['riskThresholds']): FraudRiskLevel {
+  if (score >= thresholds.critical) return 'critical';
+  if (score >= thresholds.high) return 'high';
+  if (score >= thresholds.medium) return 'medium';
+  return 'low';
+}
+
+export function isAtLeast(level: FraudRiskLevel, minimum: FraudRiskLevel): boolean {
+  return RISK_LEVELS.indexOf(level) >= RISK_LEVELS.indexOf(minimum);
+}
+
+// Registry
+export class FraudRuleRegistry {
+  private rules: Map<string, FraudRule> = new Map();
+  private baseConfig: FraudRulesConfig;
+  private config: FraudRulesConfig;
+
+  constructor(config: FraudRulesConfig = DEFAULT_FRAUD_RULES_CONFIG) {
+    this.baseConfig = config;
+    this.config = mergeFraudRulesConfig(config, null);
+  }
+
+  register(rule: FraudRule): void {
+    this.rules.set(rule.id, rule);
+  }
+
+  unregister(ruleId: string): void {
+    this.rules.delete(ruleId);
+  }
+
+  list(): FraudRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  /**
+   * Settings for a rule; rules missing from the config run enabled at half weight,
+   * with the built-in defaults for their config
+   */
+  getSettings<K extends keyof FraudRuleConfigMap>(ruleId: K): FraudRuleSettings<FraudRuleConfigMap[K]>;
+  getSettings(ruleId: string): FraudRuleSettings;
+  getSettings(ruleId: string): FraudRuleSettings<object> {
+    return this.config.rules[ruleId] || {
+      enabled: true,
+      weight: 0.5,
+      config: DEFAULT_FRAUD_RULES_CONFIG.rules[ruleId]?.config ?? {}
+    };
+  }
+
+  getConfig(): FraudRulesConfig {
+    return this.config;
+  }
+
+  /**
+   * Apply overrides on top of the base config, replacing any earlier overrides
+   */
+  configure(overrides: unknown): void {
+    this.config = mergeFraudRulesConfig(this.baseConfig, overrides);
+  }
+}
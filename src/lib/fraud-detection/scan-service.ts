@@ -0,0 +1,177 @@
+/**
+ * Fraud Scan Service
+ * Risk assessments for the fraud API, cached per deal hash so an unchanged deal under
+ * unchanged rules is not re-scanned, plus running totals for the stats endpoint.
+ */
+
+import { createHash } from 'crypto';
+import type { Deal, FraudDetectionEngine } from './fraud-detection-engine';
+import type { FraudCheckResponse, FraudDetectionStats, FraudRiskAssessment } from './types';
+
+const CACHE_TTL_MS = 5 * 60 * 1000; // Price history and seller feedback move on; don't serve stale scores for long
+const MAX_CACHED = 5000;
+
+interface CachedScan {
+  assessment: FraudRiskAssessment;
+  scannedAt: number;
+}
+
+export interface FraudScanOptions {
+  now?: number;
+  beforeAssess?: (deals: Deal[]) => Promise<void>; // Called once with the deals the cache can't answer
+}
+
+const cache = new Map<string, CachedScan>();
+const counters = {
+  hits: 0,
+  misses: 0,
+  fraudulentDeals: 0,
+  counterfeit: 0,
+  phishing: 0,
+  priceManipulation: 0,
+  flaggedResults: 0,
+  confidenceSum: 0
+};
+
+/**
+ * Validate a deal from a request body; category, seller, url and timestamp are optional
+ */
+export function parseDeal(input: unknown): Deal | null {
+  if (!input || typeof input !== 'object') return null;
+  const value = input as Record<string, unknown>;
+  if (typeof value.id !== 'string' || typeof value.title !== 'string') return null;
+  if (typeof value.originalPrice !== 'number' || typeof value.discountedPrice !== 'number') return null;
+
+  return {
+    id: value.id,
+    title: value.title,
+    originalPrice: value.originalPrice,
+    discountedPrice: value.discountedPrice,
+    category: typeof value.category === 'string' ? value.category : 'default',
+    sellerId: typeof value.sellerId === 'string' ? value.sellerId : '',
+    url: typeof value.url === 'string' ? value.url : '',
+    timestamp: typeof value.timestamp === 'number' ? value.timestamp : Date.now()
+  };
+}
+
+/**
+ * Content hash of a deal and the rule settings it is scanned under.
+ * The timestamp is left out so clients that don't send one still hit the cache.
+ */
+export function hashDeal(deal: Deal, rulesFingerprint: string): string {
+  const content = [
+    deal.id,
+    deal.title,
+    deal.originalPrice,
+    deal.discountedPrice,
+    deal.category,
+    deal.sellerId,
+    deal.url
+  ];
+  return createHash('sha256').update(JSON.stringify(content)).update(rulesFingerprint).digest('hex');
+}
+
+export const fraudScanner = {
+  /**
+   * Assess each deal, reusing cached assessments for deals already scanned under the same rules.
+   * Slow lookups the engine needs (vendor quotes) go in `beforeAssess`, so cache hits skip them.
+   */
+  async scan(engine: FraudDetectionEngine, deals: Deal[], options: FraudScanOptions = {}): Promise<FraudCheckResponse[]> {
+    const now = options.now ?? Date.now();
+    const rulesFingerprint = JSON.stringify(engine.getRuleRegistry().getConfig());
+    const hashes = deals.map(deal => hashDeal(deal, rulesFingerprint));
+    const fresh = (hash: string) => {
+      const cached = cache.get(hash);
+      return cached && now - cached.scannedAt < CACHE_TTL_MS ? cached : undefined;
+    };
+
+    const misses = deals.filter((_, i) => !fresh(hashes[i]) && hashes.indexOf(hashes[i]) === i);
+    if (misses.length > 0 && options.beforeAssess) {
+      await options.beforeAssess(misses);
+    }
+
+    // One at a time, so a deal repeated within a batch is scanned once
+    const responses: FraudCheckResponse[] = [];
+    for (const [i, deal] of deals.entries()) {
+      const hash = hashes[i];
+      const cached = fresh(hash);
+
+      if (cached) {
+        counters.hits++;
+        cache.delete(hash);
+        cache.set(hash, cached);
+        responses.push(toResponse(cached, true));
+        continue;
+      }
+
+      counters.misses++;
+      const entry: CachedScan = { assessment: await engine.assessRisk(deal, deal.sellerId || undefined), scannedAt: now };
+      recordScan(entry.assessment);
+
+      cache.delete(hash);
+      cache.set(hash, entry);
+      if (cache.size > MAX_CACHED) {
+        cache.delete(cache.keys().next().value as string);
+      }
+
+      responses.push(toResponse(entry, false));
+    }
+
+    return responses;
+  },
+
+  /**
+   * Totals over engine scans since the process started; cache hits are not counted twice.
+   * Suspicious users come from bot detection, not deal scans, so the caller supplies them.
+   */
+  stats(suspiciousUsersDetected: number): FraudDetectionStats {
+    return {
+      totalChecks: counters.misses,
+      fraudulentDealsDetected: counters.fraudulentDeals,
+      counterfeitProductsDetected: counters.counterfeit,
+      phishingLinksDetected: counters.phishing,
+      priceManipulationsDetected: counters.priceManipulation,
+      suspiciousUsersDetected,
+      averageConfidence: counters.flaggedResults > 0 ? counters.confidenceSum / counters.flaggedResults : 0
+    };
+  },
+
+  cacheStats(): { entries: number; hits: number; misses: number } {
+    return { entries: cache.size, hits: counters.hits, misses: counters.misses };
+  },
+
+  /**
+   * Drop cached assessments, e.g. after moderator feedback changed what the engine knows
+   */
+  clear(): void {
+    cache.clear();
+  }
+};
+
+function recordScan(assessment: FraudRiskAssessment): void {
+  if (assessment.results.length === 0) return;
+
+  counters.fraudulentDeals++;
+  const types = new Set(assessment.results.map(r => r.fraudType));
+  if (types.has('counterfeit_product')) counters.counterfeit++;
+  if (types.has('phishing_link')) counters.phishing++;
+  if (types.has('price_manipulation')) counters.priceManipulation++;
+
+  assessment.results.forEach(r => {
+    counters.flaggedResults++;
+    counters.confidenceSum += r.confidence;
+  });
+}
+
+function toResponse({ assessment, scannedAt }: CachedScan, cached: boolean): FraudCheckResponse {
+  return {
+    dealId: assessment.dealId,
+    timestamp: scannedAt,
+    results: assessment.results,
+    overallRisk: assessment.riskLevel,
+    riskScore: assessment.riskScore,
+    blocked: assessment.blocked,
+    warnings: assessment.results.map(r => r.reason).filter((reason): reason is string => !!reason),
+    cached
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Seller Reputation Model
+ * Estimates the probability that a seller lists counterfeit goods from Bayesian-averaged ratings,
+ * review-velocity spikes, seller age and marketplace trust, and explains each contribution
+ */
+
+import type { Seller } from './fraud-detection-engine';
+import type { CounterfeitRuleConfig } from './builtin-rules';
+import type { MarketplaceTrustScore } from '@/lib/marketplace/types';
+
+// Types
+export type ReputationFactorId =
+  | 'bayesian-rating'
+  | 'review-velocity'
+  | 'seller-age'
+  | 'marketplace-trust'
+  | 'verified-seller'
+  | 'confirmed-fraud';
+
+export interface ReputationFactor {
+  id: ReputationFactorId;
+  value: number; // Feature value fed to the model
+  logOdds: number; // Contribution to the log-odds; positive raises the risk
+  detail: string;
+}
+
+export interface SellerReputation {
+  sellerId: string;
+  sellerName: string;
+  bayesianRating: number;
+  ratingCount: number; // Reviews behind the rating, marketplace reviews included
+  counterfeitProbability: number; // 0-1, calibrated
+  factors: ReputationFactor[]; // Sorted by absolute contribution
+  evaluatedAt: number;
+}
+
+const DAY_MS = 86400000;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Ratio of the recent daily review rate to the rate before it, and the recent review count
+ */
+export function reviewVelocity(seller: Seller, at: number, windowDays: number, baselineDays: number): { ratio: number; recent: number } {
+  const recentStart = at - windowDays * DAY_MS;
+  const baselineStart = recentStart - baselineDays * DAY_MS;
+  let recent = 0;
+  let baseline = 0;
+
+  for (const bucket of seller.reviewHistory || []) {
+    if (bucket.date >= recentStart && bucket.date <= at) recent += bucket.count;
+    else if (bucket.date >= baselineStart && bucket.date < recentStart) baseline += bucket.count;
+  }
+
+  // Half a review over the baseline period keeps a brand-new seller's ratio finite
+  const ratio = (recent / windowDays) / (Math.max(baseline, 0.5) / baselineDays);
+  return { ratio, recent };
+}
+
+// Reputation model
+export class SellerReputationModel {
+  private sellers: Map<string, Seller> = new Map();
+  private marketplaceTrust: Map<string, MarketplaceTrustScore> = new Map();
+
+  upsertSeller(seller: Seller): void {
+    this.sellers.set(seller.id, { ...this.sellers.get(seller.id), ...seller });
+  }
+
+  getSeller(sellerId: string): Seller | undefined {
+    return this.sellers.get(sellerId);
+  }
+
+  /**
+   * Count a moderator-confirmed fraud report; sellers not seen before start with no rating evidence
+   */
+  recordConfirmedFraud(sellerId: string): void {
+    const seller = this.sellers.get(sellerId) || { id: sellerId, name: sellerId, rating: 0, reviewCount: 0 };
+    this.sellers.set(sellerId, { ...seller, confirmedFraudReports: (seller.confirmedFraudReports || 0) + 1 });
+  }
+
+  /**
+   * Withdraw a confirmed report after a moderator overturns it
+   */
+  retractConfirmedFraud(sellerId: string): void {
+    const seller = this.sellers.get(sellerId);
+    if (!seller?.confirmedFraudReports) return;
+    this.sellers.set(sellerId, { ...seller, confirmedFraudReports: seller.confirmedFraudReports - 1 });
+  }
+
+  /**
+   * Marketplace trust scores are keyed by the marketplace user id, which doubles as the seller id.
+   * A seller known only from the marketplace starts with no rating evidence of its own.
+   */
+  recordMarketplaceTrust(trust: MarketplaceTrustScore, profile: Pick<Seller, 'name' | 'joinedAt'> = { name: trust.user_id }): void {
+    this.marketplaceTrust.set(trust.user_id, trust);
+    if (!this.sellers.has(trust.user_id)) {
+      this.sellers.set(trust.user_id, { id: trust.user_id, rating: 0, reviewCount: 0, ...profile });
+    }
+  }
+
+  /**
+   * Logistic model over the reputation factors; unknown sellers get no assessment
+   */
+  assess(sellerId: string, config: CounterfeitRuleConfig, category?: string, at: number = Date.now()): SellerReputation | undefined {
+    const seller = this.sellers.get(sellerId);
+    if (!seller) return undefined;
+
+    const trust = this.marketplaceTrust.get(sellerId);
+    const factors: ReputationFactor[] = [];
+    const { weights } = config;
+
+    // Marketplace reviews are extra evidence for the same rating
+    const marketplaceReviews = trust?.total_reviews || 0;
+    const ratingCount = seller.reviewCount + marketplaceReviews;
+    const observedRating = ratingCount > 0
+      ? (seller.rating * seller.reviewCount + (trust?.average_rating || 0) * marketplaceReviews) / ratingCount
+      : 0;
+
+    const priorCategory = category || seller.category || 'default';
+    const prior = config.categoryPriors[priorCategory] ?? config.categoryPriors.default;
+    const bayesianRating = (config.priorWeight * prior + ratingCount * observedRating) / (config.priorWeight + ratingCount);
+    const shortfall = prior - bayesianRating;
+    factors.push({
+      id: 'bayesian-rating',
+      value: shortfall,
+      logOdds: weights.ratingShortfall * shortfall,
+      detail: `${bayesianRating.toFixed(2)}/5 after shrinking ${ratingCount} review(s) toward the ${priorCategory} prior of ${prior}`
+    });
+
+    const velocity = reviewVelocity(seller, at, config.velocityWindowDays, config.velocityBaselineDays);
+    if (velocity.recent >= config.minBurstReviews && velocity.ratio >= config.velocitySpikeRatio) {
+      // Grows with the log of the spike, capped so one signal cannot decide on its own
+      const spike = Math.min(Math.log(velocity.ratio / config.velocitySpikeRatio) + 1, 3);
+      factors.push({
+        id: 'review-velocity',
+        value: velocity.ratio,
+        logOdds: weights.reviewVelocity * spike,
+        detail: `${velocity.recent} reviews in ${config.velocityWindowDays} days, ${velocity.ratio.toFixed(1)}x the usual rate`
+      });
+    }
+
+    if (seller.joinedAt) {
+      const ageDays = Math.max(0, (at - seller.joinedAt) / DAY_MS);
+      const newness = Math.max(0, 1 - ageDays / config.matureAgeDays);
+      factors.push({
+        id: 'seller-age',
+        value: ageDays,
+        logOdds: weights.sellerAge * newness,
+        detail: `Selling for ${Math.floor(ageDays)} day(s)`
+      });
+    }
+
+    if (trust) {
+      const successRate = trust.total_transactions > 0 ? trust.successful_transactions / trust.total_transactions : undefined;
+      const trustLevel = successRate === undefined ? trust.trust_score / 5 : (trust.trust_score / 5 + successRate) / 2;
+      const deficit = config.marketplaceTrustPivot - trustLevel;
+      factors.push({
+        id: 'marketplace-trust',
+        value: trustLevel,
+        logOdds: weights.marketplaceTrust * deficit,
+        detail: `Marketplace trust ${trust.trust_score.toFixed(1)}/5` +
+          (successRate === undefined ? '' : `, ${trust.successful_transactions}/${trust.total_transactions} successful transactions`)
+      });
+
+      if (trust.verified_seller) {
+        factors.push({
+          id: 'verified-seller',
+          value: 1,
+          logOdds: weights.verifiedSeller,
+          detail: 'Verified marketplace seller'
+        });
+      }
+    }
+
+    if (seller.confirmedFraudReports) {
+      factors.push({
+        id: 'confirmed-fraud',
+        value: seller.confirmedFraudReports,
+        logOdds: weights.confirmedFraud * Math.log2(1 + seller.confirmedFraudReports),
+        detail: `${seller.confirmedFraudReports} fraud report(s) confirmed by moderators`
+      });
+    }
+
+    // The weights are set by hand, so the identity calibration reports their raw logistic output.
+    // Platt-fit slope and offset on moderator verdicts belong in fraud-rules.json.
+    const logOdds = factors.reduce((sum, factor) => sum + factor.logOdds, config.intercept);
+
+    return {
+      sellerId,
+      sellerName: seller.name,
+      bayesianRating,
+      ratingCount,
+      counterfeitProbability: sigmoid(config.calibration.slope * logOdds + config.calibration.offset),
+      factors: factors.sort((a, b) => Math.abs(b.logOdds) - Math.abs(a.logOdds)),
+      evaluatedAt: at
+    };
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Shared Fraud Engine
+ * One engine per server process, so moderator feedback and price history are seen by every route
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FraudDetectionEngine } from './fraud-detection-engine';
+import { restoreModerationFeedback } from './moderation';
+
+const engine = new FraudDetectionEngine();
+let feedbackRestored: Promise<void> | null = null;
+
+/**
+ * Optional ops overrides for fraud rule weights and thresholds
+ */
+export async function loadFraudRuleOverrides(): Promise<unknown> {
+  try {
+    const rulesPath = path.join(process.cwd(), '..', 'fraud-rules.json');
+    return JSON.parse(await fs.readFile(rulesPath, 'utf8'));
+  } catch (fileError) {
+    return null;
+  }
+}
+
+/**
+ * The shared engine, by default with the latest rule overrides applied.
+ * Hot paths that don't evaluate rules (bot detection) can skip the reload.
+ * Confirmed moderation feedback is replayed once per process before first use.
+ */
+export async function getFraudEngine(options: { reloadRules?: boolean } = {}): Promise<FraudDetectionEngine> {
+  if (options.reloadRules !== false) {
+    engine.configureRules(await loadFraudRuleOverrides());
+  }
+
+  if (!feedbackRestored) {
+    feedbackRestored = restoreModerationFeedback(engine).catch(error => {
+      console.error('Error restoring moderation feedback:', error);
+      feedbackRestored = null;
+    });
+  }
+  await feedbackRestored;
+
+  return engine;
+}
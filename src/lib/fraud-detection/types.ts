@@ -2,6 +2,8 @@
  * Type definitions for the Fraud Detection System
  */
 
+import type { FraudCheckResult } from './fraud-detection-engine';
+
 export interface FraudDetectionConfig {
   // Thresholds
   categoryThresholds: {
@@ -33,7 +35,7 @@ export interface FraudDetectionStats {
 export interface FraudAlert {
   id: string;
   timestamp: number;
-  type: 'fake_deal' | 'counterfeit_product' | 'phishing_link' | 'price_manipulation' | 'suspicious_behavior' | 'bot_behavior';
+  type: 'fake_deal' | 'fake_discount' | 'counterfeit_product' | 'phishing_link' | 'price_manipulation' | 'suspicious_behavior' | 'bot_behavior';
   severity: 'low' | 'medium' | 'high' | 'critical';
   entityId: string; // dealId, productId, userId, etc.
   entityType: 'deal' | 'product' | 'user' | 'seller' | 'url';
@@ -124,8 +126,10 @@ export interface FraudCheckResponse {
     reason?: string;
   }>;
   overallRisk: 'low' | 'medium' | 'high' | 'critical';
+  riskScore: number;
   blocked: boolean;
   warnings: string[];
+  cached: boolean; // Served from the per-deal-hash scan cache
 }
 
 export interface BatchFraudCheckRequest {
@@ -149,5 +153,132 @@ export interface BatchFraudCheckResponse {
     fraudulentCount: number;
     blockedCount: number;
     processingTime: number;
+    cacheHits: number;
+  };
+}
+
+export interface FraudAnomaliesResponse {
+  anomalies: Array<{ dealId: string; anomalyScore: number }>;
+}
+
+export interface FraudStatsResponse {
+  stats: FraudDetectionStats;
+  cache: {
+    entries: number;
+    hits: number;
+    misses: number;
+  };
+  topAnomalies: Array<{ dealId: string; anomalyScore: number }>;
+}
+
+// Rule engine
+export type FraudRiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+export interface FraudRuleSettings<C extends object = Record<string, unknown>> {
+  enabled: boolean;
+  weight: number; // 0-1, how far a firing rule at full confidence pushes the combined score
+  config: C;
+}
+
+/**
+ * Rule engine configuration: risk thresholds and per-rule settings.
+ * Detector thresholds such as category discount limits live in each rule's config.
+ */
+export interface FraudRulesConfig {
+  version: number;
+  riskThresholds: {
+    medium: number;
+    high: number;
+    critical: number;
   };
+  blockAt: FraudRiskLevel;
+  rules: {
+    [ruleId: string]: FraudRuleSettings;
+  };
+}
+
+export interface RiskExplanationStep {
+  ruleId: string;
+  ruleName: string;
+  enabled: boolean;
+  fired: boolean;
+  weight: number;
+  confidence: number;
+  contribution: number; // weight * confidence
+  reason?: string;
+}
+
+export interface FraudRiskAssessment {
+  dealId: string;
+  riskScore: number; // 0-1
+  riskLevel: FraudRiskLevel;
+  blocked: boolean;
+  results: FraudCheckResult[];
+  explanation: RiskExplanationStep[];
+}
+
+// Moderation
+export type ReviewItemType = 'deal' | 'listing' | 'user';
+
+export type ReviewStatus = 'pending' | 'confirmed' | 'false_positive' | 'escalated';
+
+export type ModerationDecision = 'confirm' | 'false_positive' | 'escalate';
+
+export interface ModerationRecord {
+  decision: ModerationDecision;
+  moderatorId: string;
+  note?: string;
+  decidedAt: string;
+}
+
+// What a confirmed item taught the engine, so an overturn can take it back
+export interface LearnedFeedback {
+  sellerId?: string; // Seller whose reputation took the confirmed report
+  phishingPattern?: string; // Domain in the phishing patterns
+}
+
+// A subject the item had before a rescan changed its title, link or seller
+export interface ReviewSubjectRevision {
+  title: string;
+  url?: string;
+  sellerId?: string;
+  status: ReviewStatus;
+  replacedAt: string;
+}
+
+export interface ReviewQueueItem {
+  id: string; // `${itemType}:${itemId}`
+  itemType: ReviewItemType;
+  itemId: string;
+  title: string;
+  url?: string;
+  sellerId?: string;
+  severity: FraudRiskLevel;
+  riskScore: number;
+  results: FraudCheckResult[];
+  status: ReviewStatus;
+  submittedBy: string;
+  submittedAt: string;
+  updatedAt: string;
+  decisions: ModerationRecord[];
+  learned?: LearnedFeedback; // Set from a confirmation until a later decision replaces or overturns it
+  revisions?: ReviewSubjectRevision[];
+}
+
+export interface ModerationScanResponse {
+  assessment: FraudRiskAssessment;
+  queued: boolean;
+  item?: ReviewQueueItem;
+}
+
+export interface ReviewQueueResponse {
+  items: ReviewQueueItem[];
+  total: number;
+  counts: Record<FraudRiskLevel, number>; // Pending items per severity
+}
+
+export interface ModerationDecisionResponse {
+  item: ReviewQueueItem;
+  learned: LearnedFeedback; // Newly taught to the engine by this decision
+  unlearned: LearnedFeedback; // Taken back because the decision overturned a confirmation
 }
@@ -0,0 +1,420 @@
+/**
+ * URL Analyzer
+ * Flags deal links that imitate trusted shopping domains: typosquats, homoglyph and
+ * punycode lookalikes, trusted brands planted in subdomains, shorteners and open redirects
+ */
+
+// Types
+export type UrlTechnique =
+  | 'typosquat'
+  | 'homoglyph'
+  | 'punycode'
+  | 'tld-swap'
+  | 'brand-subdomain'
+  | 'brand-in-domain'
+  | 'url-shortener'
+  | 'redirect-param'
+  | 'invalid-url';
+
+export interface UrlFinding {
+  technique: UrlTechnique;
+  matchedDomain?: string; // Trusted domain being imitated
+  detail: string;
+}
+
+export interface UrlAnalysis {
+  url: string;
+  hostname: string; // Unicode form, punycode decoded
+  registrableDomain: string;
+  isTrusted: boolean;
+  findings: UrlFinding[];
+}
+
+export interface UrlAnalyzerOptions {
+  trustedDomains: string[];
+  shorteners?: string[];
+  redirectParams?: string[];
+}
+
+export const DEFAULT_SHORTENERS = [
+  'bit.ly', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly', 'cutt.ly',
+  'rb.gy', 'shorturl.at', 'tiny.cc', 'rebrand.ly', 't.ly', 'v.gd', 'bl.ink'
+];
+
+export const DEFAULT_REDIRECT_PARAMS = [
+  'url', 'u', 'r', 'redirect', 'redirect_url', 'redirect_uri', 'redir', 'next', 'goto',
+  'target', 'dest', 'destination', 'return', 'returnurl', 'return_to', 'continue', 'out', 'link'
+];
+
+// Second-level suffixes where the registrable domain spans three labels
+const MULTI_PART_SUFFIXES = new Set([
+  'co.in', 'net.in', 'org.in', 'firm.in', 'gen.in', 'ind.in',
+  'co.uk', 'org.uk', 'com.au', 'co.jp', 'com.br', 'com.sg'
+]);
+
+// Characters commonly swapped in for Latin letters, mapped to the letter they imitate
+const CONFUSABLES: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'е': 'e', 'к': 'k', 'м': 'm', 'н': 'h', 'о': 'o', 'р': 'p',
+  'с': 'c', 'т': 't', 'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ј': 'j', 'ԁ': 'd',
+  'ӏ': 'l', 'ԛ': 'q', 'ԝ': 'w',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x',
+  // Latin lookalikes and digits
+  'ı': 'i', 'ɡ': 'g', 'ɑ': 'a', 'ḷ': 'l', 'ṃ': 'm', 'ṇ': 'n', 'ọ': 'o', 'ạ': 'a',
+  '0': 'o', '1': 'l', '3': 'e', '5': 's', '$': 's', '@': 'a'
+};
+
+// Multi-character sequences that render like a single letter
+const SEQUENCE_CONFUSABLES: Array<[RegExp, string]> = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd']
+];
+
+// Punycode (RFC 3492) decoding, so xn-- labels can be compared as the user sees them
+const PUNY_BASE = 36;
+const PUNY_TMIN = 1;
+const PUNY_TMAX = 26;
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / 700) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+
+  let k = 0;
+  while (delta > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+    delta = Math.floor(delta / (PUNY_BASE - PUNY_TMIN));
+    k += PUNY_BASE;
+  }
+  return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * delta) / (delta + 38));
+}
+
+function punycodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22; // 0-9 -> 26-35
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return PUNY_BASE;
+}
+
+export function decodePunycode(input: string): string {
+  const output: number[] = [];
+  const basicEnd = Math.max(input.lastIndexOf('-'), 0);
+  for (let j = 0; j < basicEnd; j++) output.push(input.charCodeAt(j));
+
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length;) {
+    const oldI = i;
+    for (let w = 1, k = PUNY_BASE; ; k += PUNY_BASE) {
+      if (index >= input.length) throw new Error('Truncated punycode label');
+      const digit = punycodeDigit(input.charCodeAt(index++));
+      if (digit >= PUNY_BASE) throw new Error('Invalid punycode digit');
+
+      i += digit * w;
+      const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias;
+      if (digit < t) break;
+      w *= PUNY_BASE - t;
+    }
+
+    const length = output.length + 1;
+    bias = adaptBias(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+function toUnicodeHostname(hostname: string): string {
+  return hostname
+    .split('.')
+    .map(label => {
+      if (!label.startsWith('xn--')) return label;
+      try {
+        return decodePunycode(label.slice(4));
+      } catch {
+        return label;
+      }
+    })
+    .join('.');
+}
+
+export function getRegistrableDomain(hostname: string): string {
+  const labels = hostname.split('.').filter(Boolean);
+  const suffixLength = labels.length >= 3 && MULTI_PART_SUFFIXES.has(labels.slice(-2).join('.')) ? 3 : 2;
+  return labels.slice(-suffixLength).join('.');
+}
+
+/**
+ * The Latin string a label imitates, with every confusable folded to its target letter
+ */
+export function confusableSkeleton(value: string): string {
+  let skeleton = Array.from(value.normalize('NFKC').toLowerCase())
+    .map(char => CONFUSABLES[char] ?? char)
+    .join('');
+  for (const [pattern, replacement] of SEQUENCE_CONFUSABLES) {
+    skeleton = skeleton.replace(pattern, replacement);
+  }
+  return skeleton;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][cols - 1];
+}
+
+// QWERTY rows, offset the way the keys are staggered
+const KEYBOARD_ROWS = ['1234567890', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+function keyPosition(char: string): [number, number] | null {
+  for (let row = 0; row < KEYBOARD_ROWS.length; row++) {
+    const col = KEYBOARD_ROWS[row].indexOf(char);
+    if (col >= 0) return [row, col];
+  }
+  return null;
+}
+
+function isKeyboardAdjacent(a: string, b: string): boolean {
+  const pa = keyPosition(a);
+  const pb = keyPosition(b);
+  if (!pa || !pb) return false;
+  const [rowA, colA] = pa;
+  const [rowB, colB] = pb;
+  if (rowA === rowB) return Math.abs(colA - colB) === 1;
+  // A key touches the two keys above it (same and next column) and the two below it
+  if (rowB === rowA - 1) return colB === colA || colB === colA + 1;
+  if (rowB === rowA + 1) return colB === colA || colB === colA - 1;
+  return false;
+}
+
+function isConfusablePair(a: string, b: string): boolean {
+  return (CONFUSABLES[a] ?? a) === (CONFUSABLES[b] ?? b);
+}
+
+/**
+ * How `label` could be a slip of the finger on `trusted`, or null when the single edit
+ * between them isn't one. Substitutions only count between neighbouring keys or lookalike
+ * characters, so unrelated words one letter apart (mantra vs myntra) aren't flagged.
+ */
+export function describeTypo(label: string, trusted: string): string | null {
+  if (label === trusted || editDistance(label, trusted) !== 1) return null;
+
+  if (label.length === trusted.length) {
+    const i = Array.from(label).findIndex((char, index) => char !== trusted[index]);
+    if (label[i + 1] !== undefined && label[i] === trusted[i + 1] && label[i + 1] === trusted[i]) {
+      return `"${trusted[i]}${trusted[i + 1]}" transposed`;
+    }
+    if (isKeyboardAdjacent(label[i], trusted[i])) return `"${label[i]}" for the neighbouring key "${trusted[i]}"`;
+    if (isConfusablePair(label[i], trusted[i])) return `"${label[i]}" for the lookalike "${trusted[i]}"`;
+    return null;
+  }
+
+  if (label.length < trusted.length) {
+    const i = Array.from(trusted).findIndex((char, index) => char !== label[index]);
+    return `"${trusted[i]}" dropped`;
+  }
+
+  // An extra key is a typo when it doubles or sits next to a letter around it
+  const i = Array.from(label).findIndex((char, index) => char !== trusted[index]);
+  const extra = label[i];
+  const neighbours = [label[i - 1], label[i + 1]].filter((char): char is string => char !== undefined);
+  if (neighbours.some(char => char === extra || isKeyboardAdjacent(char, extra))) return `stray "${extra}" added`;
+  return null;
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(url) ? url : `http://${url}`);
+  } catch {
+    return null;
+  }
+}
+
+// URL Analyzer
+export class UrlAnalyzer {
+  private trustedDomains: Set<string>;
+  private shorteners: Set<string>;
+  private redirectParams: Set<string>;
+
+  constructor(options: UrlAnalyzerOptions) {
+    this.trustedDomains = new Set(options.trustedDomains.map(d => d.toLowerCase()));
+    this.shorteners = new Set((options.shorteners || DEFAULT_SHORTENERS).map(d => d.toLowerCase()));
+    this.redirectParams = new Set((options.redirectParams || DEFAULT_REDIRECT_PARAMS).map(p => p.toLowerCase()));
+  }
+
+  addTrustedDomain(domain: string): void {
+    this.trustedDomains.add(domain.toLowerCase());
+  }
+
+  isTrusted(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return Array.from(this.trustedDomains).some(d => host === d || host.endsWith(`.${d}`));
+  }
+
+  analyze(url: string, followRedirects = true): UrlAnalysis {
+    const parsed = parseUrl(url.trim());
+    if (!parsed || !parsed.hostname) {
+      return {
+        url,
+        hostname: '',
+        registrableDomain: '',
+        isTrusted: false,
+        findings: [{ technique: 'invalid-url', detail: 'URL could not be parsed' }]
+      };
+    }
+
+    const asciiHost = parsed.hostname.toLowerCase().replace(/\.$/, '');
+    const hostname = toUnicodeHostname(asciiHost);
+    const registrableDomain = getRegistrableDomain(hostname);
+    const isTrusted = this.isTrusted(asciiHost);
+    const findings: UrlFinding[] = [];
+
+    if (!isTrusted) {
+      findings.push(...this.checkLookalike(registrableDomain, asciiHost !== hostname));
+      findings.push(...this.checkBrandPlacement(hostname, registrableDomain));
+
+      if (this.shorteners.has(registrableDomain) || this.shorteners.has(hostname)) {
+        findings.push({
+          technique: 'url-shortener',
+          detail: `${hostname} is a link shortener that hides the real destination`
+        });
+      }
+    }
+
+    findings.push(...this.checkRedirects(parsed, registrableDomain, followRedirects));
+
+    return { url, hostname, registrableDomain, isTrusted, findings };
+  }
+
+  /**
+   * Compare the registrable domain with each trusted domain: confusable skeletons first,
+   * then a single typo-like edit on the brand label, then the same brand under a different TLD
+   */
+  private checkLookalike(registrableDomain: string, wasPunycode: boolean): UrlFinding[] {
+    const [label, ...suffixParts] = registrableDomain.split('.');
+    const suffix = suffixParts.join('.');
+    const labelSkeleton = confusableSkeleton(label);
+
+    for (const trusted of Array.from(this.trustedDomains)) {
+      const [trustedLabel, ...trustedSuffixParts] = trusted.split('.');
+      const trustedSuffix = trustedSuffixParts.join('.');
+
+      if (label !== trustedLabel && labelSkeleton === confusableSkeleton(trustedLabel)) {
+        return [{
+          technique: wasPunycode ? 'punycode' : 'homoglyph',
+          matchedDomain: trusted,
+          detail: wasPunycode
+            ? `Internationalized domain ${registrableDomain} renders like ${trusted}`
+            : `${registrableDomain} swaps lookalike characters into ${trusted}`
+        }];
+      }
+
+      const typo = describeTypo(label, trustedLabel);
+      if (typo) {
+        return [{
+          technique: 'typosquat',
+          matchedDomain: trusted,
+          detail: `${registrableDomain} looks like a typo of ${trusted} (${typo})`
+        }];
+      }
+
+      if (label === trustedLabel && suffix !== trustedSuffix) {
+        return [{
+          technique: 'tld-swap',
+          matchedDomain: trusted,
+          detail: `${registrableDomain} uses the ${trusted} brand under a different TLD`
+        }];
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * Trusted brands used as decoration: amazon.in.verify-login.xyz or flipkart-offers.com
+   */
+  private checkBrandPlacement(hostname: string, registrableDomain: string): UrlFinding[] {
+    const findings: UrlFinding[] = [];
+    const subdomain = hostname.slice(0, Math.max(hostname.length - registrableDomain.length - 1, 0));
+    const subLabels = subdomain.split('.').filter(Boolean);
+    const [registrableLabel] = registrableDomain.split('.');
+
+    for (const trusted of Array.from(this.trustedDomains)) {
+      const [trustedLabel] = trusted.split('.');
+
+      if (subdomain === trusted || subdomain.endsWith(`.${trusted}`) || subdomain.startsWith(`${trusted}.`) ||
+          subdomain.includes(`.${trusted}.`) || subLabels.includes(trustedLabel)) {
+        findings.push({
+          technique: 'brand-subdomain',
+          matchedDomain: trusted,
+          detail: `${trusted} appears as a subdomain of ${registrableDomain}`
+        });
+        break;
+      }
+
+      const parts = registrableLabel.split('-');
+      if (parts.length > 1 && parts.includes(trustedLabel)) {
+        findings.push({
+          technique: 'brand-in-domain',
+          matchedDomain: trusted,
+          detail: `${registrableDomain} combines the ${trusted} brand with other words`
+        });
+        break;
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Query parameters that bounce the visitor to another site, analysing the target one level deep
+   */
+  private checkRedirects(parsed: URL, registrableDomain: string, followRedirects: boolean): UrlFinding[] {
+    const findings: UrlFinding[] = [];
+
+    parsed.searchParams.forEach((value, key) => {
+      if (!this.redirectParams.has(key.toLowerCase())) return;
+      if (!/^(https?:)?\/\//i.test(value) && !/^[a-z0-9-]+(\.[a-z0-9-]+)+(\/|$)/i.test(value)) return;
+
+      const target = parseUrl(value.startsWith('//') ? `http:${value}` : value);
+      if (!target || getRegistrableDomain(target.hostname) === registrableDomain) return;
+
+      const targetAnalysis = followRedirects ? this.analyze(target.toString(), false) : null;
+      const imitated = targetAnalysis?.findings.find(f => f.matchedDomain)?.matchedDomain;
+
+      findings.push({
+        technique: 'redirect-param',
+        matchedDomain: imitated,
+        detail: `"${key}" parameter redirects to ${target.hostname}` +
+          (imitated ? `, which imitates ${imitated}` : '')
+      });
+    });
+
+    return findings;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Vendor quotes for fraud scans
+ * Looks each deal up through the vendor adapters so the reference-price check can compare
+ * the claimed original price with what other vendors charge for the same product.
+ */
+
+import type { Product } from '@/types/comparison';
+import { searchVendors } from '@/lib/vendors/search';
+import { MATCH_THRESHOLD, scoreMatch } from '@/lib/product-matching/cluster';
+import type { Deal, FraudDetectionEngine } from './fraud-detection-engine';
+import { vendorQuotesFromProducts } from './reference-price';
+
+const SEARCH_LIMIT = 10;
+
+// The deal as a listing, so vendor results can be matched against it like any other
+function dealAsProduct(deal: Deal): Product {
+  return {
+    id: deal.id,
+    name: deal.title,
+    description: '',
+    category: '', // Deal categories don't follow vendor taxonomies
+    vendor: '',
+    price: deal.discountedPrice,
+    originalPrice: deal.originalPrice,
+    currency: 'INR',
+    rating: 0,
+    reviewCount: 0,
+    imageUrl: '',
+    availability: true,
+    features: [],
+    url: deal.url,
+    inStock: true,
+    lastUpdated: new Date(deal.timestamp)
+  };
+}
+
+/**
+ * Listings from the vendor search that are the deal's product
+ */
+export function matchingListings(deal: Deal, products: Product[]): Product[] {
+  const probe = dealAsProduct(deal);
+  return products.filter(product => scoreMatch(probe, product).confidence >= MATCH_THRESHOLD);
+}
+
+/**
+ * Search the vendors for each deal and hand the matching listings' prices to the engine.
+ * Vendor results are cached, so rescanning a deal doesn't call the vendors again.
+ * A failed lookup leaves the deal's previous quotes in place.
+ */
+export async function refreshVendorQuotes(engine: FraudDetectionEngine, deals: Deal[]): Promise<void> {
+  await Promise.all(deals.map(async deal => {
+    try {
+      const { products, vendors } = await searchVendors(deal.title, { limit: SEARCH_LIMIT });
+      if (!vendors.some(v => v.status === 'ok')) return;
+      engine.updateVendorPrices(deal.id, vendorQuotesFromProducts(matchingListings(deal, products)));
+    } catch (error) {
+      console.error(`Error fetching vendor quotes for deal ${deal.id}:`, error);
+    }
+  }));
+}
@@ -18,9 +18,11 @@ const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
 
 class MarketplaceApi {
   private baseUrl: string;
+  private actionsUrl: string; // Writes go through the app so they are rate limited
 
   constructor() {
     this.baseUrl = `${API_BASE_URL}/api`;
+    this.actionsUrl = '/api/marketplace';
   }
 
   private async fetchWithAuth(url: string, options: RequestInit = {}) {
@@ -40,13 +42,19 @@ class MarketplaceApi {
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({ message: 'Request failed' }));
-        throw new Error(error.message || `HTTP error! status: ${response.status}`);
+        throw new Error(error.message || error.error || `HTTP error! status: ${response.status}`);
       }
 
-      return response.json();
+      const text = await response.text();
+      return text ? JSON.parse(text) : null;
     } catch (error) {
       // If backend is not running, return empty data instead of crashing
       console.warn('Marketplace API error:', error);
+
+      // A failed or rate-limited write must reach the caller
+      if (options.method && options.method !== 'GET') {
+        throw error;
+      }
       
       // Return sensible defaults based on the endpoint
       if (url.includes('/listings')) {
@@ -101,34 +109,34 @@ class MarketplaceApi {
 
   // Authenticated endpoints - Listing management
   async createListing(data: CreateListingRequest): Promise<MarketplaceListing> {
-    return this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/listings`, {
+    return this.fetchWithAuth(`${this.actionsUrl}/listings`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
   }
 
   async updateListing(id: string, data: UpdateListingRequest): Promise<MarketplaceListing> {
-    return this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/listings/${id}`, {
+    return this.fetchWithAuth(`${this.actionsUrl}/listings/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
   async deleteListing(id: string): Promise<void> {
-    await this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/listings/${id}`, {
+    await this.fetchWithAuth(`${this.actionsUrl}/listings/${id}`, {
       method: 'DELETE',
     });
   }
 
   async submitForVerification(id: string): Promise<void> {
-    await this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/listings/${id}/verify`, {
+    await this.fetchWithAuth(`${this.actionsUrl}/listings/${id}/verify`, {
       method: 'POST',
     });
   }
 
   // Transaction management
   async createTransaction(data: CreateTransactionRequest): Promise<MarketplaceTransaction> {
-    return this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/transactions`, {
+    return this.fetchWithAuth(`${this.actionsUrl}/transactions`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -143,20 +151,20 @@ class MarketplaceApi {
   }
 
   async completeTransaction(id: string): Promise<MarketplaceTransaction> {
-    return this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/transactions/${id}/complete`, {
+    return this.fetchWithAuth(`${this.actionsUrl}/transactions/${id}/complete`, {
       method: 'PUT',
     });
   }
 
   async cancelTransaction(id: string, reason: string): Promise<void> {
-    await this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/transactions/${id}/cancel`, {
+    await this.fetchWithAuth(`${this.actionsUrl}/transactions/${id}/cancel`, {
       method: 'PUT',
       body: JSON.stringify({ reason }),
     });
   }
 
   async disputeTransaction(id: string, reason: string, evidence?: string): Promise<void> {
-    await this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/transactions/${id}/dispute`, {
+    await this.fetchWithAuth(`${this.actionsUrl}/transactions/${id}/dispute`, {
       method: 'POST',
       body: JSON.stringify({ reason, evidence }),
     });
@@ -164,7 +172,7 @@ class MarketplaceApi {
 
   // Review management
   async createReview(data: CreateReviewRequest): Promise<MarketplaceReview> {
-    return this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/reviews`, {
+    return this.fetchWithAuth(`${this.actionsUrl}/reviews`, {
       method: 'POST',
       body: JSON.stringify(data),
     });
@@ -184,7 +192,7 @@ class MarketplaceApi {
   }
 
   async markNotificationRead(id: string): Promise<void> {
-    await this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/notifications/${id}/read`, {
+    await this.fetchWithAuth(`${this.actionsUrl}/notifications/${id}/read`, {
       method: 'PUT',
     });
   }
@@ -194,7 +202,7 @@ class MarketplaceApi {
   }
 
   async updateNotificationSettings(settings: NotificationSettings): Promise<NotificationSettings> {
-    return this.fetchWithAuth(`${this.baseUrl}/v1/marketplace/notifications/settings`, {
+    return this.fetchWithAuth(`${this.actionsUrl}/notifications/settings`, {
       method: 'PUT',
       body: JSON.stringify(settings),
     });
@@ -32,6 +32,16 @@ export const getMockDeals = (): Deal[] => {
       sellerId: 'seller2',
       url: 'https://suspicious-site.com/nike-air-max',
       timestamp: baseTime - 900000
+    },
+    {
+      id: 'deal4',
+      title: 'Sony WH-1000XM5 - Big Savings Week',
+      originalPrice: 29990,
+      discountedPrice: 19990,
+      category: 'electronics',
+      sellerId: 'seller5',
+      url: 'https://amazon.in/sony-wh-1000xm5',
+      timestamp: baseTime - 600000
     }
   ];
 };
\ No newline at end of file
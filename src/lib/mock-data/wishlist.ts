@@ -0,0 +1,28 @@
+import type { WishlistProduct } from '@/lib/types';
+
+export const mockWishlist: WishlistProduct[] = [
+  {
+    id: '1',
+    name: 'Wireless Earbuds Pro',
+    price: 2499,
+    platform: 'Flipkart',
+    productUrl: 'https://www.flipkart.com/search?q=wireless+earbuds+pro',
+    imageUrl: 'https://picsum.photos/seed/earbuds/100/100'
+  },
+  {
+    id: '2',
+    name: 'Smartwatch Series 7',
+    price: 15999,
+    platform: 'Amazon.in',
+    productUrl: 'https://www.amazon.in/s?k=smartwatch+series+7',
+    imageUrl: 'https://picsum.photos/seed/watch/100/100'
+  },
+  {
+    id: '3',
+    name: 'Running Shoes XYZ',
+    price: 3200,
+    platform: 'Myntra',
+    productUrl: 'https://www.myntra.com/running-shoes',
+    imageUrl: 'https://picsum.photos/seed/shoes/100/100'
+  },
+];
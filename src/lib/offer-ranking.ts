@@ -1,8 +1,27 @@
 
 import type { Offer, UserCard, RankedOffer, UserPointsState } from './types';
+import type { Product } from '@/types/comparison';
 
 const MIN_SPEND_FOR_PERK_CONSIDERATION = 100; // Don't consider tiny purchases for big perks
 
+/**
+ * A vendor listing as a rankable offer: its price, with any vendor cashback
+ */
+export function offerFromProduct(product: Product): Offer {
+  return {
+    id: `${product.vendor}:${product.id}`,
+    description: product.discount ? `${product.discount}% off on ${product.vendor}` : `Listed on ${product.vendor}`,
+    value: `₹${product.price.toLocaleString('en-IN')}`,
+    type: product.cashbackRate ? 'cashback' : 'coupon',
+    productName: product.name,
+    basePrice: product.price,
+    platform: product.vendor,
+    productUrl: product.affiliateLink || product.url,
+    productImageUrl: product.imageUrl,
+    cashbackPercentage: product.cashbackRate
+  };
+}
+
 export function calculateRankedOffers(offers: Offer[], userPointsState: UserPointsState): RankedOffer[] {
   const rankedOffers: RankedOffer[] = offers.map((offer, _index) => {
     let priceAfterDirectDiscounts = offer.basePrice;
@@ -0,0 +1,245 @@
+import type { CardVault } from '@/types/card-vault';
+import type { RewardBalance } from './card-linked/offer-engine';
+import type {
+  BurnPlan,
+  BurnSuggestion,
+  ExpiryNotification,
+  LoyaltyProgram,
+  PointsExpiryReport,
+  PointsHolding,
+  RankedOffer,
+  UserCard,
+  WishlistProduct
+} from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_EXPIRY_HORIZON_DAYS = 30;
+const REMINDER_DAYS = [1, 7, 30]; // Reminder windows before expiry, most urgent first
+
+// Collecting holdings from the places points are modelled
+
+export function holdingsFromUserCards(cards: UserCard[]): PointsHolding[] {
+  return cards
+    .filter(card => card.points_expiry_date && card.reward_value_inr && (card.expiring_points ?? card.current_points))
+    .map(card => ({
+      id: `card:${card.id}`,
+      source: 'card' as const,
+      name: card.name,
+      expiringPoints: card.expiring_points ?? card.current_points!,
+      expiryDate: card.points_expiry_date!,
+      pointValueInr: card.reward_value_inr!
+    }));
+}
+
+export function holdingsFromCardVault(cards: CardVault[]): PointsHolding[] {
+  return cards
+    .filter(card => card.pointsExpiryDate && card.currentPoints > 0 && card.rewardType !== 'cashback')
+    .map(card => ({
+      id: `vault:${card.id}`,
+      source: 'card' as const,
+      name: card.nickname || `${card.bankName} ${card.cardType}`,
+      expiringPoints: card.currentPoints,
+      expiryDate: card.pointsExpiryDate!,
+      pointValueInr: card.pointValueInr
+    }));
+}
+
+export function holdingFromRewardBalance(
+  balance: RewardBalance,
+  name: string,
+  pointValueInr: number
+): PointsHolding | null {
+  if (!balance.expiringPoints || balance.expiringPoints.amount <= 0) return null;
+
+  return {
+    id: `card:${balance.cardId}`,
+    source: 'card',
+    name,
+    expiringPoints: balance.expiringPoints.amount,
+    expiryDate: balance.expiringPoints.expiryDate,
+    pointValueInr
+  };
+}
+
+export function holdingsFromLoyaltyPrograms(programs: LoyaltyProgram[]): PointsHolding[] {
+  return programs
+    .filter(program => program.pointsExpiryDate && (program.expiringPoints ?? program.currentPoints) > 0)
+    .map(program => ({
+      id: `loyalty:${program.id}`,
+      source: 'loyalty' as const,
+      name: program.programName,
+      expiringPoints: program.expiringPoints ?? program.currentPoints,
+      expiryDate: program.pointsExpiryDate!,
+      pointValueInr: program.pointValueInRupees,
+      // Store programs are only redeemable on their own platform, e.g. "Flipkart SuperCoins"
+      redemptionPlatforms: program.redemptionPlatforms || [program.programName.split(' ')[0]]
+    }));
+}
+
+/**
+ * Combine holdings from several sources, keeping the first when two describe the same
+ * balance (same name and expiry day), e.g. a card listed both in the wallet and the vault
+ */
+export function mergeHoldings(...sources: PointsHolding[][]): PointsHolding[] {
+  const seen = new Set<string>();
+  return sources.flat().filter(holding => {
+    const key = `${holding.name.trim().toLowerCase()}|${holding.expiryDate.slice(0, 10)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Planning
+
+interface BurnCandidate {
+  kind: BurnSuggestion['kind'];
+  itemId: string;
+  name: string;
+  platform: string;
+  price: number;
+  productUrl?: string;
+}
+
+function normalizePlatform(platform: string): string {
+  return platform.toLowerCase().replace(/\.(in|com)$/, '').replace(/[^a-z0-9]/g, '');
+}
+
+function samePlatform(a: string, b: string): boolean {
+  const x = normalizePlatform(a);
+  const y = normalizePlatform(b);
+  return x.length > 0 && y.length > 0 && (x.includes(y) || y.includes(x));
+}
+
+/**
+ * Rupee value of one point when spent on the platform, or null if it can't be spent there
+ */
+function rupeesPerPoint(holding: PointsHolding, platform: string): number | null {
+  if (holding.redemptionPlatforms && !holding.redemptionPlatforms.some(p => samePlatform(p, platform))) {
+    return null;
+  }
+
+  const partner = Object.entries(holding.partnerRates || {}).find(([p]) => samePlatform(p, platform));
+  return partner ? partner[1] : holding.pointValueInr;
+}
+
+function daysUntil(date: string, at: Date): number {
+  return Math.ceil((new Date(date).getTime() - at.getTime()) / DAY_MS);
+}
+
+/**
+ * Greedily spend a holding's expiring points on the candidates worth the most per point,
+ * preferring items that soak up more of the balance when rates tie
+ */
+function planHolding(holding: PointsHolding, candidates: BurnCandidate[], used: Set<string>): BurnSuggestion[] {
+  const options = candidates
+    .filter(c => !used.has(c.itemId) && c.price > 0)
+    .map(c => ({ candidate: c, rate: rupeesPerPoint(holding, c.platform) }))
+    .filter((o): o is { candidate: BurnCandidate; rate: number } => o.rate !== null && o.rate > 0)
+    .sort((a, b) => b.rate - a.rate || b.candidate.price - a.candidate.price);
+
+  const suggestions: BurnSuggestion[] = [];
+  let remaining = holding.expiringPoints;
+
+  for (const { candidate, rate } of options) {
+    if (remaining <= 0) break;
+
+    const pointsUsed = Math.min(remaining, Math.ceil(candidate.price / rate));
+    remaining -= pointsUsed;
+    used.add(candidate.itemId);
+
+    suggestions.push({
+      ...candidate,
+      pointsUsed,
+      rupeesPerPoint: rate,
+      rupeeValue: Math.min(candidate.price, pointsUsed * rate)
+    });
+  }
+
+  return suggestions;
+}
+
+function buildNotification(plan: BurnPlan): ExpiryNotification | null {
+  const window = REMINDER_DAYS.find(days => plan.daysLeft <= days);
+  if (window === undefined) return null;
+
+  const { holding, daysLeft, suggestions } = plan;
+  const expiryDate = holding.expiryDate;
+  const when = daysLeft <= 0 ? 'today' : daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`;
+  const best = suggestions[0];
+
+  return {
+    id: `${holding.id}:${expiryDate.slice(0, 10)}:${window}d`,
+    holdingId: holding.id,
+    severity: window <= 1 ? 'critical' : window <= 7 ? 'warning' : 'info',
+    title: `${holding.expiringPoints.toLocaleString('en-IN')} ${holding.name} points expire ${when}`,
+    message: best
+      ? `₹${Math.round(plan.valueAtRisk).toLocaleString('en-IN')} at risk. Use them on ${best.name} (${best.platform}) at ₹${best.rupeesPerPoint.toFixed(2)}/point.`
+      : `₹${Math.round(plan.valueAtRisk).toLocaleString('en-IN')} at risk. Redeem them before ${new Date(expiryDate).toLocaleDateString('en-IN')}.`,
+    daysLeft
+  };
+}
+
+export function planPointsBurn({
+  holdings,
+  wishlist = [],
+  rankedOffers = [],
+  horizonDays = DEFAULT_EXPIRY_HORIZON_DAYS,
+  at = new Date()
+}: {
+  holdings: PointsHolding[];
+  wishlist?: WishlistProduct[];
+  rankedOffers?: RankedOffer[];
+  horizonDays?: number;
+  at?: Date;
+}): PointsExpiryReport {
+  const candidates: BurnCandidate[] = [
+    ...wishlist.map(item => ({
+      kind: 'wishlist' as const,
+      itemId: `wishlist:${item.id}`,
+      name: item.name,
+      platform: item.platform,
+      price: item.price,
+      productUrl: item.productUrl
+    })),
+    ...rankedOffers.map(offer => ({
+      kind: 'offer' as const,
+      itemId: `offer:${offer.id}`,
+      name: offer.productName,
+      platform: offer.platform,
+      price: offer.finalPrice,
+      productUrl: offer.productUrl
+    }))
+  ];
+
+  // Soonest expiry gets first pick of the candidates
+  const expiring = holdings
+    .map(holding => ({ holding, daysLeft: daysUntil(holding.expiryDate, at) }))
+    .filter(h => h.daysLeft >= 0 && h.daysLeft <= horizonDays && h.holding.expiringPoints > 0)
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+
+  const used = new Set<string>();
+  const plans: BurnPlan[] = expiring.map(({ holding, daysLeft }) => {
+    const suggestions = planHolding(holding, candidates, used);
+    const pointsBurned = suggestions.reduce((sum, s) => sum + s.pointsUsed, 0);
+
+    return {
+      holding,
+      daysLeft,
+      valueAtRisk: holding.expiringPoints * holding.pointValueInr,
+      suggestions,
+      pointsBurned,
+      pointsUnplanned: holding.expiringPoints - pointsBurned
+    };
+  });
+
+  return {
+    horizonDays,
+    totalPointsAtRisk: plans.reduce((sum, p) => sum + p.holding.expiringPoints, 0),
+    totalValueAtRisk: plans.reduce((sum, p) => sum + p.valueAtRisk, 0),
+    plans,
+    notifications: plans
+      .map(buildNotification)
+      .filter((n): n is ExpiryNotification => n !== null)
+  };
+}
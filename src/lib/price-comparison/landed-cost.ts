@@ -0,0 +1,64 @@
+/**
+ * Landed Cost
+ * The true cost of buying a listing: item price plus shipping, COD and convenience fees
+ * and GST on them, less the store's cashback, plus what the wait is worth to the user.
+ */
+
+import type { LandedCost, LandedCostOptions, Product } from '@/types/comparison';
+import { deliveryDays } from '@/lib/vendors/delivery';
+
+export const GST_ON_SERVICES = 0.18; // Delivery and platform fees; listing prices already include GST
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * `fallbackDays` stands in for a listing with no delivery estimate, so it is not
+ * treated as arriving instantly
+ */
+export function landedCost(product: Product, options: LandedCostOptions = {}, fallbackDays = 0): LandedCost {
+  const assumed: LandedCost['assumed'] = [];
+  if (product.shippingFee === undefined) assumed.push('shipping');
+
+  const days = deliveryDays(product.deliveryTime);
+  if (days === null) assumed.push('delivery');
+
+  const shipping = product.shippingFee ?? 0;
+  const codFee = options.paymentMethod === 'cod' ? product.fees?.cod ?? 0 : 0;
+  const convenienceFee = product.fees?.convenience ?? 0;
+  const gst = product.fees && !product.fees.taxIncluded ? (shipping + codFee + convenienceFee) * GST_ON_SERVICES : 0;
+  const cashback = product.price * ((product.cashbackRate ?? 0) / 100);
+  const waitingCost = (days ?? fallbackDays) * (options.waitingCostPerDay ?? 0);
+
+  const breakdown = {
+    itemPrice: product.price,
+    shipping,
+    codFee,
+    convenienceFee,
+    gst: round2(gst),
+    cashback: round2(cashback),
+    waitingCost: round2(waitingCost)
+  };
+
+  return {
+    product,
+    total: round2(product.price + shipping + codFee + convenienceFee + gst - cashback + waitingCost),
+    breakdown,
+    deliveryDays: days,
+    assumed
+  };
+}
+
+/**
+ * Cheapest delivered first. Listings without a delivery estimate are charged for the
+ * slowest quoted delivery among the others.
+ */
+export function rankByLandedCost(products: Product[], options: LandedCostOptions = {}): LandedCost[] {
+  const quoted = products
+    .map(product => deliveryDays(product.deliveryTime))
+    .filter((days): days is number => days !== null);
+  const slowest = quoted.length > 0 ? Math.max(...quoted) : 0;
+
+  return products
+    .map(product => landedCost(product, options, slowest))
+    .sort((a, b) => a.total - b.total);
+}
@@ -0,0 +1,118 @@
+/**
+ * Product attribute extraction
+ * Pulls brand, model, storage, RAM and colour out of vendor titles so listings can be
+ * compared on what they are rather than how each store words them.
+ */
+
+import type { Product } from '@/types/comparison';
+
+// Types
+export interface ProductAttributes {
+  brand?: string;
+  modelTokens: string[]; // Tokens with digits that name the model: "15", "s24", "1000xm5", "511"
+  mpn?: string;
+  gtin?: string;
+  storage?: string; // "128gb"
+  ram?: string; // "8gb"
+  colour?: string;
+  accessory: boolean; // Case, cover, charger...: never the same product as the device
+  titleTokens: string[]; // Significant words, attributes removed
+}
+
+const BRAND_ALIASES: Record<string, string> = {
+  'levi s': 'levis',
+  'levi strauss': 'levis',
+  'hrx by hrithik roshan': 'hrx',
+  'one plus': 'oneplus'
+};
+
+// Longest first, so "onyx black" wins over "black"
+const COLOURS = [
+  'onyx black', 'bold black', 'dark chrome', 'glass green', 'midnight blue', 'space grey', 'rose gold',
+  'black', 'white', 'blue', 'green', 'red', 'grey', 'gray', 'silver', 'gold', 'navy', 'pink',
+  'purple', 'yellow', 'champagne', 'beige', 'brown', 'olive', 'maroon'
+];
+
+const ACCESSORY_WORDS = ['case', 'cover', 'tempered', 'protector', 'charger', 'cable', 'adapter', 'skin', 'strap', 'pouch'];
+
+// Words every listing in a category uses; they say nothing about which product it is
+const STOPWORDS = new Set([
+  'the', 'and', 'with', 'for', 'of', 'in', 'by', 'to', 'a', 'an',
+  'men', 'mens', 'women', 'womens', 'unisex', 'new', 'latest', 'original', 'genuine',
+  'storage', 'ram', 'gb', 'tb', 'mid', 'rise', 'true', 'wireless', 'bluetooth'
+]);
+
+// Numbers that measure something rather than name a model
+const UNIT_WORDS = new Set(['h', 'hr', 'hrs', 'hour', 'hours', 'mah', 'w', 'mp', 'inch', 'mm', 'cm', 'hz', 'gb', 'tb', 'day', 'days']);
+const NETWORK_TOKENS = new Set(['4g', '5g', 'lte']);
+
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function normalizeBrand(brand: string): string {
+  const normalized = normalizeText(brand);
+  return BRAND_ALIASES[normalized] ?? normalized.replace(/\s+/g, '');
+}
+
+export function extractAttributes(product: Product): ProductAttributes {
+  const title = normalizeText(product.name);
+  let remaining = ` ${title} `;
+
+  const brand = product.brand ? normalizeBrand(product.brand) : undefined;
+
+  // "8 gb ram" is memory; the largest other capacity is storage
+  let ram: string | undefined;
+  const capacities: Array<{ value: number; label: string }> = [];
+  remaining = remaining.replace(/ (\d+) ?(gb|tb)( ram)?(?= )/g, (_, amount: string, unit: string, isRam?: string) => {
+    const label = `${amount}${unit}`;
+    if (isRam) ram = label;
+    else capacities.push({ value: Number(amount) * (unit === 'tb' ? 1024 : 1), label });
+    return ' ';
+  });
+  const storage = capacities.sort((a, b) => b.value - a.value)[0]?.label;
+
+  const colour = COLOURS.find(c => remaining.includes(` ${c} `));
+  if (colour) remaining = remaining.replace(` ${colour} `, ' ');
+
+  const tokens = remaining.split(' ').filter(Boolean);
+  const brandTokens = new Set(brand ? normalizeText(product.brand as string).split(' ').concat(brand) : []);
+
+  const modelTokens: string[] = [];
+  let mpn = product.identifiers?.mpn?.toLowerCase();
+  tokens.forEach((token, i) => {
+    if (!/\d/.test(token) || NETWORK_TOKENS.has(token)) return;
+    if (/^\d+$/.test(token) && UNIT_WORDS.has(tokens[i + 1])) return;
+    if (/^\d+(h|hr|hrs|mah|w|mp|hz|mm)$/.test(token)) return;
+    // Long letter-digit codes are manufacturer part numbers, e.g. NM1774YM01
+    if (!mpn && token.length >= 8 && /[a-z]/.test(token)) mpn = token;
+    modelTokens.push(token);
+  });
+
+  const titleTokens = tokens
+    .filter(token => !STOPWORDS.has(token) && !brandTokens.has(token))
+    .map(stem);
+
+  return {
+    brand,
+    modelTokens: Array.from(new Set(modelTokens)),
+    mpn,
+    gtin: product.identifiers?.gtin,
+    storage,
+    ram,
+    colour: colour === 'gray' ? 'grey' : colour,
+    accessory: tokens.some(token => ACCESSORY_WORDS.includes(token)),
+    titleTokens: Array.from(new Set(titleTokens))
+  };
+}
+
+// Crude plural/tense folding: "printed" and "print", "shoes" and "shoe"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2);
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
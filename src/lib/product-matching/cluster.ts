@@ -0,0 +1,154 @@
+/**
+ * Product clustering
+ * Groups vendor listings into canonical products. A listing joins a cluster only when it
+ * scores above the match threshold against the cluster's seed and conflicts with no member.
+ */
+
+import type { CanonicalProduct, MatchSignal, Product, ProductMatch } from '@/types/comparison';
+import { extractAttributes, type ProductAttributes } from './attributes';
+
+export const MATCH_THRESHOLD = 0.6;
+
+const MAX_PRICE_RATIO = 3; // The same SKU doesn't cost three times as much elsewhere
+
+export interface MatchScore {
+  confidence: number;
+  matchedOn: MatchSignal[];
+}
+
+const NO_MATCH: MatchScore = { confidence: 0, matchedOn: [] };
+
+const jaccard = (a: string[], b: string[]) => {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = a.filter(token => setB.has(token)).length;
+  return shared / (a.length + b.length - shared);
+};
+
+/**
+ * How likely two listings are the same SKU. A device never matches its accessory or a listing
+ * at several times its price; past that, shared identifiers decide outright, and a different
+ * brand, storage, RAM, colour, model or category rules a match out.
+ */
+export function scoreMatch(a: Product, b: Product, attrsA = extractAttributes(a), attrsB = extractAttributes(b)): MatchScore {
+  // Before the identifiers: a case title names the device's part number too
+  if (attrsA.accessory !== attrsB.accessory) return NO_MATCH;
+  if (Math.max(a.price, b.price) > MAX_PRICE_RATIO * Math.max(Math.min(a.price, b.price), 1)) return NO_MATCH;
+
+  if ((attrsA.gtin && attrsA.gtin === attrsB.gtin) || (attrsA.mpn && attrsA.mpn === attrsB.mpn)) {
+    return { confidence: 0.99, matchedOn: ['identifier'] };
+  }
+
+  if (a.category && b.category && a.category.toLowerCase() !== b.category.toLowerCase()) return NO_MATCH;
+  if (attrsA.brand && attrsB.brand && attrsA.brand !== attrsB.brand) return NO_MATCH;
+
+  const matchedOn: MatchSignal[] = [];
+  let agreeing = 0;
+  let compared = 0;
+  for (const attribute of ['storage', 'ram', 'colour'] as const) {
+    if (!attrsA[attribute] || !attrsB[attribute]) continue;
+    if (attrsA[attribute] !== attrsB[attribute]) return NO_MATCH;
+    matchedOn.push(attribute);
+    agreeing++;
+    compared++;
+  }
+
+  const titleSimilarity = jaccard(attrsA.titleTokens, attrsB.titleTokens);
+  let modelSimilarity = titleSimilarity;
+  if (attrsA.modelTokens.length > 0 && attrsB.modelTokens.length > 0) {
+    modelSimilarity = jaccard(attrsA.modelTokens, attrsB.modelTokens);
+    // iPhone 15 vs iPhone 14
+    if (modelSimilarity === 0) return NO_MATCH;
+    matchedOn.unshift('model');
+  }
+  if (titleSimilarity >= 0.5) matchedOn.push('title');
+
+  const attributeScore = compared > 0 ? agreeing / compared : 0.5;
+  const confidence = 0.45 * modelSimilarity + 0.35 * titleSimilarity + 0.2 * attributeScore;
+
+  return { confidence: Math.round(confidence * 100) / 100, matchedOn };
+}
+
+interface Cluster {
+  seed: Product;
+  seedAttributes: ProductAttributes;
+  members: Array<{ product: Product; attributes: ProductAttributes; score: MatchScore }>;
+}
+
+/**
+ * Cluster listings into canonical products, most-reviewed listings seeding first.
+ * A cluster holds at most one listing per vendor.
+ */
+export function clusterProducts(products: Product[]): CanonicalProduct[] {
+  const clusters: Cluster[] = [];
+  const unique = Array.from(new Map(products.map(product => [product.id, product])).values());
+  const candidates = unique
+    .map(product => ({ product, attributes: extractAttributes(product) }))
+    .sort((a, b) => b.product.reviewCount - a.product.reviewCount);
+
+  for (const { product, attributes } of candidates) {
+    let best: { cluster: Cluster; score: MatchScore } | null = null;
+
+    for (const cluster of clusters) {
+      if (cluster.members.some(m => m.product.vendor === product.vendor)) continue;
+
+      const score = scoreMatch(cluster.seed, product, cluster.seedAttributes, attributes);
+      if (score.confidence < MATCH_THRESHOLD || (best && score.confidence <= best.score.confidence)) continue;
+
+      const conflicts = cluster.members.some(m => scoreMatch(m.product, product, m.attributes, attributes).confidence === 0);
+      if (!conflicts) best = { cluster, score };
+    }
+
+    if (best) {
+      best.cluster.members.push({ product, attributes, score: best.score });
+    } else {
+      clusters.push({
+        seed: product,
+        seedAttributes: attributes,
+        members: [{ product, attributes, score: { confidence: 1, matchedOn: [] } }]
+      });
+    }
+  }
+
+  return clusters
+    .map(toCanonicalProduct)
+    .sort((a, b) =>
+      b.offers.length - a.offers.length ||
+      totalReviews(b) - totalReviews(a)
+    );
+}
+
+function toCanonicalProduct(cluster: Cluster): CanonicalProduct {
+  const { seed, seedAttributes } = cluster;
+  // Attributes any member states, for listings whose titles leave them out
+  const stated = (key: 'storage' | 'ram' | 'colour') =>
+    seedAttributes[key] ?? cluster.members.find(m => m.attributes[key])?.attributes[key];
+
+  const offers: ProductMatch[] = cluster.members
+    .map(m => ({ product: m.product, confidence: m.score.confidence, matchedOn: m.score.matchedOn }))
+    .sort((a, b) => a.product.price - b.product.price);
+  const prices = offers.map(o => o.product.price);
+  const model = seedAttributes.modelTokens.join(' ') || undefined;
+
+  return {
+    id: canonicalId(seed, seedAttributes),
+    name: seed.name,
+    brand: seed.brand,
+    model,
+    attributes: { storage: stated('storage'), ram: stated('ram'), colour: stated('colour') },
+    offers,
+    priceRange: { min: Math.min(...prices), max: Math.max(...prices) }
+  };
+}
+
+// Stable across searches when the seed has a brand and model, e.g. "apple-15-128gb"
+function canonicalId(seed: Product, attributes: ProductAttributes): string {
+  if (attributes.gtin) return `gtin-${attributes.gtin}`;
+  if (!attributes.brand || attributes.modelTokens.length === 0) return `listing-${seed.id}`;
+  return [attributes.brand, ...attributes.modelTokens, attributes.storage, attributes.ram]
+    .filter(Boolean)
+    .join('-');
+}
+
+const totalReviews = (product: CanonicalProduct) =>
+  product.offers.reduce((sum, offer) => sum + offer.product.reviewCount, 0);
@@ -0,0 +1,80 @@
+/**
+ * Side-by-side comparison
+ * Lays selected listings out attribute by attribute and picks the best value in each row.
+ */
+
+import type { ComparisonRow, ComparisonValue, LandedCost, LandedCostOptions, Product, VendorInfo } from '@/types/comparison';
+import { deliveryDays } from '@/lib/vendors/delivery';
+import { rankByLandedCost } from '@/lib/price-comparison/landed-cost';
+import { extractAttributes } from './attributes';
+
+interface RowDefinition {
+  attribute: string;
+  label: string;
+  format: ComparisonRow['format'];
+  better?: 'lower' | 'higher'; // Informational rows have no winner
+  value: (product: Product, vendor?: VendorInfo, landed?: LandedCost) => ComparisonValue;
+}
+
+// "128gb" -> 128, "1tb" -> 1024
+const capacityGb = (label?: string): number | null => {
+  const match = label?.match(/^(\d+)(gb|tb)$/);
+  if (!match) return null;
+  return parseInt(match[1]) * (match[2] === 'tb' ? 1024 : 1);
+};
+
+const ROWS: RowDefinition[] = [
+  { attribute: 'price', label: 'Price', format: 'currency', better: 'lower', value: p => p.price },
+  { attribute: 'landedCost', label: 'True cost', format: 'currency', better: 'lower', value: (_, __, landed) => landed?.total ?? null },
+  { attribute: 'discount', label: 'Discount', format: 'percent', better: 'higher', value: p => p.discount ?? null },
+  { attribute: 'rating', label: 'Rating', format: 'rating', better: 'higher', value: p => (p.reviewCount > 0 ? p.rating : null) },
+  { attribute: 'reviewCount', label: 'Reviews', format: 'count', better: 'higher', value: p => p.reviewCount },
+  { attribute: 'delivery', label: 'Delivery', format: 'days', better: 'lower', value: p => deliveryDays(p.deliveryTime) },
+  { attribute: 'inStock', label: 'In stock', format: 'boolean', better: 'higher', value: p => p.inStock },
+  { attribute: 'brand', label: 'Brand', format: 'text', value: p => p.brand ?? null },
+  { attribute: 'storage', label: 'Storage', format: 'capacity', better: 'higher', value: p => capacityGb(extractAttributes(p).storage) },
+  { attribute: 'ram', label: 'RAM', format: 'capacity', better: 'higher', value: p => capacityGb(extractAttributes(p).ram) },
+  { attribute: 'colour', label: 'Colour', format: 'text', value: p => extractAttributes(p).colour ?? null },
+  { attribute: 'vendor', label: 'Store', format: 'text', value: p => p.vendor },
+  { attribute: 'trustScore', label: 'Store trust', format: 'score', better: 'higher', value: (_, v) => v?.trustScore ?? null },
+  { attribute: 'cashbackRate', label: 'Cashback', format: 'percent', better: 'higher', value: (_, v) => v?.cashbackRate ?? null },
+  { attribute: 'returnPolicy', label: 'Returns', format: 'text', value: (_, v) => v?.returnPolicy ?? null }
+];
+
+// Only pick a winner when at least two listings say and they don't all agree
+function rowWinners(products: Product[], values: ComparisonValue[], better?: 'lower' | 'higher'): string[] {
+  if (!better) return [];
+  const known = values
+    .map((value, index) => ({ value: typeof value === 'boolean' ? Number(value) : value, id: products[index].id }))
+    .filter((cell): cell is { value: number; id: string } => typeof cell.value === 'number');
+  if (known.length < 2) return [];
+
+  const best = better === 'lower' ? Math.min(...known.map(c => c.value)) : Math.max(...known.map(c => c.value));
+  const winners = known.filter(c => c.value === best).map(c => c.id);
+  return winners.length === known.length ? [] : winners;
+}
+
+/**
+ * One row per attribute any listing has; `vendors` is keyed by vendor display name.
+ * The true cost uses the user's landed-cost options and is costed like the landed-cost ranking.
+ */
+export function buildComparisonRows(
+  products: Product[],
+  vendors: Map<string, VendorInfo> = new Map(),
+  costOptions: LandedCostOptions = {}
+): ComparisonRow[] {
+  const landed = new Map(rankByLandedCost(products, costOptions).map(cost => [cost.product.id, cost]));
+
+  return ROWS
+    .map(row => {
+      const values = products.map(product => row.value(product, vendors.get(product.vendor), landed.get(product.id)));
+      return {
+        attribute: row.attribute,
+        label: row.label,
+        format: row.format,
+        values,
+        winners: rowWinners(products, values, row.better)
+      };
+    })
+    .filter(row => row.values.some(value => value !== null));
+}
@@ -0,0 +1,165 @@
+/**
+ * Rate Limiter
+ * Token-bucket and sliding-log limits over arbitrary keys (user, IP, route, vendor API).
+ * Memory is bounded: logs never hold more than the policy limit, and the least recently
+ * used keys are evicted once maxKeys is reached.
+ */
+
+// Types
+export type RateLimitAlgorithm = 'token-bucket' | 'sliding-log';
+
+export type RateLimitScope = 'user' | 'ip' | 'route' | 'vendor';
+
+export interface RateLimitPolicy {
+  id: string;
+  scope: RateLimitScope;
+  algorithm: RateLimitAlgorithm;
+  limit: number; // Requests per window
+  windowMs: number;
+  burst?: number; // Token-bucket capacity; defaults to the limit
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  policyId: string;
+  key: string;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+type LimiterState = TokenBucketState | number[];
+
+export interface RateLimiterOptions {
+  maxKeys?: number;
+}
+
+export class RateLimiter {
+  private state: Map<string, LimiterState> = new Map();
+  private maxKeys: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.maxKeys = options.maxKeys ?? 10000;
+  }
+
+  /**
+   * Consume `cost` from the key's allowance if the policy allows it
+   */
+  check(key: string, policy: RateLimitPolicy, cost = 1, now = Date.now()): RateLimitDecision {
+    return this.evaluate(key, policy, cost, now, true);
+  }
+
+  /**
+   * Check several policies for one request. The allowance is only consumed when every
+   * policy allows it, so a rejection elsewhere doesn't cost the passing keys anything.
+   */
+  checkAll(
+    checks: Array<{ key: string; policy: RateLimitPolicy }>,
+    cost = 1,
+    now = Date.now()
+  ): RateLimitDecision[] {
+    const decisions = checks.map(({ key, policy }) => this.evaluate(key, policy, cost, now, false));
+    if (decisions.some(decision => !decision.allowed)) return decisions;
+    return checks.map(({ key, policy }) => this.evaluate(key, policy, cost, now, true));
+  }
+
+  /**
+   * Sliding-log shorthand for callers that only need a yes/no per named API
+   */
+  isAllowed(apiName: string, maxRequests: number, windowMs: number): boolean {
+    return this.check(apiName, {
+      id: 'default',
+      scope: 'route',
+      algorithm: 'sliding-log',
+      limit: maxRequests,
+      windowMs
+    }).allowed;
+  }
+
+  reset(key?: string): void {
+    if (!key) {
+      this.state.clear();
+      return;
+    }
+    Array.from(this.state.keys())
+      .filter(stateKey => stateKey.endsWith(`|${key}`))
+      .forEach(stateKey => this.state.delete(stateKey));
+  }
+
+  private evaluate(key: string, policy: RateLimitPolicy, cost: number, now: number, consume: boolean): RateLimitDecision {
+    const stateKey = `${policy.id}|${key}`;
+    const decision = policy.algorithm === 'token-bucket'
+      ? this.checkTokenBucket(stateKey, policy, cost, now, consume)
+      : this.checkSlidingLog(stateKey, policy, cost, now, consume);
+
+    return { ...decision, policyId: policy.id, key, limit: policy.limit };
+  }
+
+  private checkTokenBucket(
+    stateKey: string,
+    policy: RateLimitPolicy,
+    cost: number,
+    now: number,
+    consume: boolean
+  ): Pick<RateLimitDecision, 'allowed' | 'remaining' | 'retryAfterMs'> {
+    const capacity = policy.burst ?? policy.limit;
+    const refillPerMs = policy.limit / policy.windowMs;
+    const previous = this.touch(stateKey) as TokenBucketState | undefined;
+
+    const tokens = previous
+      ? Math.min(capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+      : capacity;
+
+    if (tokens < cost) {
+      this.store(stateKey, { tokens, updatedAt: now });
+      return { allowed: false, remaining: Math.floor(tokens), retryAfterMs: Math.ceil((cost - tokens) / refillPerMs) };
+    }
+
+    this.store(stateKey, { tokens: consume ? tokens - cost : tokens, updatedAt: now });
+    return { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 };
+  }
+
+  private checkSlidingLog(
+    stateKey: string,
+    policy: RateLimitPolicy,
+    cost: number,
+    now: number,
+    consume: boolean
+  ): Pick<RateLimitDecision, 'allowed' | 'remaining' | 'retryAfterMs'> {
+    const log = ((this.touch(stateKey) as number[] | undefined) || []).filter(time => now - time < policy.windowMs);
+
+    if (log.length + cost > policy.limit) {
+      this.store(stateKey, log);
+      // Wait until enough of the oldest entries leave the window; a cost above the limit never fits
+      const freeAt = cost > policy.limit
+        ? now + policy.windowMs
+        : log[log.length + cost - policy.limit - 1] + policy.windowMs;
+      return { allowed: false, remaining: Math.max(0, policy.limit - log.length), retryAfterMs: Math.max(1, freeAt - now) };
+    }
+
+    if (consume) {
+      for (let i = 0; i < cost; i++) log.push(now);
+    }
+    this.store(stateKey, log);
+    return { allowed: true, remaining: policy.limit - log.length - (consume ? 0 : cost), retryAfterMs: 0 };
+  }
+
+  // Read a key and mark it most recently used
+  private touch(stateKey: string): LimiterState | undefined {
+    const value = this.state.get(stateKey);
+    if (value !== undefined) this.state.delete(stateKey);
+    return value;
+  }
+
+  private store(stateKey: string, value: LimiterState): void {
+    this.state.set(stateKey, value);
+    if (this.state.size > this.maxKeys) {
+      this.state.delete(this.state.keys().next().value as string);
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Route rate-limit policies
+ * Every policy for a route must pass. User policies are skipped for anonymous callers,
+ * which are still covered by the IP and route-wide limits.
+ */
+
+import type { RateLimitPolicy } from './limiter';
+
+export type RateLimitedRoute =
+  | 'activity-track'
+  | 'comparison-search'
+  | 'comparison-compare'
+  | 'comparison-vendors'
+  | 'moderation-scan'
+  | 'fraud-scan'
+  | 'marketplace-listing'
+  | 'marketplace-transaction'
+  | 'marketplace-review'
+  | 'marketplace-account';
+
+export const ROUTE_RATE_LIMITS: Record<RateLimitedRoute, RateLimitPolicy[]> = {
+  'activity-track': [
+    { id: 'activity-track:user', scope: 'user', algorithm: 'token-bucket', limit: 120, windowMs: 60000, burst: 20 },
+    { id: 'activity-track:ip', scope: 'ip', algorithm: 'sliding-log', limit: 300, windowMs: 60000 },
+    { id: 'activity-track:route', scope: 'route', algorithm: 'token-bucket', limit: 6000, windowMs: 60000 }
+  ],
+  'comparison-search': [
+    { id: 'comparison-search:user', scope: 'user', algorithm: 'token-bucket', limit: 30, windowMs: 60000, burst: 10 },
+    { id: 'comparison-search:ip', scope: 'ip', algorithm: 'sliding-log', limit: 60, windowMs: 60000 },
+    { id: 'comparison-search:route', scope: 'route', algorithm: 'token-bucket', limit: 1200, windowMs: 60000 }
+  ],
+  'comparison-compare': [
+    { id: 'comparison-compare:user', scope: 'user', algorithm: 'token-bucket', limit: 30, windowMs: 60000, burst: 10 },
+    { id: 'comparison-compare:ip', scope: 'ip', algorithm: 'sliding-log', limit: 60, windowMs: 60000 },
+    { id: 'comparison-compare:route', scope: 'route', algorithm: 'token-bucket', limit: 1200, windowMs: 60000 }
+  ],
+  'comparison-vendors': [
+    { id: 'comparison-vendors:user', scope: 'user', algorithm: 'token-bucket', limit: 60, windowMs: 60000, burst: 20 },
+    { id: 'comparison-vendors:ip', scope: 'ip', algorithm: 'sliding-log', limit: 120, windowMs: 60000 },
+    { id: 'comparison-vendors:route', scope: 'route', algorithm: 'token-bucket', limit: 2400, windowMs: 60000 }
+  ],
+  'moderation-scan': [
+    { id: 'moderation-scan:user', scope: 'user', algorithm: 'sliding-log', limit: 20, windowMs: 60000 },
+    { id: 'moderation-scan:ip', scope: 'ip', algorithm: 'sliding-log', limit: 40, windowMs: 60000 }
+  ],
+  'fraud-scan': [
+    { id: 'fraud-scan:user', scope: 'user', algorithm: 'token-bucket', limit: 60, windowMs: 60000, burst: 10 },
+    { id: 'fraud-scan:ip', scope: 'ip', algorithm: 'sliding-log', limit: 120, windowMs: 60000 },
+    { id: 'fraud-scan:route', scope: 'route', algorithm: 'token-bucket', limit: 3000, windowMs: 60000 }
+  ],
+  // Marketplace writes, proxied through /api/marketplace
+  'marketplace-listing': [
+    { id: 'marketplace-listing:user', scope: 'user', algorithm: 'token-bucket', limit: 30, windowMs: 3600000, burst: 5 },
+    { id: 'marketplace-listing:ip', scope: 'ip', algorithm: 'sliding-log', limit: 60, windowMs: 3600000 }
+  ],
+  'marketplace-transaction': [
+    { id: 'marketplace-transaction:user', scope: 'user', algorithm: 'sliding-log', limit: 10, windowMs: 60000 },
+    { id: 'marketplace-transaction:ip', scope: 'ip', algorithm: 'sliding-log', limit: 30, windowMs: 60000 }
+  ],
+  'marketplace-review': [
+    { id: 'marketplace-review:user', scope: 'user', algorithm: 'sliding-log', limit: 10, windowMs: 3600000 },
+    { id: 'marketplace-review:ip', scope: 'ip', algorithm: 'sliding-log', limit: 30, windowMs: 3600000 }
+  ],
+  'marketplace-account': [
+    { id: 'marketplace-account:user', scope: 'user', algorithm: 'token-bucket', limit: 60, windowMs: 60000, burst: 20 },
+    { id: 'marketplace-account:ip', scope: 'ip', algorithm: 'sliding-log', limit: 120, windowMs: 60000 }
+  ]
+};
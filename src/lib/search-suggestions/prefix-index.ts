@@ -0,0 +1,88 @@
+/**
+ * Fuzzy prefix index
+ * A trie of tokens searched with a bounded edit distance (adjacent transpositions count as
+ * one edit), so "iphn", "ipohne" and "ihpone" all reach "iphone".
+ */
+
+interface TrieNode<T> {
+  children: Map<string, TrieNode<T>>;
+  values: Set<T>; // Values indexed under the token ending at this node
+}
+
+const createNode = <T>(): TrieNode<T> => ({ children: new Map(), values: new Set() });
+
+export class PrefixIndex<T> {
+  private root: TrieNode<T> = createNode();
+
+  add(token: string, value: T): void {
+    let node = this.root;
+    for (const char of token) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = createNode();
+        node.children.set(char, child);
+      }
+      node = child;
+    }
+    node.values.add(value);
+  }
+
+  /**
+   * Drop a value from a token, pruning branches left empty
+   */
+  remove(token: string, value: T): void {
+    const path: Array<[TrieNode<T>, string]> = [];
+    let node = this.root;
+    for (const char of token) {
+      const child = node.children.get(char);
+      if (!child) return;
+      path.push([node, char]);
+      node = child;
+    }
+    node.values.delete(value);
+
+    for (let i = path.length - 1; i >= 0; i--) {
+      const [parent, char] = path[i];
+      const child = parent.children.get(char)!;
+      if (child.values.size > 0 || child.children.size > 0) break;
+      parent.children.delete(char);
+    }
+  }
+
+  /**
+   * Values whose token is within `maxEdits` of `term`, with the smallest distance found.
+   * With `prefix`, `term` only has to be within reach of the start of the token.
+   */
+  search(term: string, maxEdits: number, prefix = false): Map<T, number> {
+    const matches = new Map<T, number>();
+    const firstRow = Array.from({ length: term.length + 1 }, (_, i) => i);
+
+    const visit = (node: TrieNode<T>, char: string, prevChar: string, prevRow: number[], prevPrevRow: number[] | null, bestPrefix: number) => {
+      const row = [prevRow[0] + 1];
+      for (let i = 1; i <= term.length; i++) {
+        const substitution = prevRow[i - 1] + (term[i - 1] === char ? 0 : 1);
+        let cost = Math.min(row[i - 1] + 1, prevRow[i] + 1, substitution);
+        if (prevPrevRow && i > 1 && term[i - 1] === prevChar && term[i - 2] === char) {
+          cost = Math.min(cost, prevPrevRow[i - 2] + 1);
+        }
+        row.push(cost);
+      }
+
+      const distance = row[term.length];
+      const best = prefix ? Math.min(bestPrefix, distance) : distance;
+      if (best <= maxEdits) {
+        node.values.forEach(value => {
+          const known = matches.get(value);
+          if (known === undefined || best < known) matches.set(value, best);
+        });
+      }
+
+      // Past a prefix match every descendant matches; otherwise stop once no cell can recover
+      if (best > maxEdits && Math.min(...row) > maxEdits) return;
+      node.children.forEach((child, nextChar) => visit(child, nextChar, char, row, prevRow, best));
+    };
+
+    this.root.children.forEach((child, char) => visit(child, char, '', firstRow, null, Infinity));
+    return matches;
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Search Query Log
+ * What shoppers actually search for, with decayed popularity, a short-term trend score,
+ * the latest result count and the categories the results fell in.
+ */
+
+import { createHash } from 'crypto';
+import { JsonFileStore } from '@/lib/storage/json-file-store';
+import type { Product } from '@/types/comparison';
+import { normalizeQuery } from './text';
+
+const POPULARITY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+const TREND_HALF_LIFE_MS = 6 * 60 * 60 * 1000;
+const TRENDING_MIN_RECENT = 3; // Decayed searches in the trend window before anything can trend
+const TRENDING_FACTOR = 2; // Recent search rate against the long-run rate
+const REPEAT_WINDOW_MS = 10 * 60 * 1000; // One searcher repeating a query only counts once
+const MAX_LOGGED_QUERIES = 5000;
+export const MIN_DISTINCT_SEARCHERS = 3; // A query one person typed is never shown to others
+const FLUSH_DELAY_MS = 5000; // Searches are written in batches, not one file write each
+const MAX_UNFLUSHED = 200;
+const MAX_CHANGES = 1000; // Index changes kept for incremental suggestion index updates
+
+// Types
+export interface LoggedQuery {
+  query: string; // As last typed by a searcher who got results
+  popularity: number; // Searches, decayed by POPULARITY_HALF_LIFE_MS
+  recent: number; // Searches, decayed by TREND_HALF_LIFE_MS
+  decayedAt: number;
+  resultCount: number; // From the latest search
+  categories: Record<string, number>; // Result categories from the latest search
+  lastSearchedAt: number;
+  searchers?: number; // Distinct searchers, counted up to MIN_DISTINCT_SEARCHERS
+  searcherHashes?: string[]; // Hashed searcher ids, kept only until the threshold is reached
+}
+
+interface QueryLogData {
+  queries: Record<string, LoggedQuery>; // By normalized query
+}
+
+export interface QueryScores {
+  popularity: number;
+  recent: number;
+  trending: boolean;
+}
+
+// A logged query whose indexed text changed: added, retyped or pruned
+export interface QueryLogChange {
+  key: string;
+  previousQuery?: string; // Absent for a new query
+  query?: string; // Absent for a pruned query
+}
+
+const store = new JsonFileStore<QueryLogData>('search-queries.json', () => ({ queries: {} }));
+
+// The log lives in memory; suggestions are read on every keystroke and searches are written in batches
+let snapshot: QueryLogData | null = null;
+let loading: Promise<QueryLogData> | null = null;
+let version = 0;
+const changes: Array<{ version: number; change: QueryLogChange }> = [];
+const unflushed = new Set<string>();
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+const lastSeen = new Map<string, number>();
+
+const decayFactor = (elapsedMs: number, halfLifeMs: number) => Math.pow(0.5, Math.max(0, elapsedMs) / halfLifeMs);
+
+/**
+ * Popularity and trend as of `now`. A query trends when its recent search rate is well
+ * above its long-run rate, so steady favourites don't trend forever.
+ */
+export function queryScores(entry: LoggedQuery, now = Date.now()): QueryScores {
+  const elapsed = now - entry.decayedAt;
+  const popularity = entry.popularity * decayFactor(elapsed, POPULARITY_HALF_LIFE_MS);
+  const recent = entry.recent * decayFactor(elapsed, TREND_HALF_LIFE_MS);
+
+  // Decayed counts over the mean lifetime of each window are search rates
+  const recentRate = recent / (TREND_HALF_LIFE_MS / Math.LN2);
+  const longRunRate = popularity / (POPULARITY_HALF_LIFE_MS / Math.LN2);
+
+  return {
+    popularity,
+    recent,
+    trending: recent >= TRENDING_MIN_RECENT && recentRate > TRENDING_FACTOR * longRunRate
+  };
+}
+
+/**
+ * Whether enough different people searched a query for it to be suggested to anyone
+ */
+export function isSuggestible(entry: LoggedQuery): boolean {
+  return (entry.searchers ?? 0) >= MIN_DISTINCT_SEARCHERS;
+}
+
+function isRepeat(searcher: string | null, key: string, now: number): boolean {
+  if (!searcher) return false;
+  const seenKey = `${searcher}|${key}`;
+  const seenAt = lastSeen.get(seenKey);
+  lastSeen.set(seenKey, now);
+
+  if (lastSeen.size > 20000) {
+    lastSeen.forEach((at, k) => {
+      if (now - at > REPEAT_WINDOW_MS) lastSeen.delete(k);
+    });
+  }
+  return seenAt !== undefined && now - seenAt < REPEAT_WINDOW_MS;
+}
+
+// Searcher ids are user ids or IPs, so only a hash is stored
+function countSearcher(existing: LoggedQuery | undefined, searcher: string | null): Pick<LoggedQuery, 'searchers' | 'searcherHashes'> {
+  const searchers = existing?.searchers ?? 0;
+  if (searchers >= MIN_DISTINCT_SEARCHERS) return { searchers };
+
+  const hashes = existing?.searcherHashes ?? [];
+  const hash = searcher ? createHash('sha256').update(searcher).digest('hex').slice(0, 16) : null;
+  if (!hash || hashes.includes(hash)) return { searchers, searcherHashes: hashes };
+
+  const next = [...hashes, hash];
+  return next.length >= MIN_DISTINCT_SEARCHERS
+    ? { searchers: next.length }
+    : { searchers: next.length, searcherHashes: next };
+}
+
+async function load(): Promise<QueryLogData> {
+  if (snapshot) return snapshot;
+  if (!loading) {
+    loading = store.read().then(data => {
+      snapshot = data;
+      version++;
+      return data;
+    }).finally(() => {
+      loading = null;
+    });
+  }
+  return loading;
+}
+
+function recordChange(change: QueryLogChange): void {
+  version++;
+  changes.push({ version, change });
+  if (changes.length > MAX_CHANGES) changes.shift();
+}
+
+function scheduleFlush(): void {
+  if (unflushed.size >= MAX_UNFLUSHED) {
+    void queryLog.flush();
+    return;
+  }
+  if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      void queryLog.flush();
+    }, FLUSH_DELAY_MS);
+  }
+}
+
+export const queryLog = {
+  /**
+   * Log a search and what it found. Repeats by the same searcher within a few minutes
+   * refresh the result count without adding to popularity. The change is visible to
+   * suggestions at once and reaches disk with the next batch.
+   */
+  async record(query: string, products: Product[], searcher: string | null, now = Date.now()): Promise<void> {
+    const key = normalizeQuery(query);
+    if (!key) return;
+    const repeat = isRepeat(searcher, key, now);
+    const data = await load();
+
+    const existing = data.queries[key];
+    const scores = existing ? queryScores(existing, now) : { popularity: 0, recent: 0 };
+    const categories: Record<string, number> = {};
+    products.forEach(p => {
+      categories[p.category] = (categories[p.category] || 0) + 1;
+    });
+
+    const text = products.length > 0 || !existing ? query.trim().replace(/\s+/g, ' ') : existing.query;
+    data.queries[key] = {
+      query: text,
+      popularity: scores.popularity + (repeat ? 0 : 1),
+      recent: scores.recent + (repeat ? 0 : 1),
+      decayedAt: now,
+      resultCount: products.length,
+      categories,
+      lastSearchedAt: now,
+      ...countSearcher(existing, searcher)
+    };
+    unflushed.add(key);
+    if (existing?.query !== text) recordChange({ key, previousQuery: existing?.query, query: text });
+
+    pruneLeastPopular(data, now);
+    scheduleFlush();
+  },
+
+  /**
+   * Every logged query by normalized key, plus a version that changes whenever a query's
+   * indexed text does
+   */
+  async entries(): Promise<{ version: number; queries: Record<string, LoggedQuery> }> {
+    const data = await load();
+    return { version, queries: data.queries };
+  },
+
+  /**
+   * Index changes after `since`, oldest first, or null when they are no longer all kept
+   */
+  changesSince(since: number): QueryLogChange[] | null {
+    if (since === version) return [];
+    if (changes.length === 0 || changes[0].version > since + 1) return null;
+    return changes.filter(entry => entry.version > since).map(entry => entry.change);
+  },
+
+  /**
+   * Write the queries changed since the last batch
+   */
+  async flush(): Promise<void> {
+    if (flushTimer) {
+      clearTimeout(flushTimer);
+      flushTimer = null;
+    }
+    const data = snapshot;
+    const keys = Array.from(unflushed);
+    unflushed.clear();
+    if (!data || keys.length === 0) return;
+
+    try {
+      await store.update(stored => {
+        keys.forEach(key => {
+          if (data.queries[key]) stored.queries[key] = data.queries[key];
+          else delete stored.queries[key];
+        });
+      });
+    } catch (error) {
+      console.error('Error saving search queries:', error);
+      keys.forEach(key => unflushed.add(key));
+      scheduleFlush();
+    }
+  }
+};
+
+function pruneLeastPopular(data: QueryLogData, now: number): void {
+  const keys = Object.keys(data.queries);
+  if (keys.length <= MAX_LOGGED_QUERIES) return;
+
+  keys
+    .map(key => ({ key, popularity: queryScores(data.queries[key], now).popularity }))
+    .sort((a, b) => a.popularity - b.popularity)
+    .slice(0, keys.length - MAX_LOGGED_QUERIES)
+    .forEach(({ key }) => {
+      recordChange({ key, previousQuery: data.queries[key].query });
+      delete data.queries[key];
+      unflushed.add(key);
+    });
+}
@@ -0,0 +1,109 @@
+/**
+ * Search Suggestions
+ * Completes what the shopper is typing from logged queries that found something and were
+ * searched by several different shoppers. Every word must match a word of the suggestion,
+ * allowing for typos and spelling variants; the last word only has to match the start,
+ * since it may still be being typed.
+ */
+
+import type { SearchSuggestion } from '@/types/comparison';
+import { PrefixIndex } from './prefix-index';
+import { isSuggestible, queryLog, queryScores, type LoggedQuery } from './query-log';
+import { maxEdits, phoneticKey, queryTokens } from './text';
+
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+
+// Each typo halves a suggestion's score
+const EDIT_PENALTY = 0.5;
+
+let index: { version: number; trie: PrefixIndex<string> } | null = null;
+
+// Raw and phonetic forms of each word, so half-typed words and spelling variants both match
+function indexTokens(query: string): string[] {
+  return Array.from(new Set(queryTokens(query).flatMap(token => [token, phoneticKey(token)])));
+}
+
+/**
+ * The index follows the log's changes; it is only rebuilt when it fell too far behind
+ */
+async function getIndex(): Promise<{ trie: PrefixIndex<string>; queries: Record<string, LoggedQuery> }> {
+  const { version, queries } = await queryLog.entries();
+
+  if (index && index.version !== version) {
+    const changes = queryLog.changesSince(index.version);
+    if (changes) {
+      const trie = index.trie;
+      changes.forEach(({ key, previousQuery, query }) => {
+        if (previousQuery) indexTokens(previousQuery).forEach(token => trie.remove(token, key));
+        if (query) indexTokens(query).forEach(token => trie.add(token, key));
+      });
+      index.version = version;
+    } else {
+      index = null;
+    }
+  }
+
+  if (!index) {
+    const trie = new PrefixIndex<string>();
+    Object.entries(queries).forEach(([key, entry]) => {
+      indexTokens(entry.query).forEach(token => trie.add(token, key));
+    });
+    index = { version, trie };
+  }
+  return { trie: index.trie, queries };
+}
+
+function toSuggestion(entry: LoggedQuery, trending: boolean): SearchSuggestion {
+  const categories = Object.entries(entry.categories)
+    .sort((a, b) => b[1] - a[1])
+    .map(([category]) => category);
+
+  return {
+    query: entry.query,
+    category: categories[0] || 'All',
+    categories,
+    resultCount: entry.resultCount,
+    trending
+  };
+}
+
+/**
+ * Suggestions for a partial query, or the most searched queries when it is empty
+ */
+export async function suggestSearches(input: string, limit = DEFAULT_SUGGESTION_LIMIT, now = Date.now()): Promise<SearchSuggestion[]> {
+  const { trie, queries } = await getIndex();
+  const tokens = queryTokens(input);
+
+  // Distance summed over the typed words, per logged query matching all of them
+  let candidates: Map<string, number>;
+  if (tokens.length === 0) {
+    candidates = new Map(Object.keys(queries).map(key => [key, 0]));
+  } else {
+    candidates = tokens.reduce<Map<string, number> | null>((matched, token, i) => {
+      // Phonetic keys catch spelling variants, the raw token a half-typed one ("ip" before "iph" becomes "if")
+      const prefix = i === tokens.length - 1;
+      const hits = trie.search(token, maxEdits(token), prefix);
+      const key = phoneticKey(token);
+      if (key !== token) {
+        trie.search(key, maxEdits(key), prefix).forEach((edits, queryKey) => {
+          hits.set(queryKey, Math.min(edits, hits.get(queryKey) ?? Infinity));
+        });
+      }
+
+      const next = new Map<string, number>();
+      hits.forEach((edits, queryKey) => {
+        if (!matched) next.set(queryKey, edits);
+        else if (matched.has(queryKey)) next.set(queryKey, matched.get(queryKey)! + edits);
+      });
+      return next;
+    }, null)!;
+  }
+
+  return Array.from(candidates.entries())
+    .map(([key, edits]) => ({ entry: queries[key], edits, scores: queryScores(queries[key], now) }))
+    .filter(({ entry }) => entry.resultCount > 0 && isSuggestible(entry))
+    .map(candidate => ({ ...candidate, score: candidate.scores.popularity * Math.pow(EDIT_PENALTY, candidate.edits) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry, scores }) => toSuggestion(entry, scores.trending));
+}
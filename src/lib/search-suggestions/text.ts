@@ -0,0 +1,47 @@
+/**
+ * Query text normalization
+ * Folds the spelling variants Indian-English shoppers type for the same word
+ * ("saree"/"sari", "kurtha"/"kurta", "chappal"/"chapal") onto one key before fuzzy matching.
+ */
+
+// Applied in order to each lowercase token
+const PHONETIC_RULES: Array<[RegExp, string]> = [
+  [/ph/g, 'f'],
+  [/sh/g, 's'],
+  [/([bdgkt])h/g, '$1'], // Aspirated consonants: bhaji/baji, kurtha/kurta, khadi/kadi
+  [/ck/g, 'k'],
+  [/q/g, 'k'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/ee/g, 'i'],
+  [/oo/g, 'u'],
+  [/([a-z])\1+/g, '$1'], // chappal/chapal, dupatta/dupata
+  [/y$/, 'i']
+];
+
+// "Levi's  Jeans" -> ['levis', 'jeans']
+export function queryTokens(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Stable key a query is logged under
+export const normalizeQuery = (text: string) => queryTokens(text).join(' ');
+
+export function phoneticKey(token: string): string {
+  if (/^\d+$/.test(token)) return token;
+  return PHONETIC_RULES.reduce((key, [pattern, replacement]) => key.replace(pattern, replacement), token);
+}
+
+/**
+ * Typos tolerated in a token: none in very short ones, where one edit is a different word
+ */
+export function maxEdits(token: string): number {
+  if (token.length <= 2 || /^\d+$/.test(token)) return 0;
+  return token.length <= 5 ? 1 : 2;
+}
@@ -0,0 +1,106 @@
+/**
+ * Bearer token verification
+ * Checks the signature and time claims of a compact JWT before its subject is trusted.
+ * HS256 uses AUTH_JWT_SECRET; RS256/ES256 use the PEM public key in AUTH_JWT_PUBLIC_KEY.
+ * AUTH_JWT_ISSUER and AUTH_JWT_AUDIENCE are checked when set.
+ */
+
+import { createHmac, createPublicKey, timingSafeEqual, verify, type KeyObject } from 'crypto';
+
+// Types
+export interface VerifiedClaims {
+  sub: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+const CLOCK_LEEWAY_SECONDS = 60;
+
+let publicKey: { pem: string; key: KeyObject } | null = null;
+
+function getPublicKey(): KeyObject | null {
+  const pem = process.env.AUTH_JWT_PUBLIC_KEY?.replace(/\\n/g, '\n');
+  if (!pem) return null;
+  if (publicKey?.pem !== pem) publicKey = { pem, key: createPublicKey(pem) };
+  return publicKey.key;
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function verifySignature(alg: unknown, signingInput: string, signature: Buffer): boolean {
+  if (alg === 'HS256') {
+    const secret = process.env.AUTH_JWT_SECRET;
+    if (!secret) return false;
+    const expected = createHmac('sha256', secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  if (alg === 'RS256' || alg === 'ES256') {
+    const key = getPublicKey();
+    if (!key) return false;
+    const expectedType = alg === 'RS256' ? 'rsa' : 'ec';
+    if (key.asymmetricKeyType !== expectedType) return false;
+    return verify(
+      'sha256',
+      Buffer.from(signingInput),
+      alg === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      signature
+    );
+  }
+
+  // 'none' and anything unexpected
+  return false;
+}
+
+/**
+ * The token's claims when its signature and time window check out, otherwise null.
+ * Opaque (non-JWT) tokens and tokens without a subject are rejected.
+ */
+export function verifyJwt(token: string, now = Date.now()): VerifiedClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+
+  let header: unknown;
+  let payload: unknown;
+  try {
+    header = decodeSegment(headerSegment);
+    payload = decodeSegment(payloadSegment);
+  } catch {
+    return null;
+  }
+  if (!isRecord(header) || !isRecord(payload)) return null;
+
+  const signature = Buffer.from(signatureSegment, 'base64url');
+  try {
+    if (!verifySignature(header.alg, `${headerSegment}.${payloadSegment}`, signature)) return null;
+  } catch (error) {
+    console.error('Error verifying bearer token:', error);
+    return null;
+  }
+
+  const seconds = now / 1000;
+  if (typeof payload.exp === 'number' && seconds > payload.exp + CLOCK_LEEWAY_SECONDS) return null;
+  if (typeof payload.nbf === 'number' && seconds < payload.nbf - CLOCK_LEEWAY_SECONDS) return null;
+
+  const issuer = process.env.AUTH_JWT_ISSUER;
+  if (issuer && payload.iss !== issuer) return null;
+
+  const audience = process.env.AUTH_JWT_AUDIENCE;
+  if (audience) {
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!audiences.includes(audience)) return null;
+  }
+
+  if (typeof payload.sub !== 'string' && typeof payload.sub !== 'number') return null;
+  return { ...payload, sub: String(payload.sub) } as VerifiedClaims;
+}
@@ -0,0 +1,16 @@
+/**
+ * Fraud moderator access
+ * Moderators are listed in FRAUD_MODERATOR_IDS (comma separated user ids).
+ * Without the list nobody may moderate, in every environment.
+ */
+
+export function isFraudModerator(userId: string | null): boolean {
+  if (!userId) return false;
+
+  const moderators = (process.env.FRAUD_MODERATOR_IDS || '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+  return moderators.includes(userId);
+}
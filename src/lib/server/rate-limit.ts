@@ -0,0 +1,102 @@
+/**
+ * Rate limiting for API route handlers
+ * Applies the route's user, IP and route-wide policies, answers 429 with Retry-After,
+ * and feeds every request to bot detection so bot-like clients reach the review queue
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimiter, type RateLimitDecision, type RateLimitScope } from '@/lib/rate-limit/limiter';
+import { ROUTE_RATE_LIMITS, type RateLimitedRoute } from '@/lib/rate-limit/policies';
+import { getFraudEngine } from '@/lib/fraud-detection/shared-engine';
+import { reviewQueue } from '@/lib/fraud-detection/moderation';
+import { getRiskLevel } from '@/lib/fraud-detection/rule-registry';
+
+const limiter = new RateLimiter({ maxKeys: 50000 });
+
+// Proxies in front of the app (TRUSTED_PROXY_HOPS, default 1); 0 ignores forwarding headers
+function trustedProxyHops(): number {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '1', 10);
+  return Number.isFinite(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * The address the outermost trusted proxy saw. Each proxy appends its peer to
+ * X-Forwarded-For, so anything left of the trusted hops is client-supplied and ignored.
+ */
+export function getClientIp(request: NextRequest): string {
+  const hops = trustedProxyHops();
+  if (hops === 0) return 'unknown';
+
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean);
+  if (forwarded?.length) return forwarded[Math.max(forwarded.length - hops, 0)];
+  return request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Returns a 429 response when any policy rejects the request, otherwise null
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  route: RateLimitedRoute,
+  userId: string | null
+): Promise<NextResponse | null> {
+  const ip = getClientIp(request);
+  const keys: Partial<Record<RateLimitScope, string | null>> = {
+    user: userId ? `user:${userId}` : null,
+    ip: `ip:${ip}`,
+    route: `route:${route}`
+  };
+
+  const checks = ROUTE_RATE_LIMITS[route].flatMap(policy => {
+    const key = keys[policy.scope];
+    return key ? [{ key, policy }] : [];
+  });
+
+  let rejected: RateLimitDecision | null = null;
+  for (const decision of limiter.checkAll(checks)) {
+    if (!decision.allowed && (!rejected || decision.retryAfterMs > rejected.retryAfterMs)) {
+      rejected = decision;
+    }
+  }
+
+  await reportBotTraffic(keys.user || `ip:${ip}`, route, !!rejected);
+
+  if (!rejected) return null;
+
+  const retryAfterSeconds = Math.ceil(rejected.retryAfterMs / 1000);
+  return NextResponse.json(
+    { error: 'Too many requests', retryAfter: retryAfterSeconds },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(retryAfterSeconds),
+        'X-RateLimit-Limit': String(rejected.limit),
+        'X-RateLimit-Remaining': String(rejected.remaining),
+        'X-RateLimit-Policy': rejected.policyId
+      }
+    }
+  );
+}
+
+// Bot detection must never fail the request it is watching
+async function reportBotTraffic(identity: string, route: RateLimitedRoute, rateLimited: boolean): Promise<void> {
+  try {
+    const engine = await getFraudEngine({ reloadRules: false });
+    const observation = engine.observeRequest(identity, route, rateLimited);
+    if (!observation.reportable) return;
+
+    const riskScore = Math.max(...observation.results.map(r => r.confidence));
+    await reviewQueue.submit(
+      'user',
+      { id: identity, title: `Automated traffic on ${route}` },
+      {
+        riskScore,
+        riskLevel: getRiskLevel(riskScore, engine.getRuleRegistry().getConfig().riskThresholds),
+        results: observation.results
+      },
+      'rate-limiter'
+    );
+  } catch (error) {
+    console.error('Error recording bot traffic:', error);
+  }
+}
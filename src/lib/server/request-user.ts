@@ -0,0 +1,27 @@
+/**
+ * Resolve the calling user for API route handlers
+ * Only a bearer token with a verified signature identifies a user. The demo header
+ * is honoured only while the Login flag is off, when the whole app runs as a demo user.
+ */
+
+import type { NextRequest } from 'next/server';
+import { getFlagConfig } from '@/lib/feature-flags/config-file';
+import { evaluateFlag } from '@/lib/feature-flags/evaluate';
+import { verifyJwt } from './jwt';
+
+const DEMO_USER_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export function getRequestUserId(request: NextRequest): string | null {
+  const authorization = request.headers.get('authorization');
+
+  if (authorization?.startsWith('Bearer ')) {
+    // Unverifiable and opaque tokens are anonymous, never keyed by the raw token
+    const claims = verifyJwt(authorization.slice('Bearer '.length));
+    return claims ? claims.sub : null;
+  }
+
+  if (evaluateFlag('Login', getFlagConfig())) return null;
+
+  const demoUser = request.headers.get('x-demo-user');
+  return demoUser && DEMO_USER_PATTERN.test(demoUser) ? `demo:${demoUser}` : null;
+}
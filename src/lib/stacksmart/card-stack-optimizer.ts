@@ -0,0 +1,217 @@
+/**
+ * Card-Aware Stack Optimizer
+ * Jointly picks the coupon stack, payment card and cashback portal for a checkout
+ * Card-linked offers are fed into the StackSmart search as deals; the card's own earn
+ * rules are applied afterwards to the amount actually charged
+ */
+
+import {
+  stackOptimizer,
+  type Cart,
+  type Deal,
+  type OptimizationConstraints,
+  type StackResult
+} from './optimization-engine';
+import {
+  RewardIntelligence,
+  type CardDetails,
+  type LinkedOffer
+} from '@/lib/card-linked/offer-engine';
+import {
+  RewardRuleEngine,
+  type CardRewardRules,
+  type CardSpendState,
+  type RewardEvaluation
+} from '@/lib/card-linked/reward-rules';
+
+// Types
+export type SavingsSource = 'coupon' | 'bank-offer' | 'card-offer' | 'card-reward' | 'cashback';
+
+export interface SavingsAttribution {
+  source: SavingsSource;
+  dealId: string;
+  label: string;
+  amount: number;
+}
+
+export interface CardStackOption {
+  cardId: string | null; // null when no active card is available
+  totalSavings: number;
+  finalPrice: number;
+}
+
+export interface CardStackResult extends CardStackOption {
+  stack: StackResult;
+  couponDeals: Deal[];
+  cashbackDeals: Deal[];
+  cardOffers: LinkedOffer[];
+  cardReward: RewardEvaluation | null; // Base earn and milestones on the amount charged
+  attribution: SavingsAttribution[];
+  savingsBySource: Record<SavingsSource, number>;
+  alternatives: CardStackOption[]; // Other cards, best first
+}
+
+export interface CardStackRequest {
+  purchase: number | Cart;
+  merchant: string;
+  category: string;
+  cards: CardDetails[];
+  linkedOffers: LinkedOffer[];
+  deals: Deal[];
+  rewardRules?: Record<string, CardRewardRules>;
+  spendStates?: Record<string, CardSpendState>;
+  constraints?: OptimizationConstraints;
+}
+
+/**
+ * Find the best coupon + card + cashback portal combination for a purchase
+ */
+export function optimizeCardStack(request: CardStackRequest): CardStackResult {
+  const {
+    purchase, merchant, category, cards, linkedOffers, deals,
+    rewardRules = {}, spendStates = {}, constraints = {}
+  } = request;
+  const purchaseDate = constraints.purchaseDate ? new Date(constraints.purchaseDate) : new Date();
+  const activeCards = cards.filter(c => c.isActive);
+  // One time budget for every card's search, so more cards don't mean a slower checkout
+  const deadline = Date.now() + (constraints.timeLimit || 1000);
+
+  // Without a cart the purchase is one line in the request's category, so category coupons still match
+  const cart: Cart = typeof purchase === 'number'
+    ? { items: [{ id: 'item-1', unitPrice: purchase, quantity: 1, category }] }
+    : purchase;
+
+  const candidates = (activeCards.length ? activeCards : [null]).map(card => {
+    const cardOffers = card
+      ? RewardIntelligence.getEligibleOffers(card, linkedOffers, merchant, category, purchaseDate)
+      : [];
+    const rules = card ? RewardIntelligence.getRules(card.id, rewardRules) : null;
+    const cardDeals = card && rules
+      ? toCardDeals(card, cardOffers, RewardRuleEngine.effectiveRate(rules, merchant, category) * 100)
+      : [];
+    const sources = new Map<string, SavingsSource>();
+
+    deals.forEach(d => sources.set(d.id, sourceOf(d)));
+    cardDeals.forEach(d => sources.set(d.id, 'card-offer'));
+
+    const stack = stackOptimizer.optimize(cart, [...deals, ...cardDeals], {
+      ...constraints,
+      mode: 'exact',
+      maxDeals: (constraints.maxDeals || 5) + cardDeals.length,
+      timeLimit: Math.max(1, deadline - Date.now())
+    });
+
+    // The card earns on whatever is charged, whichever deals were picked
+    const paid = stack.cart?.payable ?? stack.finalPrice;
+    const cardReward = card && rules
+      ? RewardRuleEngine.evaluate(rules, { amount: paid, merchant, category }, spendStates[card.id])
+      : null;
+    const rewardValue = cardReward?.valueInr ?? 0;
+
+    return {
+      card,
+      cardOffers,
+      stack,
+      sources,
+      rules,
+      cardReward,
+      totalSavings: stack.totalSavings + rewardValue,
+      finalPrice: Math.max(0, stack.finalPrice - rewardValue)
+    };
+  });
+
+  candidates.sort((a, b) => b.totalSavings - a.totalSavings);
+  const best = candidates[0];
+
+  const attribution: SavingsAttribution[] = best.stack.breakdown
+    .filter(step => step.applied)
+    .map(step => ({
+      source: best.sources.get(step.dealId)!,
+      dealId: step.dealId,
+      label: step.dealName,
+      amount: step.savings
+    }));
+
+  if (best.card && best.rules && best.cardReward) {
+    const { card, rules, cardReward } = best;
+    if (cardReward.units > 0) {
+      attribution.push({
+        source: 'card-reward',
+        dealId: `card-reward-${card.id}`,
+        label: `${card.bank} base reward`,
+        amount: cardReward.units * rules.unitValueInr
+      });
+    }
+    cardReward.milestonesReached.forEach(milestone => attribution.push({
+      source: 'card-reward',
+      dealId: `card-reward-${card.id}-${milestone.id}`,
+      label: milestone.description || `${card.bank} spend milestone`,
+      amount: milestone.bonusUnits * rules.unitValueInr
+    }));
+  }
+
+  const savingsBySource: Record<SavingsSource, number> = {
+    'coupon': 0,
+    'bank-offer': 0,
+    'card-offer': 0,
+    'card-reward': 0,
+    'cashback': 0
+  };
+  attribution.forEach(a => { savingsBySource[a.source] += a.amount; });
+
+  const appliedIds = new Set(attribution.map(a => a.dealId));
+
+  return {
+    cardId: best.card?.id ?? null,
+    totalSavings: best.totalSavings,
+    finalPrice: best.finalPrice,
+    stack: best.stack,
+    couponDeals: best.stack.deals.filter(d => best.sources.get(d.id) === 'coupon'),
+    cashbackDeals: best.stack.deals.filter(d => best.sources.get(d.id) === 'cashback'),
+    cardOffers: best.cardOffers.filter(o => appliedIds.has(`card-offer-${o.id}`)),
+    cardReward: best.cardReward,
+    attribution,
+    savingsBySource,
+    alternatives: candidates.slice(1).map(c => ({
+      cardId: c.card?.id ?? null,
+      totalSavings: c.totalSavings,
+      finalPrice: c.finalPrice
+    }))
+  };
+}
+
+// Where a user-supplied deal's savings come from
+function sourceOf(deal: Deal): SavingsSource {
+  if (deal.type === 'cashback' || deal.type === 'points') return 'cashback';
+  if (deal.type === 'bank-offer') return 'bank-offer';
+  return 'coupon';
+}
+
+/**
+ * Express a card's linked offers as StackSmart deals.
+ * Instant discounts reduce the charge; cashback and bonuses are credited after payment.
+ */
+function toCardDeals(card: CardDetails, offers: LinkedOffer[], baseRate: number): Deal[] {
+  const deals: Deal[] = [];
+
+  for (const offer of offers) {
+    const isMultiplier = offer.valueType === 'multiplier';
+
+    deals.push({
+      id: `card-offer-${offer.id}`,
+      type: offer.offerType === 'discount' ? 'bank-offer' : offer.offerType === 'cashback' ? 'cashback' : 'points',
+      code: `${card.bank} ${offer.merchantName} offer`,
+      // A multiplier pays the extra (value - 1)x on top of the base reward
+      value: isMultiplier ? baseRate * (offer.value - 1) : offer.value,
+      valueType: isMultiplier ? 'percentage' : offer.valueType as Deal['valueType'],
+      minPurchase: offer.minSpend,
+      maxDiscount: offer.maxBenefit,
+      stackable: true,
+      priority: 0,
+      expiresAt: offer.validUntil,
+      stage: offer.offerType === 'discount' ? 'cart' : 'post-payment'
+    });
+  }
+
+  return deals;
+}
@@ -5,12 +5,14 @@
  */
 
 import { create } from 'zustand';
-import { globalDataCache } from '@/lib/performance/lazy-loader';
+import { DataCache } from '@/lib/performance/lazy-loader';
 
 // Types
+export type DealStage = 'item' | 'cart' | 'post-payment';
+
 export interface Deal {
   id: string;
-  type: 'coupon' | 'cashback' | 'points' | 'discount' | 'gift-card';
+  type: 'coupon' | 'cashback' | 'points' | 'discount' | 'gift-card' | 'bank-offer';
   code?: string;
   value: number;
   valueType: 'percentage' | 'fixed';
@@ -22,6 +24,36 @@ export interface Deal {
   stacksWith?: string[]; // Deal types it can stack with
   priority: number; // Higher priority applied first
   expiresAt?: string;
+  stage?: DealStage; // Defaults by type, see getDealStage
+}
+
+export interface CartItem {
+  id: string;
+  name?: string;
+  unitPrice: number;
+  quantity: number;
+  category?: string;
+  taxRate?: number; // GST as a fraction, overrides Cart.taxRate
+}
+
+export interface Cart {
+  items: CartItem[];
+  shipping?: number;
+  taxRate?: number; // GST as a fraction, charged on item amounts after item-level deals
+}
+
+export interface CartLineSavings {
+  lineId: string;
+  savings: number;
+}
+
+export interface CartSummary {
+  lines: Array<{ id: string; original: number; final: number; savings: number }>;
+  shipping: number;
+  tax: number;
+  cartDiscount: number;
+  payable: number; // Amount charged at checkout
+  postPaymentBenefit: number; // Cashback and points credited after payment
 }
 
 export interface StackResult {
@@ -29,16 +61,35 @@ export interface StackResult {
   totalSavings: number;
   finalPrice: number;
   breakdown: StackBreakdown[];
+  cart?: CartSummary;
+  validUntil?: string; // Earliest expiry among the stacked deals
+  expiringSoon?: ExpiringDeal[];
   warnings?: string[];
   alternativeStacks?: StackResult[];
+  certificate?: OptimalityCertificate;
+}
+
+export interface ExpiringDeal {
+  dealId: string;
+  expiresAt: string;
+  hoursLeft: number; // Measured from the purchase date
+}
+
+export interface OptimalityCertificate {
+  status: 'optimal' | 'gap';
+  upperBound: number; // Proven upper bound on achievable savings
+  gap: number; // upperBound - totalSavings, 0 when optimal
+  nodesExplored: number;
 }
 
 export interface StackBreakdown {
   dealId: string;
   dealName: string;
+  stage?: DealStage;
   savings: number;
   priceAfter: number;
   applied: boolean;
+  lineSavings?: CartLineSavings[];
   reason?: string;
 }
 
@@ -48,36 +99,81 @@ export interface OptimizationConstraints {
   excludeTypes?: Deal['type'][];
   minSavings?: number;
   timeLimit?: number; // milliseconds
+  mode?: 'heuristic' | 'exact';
+  maxAlternatives?: number;
+  purchaseDate?: string; // ISO date of the planned purchase, defaults to now
+  expiryWarningHours?: number; // Flag stacked deals expiring within this window
+}
+
+// Checkout stages in the order a real payment flow applies them
+const STAGE_ORDER: DealStage[] = ['item', 'cart', 'post-payment'];
+
+const DEFAULT_EXPIRY_WARNING_HOURS = 24;
+const STACK_CACHE_TTL_MS = 5 * 60 * 1000; // Deals without an expiry still change, so no stack is cached for good
+
+export function getDealStage(deal: Deal): DealStage {
+  if (deal.stage) return deal.stage;
+  if (deal.type === 'cashback' || deal.type === 'points') return 'post-payment';
+  if (deal.type === 'gift-card' || deal.type === 'bank-offer') return 'cart';
+  return 'item';
+}
+
+// Amounts still owed at a point in the checkout flow
+interface PricingState {
+  lines: number[]; // Item line amounts after item-level deals
+  cartDiscount: number;
+  postPayment: number;
 }
 
 // Optimization algorithms
 class StackOptimizer {
-  private memoCache = new Map<string, StackResult>();
+  private memoCache = new Map<string, { result: StackResult; cachedAt: number }>();
 
   /**
    * Main optimization function using dynamic programming
    */
   optimize(
-    basePrice: number,
+    purchase: number | Cart,
     availableDeals: Deal[],
     constraints: OptimizationConstraints = {}
   ): StackResult {
-    const cacheKey = this.getCacheKey(basePrice, availableDeals, constraints);
+    const cart = this.toCart(purchase);
+    const cacheKey = getStackKey(cart, availableDeals, constraints);
+    const purchaseTime = getPurchaseTime(constraints);
     const cached = this.memoCache.get(cacheKey);
-    if (cached) return cached;
+    if (cached && Date.now() - cached.cachedAt < STACK_CACHE_TTL_MS && isStackValid(cached.result, purchaseTime)) {
+      return cached.result;
+    }
 
     const startTime = Date.now();
     const timeLimit = constraints.timeLimit || 1000; // 1 second default
 
-    // Sort deals by priority and value
-    const sortedDeals = this.sortDeals(availableDeals, basePrice);
-    
+    // Drop deals that will have expired by the time of purchase
+    const liveDeals = availableDeals.filter(d => !d.expiresAt || Date.parse(d.expiresAt) > purchaseTime);
+
+    // Sort deals by stage, priority and value
+    const sortedDeals = this.sortDeals(liveDeals, cart);
+
     // Filter based on constraints
     const filteredDeals = this.applyConstraints(sortedDeals, constraints);
-    
+
+    if (constraints.mode === 'exact') {
+      const exactResult = this.exactSearch(
+        cart,
+        filteredDeals,
+        constraints.maxDeals || 5,
+        constraints.maxAlternatives ?? 3,
+        startTime,
+        timeLimit
+      );
+      this.annotateExpiry(exactResult, availableDeals.length - liveDeals.length, purchaseTime, constraints);
+      this.memoCache.set(cacheKey, { result: exactResult, cachedAt: Date.now() });
+      return exactResult;
+    }
+
     // Use branch and bound for optimal combination
     const result = this.branchAndBound(
-      basePrice,
+      cart,
       filteredDeals,
       constraints.maxDeals || 5,
       startTime,
@@ -87,44 +183,88 @@ class StackOptimizer {
     // Find alternative stacks
     if (result.totalSavings > 0) {
       result.alternativeStacks = this.findAlternatives(
-        basePrice,
+        cart,
         filteredDeals,
         result,
         3 // Max 3 alternatives
       );
     }
 
-    this.memoCache.set(cacheKey, result);
+    this.annotateExpiry(result, availableDeals.length - liveDeals.length, purchaseTime, constraints);
+    this.memoCache.set(cacheKey, { result, cachedAt: Date.now() });
     return result;
   }
 
+  /**
+   * Attach validity and expiry warnings relative to the purchase date
+   */
+  private annotateExpiry(
+    result: StackResult,
+    expiredCount: number,
+    purchaseTime: number,
+    constraints: OptimizationConstraints
+  ): void {
+    const windowMs = (constraints.expiryWarningHours ?? DEFAULT_EXPIRY_WARNING_HOURS) * 3600000;
+    const warnings: string[] = [];
+
+    if (expiredCount > 0) {
+      warnings.push(`${expiredCount} deal${expiredCount === 1 ? '' : 's'} expired by the purchase date and ${expiredCount === 1 ? 'was' : 'were'} skipped.`);
+    }
+
+    const annotate = (stack: StackResult) => {
+      const dated = stack.deals.filter(d => d.expiresAt);
+      if (dated.length === 0) return;
+
+      const earliest = Math.min(...dated.map(d => Date.parse(d.expiresAt!)));
+      stack.validUntil = new Date(earliest).toISOString();
+      const expiring = dated
+        .filter(d => Date.parse(d.expiresAt!) - purchaseTime <= windowMs)
+        .map(d => ({
+          dealId: d.id,
+          expiresAt: d.expiresAt!,
+          hoursLeft: Math.max(0, (Date.parse(d.expiresAt!) - purchaseTime) / 3600000)
+        }));
+      if (expiring.length > 0) stack.expiringSoon = expiring;
+    };
+
+    annotate(result);
+    result.alternativeStacks?.forEach(annotate);
+
+    result.expiringSoon?.forEach(({ dealId, hoursLeft }) => {
+      const deal = result.deals.find(d => d.id === dealId)!;
+      warnings.push(`${deal.code || deal.id} expires in ${Math.floor(hoursLeft)}h, complete the purchase before then.`);
+    });
+
+    if (warnings.length > 0) {
+      result.warnings = [...(result.warnings || []), ...warnings];
+    }
+  }
+
   /**
    * Branch and bound algorithm for finding optimal deal combination
    */
   private branchAndBound(
-    basePrice: number,
+    cart: Cart,
     deals: Deal[],
     maxDeals: number,
     startTime: number,
     timeLimit: number
   ): StackResult {
-    let bestResult: StackResult = {
-      deals: [],
-      totalSavings: 0,
-      finalPrice: basePrice,
-      breakdown: []
-    };
+    const initialState = this.initialState(cart);
+    const basePrice = this.effectivePrice(cart, initialState);
+
+    let bestResult: StackResult = this.buildResult(cart, []);
 
     const stack: Array<{
       index: number;
       currentDeals: Deal[];
-      currentPrice: number;
+      currentState: PricingState;
       bound: number;
     }> = [{
       index: 0,
       currentDeals: [],
-      currentPrice: basePrice,
-      bound: this.calculateBound(basePrice, deals, 0)
+      currentState: initialState,
+      bound: this.calculateBound(cart, initialState, deals, 0)
     }];
 
     while (stack.length > 0 && Date.now() - startTime < timeLimit) {
@@ -136,21 +276,17 @@ class StackOptimizer {
       // Try including current deal
       if (node.index < deals.length && node.currentDeals.length < maxDeals) {
         const deal = deals[node.index];
-        const canStack = this.canStackDeal(deal, node.currentDeals);
+        const canStack = this.canStackDeal(deal, node.currentDeals) &&
+          this.respectsStageOrder(deal, node.currentDeals);
 
         if (canStack) {
-          const newPrice = this.applyDeal(node.currentPrice, deal, basePrice);
+          const newState = this.applyDeal(cart, node.currentState, deal).state;
           const newDeals = [...node.currentDeals, deal];
-          const savings = basePrice - newPrice;
+          const savings = basePrice - this.effectivePrice(cart, newState);
 
           // Update best if better
           if (savings > bestResult.totalSavings) {
-            bestResult = {
-              deals: newDeals,
-              totalSavings: savings,
-              finalPrice: newPrice,
-              breakdown: this.generateBreakdown(basePrice, newDeals)
-            };
+            bestResult = this.buildResult(cart, newDeals);
           }
 
           // Add to stack for further exploration
@@ -158,8 +294,8 @@ class StackOptimizer {
             stack.push({
               index: node.index + 1,
               currentDeals: newDeals,
-              currentPrice: newPrice,
-              bound: this.calculateBound(newPrice, deals, node.index + 1)
+              currentState: newState,
+              bound: savings + this.calculateBound(cart, newState, deals, node.index + 1)
             });
           }
         }
@@ -170,7 +306,7 @@ class StackOptimizer {
         stack.push({
           index: node.index + 1,
           currentDeals: node.currentDeals,
-          currentPrice: node.currentPrice,
+          currentState: node.currentState,
           bound: node.bound
         });
       }
@@ -184,18 +320,195 @@ class StackOptimizer {
     return bestResult;
   }
 
+  /**
+   * Exact search over ordered deal sequences.
+   * Explores every compatible application order with a bound that stays valid
+   * under reordering, minPurchase thresholds and maxDiscount caps, and keeps the
+   * top stacks so alternatives are ranked exactly as well.
+   */
+  private exactSearch(
+    cart: Cart,
+    deals: Deal[],
+    maxDeals: number,
+    maxAlternatives: number,
+    startTime: number,
+    timeLimit: number
+  ): StackResult {
+    const initialState = this.initialState(cart);
+    const basePrice = this.effectivePrice(cart, initialState);
+    const keep = maxAlternatives + 1;
+    const ranked: Array<{ key: string; order: number[]; savings: number }> = [];
+    const visited = new Set<string>();
+    let nodesExplored = 0;
+
+    const threshold = () => (ranked.length >= keep ? ranked[keep - 1].savings : 0);
+
+    const record = (order: number[], savings: number) => {
+      const key = order.slice().sort((a, b) => a - b).join(',');
+      const existing = ranked.findIndex(r => r.key === key);
+      if (existing >= 0) {
+        if (ranked[existing].savings >= savings) return;
+        ranked.splice(existing, 1);
+      }
+      ranked.push({ key, order, savings });
+      ranked.sort((a, b) => b.savings - a.savings);
+      if (ranked.length > keep) ranked.length = keep;
+    };
+
+    const stack: Array<{ order: number[]; state: PricingState; bound: number }> = [{
+      order: [],
+      state: initialState,
+      bound: this.calculateExactBound(cart, basePrice, initialState, deals, [], maxDeals)
+    }];
+
+    while (stack.length > 0 && Date.now() - startTime < timeLimit) {
+      const node = stack.pop()!;
+      nodesExplored++;
+
+      if (node.bound <= threshold() + 1e-9) continue;
+
+      const lastStage = node.order.length
+        ? getDealStage(deals[node.order[node.order.length - 1]])
+        : STAGE_ORDER[0];
+      const stateKey = [
+        node.order.slice().sort((a, b) => a - b).join(','),
+        lastStage,
+        this.getStateKey(node.state)
+      ].join('|');
+      if (visited.has(stateKey)) continue;
+      visited.add(stateKey);
+
+      if (node.order.length >= maxDeals) continue;
+
+      const applied = node.order.map(i => deals[i]);
+      const currentPrice = this.effectivePrice(cart, node.state);
+      for (let i = 0; i < deals.length; i++) {
+        if (node.order.includes(i)) continue;
+        if (!this.canStackDeal(deals[i], applied) || !this.respectsStageOrder(deals[i], applied)) continue;
+
+        const newState = this.applyDeal(cart, node.state, deals[i]).state;
+        const newPrice = this.effectivePrice(cart, newState);
+        // A deal that changes nothing here can be dropped from the sequence
+        // without losing savings, so only productive steps are expanded
+        if (newPrice >= currentPrice) continue;
+
+        const order = [...node.order, i];
+        const savings = basePrice - newPrice;
+        if (savings > threshold()) record(order, savings);
+
+        const bound = this.calculateExactBound(cart, basePrice, newState, deals, order, maxDeals);
+        if (bound > threshold() + 1e-9) {
+          stack.push({ order, state: newState, bound });
+        }
+      }
+    }
+
+    // Any node left on the stack is unexplored; its bound caps what it could still yield
+    const openBound = stack.reduce((max, node) => Math.max(max, node.bound), 0);
+    const best = ranked[0];
+    const bestSavings = best ? best.savings : 0;
+    const upperBound = Math.max(bestSavings, openBound);
+    const gap = upperBound - bestSavings;
+
+    const toResult = (order: number[]) => this.buildResult(cart, order.map(i => deals[i]));
+
+    const result = best ? toResult(best.order) : toResult([]);
+    result.certificate = {
+      status: gap <= 1e-9 ? 'optimal' : 'gap',
+      upperBound,
+      gap: gap <= 1e-9 ? 0 : gap,
+      nodesExplored
+    };
+
+    if (result.certificate.status === 'gap') {
+      result.warnings = [
+        `Exact search stopped at the time limit. Best stack is within ₹${gap.toFixed(2)} of optimal.`
+      ];
+    }
+
+    if (ranked.length > 1) {
+      result.alternativeStacks = ranked.slice(1).map(r => toResult(r.order));
+    }
+
+    return result;
+  }
+
+  /**
+   * Upper bound on total savings reachable from a partial sequence.
+   * Amounts only fall as deals are applied, so each remaining deal can save at
+   * most what it would save right now, and a minPurchase above the current
+   * amount can never be met again.
+   */
+  private calculateExactBound(
+    cart: Cart,
+    basePrice: number,
+    state: PricingState,
+    deals: Deal[],
+    order: number[],
+    maxDeals: number
+  ): number {
+    const applied = order.map(i => deals[i]);
+    const currentPrice = this.effectivePrice(cart, state);
+    const potentials: number[] = [];
+
+    for (let i = 0; i < deals.length; i++) {
+      if (order.includes(i)) continue;
+      if (!this.canStackDeal(deals[i], applied) || !this.respectsStageOrder(deals[i], applied)) continue;
+      const potential = this.maxDealDiscount(cart, state, deals[i]);
+      if (potential > 0) potentials.push(potential);
+    }
+
+    potentials.sort((a, b) => b - a);
+    const remaining = potentials
+      .slice(0, Math.max(0, maxDeals - order.length))
+      .reduce((sum, value) => sum + value, 0);
+
+    return basePrice - currentPrice + Math.min(currentPrice, remaining);
+  }
+
+  /**
+   * Largest reduction in effective price a deal could give from this state.
+   * Item-level savings also cut the GST charged on those items.
+   */
+  private maxDealDiscount(cart: Cart, state: PricingState, deal: Deal): number {
+    const stage = getDealStage(deal);
+    let base: number;
+    let taxFactor = 1;
+
+    if (stage === 'item') {
+      const eligible = this.getEligibleLines(cart, deal);
+      base = eligible.reduce((sum, i) => sum + state.lines[i], 0);
+      taxFactor += eligible.reduce((max, i) => Math.max(max, this.getLineTaxRate(cart, i)), 0);
+    } else {
+      base = this.payableAmount(cart, state);
+    }
+
+    if (deal.minPurchase && base < deal.minPurchase) return 0;
+
+    let discount: number;
+    if (deal.valueType === 'percentage') {
+      discount = base * (deal.value / 100);
+      if (deal.maxDiscount) discount = Math.min(discount, deal.maxDiscount);
+    } else {
+      discount = Math.min(deal.value, base);
+    }
+
+    return discount * taxFactor;
+  }
+
   /**
    * Calculate upper bound for remaining savings
    */
-  private calculateBound(currentPrice: number, deals: Deal[], startIndex: number): number {
+  private calculateBound(cart: Cart, state: PricingState, deals: Deal[], startIndex: number): number {
     let bound = 0;
-    let price = currentPrice;
+    let current = state;
 
     for (let i = startIndex; i < deals.length; i++) {
-      const potential = this.calculateDealValue(price, deals[i], currentPrice);
-      bound += potential;
-      price -= potential;
-      if (price <= 0) break;
+      const before = this.effectivePrice(cart, current);
+      current = this.applyDeal(cart, current, deals[i]).state;
+      const after = this.effectivePrice(cart, current);
+      bound += before - after;
+      if (after <= 0) break;
     }
 
     return bound;
@@ -228,17 +541,70 @@ class StackOptimizer {
   }
 
   /**
-   * Apply a deal to the current price
+   * Deals can only be applied in checkout order: items, then cart, then after payment
+   */
+  private respectsStageOrder(deal: Deal, existingDeals: Deal[]): boolean {
+    if (existingDeals.length === 0) return true;
+    const last = existingDeals[existingDeals.length - 1];
+    return STAGE_ORDER.indexOf(getDealStage(deal)) >= STAGE_ORDER.indexOf(getDealStage(last));
+  }
+
+  /**
+   * Apply a deal at its checkout stage
    */
-  private applyDeal(currentPrice: number, deal: Deal, basePrice: number): number {
-    if (deal.minPurchase && currentPrice < deal.minPurchase) {
-      return currentPrice;
+  private applyDeal(
+    cart: Cart,
+    state: PricingState,
+    deal: Deal
+  ): { state: PricingState; lineSavings?: CartLineSavings[] } {
+    const stage = getDealStage(deal);
+
+    if (stage === 'item') {
+      const eligible = this.getEligibleLines(cart, deal);
+      const subtotal = eligible.reduce((sum, i) => sum + state.lines[i], 0);
+      if (subtotal <= 0 || (deal.minPurchase && subtotal < deal.minPurchase)) {
+        return { state };
+      }
+
+      const discount = this.calculateDiscount(subtotal, deal);
+      const lines = [...state.lines];
+      const lineSavings: CartLineSavings[] = [];
+
+      // Spread the discount across eligible lines in proportion to their amounts
+      for (const i of eligible) {
+        const share = discount * (state.lines[i] / subtotal);
+        lines[i] = Math.max(0, state.lines[i] - share);
+        lineSavings.push({ lineId: cart.items[i].id, savings: state.lines[i] - lines[i] });
+      }
+
+      return { state: { ...state, lines }, lineSavings };
     }
 
+    if (stage === 'cart') {
+      const payable = this.payableAmount(cart, state);
+      if (deal.minPurchase && payable < deal.minPurchase) return { state };
+      return {
+        state: { ...state, cartDiscount: state.cartDiscount + this.calculateDiscount(payable, deal) }
+      };
+    }
+
+    // Post-payment benefits are each earned on what was paid and don't change the charge
+    const paid = this.payableAmount(cart, state);
+    if (deal.minPurchase && paid < deal.minPurchase) return { state };
+    const benefit = Math.min(this.calculateDiscount(paid, deal), paid - state.postPayment);
+    return {
+      state: { ...state, postPayment: state.postPayment + Math.max(0, benefit) }
+    };
+  }
+
+  /**
+   * Discount a deal gives on a given amount
+   */
+  private calculateDiscount(amount: number, deal: Deal): number {
     let discount = 0;
     if (deal.valueType === 'percentage') {
-      // Percentage discounts apply to current price
-      discount = currentPrice * (deal.value / 100);
+      // Percentage discounts apply to current amount
+      discount = amount * (deal.value / 100);
       if (deal.maxDiscount) {
         discount = Math.min(discount, deal.maxDiscount);
       }
@@ -247,38 +613,122 @@ class StackOptimizer {
       discount = deal.value;
     }
 
-    return Math.max(0, currentPrice - discount);
+    return Math.min(discount, amount);
   }
 
   /**
-   * Calculate the value of a deal
+   * Cart lines a deal's category rules allow it to discount.
+   * An uncategorised line never matches a category-restricted deal.
    */
-  private calculateDealValue(currentPrice: number, deal: Deal, basePrice: number): number {
-    const newPrice = this.applyDeal(currentPrice, deal, basePrice);
-    return currentPrice - newPrice;
+  private getEligibleLines(cart: Cart, deal: Deal): number[] {
+    const eligible: number[] = [];
+
+    cart.items.forEach((item, i) => {
+      if (deal.category?.length && (!item.category || !deal.category.includes(item.category))) return;
+      if (item.category && deal.excludes?.includes(item.category)) return;
+      eligible.push(i);
+    });
+
+    return eligible;
+  }
+
+  private getLineTaxRate(cart: Cart, index: number): number {
+    return cart.items[index].taxRate ?? cart.taxRate ?? 0;
+  }
+
+  private initialState(cart: Cart): PricingState {
+    return {
+      lines: cart.items.map(item => item.unitPrice * item.quantity),
+      cartDiscount: 0,
+      postPayment: 0
+    };
+  }
+
+  private taxAmount(cart: Cart, state: PricingState): number {
+    return state.lines.reduce((sum, amount, i) => sum + amount * this.getLineTaxRate(cart, i), 0);
+  }
+
+  /**
+   * Amount charged at checkout: items after item deals, plus GST and shipping, minus cart deals
+   */
+  private payableAmount(cart: Cart, state: PricingState): number {
+    const items = state.lines.reduce((sum, amount) => sum + amount, 0);
+    const gross = items + this.taxAmount(cart, state) + (cart.shipping || 0);
+    return Math.max(0, gross - state.cartDiscount);
+  }
+
+  /**
+   * What the purchase really costs once post-payment benefits are credited
+   */
+  private effectivePrice(cart: Cart, state: PricingState): number {
+    return Math.max(0, this.payableAmount(cart, state) - state.postPayment);
+  }
+
+  private toCart(purchase: number | Cart): Cart {
+    if (typeof purchase !== 'number') return purchase;
+    return { items: [{ id: 'item-1', unitPrice: purchase, quantity: 1 }] };
+  }
+
+  /**
+   * Replay a deal sequence into a full result
+   */
+  private buildResult(cart: Cart, deals: Deal[]): StackResult {
+    const initialState = this.initialState(cart);
+    const basePrice = this.effectivePrice(cart, initialState);
+    const breakdown = this.generateBreakdown(cart, deals);
+
+    let state = initialState;
+    for (const deal of deals) {
+      state = this.applyDeal(cart, state, deal).state;
+    }
+    const finalPrice = this.effectivePrice(cart, state);
+
+    return {
+      deals,
+      totalSavings: basePrice - finalPrice,
+      finalPrice,
+      breakdown,
+      cart: {
+        lines: cart.items.map((item, i) => ({
+          id: item.id,
+          original: initialState.lines[i],
+          final: state.lines[i],
+          savings: initialState.lines[i] - state.lines[i]
+        })),
+        shipping: cart.shipping || 0,
+        tax: this.taxAmount(cart, state),
+        cartDiscount: state.cartDiscount,
+        payable: this.payableAmount(cart, state),
+        postPaymentBenefit: state.postPayment
+      }
+    };
   }
 
   /**
    * Generate breakdown of how deals were applied
    */
-  private generateBreakdown(basePrice: number, deals: Deal[]): StackBreakdown[] {
+  private generateBreakdown(cart: Cart, deals: Deal[]): StackBreakdown[] {
     const breakdown: StackBreakdown[] = [];
-    let currentPrice = basePrice;
+    let state = this.initialState(cart);
 
     for (const deal of deals) {
-      const newPrice = this.applyDeal(currentPrice, deal, basePrice);
-      const savings = currentPrice - newPrice;
+      const before = this.effectivePrice(cart, state);
+      const applied = this.applyDeal(cart, state, deal);
+      const priceAfter = this.effectivePrice(cart, applied.state);
+      const savings = before - priceAfter;
 
       breakdown.push({
         dealId: deal.id,
         dealName: deal.code || `${deal.type} - ${deal.value}${deal.valueType === 'percentage' ? '%' : ''}`,
+        stage: getDealStage(deal),
         savings,
-        priceAfter: newPrice,
+        priceAfter,
         applied: savings > 0,
+        lineSavings: applied.lineSavings,
         reason: savings === 0 ? 'Minimum purchase not met or no additional savings' : undefined
       });
 
-      currentPrice = newPrice;
+      state = applied.state;
     }
 
     return breakdown;
@@ -288,7 +738,7 @@ class StackOptimizer {
    * Find alternative stacking combinations
    */
   private findAlternatives(
-    basePrice: number,
+    cart: Cart,
     deals: Deal[],
     bestResult: StackResult,
     maxAlternatives: number
@@ -300,7 +750,7 @@ class StackOptimizer {
     // Try different starting deals
     for (let i = 0; i < Math.min(deals.length, 5); i++) {
       const reorderedDeals = [...deals.slice(i), ...deals.slice(0, i)];
-      const altResult = this.branchAndBound(basePrice, reorderedDeals, 5, Date.now(), 500);
+      const altResult = this.branchAndBound(cart, reorderedDeals, 5, Date.now(), 500);
 
       const comboKey = this.getDealComboKey(altResult.deals);
       if (!usedCombinations.has(comboKey) && altResult.totalSavings > 0) {
@@ -315,19 +765,26 @@ class StackOptimizer {
   }
 
   /**
-   * Sort deals by priority and potential value
+   * Sort deals by checkout stage, priority and potential value
    */
-  private sortDeals(deals: Deal[], basePrice: number): Deal[] {
+  private sortDeals(deals: Deal[], cart: Cart): Deal[] {
+    const initialState = this.initialState(cart);
+    const basePrice = this.effectivePrice(cart, initialState);
+    const valueOf = (deal: Deal) =>
+      basePrice - this.effectivePrice(cart, this.applyDeal(cart, initialState, deal).state);
+
     return deals.sort((a, b) => {
-      // First by priority
+      // Stages must be applied in checkout order
+      const stageDiff = STAGE_ORDER.indexOf(getDealStage(a)) - STAGE_ORDER.indexOf(getDealStage(b));
+      if (stageDiff !== 0) return stageDiff;
+
+      // Then by priority
       if (a.priority !== b.priority) {
         return b.priority - a.priority;
       }
 
       // Then by potential value
-      const aValue = this.calculateDealValue(basePrice, a, basePrice);
-      const bValue = this.calculateDealValue(basePrice, b, basePrice);
-      return bValue - aValue;
+      return valueOf(b) - valueOf(a);
     });
   }
 
@@ -357,16 +814,10 @@ class StackOptimizer {
   }
 
   /**
-   * Generate cache key for memoization
+   * Key identifying a pricing state for search memoization
    */
-  private getCacheKey(
-    basePrice: number,
-    deals: Deal[],
-    constraints: OptimizationConstraints
-  ): string {
-    const dealIds = deals.map(d => d.id).sort().join(',');
-    const constraintKey = JSON.stringify(constraints);
-    return `${basePrice}-${dealIds}-${constraintKey}`;
+  private getStateKey(state: PricingState): string {
+    return [...state.lines, state.cartDiscount, state.postPayment].map(v => v.toFixed(6)).join(',');
   }
 
   /**
@@ -377,8 +828,43 @@ class StackOptimizer {
   }
 }
 
+/**
+ * Moment the stack is evaluated for: the planned purchase date, or now.
+ * An unparsable date is rejected rather than silently expiring every deal.
+ */
+function getPurchaseTime(constraints?: OptimizationConstraints): number {
+  if (!constraints?.purchaseDate) return Date.now();
+
+  const time = Date.parse(constraints.purchaseDate);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid purchase date: ${constraints.purchaseDate}`);
+  }
+  return time;
+}
+
+/**
+ * Cache key for a stack: the purchase, every deal's terms and the constraints.
+ * Deal ids alone would keep serving a stack after a deal's value or limits change.
+ */
+function getStackKey(purchase: number | Cart, deals: Deal[], constraints: OptimizationConstraints = {}): string {
+  const dealKey = [...deals]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(deal => JSON.stringify(deal))
+    .join(',');
+  return `${JSON.stringify(purchase)}|${dealKey}|${JSON.stringify(constraints)}`;
+}
+
+/**
+ * A stack stays usable until its earliest-expiring deal runs out
+ */
+export function isStackValid(result: StackResult, at: number = Date.now()): boolean {
+  return !result.validUntil || Date.parse(result.validUntil) > at;
+}
+
 // Global optimizer instance
-const stackOptimizer = new StackOptimizer();
+export const stackOptimizer = new StackOptimizer();
+
+const stackCache = new DataCache<StackResult>(100, STACK_CACHE_TTL_MS);
 
 // StackSmart Store
 interface StackSmartStore {
@@ -389,7 +875,7 @@ interface StackSmartStore {
   // Actions
   optimizeStack: (
     productId: string,
-    basePrice: number,
+    purchase: number | Cart,
     availableDeals: Deal[],
     constraints?: OptimizationConstraints
   ) => StackResult;
@@ -402,10 +888,11 @@ export const useStackSmart = create<StackSmartStore>((set, get) => ({
   loading: false,
   error: null,
 
-  optimizeStack: (productId, basePrice, availableDeals, constraints) => {
-    // Check cache first
-    const cached = globalDataCache.get(`stack-optimization-${productId}`) as StackResult | null;
-    if (cached) {
+  optimizeStack: (productId, purchase, availableDeals, constraints) => {
+    // Check cache first, keyed by the cart, the deals and the constraints (including the purchase date)
+    const cacheKey = `stack-optimization-${productId}-${getStackKey(purchase, availableDeals, constraints)}`;
+    const cached = stackCache.get(cacheKey);
+    if (cached && isStackValid(cached, getPurchaseTime(constraints))) {
       set((state) => ({
         optimizations: new Map(state.optimizations).set(productId, cached)
       }));
@@ -415,10 +902,10 @@ export const useStackSmart = create<StackSmartStore>((set, get) => ({
     set({ loading: true, error: null });
 
     try {
-      const result = stackOptimizer.optimize(basePrice, availableDeals, constraints);
+      const result = stackOptimizer.optimize(purchase, availableDeals, constraints);
       
       // Cache the result
-      globalDataCache.set(`stack-optimization-${productId}`, result);
+      stackCache.set(cacheKey, result);
       
       set((state) => ({
         optimizations: new Map(state.optimizations).set(productId, result),
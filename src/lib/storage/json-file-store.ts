@@ -0,0 +1,56 @@
+/**
+ * JSON File Store
+ * Small file-backed persistence for API routes that run without a database
+ * Writes are serialized per file and land atomically via a temp file rename
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.DEALMATE_DATA_DIR || path.join(process.cwd(), '.data');
+
+export class JsonFileStore<T> {
+  private filePath: string;
+  private defaults: () => T;
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(fileName: string, defaults: () => T) {
+    this.filePath = path.join(DATA_DIR, fileName);
+    this.defaults = defaults;
+  }
+
+  async read(): Promise<T> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      // Only a missing file starts from defaults; anything else must not be overwritten by update()
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return this.defaults();
+      throw error;
+    }
+    return JSON.parse(raw) as T;
+  }
+
+  /**
+   * Read-modify-write under a per-store lock so concurrent requests don't drop updates
+   */
+  async update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    const run = this.writeChain.then(async () => {
+      const data = await this.read();
+      const result = await mutate(data);
+      await this.write(data);
+      return result;
+    });
+
+    // Keep the chain alive even when one update fails
+    this.writeChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private async write(data: T): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
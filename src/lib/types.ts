@@ -10,6 +10,8 @@ export interface UserCard {
   current_points?: number;
   next_reward_threshold?: number;
   next_reward_value?: number;
+  expiring_points?: number;
+  points_expiry_date?: string;
 }
 
 export interface LoyaltyProgram {
@@ -20,6 +22,9 @@ export interface LoyaltyProgram {
   pointValueInRupees: number;
   nextTier?: string;
   pointsToNextTier?: number;
+  expiringPoints?: number;
+  pointsExpiryDate?: string;
+  redemptionPlatforms?: string[]; // Where points can be spent, e.g. ['Flipkart']
 }
 
 export interface UserRewardGoal {
@@ -83,3 +88,62 @@ export interface Wallet {
   createdAt: string;
   updatedAt: string;
 }
+
+export interface WishlistProduct {
+  id: string;
+  name: string;
+  price: number;
+  platform: string;
+  productUrl?: string;
+  imageUrl?: string;
+}
+
+// Points expiry planning
+export interface PointsHolding {
+  id: string;
+  source: 'card' | 'loyalty';
+  name: string;
+  expiringPoints: number;
+  expiryDate: string;
+  pointValueInr: number;
+  redemptionPlatforms?: string[]; // Unset means points redeem anywhere (e.g. card statement credit)
+  partnerRates?: Record<string, number>; // Boosted rupee-per-point value on partner platforms
+}
+
+export interface BurnSuggestion {
+  kind: 'wishlist' | 'offer';
+  itemId: string;
+  name: string;
+  platform: string;
+  price: number;
+  pointsUsed: number;
+  rupeesPerPoint: number;
+  rupeeValue: number;
+  productUrl?: string;
+}
+
+export interface BurnPlan {
+  holding: PointsHolding;
+  daysLeft: number;
+  valueAtRisk: number;
+  suggestions: BurnSuggestion[];
+  pointsBurned: number;
+  pointsUnplanned: number;
+}
+
+export interface ExpiryNotification {
+  id: string; // Stable per holding, expiry date and reminder window, for de-duplication
+  holdingId: string;
+  severity: 'info' | 'warning' | 'critical';
+  title: string;
+  message: string;
+  daysLeft: number;
+}
+
+export interface PointsExpiryReport {
+  horizonDays: number;
+  totalPointsAtRisk: number;
+  totalValueAtRisk: number;
+  plans: BurnPlan[];
+  notifications: ExpiryNotification[];
+}
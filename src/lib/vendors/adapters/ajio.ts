@@ -0,0 +1,62 @@
+import type { Product } from '@/types/comparison';
+import { FixtureVendorAdapter, discountPercent, type FixtureRecording, type FixtureStore } from '../fixture-adapter';
+import recording from '../fixtures/ajio.json';
+
+// AJIO search API product
+interface AjioProduct {
+  code: string;
+  name: string;
+  fnlColorVariantData: { brandName: string };
+  segmentNameText: string;
+  price: { value: number; formattedValue: string };
+  wasPriceData?: { value: number };
+  discountPercent?: string;
+  averageRating?: number;
+  ratingCount?: number;
+  images: Array<{ url: string }>;
+  url: string; // Relative to www.ajio.com
+  stock: 'inStock' | 'lowStock' | 'outOfStock';
+}
+
+export class AjioAdapter extends FixtureVendorAdapter<AjioProduct> {
+  readonly id = 'ajio';
+  readonly name = 'Ajio';
+  cache = { ttlMs: 15 * 60 * 1000 };
+
+  protected recording(): FixtureRecording<AjioProduct> {
+    return {
+      recordedAt: recording.recordedAt,
+      store: recording.store as FixtureStore,
+      items: recording.products as AjioProduct[]
+    };
+  }
+
+  protected normalize(item: AjioProduct, recordedAt: Date): Product {
+    const brand = item.fnlColorVariantData.brandName;
+    const originalPrice = item.wasPriceData?.value;
+    const inStock = item.stock !== 'outOfStock';
+
+    return {
+      id: `${this.id}-${item.code}`,
+      // AJIO titles leave out the brand
+      name: `${brand} ${item.name}`,
+      description: `${brand} ${item.name} for ${item.segmentNameText}`,
+      category: 'Fashion',
+      brand,
+      vendor: this.name,
+      price: item.price.value,
+      originalPrice,
+      currency: this.currency,
+      rating: item.averageRating ?? 0,
+      reviewCount: item.ratingCount ?? 0,
+      imageUrl: item.images[0]?.url || '',
+      availability: inStock,
+      deliveryTime: '4-6 days',
+      features: [item.segmentNameText, ...(item.stock === 'lowStock' ? ['Few left'] : [])],
+      url: `https://www.ajio.com${item.url}`,
+      discount: discountPercent(item.price.value, originalPrice),
+      inStock,
+      lastUpdated: recordedAt
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import type { Product } from '@/types/comparison';
+import type { VendorOffer } from '../types';
+import { FixtureVendorAdapter, discountPercent, type FixtureRecording, type FixtureStore } from '../fixture-adapter';
+import recording from '../fixtures/amazon-in.json';
+
+// Product Advertising API 5 item, trimmed to the resources we request
+interface AmazonItem {
+  ASIN: string;
+  DetailPageURL: string;
+  BrowseNode: string;
+  ItemInfo: {
+    Title: { DisplayValue: string };
+    ByLineInfo?: { Brand?: { DisplayValue: string } };
+    Features?: { DisplayValues: string[] };
+    ExternalIds?: { EANs?: { DisplayValues: string[] } };
+  };
+  Images?: { Primary?: { Medium?: { URL: string } } };
+  CustomerReviews?: { StarRating?: number; Count?: number };
+  Offers?: { Listings: AmazonListing[] };
+}
+
+interface AmazonListing {
+  MerchantInfo: { Name: string };
+  Price: { Amount: number; Currency: string };
+  SavingBasis?: { Amount: number };
+  Availability: { Type: string };
+  DeliveryInfo?: { IsFreeShippingEligible?: boolean; ShippingCharges?: number; EstimatedDays?: string };
+}
+
+export class AmazonInAdapter extends FixtureVendorAdapter<AmazonItem> {
+  readonly id = 'amazon-in';
+  readonly name = 'Amazon.in';
+
+  protected recording(): FixtureRecording<AmazonItem> {
+    return {
+      recordedAt: recording.recordedAt,
+      store: recording.store as FixtureStore,
+      items: recording.items as AmazonItem[]
+    };
+  }
+
+  protected normalize(item: AmazonItem, recordedAt: Date): Product {
+    // The buy box is the first listing
+    const listing = item.Offers?.Listings[0];
+    const price = listing?.Price.Amount ?? 0;
+    const originalPrice = listing?.SavingBasis?.Amount;
+    const features = item.ItemInfo.Features?.DisplayValues || [];
+
+    return {
+      id: `${this.id}-${item.ASIN}`,
+      name: item.ItemInfo.Title.DisplayValue,
+      description: features.join(', '),
+      category: item.BrowseNode,
+      brand: item.ItemInfo.ByLineInfo?.Brand?.DisplayValue,
+      identifiers: item.ItemInfo.ExternalIds?.EANs ? { gtin: item.ItemInfo.ExternalIds.EANs.DisplayValues[0] } : undefined,
+      vendor: this.name,
+      price,
+      originalPrice,
+      currency: listing?.Price.Currency || this.currency,
+      rating: item.CustomerReviews?.StarRating ?? 0,
+      reviewCount: item.CustomerReviews?.Count ?? 0,
+      imageUrl: item.Images?.Primary?.Medium?.URL || '',
+      availability: listing?.Availability.Type === 'Now',
+      deliveryTime: listing?.DeliveryInfo?.EstimatedDays ? `${listing.DeliveryInfo.EstimatedDays} days` : undefined,
+      features,
+      url: item.DetailPageURL,
+      discount: discountPercent(price, originalPrice),
+      inStock: listing?.Availability.Type === 'Now',
+      lastUpdated: recordedAt
+    };
+  }
+
+  protected offers(item: AmazonItem, product: Product): VendorOffer[] {
+    return (item.Offers?.Listings || []).map(listing => ({
+      vendorId: this.id,
+      vendor: this.name,
+      productId: product.id,
+      seller: listing.MerchantInfo.Name,
+      price: listing.Price.Amount,
+      originalPrice: listing.SavingBasis?.Amount,
+      currency: listing.Price.Currency,
+      inStock: listing.Availability.Type === 'Now',
+      shippingFee: listing.DeliveryInfo?.IsFreeShippingEligible ? 0 : listing.DeliveryInfo?.ShippingCharges,
+      deliveryTime: listing.DeliveryInfo?.EstimatedDays ? `${listing.DeliveryInfo.EstimatedDays} days` : undefined,
+      url: product.url
+    }));
+  }
+}
@@ -0,0 +1,83 @@
+import type { Product } from '@/types/comparison';
+import type { VendorOffer } from '../types';
+import { FixtureVendorAdapter, discountPercent, type FixtureRecording, type FixtureStore } from '../fixture-adapter';
+import recording from '../fixtures/flipkart.json';
+
+// Flipkart Affiliate API v1 product
+interface FlipkartProduct {
+  productBaseInfoV1: {
+    productId: string;
+    title: string;
+    productBrand: string;
+    categoryPath: string;
+    maximumRetailPrice: { amount: number; currency: string };
+    flipkartSpecialPrice: { amount: number; currency: string };
+    inStock: boolean;
+    productUrl: string;
+    imageUrls: Record<string, string>;
+    productDescription: string;
+  };
+  productShippingInfoV1: {
+    shippingCharges: { amount: number; currency: string };
+    sellerName: string;
+    estimatedDeliveryDays?: string;
+  };
+  categorySpecificInfoV1: { keySpecs: string[] };
+  ratingInfo?: { averageRating: number; ratingCount: number };
+}
+
+const ELECTRONICS_ROOTS = ['Mobiles & Accessories', 'Audio & Video', 'Computers', 'Cameras & Accessories'];
+
+export class FlipkartAdapter extends FixtureVendorAdapter<FlipkartProduct> {
+  readonly id = 'flipkart';
+  readonly name = 'Flipkart';
+  cache = { ttlMs: 2 * 60 * 1000 }; // Flash-sale prices move within minutes
+
+  protected recording(): FixtureRecording<FlipkartProduct> {
+    return {
+      recordedAt: recording.recordedAt,
+      store: recording.store as FixtureStore,
+      items: recording.products as FlipkartProduct[]
+    };
+  }
+
+  protected normalize(item: FlipkartProduct, recordedAt: Date): Product {
+    const info = item.productBaseInfoV1;
+    const shipping = item.productShippingInfoV1;
+    const price = info.flipkartSpecialPrice.amount;
+    const originalPrice = info.maximumRetailPrice.amount;
+    const path = info.categoryPath.split('>').map(part => part.trim());
+    const root = path[0];
+
+    return {
+      id: `${this.id}-${info.productId}`,
+      name: info.title,
+      description: `${path[path.length - 1]}: ${info.productDescription}`,
+      category: ELECTRONICS_ROOTS.includes(root) ? 'Electronics' : 'Fashion',
+      brand: info.productBrand,
+      vendor: this.name,
+      price,
+      originalPrice,
+      currency: info.flipkartSpecialPrice.currency,
+      rating: item.ratingInfo?.averageRating ?? 0,
+      reviewCount: item.ratingInfo?.ratingCount ?? 0,
+      imageUrl: info.imageUrls['400x400'] || Object.values(info.imageUrls)[0] || '',
+      availability: info.inStock,
+      deliveryTime: shipping.estimatedDeliveryDays ? `${shipping.estimatedDeliveryDays} days` : undefined,
+      features: item.categorySpecificInfoV1.keySpecs,
+      url: info.productUrl,
+      discount: discountPercent(price, originalPrice),
+      inStock: info.inStock,
+      lastUpdated: recordedAt
+    };
+  }
+
+  protected offers(item: FlipkartProduct, product: Product): VendorOffer[] {
+    const [offer] = super.offers(item, product);
+    return [{
+      ...offer,
+      seller: item.productShippingInfoV1.sellerName,
+      shippingFee: item.productShippingInfoV1.shippingCharges.amount
+    }];
+  }
+}
@@ -0,0 +1,67 @@
+import type { Product } from '@/types/comparison';
+import type { VendorOffer } from '../types';
+import { FixtureVendorAdapter, type FixtureRecording, type FixtureStore } from '../fixture-adapter';
+import recording from '../fixtures/myntra.json';
+
+// Myntra search gateway product
+interface MyntraProduct {
+  productId: number;
+  productName: string;
+  brand: string;
+  category: string;
+  mrp: number;
+  price: number;
+  discount: number; // Percent
+  rating: number;
+  ratingCount: number;
+  searchImage: string;
+  landingPageUrl: string;
+  inventoryInfo: Array<{ available: boolean }>;
+  sizes: string;
+}
+
+export class MyntraAdapter extends FixtureVendorAdapter<MyntraProduct> {
+  readonly id = 'myntra';
+  readonly name = 'Myntra';
+  cache = { ttlMs: 15 * 60 * 1000 }; // Fashion prices change with sale events, not by the minute
+
+  protected recording(): FixtureRecording<MyntraProduct> {
+    return {
+      recordedAt: recording.recordedAt,
+      store: recording.store as FixtureStore,
+      items: recording.products
+    };
+  }
+
+  protected normalize(item: MyntraProduct, recordedAt: Date): Product {
+    const inStock = item.inventoryInfo.some(size => size.available);
+
+    return {
+      id: `${this.id}-${item.productId}`,
+      name: item.productName,
+      description: `${item.brand} ${item.category}, sizes ${item.sizes}`,
+      category: 'Fashion',
+      brand: item.brand,
+      vendor: this.name,
+      price: item.price,
+      originalPrice: item.mrp,
+      currency: this.currency,
+      rating: item.rating,
+      reviewCount: item.ratingCount,
+      imageUrl: item.searchImage,
+      availability: inStock,
+      deliveryTime: '3-5 days',
+      features: [item.category, `Sizes: ${item.sizes}`],
+      url: `https://www.myntra.com/${item.landingPageUrl}`,
+      discount: item.discount,
+      inStock,
+      lastUpdated: recordedAt
+    };
+  }
+
+  // Delivery is free above a basket value, so a single item below it pays the fee
+  protected offers(item: MyntraProduct, product: Product): VendorOffer[] {
+    const [offer] = super.offers(item, product);
+    return [{ ...offer, shippingFee: item.price >= recording.freeShippingAbove ? 0 : recording.shippingFee }];
+  }
+}
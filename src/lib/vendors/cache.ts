@@ -0,0 +1,43 @@
+/**
+ * Vendor response cache
+ * Vendor calls go through the shared stale-while-revalidate cache with the vendor's own
+ * TTL, so repeat searches don't spend its rate limit and an outage falls back to stale data.
+ */
+
+import type { ComparisonCacheInfo, VendorSearchStatus } from '@/types/comparison';
+import { SwrCache } from '@/lib/cache/swr-cache';
+import type { CachePolicy } from '@/lib/cache/types';
+import type { VendorAdapter } from './types';
+
+export const DEFAULT_VENDOR_CACHE: CachePolicy = {
+  ttlMs: 5 * 60 * 1000,
+  staleMs: 30 * 60 * 1000
+};
+
+// Store terms change on the scale of days, not minutes
+const PROFILE_CACHE: CachePolicy = {
+  ttlMs: 6 * 60 * 60 * 1000,
+  staleMs: 24 * 60 * 60 * 1000
+};
+
+export type VendorOperation = 'search' | 'product' | 'offers' | 'profile';
+
+export const vendorCache = new SwrCache('vendor');
+
+export function vendorCachePolicy(adapter: VendorAdapter, operation: VendorOperation): CachePolicy {
+  return operation === 'profile' ? PROFILE_CACHE : { ...DEFAULT_VENDOR_CACHE, ...adapter.cache };
+}
+
+/**
+ * Freshness of a result assembled from several vendors' cached answers
+ */
+export function summarizeCache(vendors: VendorSearchStatus[], now = Date.now()): ComparisonCacheInfo {
+  const metas = vendors.flatMap(v => (v.cache ? [v.cache] : []));
+  const oldest = metas.length > 0 ? Math.min(...metas.map(m => Date.parse(m.storedAt))) : now;
+
+  return {
+    hit: metas.length > 0 && metas.every(m => m.status === 'hit' || m.status === 'stale'),
+    stale: metas.some(m => m.status === 'stale'),
+    asOf: new Date(oldest).toISOString()
+  };
+}
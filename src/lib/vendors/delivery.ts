@@ -0,0 +1,13 @@
+/**
+ * Delivery estimates
+ * Vendors quote delivery as text ("1-2 days", "3 days"); comparisons need a number.
+ */
+
+// "1-2 days" -> 1.5, "3 days" -> 3, anything without a number -> null
+export function deliveryDays(deliveryTime?: string): number | null {
+  const match = deliveryTime?.match(/(\d+)(?:\s*-\s*(\d+))?/);
+  if (!match) return null;
+  const from = parseInt(match[1]);
+  const to = match[2] ? parseInt(match[2]) : from;
+  return (from + to) / 2;
+}
@@ -0,0 +1,170 @@
+/**
+ * Recorded-fixture vendor adapters
+ * Serve a vendor's recorded API responses through the live normalization code, so the
+ * comparison search runs offline and in development without vendor credentials.
+ */
+
+import type { Product } from '@/types/comparison';
+import type {
+  VendorAdapter,
+  VendorCallLimits,
+  VendorCallOptions,
+  VendorHealth,
+  VendorOffer,
+  VendorProfile,
+  VendorSearchOptions
+} from './types';
+import type { CachePolicy } from '@/lib/cache/types';
+import { deliveryDays } from './delivery';
+
+export interface FixtureAdapterOptions {
+  latencyMs?: number; // Simulated response time, e.g. to exercise timeouts
+}
+
+// Store terms recorded with the fixture; average delivery is worked out from the listings
+export type FixtureStore = Omit<VendorProfile, 'vendorId' | 'avgDeliveryDays'>;
+
+export interface FixtureRecording<Raw> {
+  recordedAt: string;
+  store: FixtureStore;
+  items: Raw[];
+}
+
+interface CatalogEntry<Raw> {
+  raw: Raw;
+  product: Product;
+  tokens: string[];
+}
+
+// "Levi's WH-1000XM5" -> ['levis', 'wh', '1000xm5']
+export function searchTokens(text: string): string[] {
+  return text.toLowerCase().replace(/['’]/g, '').split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+export abstract class FixtureVendorAdapter<Raw> implements VendorAdapter {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  readonly country: string = 'IN';
+  readonly currency: string = 'INR';
+  limits?: Partial<VendorCallLimits>;
+  cache?: Partial<CachePolicy>;
+
+  private latencyMs: number;
+  private catalog: CatalogEntry<Raw>[] | null = null;
+
+  constructor(options: FixtureAdapterOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  protected abstract recording(): FixtureRecording<Raw>;
+
+  protected abstract normalize(raw: Raw, recordedAt: Date): Product;
+
+  /**
+   * Offers for one recorded item; vendors that list several sellers override this
+   */
+  protected offers(raw: Raw, product: Product): VendorOffer[] {
+    return [{
+      vendorId: this.id,
+      vendor: this.name,
+      productId: product.id,
+      seller: this.name,
+      price: product.price,
+      originalPrice: product.originalPrice,
+      currency: product.currency,
+      inStock: product.inStock,
+      deliveryTime: product.deliveryTime,
+      url: product.url
+    }];
+  }
+
+  /**
+   * Every query token must prefix a token of the title, brand, category or description
+   */
+  async search(query: string, options: VendorSearchOptions = {}): Promise<Product[]> {
+    await this.respond(options.signal);
+
+    const queryTokens = searchTokens(query);
+    if (queryTokens.length === 0) return [];
+    const category = options.category?.toLowerCase();
+
+    return this.getCatalog()
+      .filter(entry => !category || category === 'all' || entry.product.category.toLowerCase() === category)
+      .filter(entry => queryTokens.every(q => entry.tokens.some(token => token.startsWith(q))))
+      .slice(0, options.limit ?? 20)
+      .map(entry => ({ ...entry.product }));
+  }
+
+  async getProduct(productId: string, options: VendorCallOptions = {}): Promise<Product | null> {
+    await this.respond(options.signal);
+    const entry = this.getCatalog().find(e => e.product.id === productId);
+    return entry ? { ...entry.product } : null;
+  }
+
+  async getOffers(productId: string, options: VendorCallOptions = {}): Promise<VendorOffer[]> {
+    await this.respond(options.signal);
+    const entry = this.getCatalog().find(e => e.product.id === productId);
+    return entry ? this.offers(entry.raw, entry.product) : [];
+  }
+
+  async health(): Promise<VendorHealth> {
+    return {
+      vendorId: this.id,
+      status: 'up',
+      latencyMs: this.latencyMs,
+      checkedAt: new Date().toISOString(),
+      mode: 'fixture',
+      detail: `Serving responses recorded at ${this.recording().recordedAt}`
+    };
+  }
+
+  async profile(options: VendorCallOptions = {}): Promise<VendorProfile> {
+    await this.respond(options.signal);
+    const estimates = this.getCatalog()
+      .map(entry => deliveryDays(entry.product.deliveryTime))
+      .filter((days): days is number => days !== null);
+
+    return {
+      ...this.recording().store,
+      vendorId: this.id,
+      avgDeliveryDays: estimates.length > 0
+        ? Math.round((estimates.reduce((sum, days) => sum + days, 0) / estimates.length) * 10) / 10
+        : null
+    };
+  }
+
+  // Built on first use, after the subclass has set its id and name
+  private getCatalog(): CatalogEntry<Raw>[] {
+    if (!this.catalog) {
+      const { recordedAt, store, items } = this.recording();
+      const recordedDate = new Date(recordedAt);
+      this.catalog = items.map(raw => {
+        const listing = this.normalize(raw, recordedDate);
+        // Store-wide terms go on every listing so the true cost can be worked out from it
+        const product: Product = {
+          ...listing,
+          cashbackRate: store.cashbackRate,
+          fees: store.fees,
+          shippingFee: this.offers(raw, listing)[0]?.shippingFee
+        };
+        const text = [product.name, product.brand, product.category, product.description].join(' ');
+        return { raw, product, tokens: searchTokens(text) };
+      });
+    }
+    return this.catalog;
+  }
+
+  private respond(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const timer = setTimeout(resolve, this.latencyMs);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      }, { once: true });
+    });
+  }
+}
+
+export const discountPercent = (price: number, originalPrice?: number) =>
+  originalPrice && originalPrice > price ? Math.round(((originalPrice - price) / originalPrice) * 100) : 0;
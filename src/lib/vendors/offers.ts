@@ -0,0 +1,65 @@
+/**
+ * Cross-store offers
+ * Finds the product a query names on every vendor, then lists every seller's offer for it.
+ */
+
+import type { Product } from '@/types/comparison';
+import { clusterProducts } from '@/lib/product-matching/cluster';
+import { vendorRegistry, type VendorRegistry } from './registry';
+import { cachedVendorCall, searchVendors } from './search';
+import type { VendorOffer, VendorPricesResponse } from './types';
+
+// The search result itself, for a vendor whose offers call failed
+function offerFromListing(vendorId: string, product: Product): VendorOffer {
+  return {
+    vendorId,
+    vendor: product.vendor,
+    productId: product.id,
+    seller: product.vendor,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    currency: product.currency,
+    inStock: product.inStock,
+    shippingFee: product.shippingFee,
+    deliveryTime: product.deliveryTime,
+    url: product.url
+  };
+}
+
+/**
+ * Offers for the best-matched product; `product` is null when no vendor lists anything matching
+ */
+export async function findVendorOffers(
+  query: string,
+  registry: VendorRegistry = vendorRegistry
+): Promise<VendorPricesResponse> {
+  const outcome = await searchVendors(query, {}, registry);
+  const partial = outcome.vendors.some(v => v.status !== 'ok');
+  const [product] = clusterProducts(outcome.products);
+
+  if (!product) {
+    return { product: null, offers: [], vendors: outcome.vendors, partial };
+  }
+
+  const offers = await Promise.all(product.offers.map(async ({ product: listing }) => {
+    const adapter = registry.forProduct(listing.id);
+    if (!adapter) return [];
+
+    try {
+      const { value: vendorOffers } = await cachedVendorCall(adapter, 'offers', listing.id, signal =>
+        adapter.getOffers(listing.id, { signal })
+      );
+      return vendorOffers.length > 0 ? vendorOffers : [offerFromListing(adapter.id, listing)];
+    } catch (error) {
+      console.error(`Error fetching offers from vendor ${adapter.id}:`, error);
+      return [offerFromListing(adapter.id, listing)];
+    }
+  }));
+
+  return {
+    product,
+    offers: offers.flat().sort((a, b) => a.price - b.price),
+    vendors: outcome.vendors,
+    partial
+  };
+}
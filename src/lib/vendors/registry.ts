@@ -0,0 +1,61 @@
+/**
+ * Vendor Registry
+ * The stores the comparison search queries. Adapters are looked up by id or display name.
+ */
+
+import type { VendorAdapter } from './types';
+import { AmazonInAdapter } from './adapters/amazon-in';
+import { FlipkartAdapter } from './adapters/flipkart';
+import { MyntraAdapter } from './adapters/myntra';
+import { AjioAdapter } from './adapters/ajio';
+
+export class VendorRegistry {
+  private adapters: Map<string, VendorAdapter> = new Map();
+
+  register(adapter: VendorAdapter): void {
+    this.adapters.set(adapter.id, adapter);
+  }
+
+  unregister(vendorId: string): boolean {
+    return this.adapters.delete(vendorId);
+  }
+
+  get(vendorId: string): VendorAdapter | undefined {
+    return this.adapters.get(vendorId);
+  }
+
+  list(): VendorAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+
+  /**
+   * The vendor a listing came from; adapters prefix product ids with their own id ("flipkart-MOBG…")
+   */
+  forProduct(productId: string): VendorAdapter | undefined {
+    return this.list()
+      .filter(a => productId.startsWith(`${a.id}-`))
+      .sort((a, b) => b.id.length - a.id.length)[0];
+  }
+
+  /**
+   * Match ids or display names, case-insensitively ("flipkart", "Amazon.in")
+   */
+  resolve(idsOrNames: string[]): { adapters: VendorAdapter[]; unknown: string[] } {
+    const adapters: VendorAdapter[] = [];
+    const unknown: string[] = [];
+
+    idsOrNames.forEach(value => {
+      const wanted = value.trim().toLowerCase();
+      const adapter = this.list().find(a => a.id === wanted || a.name.toLowerCase() === wanted);
+      if (!adapter) unknown.push(value);
+      else if (!adapters.includes(adapter)) adapters.push(adapter);
+    });
+
+    return { adapters, unknown };
+  }
+}
+
+// Recorded fixtures until live credentials are configured
+export const vendorRegistry = new VendorRegistry();
+[new AmazonInAdapter(), new FlipkartAdapter(), new MyntraAdapter(), new AjioAdapter()]
+  .forEach(adapter => vendorRegistry.register(adapter));
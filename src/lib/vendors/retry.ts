@@ -0,0 +1,56 @@
+/**
+ * Vendor call errors and retries
+ */
+
+export class APIError extends Error {
+  constructor(
+    public vendor: string,
+    public originalError: Error,
+    public isRetryable: boolean = false
+  ) {
+    super(`${vendor} API Error: ${originalError.message}`);
+  }
+}
+
+// The vendor's time budget ran out; the call was aborted
+export class VendorTimeoutError extends Error {
+  constructor(public vendor: string, public timeoutMs: number) {
+    super(`${vendor} did not respond within ${timeoutMs}ms`);
+  }
+}
+
+// Our own outbound limit for the vendor, not a response from the vendor
+export class VendorRateLimitError extends Error {
+  constructor(public vendor: string, public retryAfterMs: number) {
+    super(`${vendor} rate limit reached, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+  }
+}
+
+export interface RetryOptions {
+  signal?: AbortSignal; // Stop retrying once aborted
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export async function fetchWithRetry<T>(
+  apiCall: () => Promise<T>,
+  vendor: string,
+  maxRetries: number = 3,
+  delay: number = 1000,
+  options: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await apiCall();
+    } catch (error) {
+      const retryable = !options.signal?.aborted && (options.shouldRetry?.(error) ?? true);
+      if (attempt === maxRetries || !retryable) {
+        throw error instanceof APIError ? error : new APIError(vendor, error as Error, retryable);
+      }
+
+      // Exponential backoff
+      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, attempt - 1)));
+    }
+  }
+
+  throw new Error('Should never reach here');
+}
@@ -0,0 +1,137 @@
+/**
+ * Vendor fan-out
+ * Calls adapters in parallel, each under its own rate limit, retries and time budget.
+ * A vendor that fails or times out is reported, not fatal: the others still answer.
+ */
+
+import type { Product, VendorSearchStatus } from '@/types/comparison';
+import { RateLimiter } from '@/lib/rate-limit/limiter';
+import type { CachedValue } from '@/lib/cache/swr-cache';
+import { APIError, VendorRateLimitError, VendorTimeoutError, fetchWithRetry } from './retry';
+import { vendorRegistry, type VendorRegistry } from './registry';
+import { vendorCache, vendorCachePolicy, type VendorOperation } from './cache';
+import type { VendorAdapter, VendorCallLimits } from './types';
+
+export const DEFAULT_VENDOR_LIMITS: VendorCallLimits = {
+  timeoutMs: 3000,
+  retries: 2,
+  retryDelayMs: 200,
+  rateLimit: { limit: 60, windowMs: 60000, burst: 10 }
+};
+
+// Outbound limits per vendor, shared by every request in this process
+const limiter = new RateLimiter({ maxKeys: 1000 });
+
+export interface VendorSearchOutcome {
+  products: Product[];
+  vendors: VendorSearchStatus[];
+}
+
+/**
+ * Run one adapter call with the vendor's rate limit, retries and timeout.
+ * The signal passed to `run` aborts when the time budget is spent.
+ */
+export async function callVendor<T>(adapter: VendorAdapter, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const limits = { ...DEFAULT_VENDOR_LIMITS, ...adapter.limits };
+
+  const decision = limiter.check(adapter.id, {
+    id: `vendor:${adapter.id}`,
+    scope: 'vendor',
+    algorithm: 'token-bucket',
+    ...limits.rateLimit
+  });
+  if (!decision.allowed) {
+    throw new VendorRateLimitError(adapter.name, decision.retryAfterMs);
+  }
+
+  const controller = new AbortController();
+  const timeoutError = new VendorTimeoutError(adapter.name, limits.timeoutMs);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort(timeoutError);
+      reject(timeoutError);
+    }, limits.timeoutMs);
+  });
+
+  try {
+    return await Promise.race([
+      fetchWithRetry(() => run(controller.signal), adapter.name, limits.retries + 1, limits.retryDelayMs, {
+        signal: controller.signal
+      }),
+      deadline
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * callVendor behind the vendor cache; `args` must identify the call within the operation.
+ * Cache hits don't spend the vendor's rate limit.
+ */
+export function cachedVendorCall<T>(
+  adapter: VendorAdapter,
+  operation: VendorOperation,
+  args: string,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<CachedValue<T>> {
+  return vendorCache.get(
+    `${adapter.id}:${operation}:${args}`,
+    vendorCachePolicy(adapter, operation),
+    () => callVendor(adapter, run)
+  );
+}
+
+export function vendorFailureStatus(error: unknown): VendorSearchStatus['status'] {
+  const cause = error instanceof APIError ? error.originalError : error;
+  if (cause instanceof VendorTimeoutError) return 'timeout';
+  if (cause instanceof VendorRateLimitError) return 'rate-limited';
+  return 'error';
+}
+
+/**
+ * Search the given vendors (all registered vendors by default) in parallel
+ */
+export async function searchVendors(
+  query: string,
+  options: { category?: string; limit?: number; vendors?: VendorAdapter[] } = {},
+  registry: VendorRegistry = vendorRegistry
+): Promise<VendorSearchOutcome> {
+  const adapters = options.vendors ?? registry.list();
+
+  const outcomes = await Promise.all(adapters.map(async adapter => {
+    const startedAt = Date.now();
+    try {
+      const args = [query.trim().toLowerCase().replace(/\s+/g, ' '), options.category || '', options.limit || ''].join('|');
+      const { value: products, meta } = await cachedVendorCall(adapter, 'search', args, signal =>
+        adapter.search(query, { category: options.category, limit: options.limit, signal })
+      );
+      const status: VendorSearchStatus = {
+        vendorId: adapter.id,
+        vendor: adapter.name,
+        status: 'ok',
+        resultCount: products.length,
+        latencyMs: Date.now() - startedAt,
+        cache: meta
+      };
+      return { products, status };
+    } catch (error) {
+      console.error(`Error searching vendor ${adapter.id}:`, error);
+      const status: VendorSearchStatus = {
+        vendorId: adapter.id,
+        vendor: adapter.name,
+        status: vendorFailureStatus(error),
+        resultCount: 0,
+        latencyMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+      return { products: [] as Product[], status };
+    }
+  }));
+
+  return {
+    products: outcomes.flatMap(o => o.products),
+    vendors: outcomes.map(o => o.status)
+  };
+}
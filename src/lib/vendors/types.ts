@@ -0,0 +1,91 @@
+/**
+ * Vendor adapter types
+ * Every store the comparison search can query implements VendorAdapter; the registry
+ * and search fan-out only ever talk to this interface.
+ */
+
+import type { CanonicalProduct, OrderFees, Product, VendorSearchStatus } from '@/types/comparison';
+import type { CachePolicy } from '@/lib/cache/types';
+
+// Types
+export interface VendorSearchOptions {
+  category?: string;
+  limit?: number;
+  signal?: AbortSignal; // Aborted when the vendor's timeout expires
+}
+
+export interface VendorCallOptions {
+  signal?: AbortSignal;
+}
+
+// One seller's price for a product on a vendor
+export interface VendorOffer {
+  vendorId: string;
+  vendor: string;
+  productId: string;
+  seller: string;
+  price: number;
+  originalPrice?: number;
+  currency: string;
+  inStock: boolean;
+  shippingFee?: number; // 0 for free delivery, undefined when the vendor doesn't say
+  deliveryTime?: string;
+  url: string;
+}
+
+export type VendorHealthStatus = 'up' | 'degraded' | 'down';
+
+export interface VendorHealth {
+  vendorId: string;
+  status: VendorHealthStatus;
+  latencyMs: number;
+  checkedAt: string;
+  mode: 'live' | 'fixture';
+  detail?: string;
+}
+
+export interface VendorReturnPolicy {
+  days: number; // From delivery
+  type: 'refund' | 'replacement' | 'exchange';
+}
+
+// Store-wide terms and reputation, as opposed to any one listing
+export interface VendorProfile {
+  vendorId: string;
+  logo: string;
+  rating: number; // Store rating out of 5
+  ratingCount: number;
+  cashbackRate: number; // Percent paid on purchases through our links
+  returnPolicy: VendorReturnPolicy;
+  fees: OrderFees;
+  avgDeliveryDays: number | null; // Over the vendor's current listings; null when none give an estimate
+}
+
+export interface VendorCallLimits {
+  timeoutMs: number; // Whole call including retries
+  retries: number;
+  retryDelayMs: number;
+  rateLimit: { limit: number; windowMs: number; burst?: number };
+}
+
+export interface VendorAdapter {
+  id: string; // URL-safe, e.g. 'amazon-in'
+  name: string; // Display name, used as Product.vendor
+  country: string;
+  currency: string;
+  limits?: Partial<VendorCallLimits>;
+  cache?: Partial<CachePolicy>; // How long this vendor's answers stay fresh
+  search(query: string, options?: VendorSearchOptions): Promise<Product[]>;
+  getProduct(productId: string, options?: VendorCallOptions): Promise<Product | null>;
+  getOffers(productId: string, options?: VendorCallOptions): Promise<VendorOffer[]>;
+  health(): Promise<VendorHealth>;
+  profile(options?: VendorCallOptions): Promise<VendorProfile>;
+}
+
+// GET /api/comparison/vendors
+export interface VendorPricesResponse {
+  product: CanonicalProduct | null; // The product the query matched, across stores
+  offers: VendorOffer[]; // Every seller on every store listing it, cheapest first
+  vendors: VendorSearchStatus[];
+  partial: boolean;
+}
@@ -0,0 +1,71 @@
+/**
+ * Vendor Info
+ * Store-level details for the comparison UI: the vendor's published terms plus a trust
+ * score worked out from its rating, return policy, delivery speed and current health.
+ */
+
+import type { VendorInfo } from '@/types/comparison';
+import { cachedVendorCall } from './search';
+import type { VendorAdapter, VendorHealth, VendorProfile, VendorReturnPolicy } from './types';
+
+// Reviews a store rating needs before it counts at face value; fewer pull it toward the prior
+const RATING_PRIOR_COUNT = 5000;
+const RATING_PRIOR = 3.5;
+
+const TRUST_WEIGHTS = { rating: 0.45, returns: 0.25, delivery: 0.15, health: 0.15 };
+
+// How much of a return window is worth when it only gets you a swap
+const RETURN_TYPE_FACTOR: Record<VendorReturnPolicy['type'], number> = { refund: 1, exchange: 0.8, replacement: 0.6 };
+
+const HEALTH_FACTOR: Record<VendorHealth['status'], number> = { up: 1, degraded: 0.5, down: 0 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * 0-100; a thinly rated store, short or swap-only returns, slow delivery or an unhealthy
+ * API all pull it down
+ */
+export function trustScore(profile: VendorProfile, health: VendorHealth['status']): number {
+  const rating = (profile.rating * profile.ratingCount + RATING_PRIOR * RATING_PRIOR_COUNT) /
+    (profile.ratingCount + RATING_PRIOR_COUNT);
+  const factors = {
+    rating: clamp01((rating - 1) / 4),
+    returns: (Math.min(profile.returnPolicy.days, 30) / 30) * RETURN_TYPE_FACTOR[profile.returnPolicy.type],
+    // Next-day scores full marks, a week or more none; unknown is neutral
+    delivery: profile.avgDeliveryDays === null ? 0.5 : clamp01((7 - profile.avgDeliveryDays) / 6),
+    health: HEALTH_FACTOR[health]
+  };
+
+  const score = (Object.keys(TRUST_WEIGHTS) as Array<keyof typeof TRUST_WEIGHTS>)
+    .reduce((sum, factor) => sum + TRUST_WEIGHTS[factor] * factors[factor], 0);
+  return Math.round(score * 100);
+}
+
+export function describeReturnPolicy({ days, type }: VendorReturnPolicy): string {
+  switch (type) {
+    case 'refund':
+      return `${days}-day returns with full refund`;
+    case 'exchange':
+      return `${days}-day exchange`;
+    case 'replacement':
+      return `${days}-day replacement only`;
+  }
+}
+
+export async function getVendorInfo(adapter: VendorAdapter): Promise<VendorInfo> {
+  const [profile, health] = await Promise.all([
+    cachedVendorCall(adapter, 'profile', '', signal => adapter.profile({ signal })).then(cached => cached.value),
+    adapter.health().then(h => h.status).catch((): VendorHealth['status'] => 'down')
+  ]);
+
+  return {
+    id: adapter.id,
+    name: adapter.name,
+    logo: profile.logo,
+    rating: profile.rating,
+    trustScore: trustScore(profile, health),
+    cashbackRate: profile.cashbackRate,
+    avgDeliveryTime: profile.avgDeliveryDays === null ? 'Not quoted' : `${profile.avgDeliveryDays} days`,
+    returnPolicy: describeReturnPolicy(profile.returnPolicy)
+  };
+}
@@ -61,7 +61,7 @@ class WalletAPI {
 
   private async getAuthHeaders(): Promise<HeadersInit> {
     // Check if login is enabled
-    const { isFeatureEnabled } = await import('@/lib/feature-toggles-client');
+    const { isFeatureEnabled } = await import('@/lib/feature-flags/client');
     const loginEnabled = await isFeatureEnabled('Login');
     
     const headers: HeadersInit = {
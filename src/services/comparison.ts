@@ -5,8 +5,13 @@ import {
   ComparisonStats,
   VendorInfo,
   ComparisonCategory,
-  SearchSuggestion 
+  SearchSuggestion,
+  ProductComparison,
+  LandedCostOptions
 } from '@/types/comparison';
+import type { VendorPricesResponse } from '@/lib/vendors/types';
+import { deliveryDays } from '@/lib/vendors/delivery';
+import { rankByLandedCost } from '@/lib/price-comparison/landed-cost';
 
 class ComparisonService {
   private apiBase = '/api/comparison';
@@ -26,6 +31,8 @@ class ComparisonService {
       ...(filters?.inStock !== undefined && { inStock: filters.inStock.toString() }),
       ...(filters?.sortBy && { sortBy: filters.sortBy }),
       ...(filters?.sortOrder && { sortOrder: filters.sortOrder }),
+      ...(filters?.paymentMethod && { payment: filters.paymentMethod }),
+      ...(filters?.waitingCostPerDay && { waitCost: filters.waitingCostPerDay.toString() }),
     });
 
     const response = await fetch(`${this.apiBase}/search?${params}`);
@@ -35,11 +42,11 @@ class ComparisonService {
     return response.json();
   }
 
-  async compareProducts(productIds: string[]): Promise<Product[]> {
+  async compareProducts(productIds: string[], costOptions: LandedCostOptions = {}): Promise<ProductComparison> {
     const response = await fetch(`${this.apiBase}/compare`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ productIds })
+      body: JSON.stringify({ productIds, ...costOptions })
     });
     
     if (!response.ok) {
@@ -48,7 +55,7 @@ class ComparisonService {
     return response.json();
   }
 
-  async getVendorPrices(productName: string): Promise<Product[]> {
+  async getVendorPrices(productName: string): Promise<VendorPricesResponse> {
     const response = await fetch(
       `${this.apiBase}/vendors?product=${encodeURIComponent(productName)}`
     );
@@ -59,7 +66,7 @@ class ComparisonService {
     return response.json();
   }
 
-  async getComparisonStats(products: Product[]): Promise<ComparisonStats> {
+  async getComparisonStats(products: Product[], costOptions: LandedCostOptions = {}): Promise<ComparisonStats> {
     const bestPrice = products.reduce((min, product) => 
       product.price < min.price ? product : min
     );
@@ -79,18 +86,22 @@ class ComparisonService {
     );
     
     const fastestDelivery = products.reduce((fastest, product) => {
-      if (!product.deliveryTime || !fastest.deliveryTime) return fastest;
-      const productDays = this.parseDeliveryDays(product.deliveryTime);
-      const fastestDays = this.parseDeliveryDays(fastest.deliveryTime);
-      return productDays < fastestDays ? product : fastest;
+      const productDays = deliveryDays(product.deliveryTime);
+      const fastestDays = deliveryDays(fastest.deliveryTime);
+      if (productDays === null) return fastest;
+      return fastestDays === null || productDays < fastestDays ? product : fastest;
     });
 
+    const landedCosts = rankByLandedCost(products, costOptions);
+
     return {
       bestPrice,
       highestRated,
       bestValue,
       biggestDiscount,
-      fastestDelivery
+      fastestDelivery,
+      bestLandedCost: landedCosts[0],
+      landedCosts
     };
   }
 
@@ -113,37 +124,12 @@ class ComparisonService {
   }
 
   async getVendorInfo(vendorId: string): Promise<VendorInfo> {
-    const response = await fetch(`${this.apiBase}/vendors/${vendorId}`);
+    const response = await fetch(`${this.apiBase}/vendors/${encodeURIComponent(vendorId)}`);
     if (!response.ok) {
       throw new Error('Failed to get vendor info');
     }
     return response.json();
   }
-
-  private parseDeliveryDays(deliveryTime: string): number {
-    const match = deliveryTime.match(/(\d+)/);
-    return match ? parseInt(match[1]) : 999;
-  }
-
-  // Cache results for better performance
-  private cache = new Map<string, { data: any; timestamp: number }>();
-  private CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-  private getCacheKey(method: string, params: any): string {
-    return `${method}_${JSON.stringify(params)}`;
-  }
-
-  private getFromCache<T>(key: string): T | null {
-    const cached = this.cache.get(key);
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data;
-    }
-    return null;
-  }
-
-  private setCache(key: string, data: any): void {
-    this.cache.set(key, { data, timestamp: Date.now() });
-  }
 }
 
 export const comparisonService = new ComparisonService();
@@ -1,7 +1,11 @@
-// Real Vendor API Integration for DealMate Comparison Feature
-// Replace the mock data in /api/comparison/search/route.ts with these implementations
+// US store API clients. The comparison search route queries the adapters in lib/vendors;
+// these are kept as references for writing live adapters.
 
 import { Product } from '@/types/comparison';
+import { RateLimiter } from '@/lib/rate-limit/limiter';
+import { APIError, fetchWithRetry } from '@/lib/vendors/retry';
+import { getCacheBackend } from '@/lib/cache/backends';
+import type { CacheBackend } from '@/lib/cache/types';
 
 // ============================================================================
 // AMAZON PRODUCT ADVERTISING API
@@ -298,20 +302,19 @@ BESTBUY_API_KEY=your_bestbuy_api_key
 // CACHING LAYER
 // ============================================================================
 
+// Kept for callers of the old API; backed by the shared cache backend (lib/cache) instead of
+// its own Redis client, so DEALMATE_CACHE_BACKEND or setCacheBackend choose where it stores
 export class CacheService {
-  private redis: any; // Use ioredis or node-redis
-
-  constructor(redisUrl: string) {
-    // Initialize Redis connection
-  }
+  constructor(private backend: CacheBackend = getCacheBackend()) {}
 
   async get(key: string): Promise<Product[] | null> {
-    const cached = await this.redis.get(key);
-    return cached ? JSON.parse(cached) : null;
+    const cached = await this.backend.get<Product[]>(key);
+    return cached && Date.now() < cached.freshUntil ? cached.value : null;
   }
 
   async set(key: string, data: Product[], ttl: number = 300): Promise<void> {
-    await this.redis.setex(key, ttl, JSON.stringify(data));
+    const storedAt = Date.now();
+    await this.backend.set(key, { value: data, storedAt, freshUntil: storedAt + ttl * 1000, staleUntil: storedAt + ttl * 1000 });
   }
 
   generateKey(query: string, category?: string, filters?: any): string {
@@ -323,61 +326,15 @@ export class CacheService {
 // RATE LIMITING
 // ============================================================================
 
-export class RateLimiter {
-  private requests: Map<string, number[]> = new Map();
-
-  isAllowed(apiName: string, maxRequests: number, windowMs: number): boolean {
-    const now = Date.now();
-    const requests = this.requests.get(apiName) || [];
-    
-    // Remove old requests outside the window
-    const validRequests = requests.filter(time => now - time < windowMs);
-    
-    if (validRequests.length >= maxRequests) {
-      return false;
-    }
-
-    validRequests.push(now);
-    this.requests.set(apiName, validRequests);
-    return true;
-  }
-}
+// Shared with the API route limits; isAllowed keeps the per-API sliding window
+export { RateLimiter };
 
 // ============================================================================
 // ERROR HANDLING
 // ============================================================================
 
-export class APIError extends Error {
-  constructor(
-    public vendor: string,
-    public originalError: Error,
-    public isRetryable: boolean = false
-  ) {
-    super(`${vendor} API Error: ${originalError.message}`);
-  }
-}
-
-export async function fetchWithRetry<T>(
-  apiCall: () => Promise<T>,
-  vendor: string,
-  maxRetries: number = 3,
-  delay: number = 1000
-): Promise<T> {
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      return await apiCall();
-    } catch (error) {
-      if (attempt === maxRetries) {
-        throw new APIError(vendor, error as Error, false);
-      }
-      
-      // Exponential backoff
-      await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, attempt - 1)));
-    }
-  }
-  
-  throw new Error('Should never reach here');
-}
+// Moved next to the vendor adapters that use them
+export { APIError, fetchWithRetry };
 
 export default {
   AmazonAPI,
@@ -1,8 +1,15 @@
+import type { CacheMeta } from '@/lib/cache/types';
+
 export interface Product {
   id: string;
   name: string;
   description: string;
   category: string;
+  brand?: string;
+  identifiers?: {
+    gtin?: string; // EAN/UPC
+    mpn?: string; // Manufacturer part number
+  };
   vendor: string;
   price: number;
   originalPrice?: number;
@@ -16,11 +23,20 @@ export interface Product {
   url: string;
   discount?: number;
   cashbackRate?: number;
+  shippingFee?: number; // 0 for free delivery, undefined when the vendor doesn't say
+  fees?: OrderFees;
   affiliateLink?: string;
   inStock: boolean;
   lastUpdated: Date;
 }
 
+// Per-order charges on top of the item price
+export interface OrderFees {
+  cod: number; // Cash on delivery handling
+  convenience: number; // Platform or convenience fee on every order
+  taxIncluded: boolean; // False when GST is added to shipping and fees at checkout
+}
+
 export interface ComparisonResult {
   products: Product[];
   category: string;
@@ -32,6 +48,70 @@ export interface ComparisonResult {
   };
   avgRating: number;
   timestamp: Date;
+  vendors: VendorSearchStatus[]; // One entry per vendor queried
+  partial: boolean; // Some vendors failed; products are from the rest
+  canonicalProducts: CanonicalProduct[]; // The same products, grouped by what they are
+  cache: ComparisonCacheInfo;
+}
+
+// How fresh the vendor data behind a result is
+export interface ComparisonCacheInfo {
+  hit: boolean; // Every vendor that answered was served from cache
+  stale: boolean; // Some of it is past its TTL and being refreshed
+  asOf: string; // When the oldest vendor data in the result was fetched
+}
+
+export type MatchSignal = 'identifier' | 'model' | 'title' | 'storage' | 'ram' | 'colour';
+
+export interface ProductMatch {
+  product: Product;
+  confidence: number; // 0-1 that this listing is the canonical product
+  matchedOn: MatchSignal[];
+}
+
+// One SKU as sold by one or more vendors
+export interface CanonicalProduct {
+  id: string;
+  name: string;
+  brand?: string;
+  model?: string;
+  attributes: {
+    storage?: string;
+    ram?: string;
+    colour?: string;
+  };
+  offers: ProductMatch[]; // At most one per vendor, cheapest first
+  priceRange: {
+    min: number;
+    max: number;
+  };
+}
+
+export interface VendorSearchStatus {
+  vendorId: string;
+  vendor: string;
+  status: 'ok' | 'timeout' | 'rate-limited' | 'error';
+  resultCount: number;
+  latencyMs: number;
+  error?: string;
+  cache?: CacheMeta; // Absent when the vendor call failed
+}
+
+export type ComparisonValue = string | number | boolean | null;
+
+export interface ComparisonRow {
+  attribute: string; // 'price', 'storage', ...
+  label: string;
+  format: 'currency' | 'percent' | 'rating' | 'count' | 'days' | 'capacity' | 'boolean' | 'score' | 'text';
+  values: ComparisonValue[]; // In product order; null when a listing doesn't say. Capacities are in GB.
+  winners: string[]; // Ids of the products with the best value; empty when there is nothing to pick between
+}
+
+// POST /api/comparison/compare
+export interface ProductComparison {
+  products: Product[];
+  rows: ComparisonRow[];
+  missing: string[]; // Requested ids no vendor returned
 }
 
 export interface ComparisonFilters {
@@ -41,8 +121,34 @@ export interface ComparisonFilters {
   rating?: number;
   inStock?: boolean;
   category?: string;
-  sortBy?: 'price' | 'rating' | 'name' | 'discount';
+  sortBy?: 'price' | 'rating' | 'name' | 'discount' | 'landedCost';
   sortOrder?: 'asc' | 'desc';
+  paymentMethod?: LandedCostOptions['paymentMethod'];
+  waitingCostPerDay?: number;
+}
+
+export interface LandedCostOptions {
+  paymentMethod?: 'prepaid' | 'cod'; // COD fees only apply to cash on delivery
+  waitingCostPerDay?: number; // What a day's wait is worth to the user, in the product currency
+}
+
+export interface LandedCostBreakdown {
+  itemPrice: number;
+  shipping: number;
+  codFee: number;
+  convenienceFee: number;
+  gst: number; // On shipping and fees, when the vendor quotes them before tax
+  cashback: number; // Subtracted from the total
+  waitingCost: number;
+}
+
+// What a listing really costs once it is delivered
+export interface LandedCost {
+  product: Product;
+  total: number;
+  breakdown: LandedCostBreakdown;
+  deliveryDays: number | null;
+  assumed: Array<'shipping' | 'delivery'>; // Parts the vendor didn't quote, estimated instead
 }
 
 export interface ComparisonStats {
@@ -51,6 +157,8 @@ export interface ComparisonStats {
   bestValue: Product; // Best price/rating ratio
   biggestDiscount: Product;
   fastestDelivery: Product;
+  bestLandedCost: LandedCost;
+  landedCosts: LandedCost[]; // Every product, cheapest delivered first
 }
 
 export interface VendorInfo {
@@ -74,7 +182,8 @@ export interface ComparisonCategory {
 
 export interface SearchSuggestion {
   query: string;
-  category: string;
+  category: string; // Where most of its results are
+  categories?: string[]; // Every category its results span, most common first
   resultCount: number;
   trending: boolean;
 }
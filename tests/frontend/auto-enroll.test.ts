@@ -0,0 +1,162 @@
+import { AutoEnrollEngine, validateAutoEnrollConditions, type AutoEnrollRule } from '@/lib/card-linked/auto-enroll';
+import { useCardLinkedOffers, type CardDetails, type LinkedOffer } from '@/lib/card-linked/offer-engine';
+import type { ActivationRecord } from '@/lib/card-linked/types';
+
+const card = (id: string, overrides: Partial<CardDetails> = {}): CardDetails => ({
+  id,
+  lastFourDigits: '4242',
+  bank: 'HDFC',
+  network: 'visa',
+  type: 'credit',
+  isActive: true,
+  addedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const offer = (id: string, overrides: Partial<LinkedOffer> = {}): LinkedOffer => ({
+  id,
+  cardId: 'c1',
+  merchantName: 'Swiggy',
+  merchantCategory: 'dining',
+  offerType: 'discount',
+  value: 10,
+  valueType: 'percentage',
+  validFrom: '2026-01-01T00:00:00.000Z',
+  validUntil: '2026-12-31T00:00:00.000Z',
+  isActivated: false,
+  termsAndConditions: '',
+  ...overrides
+});
+
+const rule = (id: string, overrides: Partial<AutoEnrollRule> = {}): AutoEnrollRule => ({
+  id,
+  name: id,
+  action: 'activate',
+  enabled: true,
+  conditions: {},
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const failed = (offerId: string, retryable: boolean): ActivationRecord => ({
+  idempotencyKey: `${offerId}:c1`,
+  offerId,
+  cardId: 'c1',
+  status: 'failed',
+  attempts: [{
+    attempt: 1,
+    trigger: { type: 'manual' },
+    status: 'failed',
+    retryable,
+    startedAt: '2026-06-01T00:00:00.000Z',
+    finishedAt: '2026-06-01T00:00:00.000Z'
+  }],
+  createdAt: '2026-06-01T00:00:00.000Z',
+  updatedAt: '2026-06-01T00:00:00.000Z'
+});
+
+const AT = new Date('2026-06-01T00:00:00.000Z');
+
+describe('AutoEnrollEngine.evaluate', () => {
+  it('activates matching offers with the first rule that selects them unless a block rule vetoes', () => {
+    const rules = [
+      rule('dining', { conditions: { merchantCategories: ['Dining'] } }),
+      rule('no-big-spend', { action: 'block', conditions: { minSpendAbove: 5000 } })
+    ];
+    const offers = [offer('o1'), offer('o2', { minSpend: 10000 }), offer('o3', { merchantCategory: 'travel' })];
+
+    const decisions = AutoEnrollEngine.evaluate(rules, offers, [card('c1')], {}, AT);
+
+    expect(decisions.map(d => [d.offer.id, d.rule.id])).toEqual([['o1', 'dining']]);
+  });
+
+  it('skips offers that are activated, expired, on an inactive card or rejected for good', () => {
+    const rules = [rule('all')];
+    const log = { 'o4:c1': failed('o4', false), 'o5:c1': failed('o5', true) };
+    const offers = [
+      offer('o1', { isActivated: true }),
+      offer('o2', { validUntil: '2026-05-01T00:00:00.000Z' }),
+      offer('o3', { cardId: 'c2' }),
+      offer('o4'),
+      offer('o5')
+    ];
+
+    const decisions = AutoEnrollEngine.evaluate(rules, offers, [card('c1'), card('c2', { isActive: false })], log, AT);
+
+    expect(decisions.map(d => d.offer.id)).toEqual(['o5']);
+  });
+
+  it('compares a minimum value only against offers in the same unit', () => {
+    const offers = [offer('pct', { value: 10 }), offer('inr', { value: 200, valueType: 'fixed' })];
+
+    const percent = AutoEnrollEngine.evaluate([rule('5%', { conditions: { valueType: 'percentage', minValue: 5 } })], offers, [], {}, AT);
+    const unitless = AutoEnrollEngine.evaluate([rule('5', { conditions: { minValue: 5 } })], offers, [], {}, AT);
+
+    expect(percent.map(d => d.offer.id)).toEqual(['pct']);
+    expect(unitless).toEqual([]);
+    expect(validateAutoEnrollConditions({ minValue: 5 })).toBe('Choose % or ₹ for the minimum value');
+    expect(validateAutoEnrollConditions({ minValue: 5, valueType: 'fixed' })).toBeNull();
+  });
+});
+
+describe('auto-enroll in the card-linked offer store', () => {
+  const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+  let activations: string[];
+
+  beforeEach(() => {
+    activations = [];
+    // No localStorage under node, so persist warns on every update
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(globalThis, 'fetch').mockImplementation(async (url, init) => {
+      if (String(url) === '/api/card-offers/activate') {
+        const { offerId, cardId } = JSON.parse(String(init?.body));
+        activations.push(offerId);
+        const record: ActivationRecord = {
+          ...failed(offerId, false),
+          cardId,
+          status: 'succeeded',
+          attempts: []
+        };
+        return new Response(JSON.stringify({ success: true, record, replayed: false, retryable: false }));
+      }
+      return new Response(JSON.stringify([offer('o1')]));
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('re-checks the same offers on every fetch and activates each one once', async () => {
+    useCardLinkedOffers.setState({
+      cards: [card('c1', { isActive: false })],
+      autoEnrollRules: [rule('all')],
+      offers: new Map(),
+      activationLog: {}
+    });
+    const { fetchOffers } = useCardLinkedOffers.getState();
+
+    await fetchOffers('c1');
+    await settle();
+    expect(activations).toEqual([]);
+
+    // Same offers and rules, but the card is now active
+    useCardLinkedOffers.setState({ cards: [card('c1')] });
+    await fetchOffers('c1');
+    await settle();
+    expect(activations).toEqual(['o1']);
+
+    await fetchOffers('c1');
+    await settle();
+    expect(activations).toEqual(['o1']);
+  });
+
+  it('refuses a rule whose minimum value has no unit', () => {
+    expect(() => useCardLinkedOffers.getState().addAutoEnrollRule({
+      name: 'worth 5',
+      action: 'activate',
+      enabled: true,
+      conditions: { minValue: 5 }
+    })).toThrow('Choose % or ₹ for the minimum value');
+  });
+});
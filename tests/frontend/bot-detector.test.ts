@@ -0,0 +1,33 @@
+import { BotDetector } from '@/lib/fraud-detection/bot-detector';
+
+const techniques = (detector: BotDetector, identity: string, rateLimited: boolean, now: number) =>
+  detector.observe(identity, 'scan', rateLimited, now).results.map(r => r.technique);
+
+describe('BotDetector', () => {
+  it('flags a client that keeps retrying after being rate limited', () => {
+    const detector = new BotDetector();
+
+    for (let i = 0; i < 4; i++) detector.observe('ip:1', 'scan', true, i * 2000);
+
+    expect(techniques(detector, 'ip:1', true, 8000)).toContain('rate-limit-abuse');
+    expect(techniques(detector, 'ip:2', false, 8000)).toEqual([]);
+  });
+
+  it('forgets rejections older than a minute', () => {
+    const detector = new BotDetector();
+
+    for (let i = 0; i < 5; i++) detector.observe('ip:1', 'scan', true, i * 2000);
+
+    expect(techniques(detector, 'ip:1', false, 70000)).not.toContain('rate-limit-abuse');
+  });
+
+  it('keeps no more rejections per identity than it keeps requests', () => {
+    const detector = new BotDetector({ maxEventsPerIdentity: 10, burstLimit: 1000 });
+
+    let observation = detector.observe('ip:1', 'scan', true, 0);
+    for (let i = 1; i < 50; i++) observation = detector.observe('ip:1', 'scan', true, i * 100);
+
+    const abuse = observation.results.find(r => r.technique === 'rate-limit-abuse');
+    expect(abuse?.reason).toBe('Kept retrying after 10 rate-limited requests in the last minute');
+  });
+});
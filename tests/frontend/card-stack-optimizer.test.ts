@@ -0,0 +1,137 @@
+import { optimizeCardStack } from '@/lib/stacksmart/card-stack-optimizer';
+import type { Deal } from '@/lib/stacksmart/optimization-engine';
+import type { CardDetails, LinkedOffer } from '@/lib/card-linked/offer-engine';
+import type { CardRewardRules } from '@/lib/card-linked/reward-rules';
+
+const card = (id: string, bank: string): CardDetails => ({
+  id,
+  lastFourDigits: '4242',
+  bank,
+  network: 'visa',
+  type: 'credit',
+  isActive: true,
+  addedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const offer = (id: string, cardId: string, overrides: Partial<LinkedOffer> = {}): LinkedOffer => ({
+  id,
+  cardId,
+  merchantName: 'Myntra',
+  merchantCategory: 'fashion',
+  offerType: 'discount',
+  value: 10,
+  valueType: 'percentage',
+  validFrom: '2026-01-01T00:00:00.000Z',
+  validUntil: '2026-12-31T00:00:00.000Z',
+  isActivated: true,
+  termsAndConditions: '',
+  ...overrides
+});
+
+const deal = (id: string, overrides: Partial<Deal>): Deal => ({
+  id,
+  type: 'coupon',
+  value: 10,
+  valueType: 'percentage',
+  stackable: true,
+  priority: 1,
+  ...overrides
+});
+
+const cashbackRules = (cardId: string, percent: number): CardRewardRules => ({
+  cardId,
+  rewardType: 'cashback',
+  baseRate: percent / 100,
+  unitValueInr: 1,
+  rules: []
+});
+
+const PURCHASE_DATE = '2026-06-01T10:00:00.000Z';
+
+describe('optimizeCardStack', () => {
+  it('picks the card whose offers and rewards save the most and ranks the others', () => {
+    const result = optimizeCardStack({
+      purchase: 2000,
+      merchant: 'Myntra',
+      category: 'fashion',
+      cards: [card('hdfc', 'HDFC'), card('icici', 'ICICI')],
+      linkedOffers: [offer('hdfc-10', 'hdfc')],
+      deals: [],
+      rewardRules: { hdfc: cashbackRules('hdfc', 1), icici: cashbackRules('icici', 5) },
+      constraints: { purchaseDate: PURCHASE_DATE }
+    });
+
+    // HDFC: 200 off, 1% of 1800 back = 218. ICICI: 5% of 2000 back = 100.
+    expect(result.cardId).toBe('hdfc');
+    expect(result.totalSavings).toBeCloseTo(218);
+    expect(result.alternatives).toEqual([{ cardId: 'icici', totalSavings: 100, finalPrice: 1900 }]);
+  });
+
+  it('attributes every rupee saved to the coupon, bank offer, card offer, card reward or cashback portal', () => {
+    const result = optimizeCardStack({
+      purchase: 2000,
+      merchant: 'Myntra',
+      category: 'fashion',
+      cards: [card('hdfc', 'HDFC')],
+      linkedOffers: [offer('hdfc-cashback', 'hdfc', { offerType: 'cashback', value: 100, valueType: 'fixed' })],
+      deals: [
+        deal('coupon', { value: 10 }),
+        deal('bank', { type: 'bank-offer', value: 150, valueType: 'fixed' }),
+        deal('portal', { type: 'cashback', value: 2 })
+      ],
+      rewardRules: { hdfc: cashbackRules('hdfc', 1) },
+      constraints: { purchaseDate: PURCHASE_DATE }
+    });
+
+    // 2000 - 200 coupon - 150 bank offer = 1650 charged
+    expect(result.savingsBySource.coupon).toBeCloseTo(200);
+    expect(result.savingsBySource['bank-offer']).toBeCloseTo(150);
+    expect(result.savingsBySource['card-offer']).toBeCloseTo(100);
+    expect(result.savingsBySource.cashback).toBeCloseTo(33);
+    expect(result.savingsBySource['card-reward']).toBeCloseTo(16.5);
+    expect(result.attribution.reduce((sum, a) => sum + a.amount, 0)).toBeCloseTo(result.totalSavings);
+    expect(result.couponDeals.map(d => d.id)).toEqual(['coupon']);
+    expect(result.cardOffers.map(o => o.id)).toEqual(['hdfc-cashback']);
+  });
+
+  it('ignores offers that are not activated, not yet valid or for another merchant', () => {
+    const result = optimizeCardStack({
+      purchase: 1000,
+      merchant: 'Myntra',
+      category: 'fashion',
+      cards: [card('hdfc', 'HDFC')],
+      linkedOffers: [
+        offer('inactive', 'hdfc', { isActivated: false }),
+        offer('future', 'hdfc', { validFrom: '2026-07-01T00:00:00.000Z' }),
+        offer('elsewhere', 'hdfc', { merchantName: 'Swiggy', merchantCategory: 'food' })
+      ],
+      deals: [],
+      rewardRules: { hdfc: cashbackRules('hdfc', 1) },
+      constraints: { purchaseDate: PURCHASE_DATE }
+    });
+
+    expect(result.savingsBySource['card-offer']).toBe(0);
+    expect(result.totalSavings).toBeCloseTo(10);
+  });
+
+  it('keeps to one time budget across all cards', () => {
+    const cards = Array.from({ length: 20 }, (_, i) => card(`card-${i}`, `Bank ${i}`));
+    const deals = Array.from({ length: 8 }, (_, i) => deal(`d${i}`, {
+      type: (['coupon', 'discount', 'gift-card', 'bank-offer', 'cashback', 'points', 'cashback', 'points'] as const)[i],
+      value: 3 + i
+    }));
+
+    const started = Date.now();
+    optimizeCardStack({
+      purchase: 5000,
+      merchant: 'Myntra',
+      category: 'fashion',
+      cards,
+      linkedOffers: [],
+      deals,
+      constraints: { purchaseDate: PURCHASE_DATE, timeLimit: 50 }
+    });
+
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+});
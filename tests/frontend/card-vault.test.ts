@@ -0,0 +1,96 @@
+import {
+  CardVaultLockedError,
+  SecureCardStore,
+  migratePayload,
+  type EncryptedEnvelope
+} from '@/lib/card-linked/secure-card-store';
+import type { CardDetails } from '@/lib/card-linked/offer-engine';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const card = (id: string): CardDetails => ({
+  id,
+  lastFourDigits: '4242',
+  bank: 'HDFC',
+  network: 'visa',
+  type: 'credit',
+  isActive: true,
+  addedAt: '2026-01-01T00:00:00.000Z'
+});
+
+let serverEnvelope: EncryptedEnvelope | null;
+
+beforeEach(() => {
+  serverEnvelope = null;
+  Object.assign(globalThis, { localStorage: new MemoryStorage() });
+  jest.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+    if (init?.method === 'PUT') {
+      serverEnvelope = JSON.parse(String(init.body)).envelope;
+      return new Response(JSON.stringify({ envelope: serverEnvelope }), { status: 200 });
+    }
+    return new Response(JSON.stringify({ envelope: serverEnvelope }), { status: serverEnvelope ? 200 : 404 });
+  });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('migratePayload', () => {
+  it('upgrades the plaintext v1 card list to the current schema', () => {
+    const payload = migratePayload([{ id: 'c1', network: 'VISA' }], 1);
+
+    expect(payload.schemaVersion).toBe(2);
+    expect(payload.cards[0]).toMatchObject({ id: 'c1', network: 'visa', isActive: true });
+  });
+
+  it('rejects data that is not a card list or a current payload', () => {
+    expect(() => migratePayload({ cards: 'none' }, 1)).toThrow('not a card list');
+    expect(() => migratePayload({ cards: [] }, 2)).toThrow('not schema v2');
+  });
+});
+
+describe('SecureCardStore', () => {
+  it('refuses to store cards until a passphrase is set', async () => {
+    const store = new SecureCardStore();
+
+    await expect(store.load()).resolves.toEqual([]);
+    expect(store.getStatus()).toBe('new');
+    await expect(store.saveCard(card('c1'))).rejects.toBeInstanceOf(CardVaultLockedError);
+    await expect(store.unlock('short')).rejects.toThrow('at least 8 characters');
+  });
+
+  it('syncs only ciphertext and opens it on another device with the same passphrase', async () => {
+    const store = new SecureCardStore();
+    await store.unlock('correct horse');
+    await store.saveCard(card('c1'));
+
+    expect(serverEnvelope).toMatchObject({ format: 2, schemaVersion: 2 });
+    expect(JSON.stringify(serverEnvelope)).not.toContain('HDFC');
+
+    // A new device has no cached data key, so the vault starts locked
+    Object.assign(globalThis, { localStorage: new MemoryStorage() });
+    const otherDevice = new SecureCardStore();
+    await otherDevice.load();
+    expect(otherDevice.getStatus()).toBe('locked');
+
+    await expect(otherDevice.unlock('wrong horse')).rejects.toThrow('Incorrect card vault passphrase');
+    await expect(otherDevice.unlock('correct horse')).resolves.toEqual([card('c1')]);
+  });
+
+  it('moves plaintext cards from the old storage into the vault on unlock', async () => {
+    localStorage.setItem('dealmate-secure-cards', JSON.stringify([{ ...card('legacy'), network: 'VISA' }]));
+    const store = new SecureCardStore();
+
+    const cards = await store.unlock('correct horse');
+
+    expect(cards.map(c => c.id)).toEqual(['legacy']);
+    expect(localStorage.getItem('dealmate-secure-cards')).toBeNull();
+    expect(serverEnvelope?.revision).toBe(1);
+  });
+});
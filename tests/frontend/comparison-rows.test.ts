@@ -0,0 +1,93 @@
+import { buildComparisonRows } from '@/lib/product-matching/compare';
+import type { Product, VendorInfo } from '@/types/comparison';
+
+const product = (id: string, vendor: string, name: string, price: number, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name,
+  description: '',
+  category: 'Electronics',
+  vendor,
+  price,
+  currency: 'INR',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: '',
+  availability: true,
+  features: [],
+  url: `https://example.com/${id}`,
+  inStock: true,
+  lastUpdated: new Date(0),
+  ...overrides
+});
+
+const vendorInfo = (name: string, overrides: Partial<VendorInfo> = {}): VendorInfo => ({
+  id: name.toLowerCase(),
+  name,
+  logo: '',
+  rating: 4.2,
+  trustScore: 80,
+  cashbackRate: 2,
+  avgDeliveryTime: '3 days',
+  returnPolicy: '7 day replacement',
+  ...overrides
+});
+
+const row = (rows: ReturnType<typeof buildComparisonRows>, attribute: string) => rows.find(r => r.attribute === attribute);
+
+describe('buildComparisonRows', () => {
+  const phones = [
+    product('amazon-15', 'Amazon', 'Apple iPhone 15 (128 GB) - Black', 69900, { rating: 4.6, shippingFee: 0 }),
+    product('flipkart-15', 'Flipkart', 'Apple iPhone 15 (256 GB) - Black', 68999, { rating: 4.4, shippingFee: 0, inStock: false })
+  ];
+
+  it('lays out one value per listing and picks the best in each row', () => {
+    const rows = buildComparisonRows(phones);
+
+    expect(row(rows, 'price')).toMatchObject({ format: 'currency', values: [69900, 68999], winners: ['flipkart-15'] });
+    expect(row(rows, 'rating')?.winners).toEqual(['amazon-15']);
+    expect(row(rows, 'storage')).toMatchObject({ values: [128, 256], winners: ['flipkart-15'] });
+    expect(row(rows, 'inStock')).toMatchObject({ values: [true, false], winners: ['amazon-15'] });
+  });
+
+  it('picks no winner when every listing agrees or only one says', () => {
+    const rows = buildComparisonRows([
+      phones[0],
+      product('croma-15', 'Croma', 'Apple iPhone 15 (128 GB) - Black', 69900, { reviewCount: 0 })
+    ]);
+
+    expect(row(rows, 'price')?.winners).toEqual([]);
+    expect(row(rows, 'storage')?.winners).toEqual([]);
+    expect(row(rows, 'rating')).toMatchObject({ values: [4.6, null], winners: [] });
+  });
+
+  it('drops rows no listing has a value for and leaves informational rows without winners', () => {
+    const rows = buildComparisonRows(phones);
+
+    ['ram', 'discount', 'trustScore'].forEach(attribute => expect(row(rows, attribute)).toBeUndefined());
+    expect(row(rows, 'colour')).toMatchObject({ values: ['black', 'black'], winners: [] });
+    expect(row(rows, 'vendor')?.winners).toEqual([]);
+  });
+
+  it('fills store rows from the vendor info keyed by display name', () => {
+    const vendors = new Map([
+      ['Amazon', vendorInfo('Amazon', { trustScore: 90, cashbackRate: 5 })],
+      ['Flipkart', vendorInfo('Flipkart', { returnPolicy: '10 day refund' })]
+    ]);
+
+    const rows = buildComparisonRows(phones, vendors);
+
+    expect(row(rows, 'trustScore')).toMatchObject({ values: [90, 80], winners: ['amazon-15'] });
+    expect(row(rows, 'cashbackRate')?.values).toEqual([5, 2]);
+    expect(row(rows, 'returnPolicy')?.values).toEqual(['7 day replacement', '10 day refund']);
+  });
+
+  it('costs the true cost row with the user\'s options', () => {
+    const rows = buildComparisonRows([
+      product('a', 'Amazon', 'Sony WH-1000XM5', 26990, { shippingFee: 0, deliveryTime: '1 day' }),
+      product('b', 'Flipkart', 'Sony WH-1000XM5', 26800, { shippingFee: 0, deliveryTime: '6 days' })
+    ], new Map(), { waitingCostPerDay: 100 });
+
+    expect(row(rows, 'landedCost')).toMatchObject({ values: [27090, 27400], winners: ['a'] });
+    expect(row(rows, 'price')?.winners).toEqual(['b']);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  evaluateFlag,
+  evaluateFlags,
+  flagBucket,
+  flagEnvVar,
+  redactFlagConfig,
+  resolveFlagConfig,
+  type FlagConfig
+} from '@/lib/feature-flags/evaluate';
+import { FEATURE_FLAGS } from '@/lib/feature-flags/registry';
+
+const users = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+
+describe('flagBucket', () => {
+  it('is stable per user and spreads users evenly over 0-100', () => {
+    const buckets = users.map(userId => flagBucket('FraudDetection', userId));
+
+    expect(flagBucket('FraudDetection', 'user-1')).toBe(buckets[1]);
+    expect(buckets.every(bucket => bucket >= 0 && bucket < 100)).toBe(true);
+    expect(buckets.filter(bucket => bucket < 25).length / users.length).toBeCloseTo(0.25, 1);
+  });
+
+  it('puts different users first in different flags', () => {
+    const first = (key: string) => users.filter(userId => flagBucket(key, userId) < 10);
+
+    expect(first('FraudDetection')).not.toEqual(first('ComparisonDefaultSort'));
+  });
+});
+
+describe('evaluateFlag', () => {
+  it('serves the registry default when the flag has no rule', () => {
+    expect(evaluateFlag('ComparisonDefaultSort', {}, { userId: 'user-1' })).toBe('price');
+    expect(evaluateFlags({})).toEqual({ Login: true, FraudDetection: true, ComparisonDefaultSort: 'price' });
+  });
+
+  it('rolls a value out to the share of users in its slice', () => {
+    const config: FlagConfig = { FraudDetection: { value: false, rollout: [{ value: true, percentage: 30 }] } };
+
+    const enabled = users.filter(userId => evaluateFlag('FraudDetection', config, { userId }));
+
+    expect(enabled.length / users.length).toBeCloseTo(0.3, 1);
+    expect(enabled.every(userId => flagBucket('FraudDetection', userId) < 30)).toBe(true);
+  });
+
+  it('stacks rollout slices over consecutive buckets', () => {
+    const config: FlagConfig = {
+      ComparisonDefaultSort: { rollout: [{ value: 'landedCost', percentage: 20 }, { value: 'price', percentage: 80 }] }
+    };
+
+    users.forEach(userId => {
+      const expected = flagBucket('ComparisonDefaultSort', userId) < 20 ? 'landedCost' : 'price';
+      expect(evaluateFlag('ComparisonDefaultSort', config, { userId })).toBe(expected);
+    });
+  });
+
+  it('gives anonymous callers the base value, never a rollout slice', () => {
+    const config: FlagConfig = { FraudDetection: { value: false, rollout: [{ value: true, percentage: 100 }] } };
+
+    expect(evaluateFlag('FraudDetection', config)).toBe(false);
+    expect(evaluateFlag('FraudDetection', config, { userId: 'user-1' })).toBe(true);
+  });
+
+  it('targets allow and deny lists ahead of the rollout, deny first', () => {
+    const config: FlagConfig = {
+      ComparisonDefaultSort: { rollout: [{ value: 'landedCost', percentage: 100 }], allow: ['a', 'both'], deny: ['d', 'both'] }
+    };
+
+    expect(evaluateFlag('ComparisonDefaultSort', config, { userId: 'a' })).toBe(FEATURE_FLAGS.ComparisonDefaultSort.onValue);
+    expect(evaluateFlag('ComparisonDefaultSort', config, { userId: 'd' })).toBe('price');
+    expect(evaluateFlag('ComparisonDefaultSort', config, { userId: 'both' })).toBe('price');
+  });
+});
+
+describe('resolveFlagConfig', () => {
+  it('layers environment rules and environment variables over the file', () => {
+    const config = resolveFlagConfig(
+      {
+        Login: false,
+        FraudDetection: { value: true, allow: ['a'] },
+        environments: { production: { Login: true, FraudDetection: { value: false } } }
+      },
+      { environment: 'production', env: { [flagEnvVar('ComparisonDefaultSort')]: 'landedCost' } }
+    );
+
+    expect(config).toEqual({
+      Login: { value: true },
+      FraudDetection: { value: false, allow: ['a'] },
+      ComparisonDefaultSort: { value: 'landedCost' }
+    });
+  });
+
+  it('drops values a flag does not define and clamps rollout percentages', () => {
+    const config = resolveFlagConfig({
+      Login: 'sometimes',
+      FraudDetection: { rollout: [{ value: true, percentage: 140 }, { value: 'maybe', percentage: 10 }] },
+      ComparisonDefaultSort: { value: 'rating' }
+    }, { env: { FEATURE_FLAG_LOGIN: 'off' } });
+
+    expect(config).toEqual({
+      Login: { value: false },
+      FraudDetection: { rollout: [{ value: true, percentage: 100 }] },
+      ComparisonDefaultSort: {}
+    });
+  });
+});
+
+describe('redactFlagConfig', () => {
+  it('keeps only the requesting user on the allow and deny lists', () => {
+    const config: FlagConfig = { FraudDetection: { value: false, allow: ['a', 'b'], deny: ['c'] } };
+
+    expect(redactFlagConfig(config, 'a')).toEqual({ FraudDetection: { value: false, allow: ['a'] } });
+    expect(redactFlagConfig(config, 'c')).toEqual({ FraudDetection: { value: false, deny: ['c'] } });
+    expect(redactFlagConfig(config, null)).toEqual({ FraudDetection: { value: false } });
+  });
+});
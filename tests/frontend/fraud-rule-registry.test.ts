@@ -0,0 +1,116 @@
+import { FraudDetectionEngine, type Deal } from '@/lib/fraud-detection/fraud-detection-engine';
+import {
+  DEFAULT_FRAUD_RULES_CONFIG,
+  FraudRuleRegistry,
+  getRiskLevel,
+  mergeFraudRulesConfig
+} from '@/lib/fraud-detection/rule-registry';
+
+const deal = (overrides: Partial<Deal> = {}): Deal => ({
+  id: 'deal-1',
+  title: 'Wireless earbuds',
+  originalPrice: 10000,
+  discountedPrice: 500,
+  category: 'electronics',
+  sellerId: 'unknown-seller',
+  url: 'https://www.amazon.in/dp/B0TEST',
+  timestamp: Date.parse('2026-06-01T00:00:00.000Z'),
+  ...overrides
+});
+
+describe('mergeFraudRulesConfig', () => {
+  it('applies well-typed overrides and clamps weights and thresholds to 0-1', () => {
+    const merged = mergeFraudRulesConfig(DEFAULT_FRAUD_RULES_CONFIG, {
+      blockAt: 'high',
+      riskThresholds: { high: 1.4 },
+      rules: { fake_deal: { enabled: false, weight: -2 } }
+    });
+
+    expect(merged.blockAt).toBe('high');
+    expect(merged.riskThresholds.high).toBe(1);
+    expect(merged.rules.fake_deal).toMatchObject({ enabled: false, weight: 0 });
+  });
+
+  it('ignores mistyped fields instead of rejecting the whole file', () => {
+    const merged = mergeFraudRulesConfig(DEFAULT_FRAUD_RULES_CONFIG, {
+      blockAt: 'extreme',
+      riskThresholds: { medium: 'low' },
+      rules: {
+        fake_deal: { enabled: 'no', config: { maxConfidence: 'high', categoryThresholds: { fashion: '90%' } } },
+        phishing_link: 'off'
+      }
+    });
+
+    expect(merged.blockAt).toBe(DEFAULT_FRAUD_RULES_CONFIG.blockAt);
+    expect(merged.riskThresholds).toEqual(DEFAULT_FRAUD_RULES_CONFIG.riskThresholds);
+    expect(merged.rules.fake_deal).toEqual(DEFAULT_FRAUD_RULES_CONFIG.rules.fake_deal);
+    expect(merged.rules.phishing_link).toEqual(DEFAULT_FRAUD_RULES_CONFIG.rules.phishing_link);
+  });
+
+  it('merges nested config maps entry by entry and never mutates the base', () => {
+    const merged = mergeFraudRulesConfig(DEFAULT_FRAUD_RULES_CONFIG, {
+      rules: { fake_deal: { config: { categoryThresholds: { electronics: 0.5 } } } }
+    });
+
+    expect(merged.rules.fake_deal.config.categoryThresholds).toMatchObject({ electronics: 0.5, fashion: 0.9 });
+    expect(DEFAULT_FRAUD_RULES_CONFIG.rules.fake_deal.config.categoryThresholds).toMatchObject({ electronics: 0.7 });
+  });
+});
+
+describe('FraudRuleRegistry', () => {
+  it('runs rules missing from the config at half weight with the built-in config', () => {
+    const registry = new FraudRuleRegistry({ ...DEFAULT_FRAUD_RULES_CONFIG, rules: {} });
+
+    expect(registry.getSettings('fake_deal')).toEqual({
+      enabled: true,
+      weight: 0.5,
+      config: DEFAULT_FRAUD_RULES_CONFIG.rules.fake_deal.config
+    });
+    expect(registry.getSettings('custom_rule').config).toEqual({});
+  });
+
+  it('replaces earlier overrides on each configure', () => {
+    const registry = new FraudRuleRegistry();
+
+    registry.configure({ rules: { fake_deal: { weight: 0.1 } } });
+    registry.configure({ rules: { phishing_link: { weight: 0.2 } } });
+
+    expect(registry.getSettings('fake_deal').weight).toBe(DEFAULT_FRAUD_RULES_CONFIG.rules.fake_deal.weight);
+    expect(registry.getSettings('phishing_link').weight).toBe(0.2);
+  });
+});
+
+describe('FraudDetectionEngine risk scoring', () => {
+  it('weights each firing rule and explains its contribution', async () => {
+    const engine = new FraudDetectionEngine();
+
+    const assessment = await engine.assessRisk(deal());
+    const fakeDeal = assessment.explanation.find(step => step.ruleId === 'fake_deal')!;
+
+    expect(fakeDeal.fired).toBe(true);
+    expect(fakeDeal.contribution).toBeCloseTo(fakeDeal.weight * fakeDeal.confidence);
+    expect(assessment.riskScore).toBeGreaterThanOrEqual(fakeDeal.contribution);
+    expect(assessment.riskLevel).toBe(getRiskLevel(assessment.riskScore, DEFAULT_FRAUD_RULES_CONFIG.riskThresholds));
+  });
+
+  it('skips disabled rules', async () => {
+    const engine = new FraudDetectionEngine();
+    engine.configureRules({ rules: { fake_deal: { enabled: false } } });
+
+    const assessment = await engine.assessRisk(deal());
+
+    expect(assessment.results.some(r => r.ruleId === 'fake_deal')).toBe(false);
+    expect(assessment.explanation.find(step => step.ruleId === 'fake_deal')).toMatchObject({ enabled: false, contribution: 0 });
+  });
+});
+
+describe('getRiskLevel', () => {
+  it('maps scores onto the configured thresholds', () => {
+    const thresholds = { medium: 0.3, high: 0.6, critical: 0.85 };
+
+    expect(getRiskLevel(0.29, thresholds)).toBe('low');
+    expect(getRiskLevel(0.3, thresholds)).toBe('medium');
+    expect(getRiskLevel(0.7, thresholds)).toBe('high');
+    expect(getRiskLevel(0.9, thresholds)).toBe('critical');
+  });
+});
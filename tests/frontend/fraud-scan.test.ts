@@ -0,0 +1,81 @@
+import { FraudDetectionEngine, type Deal } from '@/lib/fraud-detection/fraud-detection-engine';
+import { fraudScanner, hashDeal } from '@/lib/fraud-detection/scan-service';
+
+const AT = Date.parse('2026-06-01T00:00:00.000Z');
+
+const deal = (id: string, overrides: Partial<Deal> = {}): Deal => ({
+  id,
+  title: 'Wireless earbuds',
+  originalPrice: 4000,
+  discountedPrice: 2500,
+  category: 'electronics',
+  sellerId: '',
+  url: 'https://www.amazon.in/dp/B0TEST',
+  timestamp: AT,
+  ...overrides
+});
+
+beforeEach(() => {
+  fraudScanner.clear();
+});
+
+describe('hashDeal', () => {
+  it('ignores the timestamp but not the content or the rules', () => {
+    const hash = hashDeal(deal('d1'), 'rules-v1');
+
+    expect(hashDeal(deal('d1', { timestamp: AT + 1000 }), 'rules-v1')).toBe(hash);
+    expect(hashDeal(deal('d1', { discountedPrice: 2400 }), 'rules-v1')).not.toBe(hash);
+    expect(hashDeal(deal('d1'), 'rules-v2')).not.toBe(hash);
+  });
+});
+
+describe('fraudScanner', () => {
+  it('serves an unchanged deal from the cache', async () => {
+    const engine = new FraudDetectionEngine();
+    const assess = jest.spyOn(engine, 'assessRisk');
+
+    const [first] = await fraudScanner.scan(engine, [deal('d1')], { now: AT });
+    const [second] = await fraudScanner.scan(engine, [deal('d1', { timestamp: AT + 1000 })], { now: AT + 1000 });
+
+    expect(first.cached).toBe(false);
+    expect(second).toEqual({ ...first, cached: true });
+    expect(assess).toHaveBeenCalledTimes(1);
+  });
+
+  it('only prepares the deals the cache cannot answer, once each', async () => {
+    const engine = new FraudDetectionEngine();
+    const beforeAssess = jest.fn(async (_deals: Deal[]) => undefined);
+    await fraudScanner.scan(engine, [deal('d1')], { now: AT });
+
+    const results = await fraudScanner.scan(engine, [deal('d1'), deal('d2'), deal('d2')], { now: AT, beforeAssess });
+
+    expect(beforeAssess).toHaveBeenCalledTimes(1);
+    expect(beforeAssess.mock.calls[0][0].map(d => d.id)).toEqual(['d2']);
+    expect(results.map(r => r.cached)).toEqual([true, false, true]);
+
+    await fraudScanner.scan(engine, [deal('d1'), deal('d2')], { now: AT, beforeAssess });
+    expect(beforeAssess).toHaveBeenCalledTimes(1);
+  });
+
+  it('rescans after the cache entry expires or the rules change', async () => {
+    const engine = new FraudDetectionEngine();
+    await fraudScanner.scan(engine, [deal('d1')], { now: AT });
+
+    const [expired] = await fraudScanner.scan(engine, [deal('d1')], { now: AT + 5 * 60 * 1000 });
+    expect(expired.cached).toBe(false);
+
+    engine.configureRules({ rules: { fake_deal: { weight: 0.1 } } });
+    const [reconfigured] = await fraudScanner.scan(engine, [deal('d1')], { now: AT + 5 * 60 * 1000 });
+    expect(reconfigured.cached).toBe(false);
+  });
+
+  it('forgets cached assessments on clear', async () => {
+    const engine = new FraudDetectionEngine();
+    await fraudScanner.scan(engine, [deal('d1')], { now: AT });
+
+    fraudScanner.clear();
+
+    expect(fraudScanner.cacheStats().entries).toBe(0);
+    expect((await fraudScanner.scan(engine, [deal('d1')], { now: AT }))[0].cached).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { PrefixIndex } from '@/lib/search-suggestions/prefix-index';
+import { maxEdits, normalizeQuery, phoneticKey, queryTokens } from '@/lib/search-suggestions/text';
+
+describe('PrefixIndex', () => {
+  const index = new PrefixIndex<string>();
+  ['iphone', 'ipad', 'saree', 'shoes'].forEach(token => index.add(token, token));
+
+  it('finds a token within the edit budget, counting a transposition as one edit', () => {
+    expect(index.search('iphone', 0).get('iphone')).toBe(0);
+    expect(index.search('iphn', 2).get('iphone')).toBe(2);
+    expect(index.search('ihpone', 1).get('iphone')).toBe(1);
+    expect(index.search('ipohne', 1).get('iphone')).toBe(1);
+  });
+
+  it('leaves out tokens beyond the budget', () => {
+    expect(index.search('iphn', 1).has('iphone')).toBe(false);
+    expect(index.search('sari', 1).has('saree')).toBe(false);
+  });
+
+  it('matches the start of a token in prefix mode', () => {
+    const matches = index.search('ip', 0, true);
+
+    expect(Array.from(matches.keys()).sort()).toEqual(['ipad', 'iphone']);
+    expect(index.search('iphn', 1, true).get('iphone')).toBe(1);
+  });
+
+  it('stops finding a removed value and prunes nothing still in use', () => {
+    const local = new PrefixIndex<number>();
+    local.add('kurta', 1);
+    local.add('kurta', 2);
+    local.add('kurti', 3);
+
+    local.remove('kurta', 1);
+    expect(Array.from(local.search('kurta', 0).keys())).toEqual([2]);
+
+    local.remove('kurta', 2);
+    expect(local.search('kurta', 0).size).toBe(0);
+    expect(local.search('kurti', 0).get(3)).toBe(0);
+  });
+});
+
+describe('query text', () => {
+  it('normalizes case, accents and apostrophes', () => {
+    expect(queryTokens("Levi's  Jeans")).toEqual(['levis', 'jeans']);
+    expect(normalizeQuery('  Café   Table ')).toBe('cafe table');
+  });
+
+  it('folds Indian-English spelling variants onto one key', () => {
+    expect(phoneticKey('saree')).toBe(phoneticKey('sari'));
+    expect(phoneticKey('kurtha')).toBe(phoneticKey('kurta'));
+    expect(phoneticKey('chappal')).toBe(phoneticKey('chapal'));
+    expect(phoneticKey('128')).toBe('128');
+  });
+
+  it('tolerates no typos in short tokens or numbers', () => {
+    expect(maxEdits('tv')).toBe(0);
+    expect(maxEdits('1080')).toBe(0);
+    expect(maxEdits('shoes')).toBe(1);
+    expect(maxEdits('sneakers')).toBe(2);
+  });
+});
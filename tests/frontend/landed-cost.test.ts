@@ -0,0 +1,80 @@
+import { GST_ON_SERVICES, landedCost, rankByLandedCost } from '@/lib/price-comparison/landed-cost';
+import type { Product } from '@/types/comparison';
+
+const product = (id: string, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name: 'Boat Airdopes 141',
+  description: '',
+  category: 'Electronics',
+  vendor: id,
+  price: 1000,
+  currency: 'INR',
+  rating: 4.2,
+  reviewCount: 100,
+  imageUrl: '',
+  availability: true,
+  features: [],
+  url: `https://example.com/${id}`,
+  inStock: true,
+  lastUpdated: new Date(0),
+  ...overrides
+});
+
+describe('landedCost', () => {
+  it('adds fees and GST on them, takes off cashback', () => {
+    const cost = landedCost(product('a', {
+      shippingFee: 40,
+      fees: { cod: 50, convenience: 10, taxIncluded: false },
+      cashbackRate: 5,
+      deliveryTime: '2-4 days'
+    }), { paymentMethod: 'cod' });
+
+    expect(cost.breakdown.gst).toBeCloseTo((40 + 50 + 10) * GST_ON_SERVICES);
+    expect(cost.breakdown.cashback).toBe(50);
+    expect(cost.total).toBeCloseTo(1000 + 40 + 50 + 10 + 18 - 50);
+    expect(cost.deliveryDays).toBe(3);
+    expect(cost.assumed).toEqual([]);
+  });
+
+  it('charges COD fees only for cash on delivery and no GST when fees include it', () => {
+    const cost = landedCost(product('a', {
+      shippingFee: 0,
+      fees: { cod: 50, convenience: 10, taxIncluded: true }
+    }), { paymentMethod: 'prepaid' });
+
+    expect(cost.breakdown.codFee).toBe(0);
+    expect(cost.breakdown.gst).toBe(0);
+    expect(cost.total).toBe(1010);
+  });
+
+  it('marks unquoted shipping and delivery as assumed and prices the wait with the fallback', () => {
+    const cost = landedCost(product('a'), { waitingCostPerDay: 20 }, 5);
+
+    expect(cost.assumed).toEqual(['shipping', 'delivery']);
+    expect(cost.breakdown.waitingCost).toBe(100);
+    expect(cost.total).toBe(1100);
+  });
+});
+
+describe('rankByLandedCost', () => {
+  it('ranks by delivered cost rather than sticker price', () => {
+    const ranked = rankByLandedCost([
+      product('cheap-sticker', { price: 950, shippingFee: 99 }),
+      product('free-shipping', { price: 990, shippingFee: 0 })
+    ]);
+
+    expect(ranked.map(cost => cost.product.id)).toEqual(['free-shipping', 'cheap-sticker']);
+  });
+
+  it('charges listings without an estimate for the slowest quoted delivery', () => {
+    const ranked = rankByLandedCost([
+      product('fast', { shippingFee: 0, deliveryTime: '1 day' }),
+      product('slow', { shippingFee: 0, deliveryTime: '6 days' }),
+      product('unknown', { shippingFee: 0 })
+    ], { waitingCostPerDay: 10 });
+
+    const unknown = ranked.find(cost => cost.product.id === 'unknown')!;
+    expect(unknown.breakdown.waitingCost).toBe(60);
+    expect(ranked[0].product.id).toBe('fast');
+  });
+});
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FraudDetectionEngine, type FraudCheckResult } from '@/lib/fraud-detection/fraud-detection-engine';
+import type { ReviewSubject } from '@/lib/fraud-detection/moderation';
+
+type ReviewQueue = typeof import('@/lib/fraud-detection/moderation').reviewQueue;
+
+let dataDir: string;
+let reviewQueue: ReviewQueue;
+
+const PHISHING: FraudCheckResult = { ruleId: 'phishing_link', isFraudulent: true, fraudType: 'phishing_link', confidence: 0.9 };
+const assessment = { riskLevel: 'high' as const, riskScore: 0.8, results: [PHISHING] };
+
+const subject = (id: string, overrides: Partial<ReviewSubject> = {}): ReviewSubject => ({
+  id,
+  title: 'iPhone 15 at ₹9,999',
+  url: 'https://paytm-cashback.xyz/claim',
+  sellerId: 'seller-1',
+  ...overrides
+});
+
+function spyOnFeedback(engine: FraudDetectionEngine) {
+  return {
+    record: jest.spyOn(engine, 'recordConfirmedFraud'),
+    retract: jest.spyOn(engine, 'retractConfirmedFraud'),
+    addPattern: jest.spyOn(engine, 'addPhishingPattern'),
+    removePattern: jest.spyOn(engine, 'removePhishingPattern')
+  };
+}
+
+beforeAll(async () => {
+  // The file store picks its directory up on import
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dealmate-moderation-'));
+  process.env.DEALMATE_DATA_DIR = dataDir;
+  ({ reviewQueue } = await import('@/lib/fraud-detection/moderation'));
+});
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('reviewQueue', () => {
+  it('teaches the engine on confirm and takes it back on a false positive', async () => {
+    const engine = new FraudDetectionEngine();
+    const spies = spyOnFeedback(engine);
+    const item = (await reviewQueue.submit('deal', subject('d1'), assessment, 'u1'))!;
+
+    const confirmed = await reviewQueue.decide(item.id, 'confirm', 'mod-1', engine);
+    expect(confirmed).toMatchObject({ learned: { sellerId: 'seller-1', phishingPattern: 'paytm-cashback.xyz' }, unlearned: {} });
+    expect(spies.record).toHaveBeenCalledWith('seller-1');
+    expect(spies.addPattern).toHaveBeenCalledWith('paytm-cashback.xyz');
+
+    const overturned = await reviewQueue.decide(item.id, 'false_positive', 'mod-1', engine);
+    expect(overturned).toMatchObject({ learned: {}, unlearned: { sellerId: 'seller-1', phishingPattern: 'paytm-cashback.xyz' } });
+    expect(overturned!.item.learned).toBeUndefined();
+    expect(spies.retract).toHaveBeenCalledWith('seller-1');
+    expect(spies.removePattern).toHaveBeenCalledWith('paytm-cashback.xyz');
+  });
+
+  it('keeps a confirmation reversible after a rescan changes the subject', async () => {
+    const engine = new FraudDetectionEngine();
+    const spies = spyOnFeedback(engine);
+    const item = (await reviewQueue.submit('deal', subject('d2', { sellerId: 'seller-2' }), assessment, 'u1'))!;
+    await reviewQueue.decide(item.id, 'confirm', 'mod-1', engine);
+
+    const rescanned = (await reviewQueue.submit('deal', subject('d2', { sellerId: 'seller-2', title: 'iPhone 15 Pro' }), assessment, 'u2'))!;
+    expect(rescanned.status).toBe('pending');
+    expect(rescanned.learned).toEqual({ sellerId: 'seller-2', phishingPattern: 'paytm-cashback.xyz' });
+    expect(rescanned.revisions).toEqual([expect.objectContaining({ title: 'iPhone 15 at ₹9,999', status: 'confirmed' })]);
+
+    const overturned = await reviewQueue.decide(item.id, 'false_positive', 'mod-1', engine);
+    expect(overturned!.unlearned).toEqual({ sellerId: 'seller-2', phishingPattern: 'paytm-cashback.xyz' });
+    expect(spies.retract).toHaveBeenCalledWith('seller-2');
+  });
+
+  it('swaps what an earlier confirmation taught when the new subject is confirmed', async () => {
+    const engine = new FraudDetectionEngine();
+    const spies = spyOnFeedback(engine);
+    const item = (await reviewQueue.submit('deal', subject('d3', { sellerId: 'seller-3' }), assessment, 'u1'))!;
+    await reviewQueue.decide(item.id, 'confirm', 'mod-1', engine);
+    await reviewQueue.submit('deal', subject('d3', { sellerId: 'seller-4' }), assessment, 'u1');
+    spies.addPattern.mockClear();
+
+    const confirmed = await reviewQueue.decide(item.id, 'confirm', 'mod-1', engine);
+
+    expect(confirmed).toMatchObject({ learned: { sellerId: 'seller-4' }, unlearned: { sellerId: 'seller-3' } });
+    expect(confirmed!.item.learned).toEqual({ sellerId: 'seller-4', phishingPattern: 'paytm-cashback.xyz' });
+    expect(spies.retract).toHaveBeenCalledWith('seller-3');
+    expect(spies.record).toHaveBeenLastCalledWith('seller-4');
+    expect(spies.addPattern).not.toHaveBeenCalled();
+    expect(spies.removePattern).not.toHaveBeenCalled();
+  });
+
+  it('leaves the engine untouched when the decision cannot be saved', async () => {
+    const engine = new FraudDetectionEngine();
+    const spies = spyOnFeedback(engine);
+    const item = (await reviewQueue.submit('deal', subject('d5', { sellerId: 'seller-5' }), assessment, 'u1'))!;
+    jest.spyOn(fs, 'rename').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(reviewQueue.decide(item.id, 'confirm', 'mod-1', engine)).rejects.toThrow('disk full');
+
+    expect(spies.record).not.toHaveBeenCalled();
+    const saved = (await reviewQueue.list()).find(i => i.id === item.id)!;
+    expect(saved.status).toBe('pending');
+    expect(saved.learned).toBeUndefined();
+  });
+});
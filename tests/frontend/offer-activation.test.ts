@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { OfferActivationEngine } from '@/lib/card-linked/offer-engine';
+import type { ActivationAttempt, ActivationRecord } from '@/lib/card-linked/types';
+
+type ActivationLog = typeof import('@/lib/card-linked/activation-log').activationLog;
+
+let dataDir: string;
+let activationLog: ActivationLog;
+
+const attempt = (n: number, status: ActivationAttempt['status']): ActivationAttempt => ({
+  attempt: n,
+  trigger: { type: 'manual' },
+  status,
+  retryable: status === 'failed',
+  error: status === 'failed' ? 'Issuer returned HTTP 503' : undefined,
+  startedAt: new Date().toISOString(),
+  finishedAt: new Date().toISOString()
+});
+
+beforeAll(async () => {
+  // The file store picks its directory up on import
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dealmate-activations-'));
+  process.env.DEALMATE_DATA_DIR = dataDir;
+  ({ activationLog } = await import('@/lib/card-linked/activation-log'));
+});
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+describe('activationLog', () => {
+  it('claims a key once while an attempt is in flight and records a retry as the next attempt', async () => {
+    const request = { offerId: 'o1', cardId: 'c1' };
+
+    const first = await activationLog.begin('u1', 'o1:c1', request);
+    expect(first).toMatchObject({ state: 'started', attempt: 1 });
+    expect((await activationLog.begin('u1', 'o1:c1', request)).state).toBe('in-progress');
+
+    await activationLog.complete('u1', 'o1:c1', attempt(1, 'failed'));
+    const retry = await activationLog.begin('u1', 'o1:c1', request);
+    expect(retry).toMatchObject({ state: 'started', attempt: 2 });
+
+    const record = await activationLog.complete('u1', 'o1:c1', attempt(2, 'succeeded'), 'act-1');
+    expect(record).toMatchObject({ status: 'succeeded', activationId: 'act-1', lastError: undefined });
+    expect(record.attempts.map(a => a.status)).toEqual(['failed', 'succeeded']);
+  });
+
+  it('replays a succeeded key instead of starting another attempt', async () => {
+    const replay = await activationLog.begin('u1', 'o1:c1', { offerId: 'o1', cardId: 'c1' });
+
+    expect(replay.state).toBe('succeeded');
+    expect(replay.record.attempts).toHaveLength(2);
+  });
+
+  it('keeps each user\'s keys apart', async () => {
+    const other = await activationLog.begin('u2', 'o1:c1', { offerId: 'o1', cardId: 'c1' });
+
+    expect(other).toMatchObject({ state: 'started', attempt: 1 });
+    expect((await activationLog.list('u1', 'succeeded')).map(r => r.idempotencyKey)).toEqual(['o1:c1']);
+    expect(await activationLog.list('u2', 'succeeded')).toEqual([]);
+  });
+});
+
+describe('OfferActivationEngine', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends concurrent activations of the same offer once, under one idempotency key', async () => {
+    const record: ActivationRecord = {
+      idempotencyKey: 'o2:c1',
+      offerId: 'o2',
+      cardId: 'c1',
+      status: 'succeeded',
+      attempts: [attempt(1, 'succeeded')],
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+    const fetchMock = jest.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+      new Response(JSON.stringify({ success: true, record, replayed: false, retryable: false }))
+    );
+
+    const [a, b] = await Promise.all([
+      OfferActivationEngine.activateOffer('o2', 'c1'),
+      OfferActivationEngine.activateOffer('o2', 'c1')
+    ]);
+
+    expect(a).toBe(b);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(new Headers(fetchMock.mock.calls[0][1]?.headers).get('Idempotency-Key')).toBe('o2:c1');
+  });
+});
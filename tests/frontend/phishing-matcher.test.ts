@@ -0,0 +1,115 @@
+import { AhoCorasick, PhishingPatternMatcher } from '@/lib/fraud-detection/phishing-matcher';
+
+// Deterministic PRNG (mulberry32) so every run sees the same inputs
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  isEnd: boolean;
+}
+
+// Reference matcher: one trie walk from every starting index
+class RestartingTrie {
+  private root: TrieNode = { children: new Map(), isEnd: false };
+
+  insert(word: string): void {
+    let node = this.root;
+    for (const char of word) {
+      let next = node.children.get(char);
+      if (!next) {
+        next = { children: new Map(), isEnd: false };
+        node.children.set(char, next);
+      }
+      node = next;
+    }
+    node.isEnd = true;
+  }
+
+  matchedPatterns(text: string): string[] {
+    const found = new Set<string>();
+    for (let i = 0; i < text.length; i++) {
+      let node: TrieNode | undefined = this.root;
+      for (let j = i; j < text.length && node; j++) {
+        node = node.children.get(text[j]);
+        if (node?.isEnd) found.add(text.slice(i, j + 1));
+      }
+    }
+    return Array.from(found);
+  }
+}
+
+describe('AhoCorasick', () => {
+  it('finds overlapping and nested patterns in one pass, in order of where they end', () => {
+    const automaton = new AhoCorasick(['he', 'she', 'his', 'hers']);
+
+    expect(automaton.search('ushers').map(m => [m.pattern, m.start, m.end])).toEqual([
+      ['she', 1, 4],
+      ['he', 2, 4],
+      ['hers', 2, 6]
+    ]);
+  });
+
+  it('handles characters outside ASCII and outside the pattern alphabet', () => {
+    const automaton = new AhoCorasick(['pаypal']); // Cyrillic а
+
+    expect(automaton.search('https://pаypal.com/₹').map(m => m.start)).toEqual([8]);
+    expect(automaton.search('https://paypal.com')).toEqual([]);
+  });
+});
+
+describe('PhishingPatternMatcher', () => {
+  it('matches case-insensitively and reports each pattern once', () => {
+    const matcher = new PhishingPatternMatcher(['Free-iPhone', 'winner']);
+
+    expect(matcher.matchedPatterns('https://FREE-IPHONE-winner.fake/winner').sort()).toEqual(['free-iphone', 'winner']);
+    expect(matcher.test('https://www.amazon.in')).toBe(false);
+  });
+
+  it('accepts hot-added patterns and forgets removed ones', () => {
+    const matcher = new PhishingPatternMatcher(['paytm-secure']);
+
+    expect(matcher.add('gpay-reward')).toBe(true);
+    expect(matcher.add('GPAY-REWARD')).toBe(false);
+    expect(matcher.size).toBe(2);
+    expect(matcher.test('https://gpay-reward.scam')).toBe(true);
+
+    expect(matcher.remove('paytm-secure')).toBe(true);
+    expect(matcher.remove('paytm-secure')).toBe(false);
+    expect(matcher.test('https://paytm-secure.fake')).toBe(false);
+    expect(matcher.test('https://gpay-reward.scam')).toBe(true);
+  });
+
+  it('agrees with a restarting trie on URLs that share long prefixes with many patterns', () => {
+    const random = createRandom(42);
+    const words = ['secure', 'login', 'verify', 'deal', 'free', 'gift', 'bank', 'pay', 'amazon', 'paytm', 'claim', 'reward'];
+    const suffixes = ['.com', '.fake', '.scam', '.in', ''];
+    const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+    const phrase = (min: number, max: number) =>
+      Array.from({ length: min + Math.floor(random() * (max - min + 1)) }, () => pick(words)).join('-');
+
+    const patterns = Array.from({ length: 400 }, () => `${phrase(2, 3)}${pick(suffixes)}`);
+    const urls = Array.from({ length: 300 }, (_, i) => `https://${phrase(2, 4)}${pick(suffixes)}/${phrase(2, 5)}?id=${i}`);
+    const hotAdds = Array.from({ length: 50 }, () => `${phrase(2, 3)}${pick(suffixes)}`);
+
+    const matcher = new PhishingPatternMatcher(patterns);
+    hotAdds.forEach(pattern => matcher.add(pattern));
+    const reference = new RestartingTrie();
+    [...patterns, ...hotAdds].forEach(pattern => reference.insert(pattern));
+
+    let matched = 0;
+    for (const url of urls) {
+      const expected = reference.matchedPatterns(url).sort();
+      expect(matcher.matchedPatterns(url).sort()).toEqual(expected);
+      matched += expected.length;
+    }
+    expect(matched).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,99 @@
+import { holdingsFromLoyaltyPrograms, mergeHoldings, planPointsBurn } from '@/lib/points-expiry-planner';
+import type { PointsHolding, WishlistProduct } from '@/lib/types';
+
+const AT = new Date('2026-06-01T00:00:00.000Z');
+const inDays = (days: number) => new Date(AT.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+
+const holding = (id: string, overrides: Partial<PointsHolding> = {}): PointsHolding => ({
+  id,
+  source: 'card',
+  name: id,
+  expiringPoints: 1000,
+  expiryDate: inDays(10),
+  pointValueInr: 0.25,
+  ...overrides
+});
+
+const item = (id: string, price: number, platform = 'Amazon'): WishlistProduct => ({ id, name: id, price, platform });
+
+describe('planPointsBurn', () => {
+  it('only plans holdings expiring within the horizon and totals what is at risk', () => {
+    const report = planPointsBurn({
+      holdings: [holding('soon'), holding('later', { expiryDate: inDays(45) }), holding('gone', { expiryDate: inDays(-2) })],
+      at: AT
+    });
+
+    expect(report.plans.map(p => p.holding.id)).toEqual(['soon']);
+    expect(report.totalPointsAtRisk).toBe(1000);
+    expect(report.totalValueAtRisk).toBe(250);
+  });
+
+  it('spends points where they are worth the most per point and uses each item once', () => {
+    const report = planPointsBurn({
+      holdings: [
+        holding('hdfc', { expiryDate: inDays(3), partnerRates: { 'flipkart.com': 0.5 } }),
+        holding('icici', { expiryDate: inDays(20) })
+      ],
+      wishlist: [item('earbuds', 200, 'Flipkart'), item('book', 100)],
+      at: AT
+    });
+
+    const [hdfc, icici] = report.plans;
+    // 400 points at ₹0.5 buy the earbuds, 400 more at ₹0.25 the book, and 200 are left over
+    expect(hdfc.suggestions.map(s => [s.itemId, s.pointsUsed, s.rupeesPerPoint])).toEqual([
+      ['wishlist:earbuds', 400, 0.5],
+      ['wishlist:book', 400, 0.25]
+    ]);
+    expect(hdfc.pointsUnplanned).toBe(200);
+    expect(icici.suggestions).toEqual([]);
+  });
+
+  it('keeps store points to their own platform', () => {
+    const [supercoins] = holdingsFromLoyaltyPrograms([{
+      id: 'fk',
+      userId: 'u1',
+      programName: 'Flipkart SuperCoins',
+      currentPoints: 500,
+      pointValueInRupees: 1,
+      pointsExpiryDate: inDays(5)
+    }]);
+
+    const report = planPointsBurn({
+      holdings: [supercoins],
+      wishlist: [item('kindle', 9000, 'Amazon'), item('shoes', 300, 'Flipkart')],
+      at: AT
+    });
+
+    expect(report.plans[0].suggestions.map(s => s.itemId)).toEqual(['wishlist:shoes']);
+  });
+
+  it('raises reminders at 30, 7 and 1 days with ids stable per window', () => {
+    const report = planPointsBurn({
+      holdings: [
+        holding('a', { expiryDate: inDays(1) }),
+        holding('b', { expiryDate: inDays(6) }),
+        holding('c', { expiryDate: inDays(20) })
+      ],
+      at: AT
+    });
+
+    expect(report.notifications.map(n => [n.holdingId, n.severity, n.daysLeft])).toEqual([
+      ['a', 'critical', 1],
+      ['b', 'warning', 6],
+      ['c', 'info', 20]
+    ]);
+    expect(report.notifications[0].id).toBe(`a:${inDays(1).slice(0, 10)}:1d`);
+    expect(report.notifications[0].title).toBe('1,000 a points expire tomorrow');
+  });
+});
+
+describe('mergeHoldings', () => {
+  it('keeps the first of two holdings for the same balance', () => {
+    const merged = mergeHoldings(
+      [holding('card:1', { name: 'HDFC Regalia' })],
+      [holding('vault:1', { name: 'hdfc regalia ' }), holding('vault:2', { name: 'SBI Elite' })]
+    );
+
+    expect(merged.map(h => h.id)).toEqual(['card:1', 'vault:2']);
+  });
+});
@@ -0,0 +1,103 @@
+import { analyzePriceSeries, findChangePoint, trimPriceHistory, type PricePoint } from '@/lib/fraud-detection/price-anomaly';
+import type { PriceManipulationRuleConfig } from '@/lib/fraud-detection/builtin-rules';
+
+const DAY_MS = 86400000;
+const NOW = 100 * DAY_MS;
+
+// The shipped price_manipulation config
+const CONFIG: PriceManipulationRuleConfig = {
+  windowDays: 30,
+  maxHistoryPoints: 240,
+  minHistory: 3,
+  robustZThreshold: 3.5,
+  minRelativeDeviation: 0.05,
+  ewmaAlpha: 0.3,
+  seasonalPeriodDays: 7,
+  minSeasonalSamples: 2,
+  changePointMinShift: 0.2,
+  changePointThreshold: 3,
+  pumpWindowDays: 14,
+  maxConfidence: 0.95
+};
+
+// One point a day, oldest first, ending the day before NOW
+const daily = (prices: number[]): PricePoint[] =>
+  prices.map((price, i) => ({ price, timestamp: NOW - (prices.length - i) * DAY_MS }));
+
+const steady = (days: number, around = 1000) =>
+  Array.from({ length: days }, (_, i) => around + [0, 10, -10, 5, -5][i % 5]);
+
+describe('analyzePriceSeries', () => {
+  it('needs enough history before judging', () => {
+    expect(analyzePriceSeries(daily([1000, 1000]), 500, NOW, CONFIG).classification).toBe('insufficient-data');
+  });
+
+  it('fits a robust band around steady prices', () => {
+    const analysis = analyzePriceSeries(daily(steady(20)), 1005, NOW, CONFIG);
+
+    expect(analysis.classification).toBe('normal');
+    expect(analysis.baseline?.median).toBe(1000);
+    expect(analysis.band!.lower).toBeLessThan(1000);
+    expect(analysis.band!.upper).toBeGreaterThan(1000);
+  });
+
+  it('is not dragged off by a single outlier', () => {
+    const prices = steady(20);
+    prices[10] = 5000;
+
+    const analysis = analyzePriceSeries(daily(prices), 1005, NOW, CONFIG);
+
+    expect(analysis.baseline?.median).toBe(1000);
+    expect(analysis.classification).toBe('normal');
+  });
+
+  it('tells a genuine sale from a spike', () => {
+    expect(analyzePriceSeries(daily(steady(20)), 700, NOW, CONFIG)).toMatchObject({ classification: 'sale', isAnomalous: false });
+    expect(analyzePriceSeries(daily(steady(20)), 1400, NOW, CONFIG)).toMatchObject({ classification: 'spike', isAnomalous: true });
+  });
+
+  it('flags a price pumped up and "discounted" back to the old level', () => {
+    const history = daily([...steady(20), ...steady(5, 1500)]);
+
+    const analysis = analyzePriceSeries(history, 1000, NOW, CONFIG);
+
+    expect(analysis.changePoint?.shift).toBeCloseTo(0.5, 1);
+    expect(analysis).toMatchObject({ classification: 'pump-and-dump', isAnomalous: true });
+  });
+
+  it('treats an old price rise as the new normal', () => {
+    const history = [
+      ...daily(steady(10)).map(p => ({ ...p, timestamp: p.timestamp - 20 * DAY_MS })),
+      ...daily(steady(20, 1500))
+    ];
+
+    expect(analyzePriceSeries(history, 1500, NOW, CONFIG).classification).toBe('normal');
+  });
+});
+
+describe('findChangePoint', () => {
+  it('finds the first point of a new level', () => {
+    const points = daily([...steady(10), ...steady(10, 1300)]);
+
+    const change = findChangePoint(points, 0.2, 3);
+
+    expect(change?.timestamp).toBe(points[10].timestamp);
+    expect(change?.before).toBe(1000);
+    expect(change?.after).toBe(1300);
+  });
+
+  it('ignores shifts smaller than the minimum', () => {
+    expect(findChangePoint(daily([...steady(10), ...steady(10, 1100)]), 0.2, 3)).toBeUndefined();
+  });
+});
+
+describe('trimPriceHistory', () => {
+  it('drops points outside the window and keeps the newest', () => {
+    const points = daily(steady(40));
+
+    const trimmed = trimPriceHistory(points, 30, 10, NOW);
+
+    expect(trimmed).toHaveLength(10);
+    expect(trimmed[trimmed.length - 1]).toEqual(points[points.length - 1]);
+  });
+});
@@ -0,0 +1,93 @@
+import { MATCH_THRESHOLD, clusterProducts, scoreMatch } from '@/lib/product-matching/cluster';
+import type { Product } from '@/types/comparison';
+
+const product = (id: string, vendor: string, name: string, price: number, overrides: Partial<Product> = {}): Product => ({
+  id,
+  name,
+  description: '',
+  category: 'Electronics',
+  vendor,
+  price,
+  currency: 'INR',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: '',
+  availability: true,
+  features: [],
+  url: `https://example.com/${id}`,
+  inStock: true,
+  lastUpdated: new Date(0),
+  ...overrides
+});
+
+describe('scoreMatch', () => {
+  it('matches the same phone worded differently', () => {
+    const score = scoreMatch(
+      product('a', 'amazon', 'Apple iPhone 15 (128 GB) - Black', 69900),
+      product('b', 'flipkart', 'APPLE iPhone 15 Black 128GB', 68999)
+    );
+
+    expect(score.confidence).toBeGreaterThanOrEqual(MATCH_THRESHOLD);
+    expect(score.matchedOn).toContain('model');
+  });
+
+  it('rules out a different model, storage or colour', () => {
+    const base = product('a', 'amazon', 'Apple iPhone 15 (128 GB) - Black', 69900);
+
+    expect(scoreMatch(base, product('b', 'flipkart', 'Apple iPhone 14 (128 GB) - Black', 59900)).confidence).toBe(0);
+    expect(scoreMatch(base, product('c', 'flipkart', 'Apple iPhone 15 (256 GB) - Black', 79900)).confidence).toBe(0);
+    expect(scoreMatch(base, product('d', 'flipkart', 'Apple iPhone 15 (128 GB) - Blue', 69900)).confidence).toBe(0);
+  });
+
+  it('never matches a device with its accessory', () => {
+    const score = scoreMatch(
+      product('a', 'amazon', 'Apple iPhone 15 (128 GB) - Black', 69900),
+      product('b', 'flipkart', 'Apple iPhone 15 Silicone Case - Black', 4900)
+    );
+    // The case title carries the headphones' model code, which reads like a part number
+    const caseScore = scoreMatch(
+      product('c', 'amazon', 'Sony WH1000XM5 Wireless Headphones', 26990),
+      product('d', 'flipkart', 'Hard Case for Sony WH1000XM5 Black', 999)
+    );
+
+    expect(score.confidence).toBe(0);
+    expect(caseScore.confidence).toBe(0);
+    expect(scoreMatch(
+      product('c', 'amazon', 'Sony WH1000XM5 Wireless Headphones', 26990),
+      product('e', 'flipkart', 'Replacement Ear Pads for Sony WH1000XM5', 999)
+    ).confidence).toBe(0);
+  });
+
+  it('decides on a shared identifier', () => {
+    const score = scoreMatch(
+      product('a', 'amazon', 'Sony WH-1000XM5', 29990, { identifiers: { gtin: '4548736132580' } }),
+      product('b', 'croma', 'Wireless Noise Cancelling Headphones', 27990, { identifiers: { gtin: '4548736132580' } })
+    );
+
+    expect(score).toEqual({ confidence: 0.99, matchedOn: ['identifier'] });
+  });
+});
+
+describe('clusterProducts', () => {
+  it('groups listings into one canonical product per SKU, cheapest offer first', () => {
+    const clusters = clusterProducts([
+      product('amazon-15', 'amazon', 'Apple iPhone 15 (128 GB) - Black', 69900, { reviewCount: 500 }),
+      product('flipkart-15', 'flipkart', 'APPLE iPhone 15 Black 128GB', 68999),
+      product('amazon-14', 'amazon', 'Apple iPhone 14 (128 GB) - Black', 59900)
+    ]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0].offers.map(offer => offer.product.id)).toEqual(['flipkart-15', 'amazon-15']);
+    expect(clusters[0].priceRange).toEqual({ min: 68999, max: 69900 });
+    expect(clusters[1].offers.map(offer => offer.product.id)).toEqual(['amazon-14']);
+  });
+
+  it('keeps at most one listing per vendor in a cluster', () => {
+    const clusters = clusterProducts([
+      product('a1', 'amazon', 'Apple iPhone 15 (128 GB) - Black', 69900),
+      product('a2', 'amazon', 'Apple iPhone 15 128GB Black', 69500)
+    ]);
+
+    expect(clusters).toHaveLength(2);
+  });
+});
@@ -0,0 +1,117 @@
+import { RateLimiter, type RateLimitPolicy } from '@/lib/rate-limit/limiter';
+
+const policy = (overrides: Partial<RateLimitPolicy>): RateLimitPolicy => ({
+  id: 'test',
+  scope: 'user',
+  algorithm: 'sliding-log',
+  limit: 3,
+  windowMs: 1000,
+  ...overrides
+});
+
+describe('RateLimiter sliding log', () => {
+  it('allows the limit per window and frees slots as the oldest requests age out', () => {
+    const limiter = new RateLimiter();
+    const log = policy({});
+
+    expect(limiter.check('u1', log, 1, 0).allowed).toBe(true);
+    expect(limiter.check('u1', log, 1, 100).allowed).toBe(true);
+    expect(limiter.check('u1', log, 1, 200)).toMatchObject({ allowed: true, remaining: 0 });
+
+    const denied = limiter.check('u1', log, 1, 300);
+    expect(denied).toMatchObject({ allowed: false, remaining: 0, retryAfterMs: 700 });
+
+    expect(limiter.check('u1', log, 1, 1000).allowed).toBe(true);
+  });
+
+  it('waits for enough entries to leave the window for a costly request', () => {
+    const limiter = new RateLimiter();
+    const log = policy({});
+
+    limiter.check('u1', log, 1, 0);
+    limiter.check('u1', log, 1, 100);
+    limiter.check('u1', log, 1, 200);
+
+    expect(limiter.check('u1', log, 2, 500).retryAfterMs).toBe(600);
+  });
+
+  it('rejects a cost above the limit for a full window, even with an empty log', () => {
+    const limiter = new RateLimiter();
+
+    expect(limiter.check('u1', policy({}), 5, 0)).toMatchObject({ allowed: false, remaining: 3, retryAfterMs: 1000 });
+  });
+
+  it('keeps keys and policies apart', () => {
+    const limiter = new RateLimiter();
+    const log = policy({ limit: 1 });
+
+    expect(limiter.check('u1', log, 1, 0).allowed).toBe(true);
+    expect(limiter.check('u2', log, 1, 0).allowed).toBe(true);
+    expect(limiter.check('u1', { ...log, id: 'other' }, 1, 0).allowed).toBe(true);
+    expect(limiter.check('u1', log, 1, 0).allowed).toBe(false);
+  });
+});
+
+describe('RateLimiter token bucket', () => {
+  it('allows a burst, then refills at the policy rate', () => {
+    const limiter = new RateLimiter();
+    const bucket = policy({ algorithm: 'token-bucket', limit: 10, windowMs: 1000, burst: 2 });
+
+    expect(limiter.check('u1', bucket, 1, 0).allowed).toBe(true);
+    expect(limiter.check('u1', bucket, 1, 0).allowed).toBe(true);
+
+    const denied = limiter.check('u1', bucket, 1, 0);
+    expect(denied).toMatchObject({ allowed: false, retryAfterMs: 100 });
+
+    expect(limiter.check('u1', bucket, 1, 100).allowed).toBe(true);
+  });
+
+  it('never refills past the burst capacity', () => {
+    const limiter = new RateLimiter();
+    const bucket = policy({ algorithm: 'token-bucket', limit: 10, windowMs: 1000, burst: 2 });
+
+    limiter.check('u1', bucket, 1, 0);
+    expect(limiter.check('u1', bucket, 1, 60000).remaining).toBe(1);
+  });
+});
+
+describe('RateLimiter checkAll', () => {
+  it('only consumes the allowance when every policy allows the request', () => {
+    const limiter = new RateLimiter();
+    const user = policy({ id: 'user', limit: 2 });
+    const route = policy({ id: 'route', scope: 'route', algorithm: 'token-bucket', limit: 1, windowMs: 1000 });
+    const checks = [{ key: 'user:u1', policy: user }, { key: 'route:search', policy: route }];
+
+    expect(limiter.checkAll(checks, 1, 0).every(d => d.allowed)).toBe(true);
+
+    const denied = limiter.checkAll(checks, 1, 0);
+    expect(denied.map(d => [d.policyId, d.allowed])).toEqual([['user', true], ['route', false]]);
+
+    // The rejected request left the user's second slot unused
+    expect(limiter.check('user:u1', user, 1, 0)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('reports what would remain after a request it allows', () => {
+    const limiter = new RateLimiter();
+    const checks = [{ key: 'u1', policy: policy({}) }];
+
+    expect(limiter.checkAll(checks, 1, 0)[0].remaining).toBe(2);
+    expect(limiter.checkAll(checks, 1, 0)[0].remaining).toBe(1);
+  });
+});
+
+describe('RateLimiter key bound', () => {
+  it('evicts the least recently used key', () => {
+    const limiter = new RateLimiter({ maxKeys: 2 });
+    const log = policy({ limit: 1 });
+
+    limiter.check('a', log, 1, 0);
+    limiter.check('b', log, 1, 0);
+    limiter.check('a', log, 1, 0);
+    limiter.check('c', log, 1, 0);
+
+    // 'a' was used more recently, so 'b' was evicted and starts over
+    expect(limiter.check('a', log, 1, 0).allowed).toBe(false);
+    expect(limiter.check('b', log, 1, 0).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { analyzeReferencePrice, type ReferencePriceInput } from '@/lib/fraud-detection/reference-price';
+import { FraudRuleRegistry } from '@/lib/fraud-detection/rule-registry';
+
+const { config } = new FraudRuleRegistry().getSettings('reference_price');
+
+const DAY_MS = 86400000;
+const SALE_START = Date.parse('2026-06-01T00:00:00.000Z');
+const daysBeforeSale = (days: number) => SALE_START - days * DAY_MS;
+
+const input = (overrides: Partial<ReferencePriceInput> = {}): ReferencePriceInput => ({
+  dealId: 'deal-1',
+  originalPrice: 2000,
+  salePrice: 1500,
+  saleStartedAt: SALE_START,
+  history: [20, 15, 10].map(days => ({ price: 1900, timestamp: daysBeforeSale(days) })),
+  vendorQuotes: [],
+  ...overrides
+});
+
+const techniques = (overrides: Partial<ReferencePriceInput>) =>
+  analyzeReferencePrice(input(overrides), config).findings.map(f => f.technique);
+
+describe('analyzeReferencePrice', () => {
+  it('accepts an MRP in line with what the product sold for', () => {
+    const analysis = analyzeReferencePrice(input(), config);
+
+    expect(analysis.findings).toEqual([]);
+    expect(analysis.claimedDiscount).toBeCloseTo(0.25);
+    expect(analysis.effectiveDiscount).toBeCloseTo(400 / 1900);
+    expect(analysis.evidence).toMatchObject({ source: 'history', historyPoints: 3, referencePrice: 1900 });
+  });
+
+  it('flags prices that cannot describe a real discount', () => {
+    expect(techniques({ originalPrice: 0 })).toEqual(['impossible-price']);
+    expect(techniques({ salePrice: 2500 })).toContain('impossible-price');
+  });
+
+  it('flags an MRP well above the highest price seen in the window', () => {
+    expect(techniques({ originalPrice: 4000 })).toEqual(['inflated-mrp']);
+  });
+
+  it('never uses prices from outside the window or after the sale started as evidence', () => {
+    const analysis = analyzeReferencePrice(input({
+      originalPrice: 4000,
+      history: [
+        { price: 4000, timestamp: daysBeforeSale(45) },
+        { price: 4000, timestamp: SALE_START + DAY_MS },
+        ...[20, 15, 10].map(days => ({ price: 1900, timestamp: daysBeforeSale(days) }))
+      ]
+    }), config);
+
+    expect(analysis.evidence.historyPoints).toBe(3);
+    expect(analysis.findings.map(f => f.technique)).toEqual(['inflated-mrp']);
+  });
+
+  it('flags a price hike just before the sale that the discount is measured from', () => {
+    const analysis = analyzeReferencePrice(input({
+      originalPrice: 2600,
+      history: [
+        ...[25, 20, 15].map(days => ({ price: 1600, timestamp: daysBeforeSale(days) })),
+        { price: 2600, timestamp: daysBeforeSale(3) }
+      ]
+    }), config);
+
+    expect(analysis.findings.map(f => f.technique)).toEqual(['inflated-before-sale']);
+    expect(analysis.evidence).toMatchObject({ baselinePrice: 1600, preSalePeakPrice: 2600 });
+  });
+
+  it('flags a sale price above what most vendors already charge', () => {
+    const vendorQuotes = [
+      { vendor: 'Amazon', price: 1200, observedAt: daysBeforeSale(1) },
+      { vendor: 'Flipkart', price: 1250, observedAt: daysBeforeSale(2) }
+    ];
+
+    expect(techniques({ vendorQuotes })).toContain('above-market');
+    expect(analyzeReferencePrice(input({ vendorQuotes }), config).evidence.source).toBe('history+vendors');
+  });
+
+  it('does not judge the MRP without enough observations', () => {
+    expect(techniques({ originalPrice: 4000, history: [{ price: 1900, timestamp: daysBeforeSale(5) }] })).toEqual([]);
+  });
+});
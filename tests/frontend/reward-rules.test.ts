@@ -0,0 +1,112 @@
+import {
+  RewardRuleEngine,
+  emptySpendState,
+  rulesFromCardVault,
+  type CardRewardRules
+} from '@/lib/card-linked/reward-rules';
+import { parseSpendRecord } from '@/lib/card-linked/spend-log';
+import type { CardVault } from '@/types/card-vault';
+
+const rules: CardRewardRules = {
+  cardId: 'hdfc',
+  rewardType: 'points',
+  baseRate: 0.02,
+  unitValueInr: 0.5,
+  rules: [
+    { id: 'dining', description: 'Dining 5x', categories: ['dining'], multiplier: 5, monthlyCap: 500 },
+    { id: 'wallet', description: 'Wallet loads', merchants: ['Paytm'], exclude: true }
+  ],
+  excludedMccs: ['6540'],
+  monthlyCap: 2000,
+  milestones: [{ id: 'q-50k', spendThreshold: 50000, bonusUnits: 1000, period: 'quarterly' }]
+};
+
+const txn = (amount: number, category = 'shopping', merchant = 'Myntra') => ({ amount, merchant, category });
+
+describe('RewardRuleEngine.evaluate', () => {
+  it('earns the base rate on unmatched spend and values units in rupees', () => {
+    const result = RewardRuleEngine.evaluate(rules, txn(1000));
+
+    expect(result.units).toBeCloseTo(20);
+    expect(result.valueInr).toBeCloseTo(10);
+    expect(result.matchedRule).toBeUndefined();
+  });
+
+  it('accelerates a matching category up to its monthly cap, then falls back to the base rate', () => {
+    const state = { ...emptySpendState(), monthUnitsByRule: { dining: 400 } };
+
+    const result = RewardRuleEngine.evaluate(rules, txn(2000, 'dining', 'Zomato'), state);
+
+    // 100 units at 0.1/₹ use ₹1000, the other ₹1000 earns 0.02/₹
+    expect(result.units).toBeCloseTo(120);
+    expect(result.capped).toBe(true);
+  });
+
+  it('earns nothing on excluded merchants and MCCs', () => {
+    expect(RewardRuleEngine.evaluate(rules, txn(5000, 'wallet', 'Paytm')).units).toBe(0);
+    expect(RewardRuleEngine.evaluate(rules, { ...txn(5000), mcc: '6540' }).units).toBe(0);
+  });
+
+  it('stops at the card-wide monthly cap', () => {
+    const state = { ...emptySpendState(), monthUnits: 1990 };
+
+    expect(RewardRuleEngine.evaluate(rules, txn(10000), state).units).toBe(10);
+  });
+
+  it('pays a milestone bonus once, on the charge that crosses it', () => {
+    const state = { ...emptySpendState(), periodSpend: { monthly: 0, quarterly: 49000, annual: 49000 } };
+
+    const crossing = RewardRuleEngine.evaluate(rules, txn(2000), state);
+    const after = RewardRuleEngine.recordSpend(rules, txn(2000), state);
+
+    expect(crossing.milestoneUnits).toBe(1000);
+    expect(after.claimedMilestones).toEqual(['q-50k']);
+    expect(RewardRuleEngine.evaluate(rules, txn(2000), after).milestoneUnits).toBe(0);
+  });
+});
+
+describe('RewardRuleEngine.stateFromHistory', () => {
+  it('replays this month for caps and counts spend per period', () => {
+    const now = new Date('2026-05-20T12:00:00.000Z');
+    const state = RewardRuleEngine.stateFromHistory(rules, [
+      { ...txn(30000), date: '2026-04-10T10:00:00.000Z' },
+      { ...txn(1000, 'dining', 'Zomato'), date: '2026-05-02T10:00:00.000Z' },
+      { ...txn(25000), date: '2026-05-10T10:00:00.000Z' },
+      { ...txn(99999), date: '2026-06-01T10:00:00.000Z' }
+    ], now);
+
+    expect(state.monthUnitsByRule.dining).toBeCloseTo(100);
+    expect(state.periodSpend).toEqual({ monthly: 26000, quarterly: 56000, annual: 56000 });
+    expect(state.claimedMilestones).toEqual(['q-50k']);
+  });
+});
+
+describe('rulesFromCardVault', () => {
+  it('reads cashback rates as percentages and points rates as points per rupee', () => {
+    const vault = {
+      id: 'v1',
+      rewardType: 'cashback',
+      baseRewardRate: 1.5,
+      pointValueInr: 1,
+      categoryRewards: { dining: 5 },
+      milestoneConfig: [{ threshold: 100000, rewardValue: 1000 }]
+    } as unknown as CardVault;
+
+    const converted = rulesFromCardVault(vault, 'card-1');
+
+    expect(converted.cardId).toBe('card-1');
+    expect(converted.baseRate).toBeCloseTo(0.015);
+    expect(converted.rules[0]).toMatchObject({ categories: ['dining'], rate: 0.05 });
+    expect(RewardRuleEngine.effectiveRate(converted, 'Zomato', 'dining')).toBeCloseTo(0.05);
+  });
+});
+
+describe('parseSpendRecord', () => {
+  it('accepts a well-formed charge and rejects anything else', () => {
+    expect(parseSpendRecord({ amount: 500, merchant: 'Myntra', category: 'fashion', date: '2026-05-01' }))
+      .toEqual({ amount: 500, merchant: 'Myntra', category: 'fashion', date: '2026-05-01T00:00:00.000Z' });
+    expect(parseSpendRecord({ amount: -5, merchant: 'Myntra', category: 'fashion', date: '2026-05-01' })).toBeNull();
+    expect(parseSpendRecord({ amount: 500, merchant: 'Myntra', category: 'fashion', date: 'soon' })).toBeNull();
+    expect(parseSpendRecord('500')).toBeNull();
+  });
+});
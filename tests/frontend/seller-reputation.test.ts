@@ -0,0 +1,123 @@
+import { SellerReputationModel, reviewVelocity } from '@/lib/fraud-detection/seller-reputation';
+import { FraudRuleRegistry } from '@/lib/fraud-detection/rule-registry';
+import type { Seller } from '@/lib/fraud-detection/fraud-detection-engine';
+import type { MarketplaceTrustScore } from '@/lib/marketplace/types';
+
+const { config } = new FraudRuleRegistry().getSettings('counterfeit_product');
+
+const DAY_MS = 86400000;
+const AT = Date.parse('2026-06-01T00:00:00.000Z');
+const daysAgo = (days: number) => AT - days * DAY_MS;
+
+const seller = (id: string, overrides: Partial<Seller> = {}): Seller => ({
+  id,
+  name: id,
+  rating: 4.3,
+  reviewCount: 400,
+  joinedAt: daysAgo(720),
+  ...overrides
+});
+
+const trust = (userId: string, overrides: Partial<MarketplaceTrustScore> = {}): MarketplaceTrustScore => ({
+  user_id: userId,
+  total_transactions: 200,
+  successful_transactions: 196,
+  average_rating: 4.6,
+  total_reviews: 100,
+  verified_seller: true,
+  trust_score: 4.7,
+  last_calculated: '2026-05-30T00:00:00.000Z',
+  ...overrides
+});
+
+function probability(model: SellerReputationModel, sellerId: string): number {
+  return model.assess(sellerId, config, undefined, AT)!.counterfeitProbability;
+}
+
+describe('SellerReputationModel', () => {
+  it('does not flag a new seller just for having few reviews', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('new-honest', { rating: 4.8, reviewCount: 3, joinedAt: undefined }));
+
+    const reputation = model.assess('new-honest', config, undefined, AT)!;
+
+    expect(reputation.bayesianRating).toBeCloseTo((20 * 4.1 + 3 * 4.8) / 23);
+    expect(reputation.counterfeitProbability).toBeLessThan(config.flagThreshold);
+  });
+
+  it('flags a seller whose many reviews keep the rating well below the category prior', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('poor', { rating: 2.5, reviewCount: 500 }));
+
+    expect(probability(model, 'poor')).toBeGreaterThan(config.flagThreshold);
+  });
+
+  it('shrinks ratings toward the prior of the deal category', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('s1', { rating: 4.1, reviewCount: 20 }));
+
+    expect(model.assess('s1', config, 'electronics', AT)!.bayesianRating).toBeCloseTo(4.15);
+    expect(model.assess('s1', config, 'fashion', AT)!.bayesianRating).toBeCloseTo(4.05);
+  });
+
+  it('raises the risk for a burst of reviews far above the usual rate', () => {
+    const model = new SellerReputationModel();
+    const steady = Array.from({ length: 60 }, (_, i) => ({ date: daysAgo(8 + i), count: 1 }));
+    const burst = Array.from({ length: 7 }, (_, i) => ({ date: daysAgo(i), count: 30 }));
+    model.upsertSeller(seller('steady', { reviewHistory: steady }));
+    model.upsertSeller(seller('bought', { reviewHistory: [...steady, ...burst] }));
+
+    const reputation = model.assess('bought', config, undefined, AT)!;
+
+    expect(reviewVelocity(seller('bought', { reviewHistory: [...steady, ...burst] }), AT, 7, 60).ratio).toBeCloseTo(30);
+    expect(reputation.factors.map(f => f.id)).toContain('review-velocity');
+    expect(reputation.counterfeitProbability).toBeGreaterThan(probability(model, 'steady'));
+  });
+
+  it('treats a young seller as riskier than an established one', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('young', { joinedAt: daysAgo(10) }));
+    model.upsertSeller(seller('established'));
+
+    expect(probability(model, 'young')).toBeGreaterThan(probability(model, 'established'));
+  });
+
+  it('feeds marketplace trust and reviews back into the assessment', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('trusted', { rating: 3.9, reviewCount: 50 }));
+    model.upsertSeller(seller('untrusted', { rating: 3.9, reviewCount: 50 }));
+    const baseline = probability(model, 'trusted');
+
+    model.recordMarketplaceTrust(trust('trusted'));
+    model.recordMarketplaceTrust(trust('untrusted', { trust_score: 1.5, average_rating: 3.9, successful_transactions: 120, verified_seller: false }));
+    const trusted = model.assess('trusted', config, undefined, AT)!;
+
+    expect(trusted.ratingCount).toBe(150);
+    expect(trusted.factors.map(f => f.id)).toEqual(expect.arrayContaining(['marketplace-trust', 'verified-seller']));
+    expect(trusted.counterfeitProbability).toBeLessThan(baseline);
+    expect(probability(model, 'untrusted')).toBeGreaterThan(baseline);
+  });
+
+  it('counts confirmed fraud reports until a moderator retracts them', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('reported'));
+    const before = probability(model, 'reported');
+
+    model.recordConfirmedFraud('reported');
+    expect(probability(model, 'reported')).toBeGreaterThan(before);
+
+    model.retractConfirmedFraud('reported');
+    expect(probability(model, 'reported')).toBeCloseTo(before);
+  });
+
+  it('explains the assessment by factor, largest contribution first', () => {
+    const model = new SellerReputationModel();
+    model.upsertSeller(seller('s1', { rating: 3, joinedAt: daysAgo(30) }));
+    model.recordMarketplaceTrust(trust('s1'));
+
+    const contributions = model.assess('s1', config, undefined, AT)!.factors.map(f => Math.abs(f.logOdds));
+
+    expect(contributions).toEqual([...contributions].sort((a, b) => b - a));
+    expect(model.assess('nobody', config, undefined, AT)).toBeUndefined();
+  });
+});
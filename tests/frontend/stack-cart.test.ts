@@ -0,0 +1,80 @@
+import { getDealStage, stackOptimizer, type Cart, type Deal } from '@/lib/stacksmart/optimization-engine';
+
+const deal = (id: string, overrides: Partial<Deal>): Deal => ({
+  id,
+  type: 'coupon',
+  value: 10,
+  valueType: 'percentage',
+  stackable: true,
+  priority: 1,
+  ...overrides
+});
+
+const cart: Cart = {
+  items: [
+    { id: 'shoes', unitPrice: 2000, quantity: 1, category: 'footwear' },
+    { id: 'shirt', unitPrice: 500, quantity: 2, category: 'apparel' },
+    { id: 'gift-wrap', unitPrice: 100, quantity: 1 }
+  ],
+  shipping: 50,
+  taxRate: 0.1
+};
+
+describe('stage-aware cart pricing', () => {
+  it('defaults each deal type to its checkout stage', () => {
+    expect(getDealStage(deal('c', { type: 'coupon' }))).toBe('item');
+    expect(getDealStage(deal('g', { type: 'gift-card' }))).toBe('cart');
+    expect(getDealStage(deal('b', { type: 'bank-offer' }))).toBe('cart');
+    expect(getDealStage(deal('cb', { type: 'cashback' }))).toBe('post-payment');
+    expect(getDealStage(deal('cb', { type: 'cashback', stage: 'cart' }))).toBe('cart');
+  });
+
+  it('discounts only lines in the deal category and never an uncategorised line', () => {
+    const result = stackOptimizer.optimize(cart, [deal('footwear-20', { value: 20, category: ['footwear'] })], { mode: 'exact' });
+    const lines = Object.fromEntries(result.cart!.lines.map(line => [line.id, line.savings]));
+
+    expect(lines).toEqual({ shoes: 400, shirt: 0, 'gift-wrap': 0 });
+  });
+
+  it('skips excluded categories', () => {
+    const result = stackOptimizer.optimize(cart, [deal('not-apparel', { type: 'discount', excludes: ['apparel'] })], { mode: 'exact' });
+    const lines = Object.fromEntries(result.cart!.lines.map(line => [line.id, line.savings]));
+
+    expect(lines.shirt).toBe(0);
+    expect(lines.shoes).toBeCloseTo(200);
+    expect(lines['gift-wrap']).toBeCloseTo(10);
+  });
+
+  it('charges GST on item amounts after item deals, then takes cart deals off the total', () => {
+    const result = stackOptimizer.optimize(cart, [
+      deal('footwear-20', { value: 20, category: ['footwear'] }),
+      deal('gift', { type: 'gift-card', value: 300, valueType: 'fixed' })
+    ], { mode: 'exact' });
+
+    // Items 1600 + 1000 + 100, GST 270, shipping 50, less the gift card
+    expect(result.cart!.tax).toBeCloseTo(270);
+    expect(result.cart!.cartDiscount).toBe(300);
+    expect(result.cart!.payable).toBeCloseTo(2700 + 270 + 50 - 300);
+  });
+
+  it('earns post-payment cashback on the amount paid without changing the charge', () => {
+    const result = stackOptimizer.optimize(1000, [
+      deal('coupon', { value: 10 }),
+      deal('cashback', { type: 'cashback', value: 5 })
+    ], { mode: 'exact' });
+
+    expect(result.cart!.payable).toBe(900);
+    expect(result.cart!.postPaymentBenefit).toBeCloseTo(45);
+    expect(result.finalPrice).toBeCloseTo(855);
+  });
+
+  it('applies deals in checkout order', () => {
+    const result = stackOptimizer.optimize(1000, [
+      deal('cashback', { type: 'cashback', value: 5 }),
+      deal('bank', { type: 'bank-offer', value: 10 }),
+      deal('coupon', { value: 10 })
+    ], { mode: 'exact' });
+
+    expect(result.deals.map(d => d.id)).toEqual(['coupon', 'bank', 'cashback']);
+  });
+});
@@ -0,0 +1,73 @@
+import { isStackValid, stackOptimizer, useStackSmart, type Deal } from '@/lib/stacksmart/optimization-engine';
+
+const deal = (id: string, overrides: Partial<Deal>): Deal => ({
+  id,
+  type: 'coupon',
+  value: 10,
+  valueType: 'percentage',
+  stackable: true,
+  priority: 1,
+  ...overrides
+});
+
+const PURCHASE = '2026-03-10T10:00:00.000Z';
+const hoursAfterPurchase = (hours: number) => new Date(Date.parse(PURCHASE) + hours * 3600000).toISOString();
+
+describe('expiry-aware stacking', () => {
+  it('skips deals that expire before the purchase date and says so', () => {
+    const result = stackOptimizer.optimize(1000, [
+      deal('expired', { value: 50, expiresAt: hoursAfterPurchase(-1) }),
+      deal('live', { type: 'discount', value: 10 })
+    ], { mode: 'exact', purchaseDate: PURCHASE });
+
+    expect(result.deals.map(d => d.id)).toEqual(['live']);
+    expect(result.warnings).toContain('1 deal expired by the purchase date and was skipped.');
+  });
+
+  it('is valid until the earliest stacked deal expires and flags deals about to run out', () => {
+    const result = stackOptimizer.optimize(1000, [
+      deal('soon', { value: 10, expiresAt: hoursAfterPurchase(6) }),
+      deal('later', { type: 'discount', value: 10, expiresAt: hoursAfterPurchase(72) })
+    ], { mode: 'exact', purchaseDate: PURCHASE });
+
+    expect(result.validUntil).toBe(hoursAfterPurchase(6));
+    expect(result.expiringSoon).toEqual([{ dealId: 'soon', expiresAt: hoursAfterPurchase(6), hoursLeft: 6 }]);
+    expect(isStackValid(result, Date.parse(hoursAfterPurchase(5)))).toBe(true);
+    expect(isStackValid(result, Date.parse(hoursAfterPurchase(6)))).toBe(false);
+  });
+
+  it('rejects an unparsable purchase date', () => {
+    expect(() => stackOptimizer.optimize(1000, [deal('c', {})], { purchaseDate: 'next tuesday' }))
+      .toThrow('Invalid purchase date: next tuesday');
+  });
+});
+
+describe('useStackSmart cache', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('recomputes when the cart or a deal changes', () => {
+    const { optimizeStack } = useStackSmart.getState();
+
+    const first = optimizeStack('p1', 1000, [deal('c', { value: 10 })]);
+    const cheaperCart = optimizeStack('p1', 800, [deal('c', { value: 10 })]);
+    const betterDeal = optimizeStack('p1', 1000, [deal('c', { value: 20 })]);
+
+    expect(first.totalSavings).toBe(100);
+    expect(cheaperCart.totalSavings).toBe(80);
+    expect(betterDeal.totalSavings).toBe(200);
+  });
+
+  it('drops a stack with no expiring deals after the default TTL', () => {
+    const start = Date.now();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(start);
+    const { optimizeStack } = useStackSmart.getState();
+
+    const first = optimizeStack('p2', 1000, [deal('c', { value: 10 })]);
+    expect(optimizeStack('p2', 1000, [deal('c', { value: 10 })])).toBe(first);
+
+    now.mockReturnValue(start + 6 * 60 * 1000);
+    expect(optimizeStack('p2', 1000, [deal('c', { value: 10 })])).not.toBe(first);
+  });
+});
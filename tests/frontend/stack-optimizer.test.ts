@@ -0,0 +1,107 @@
+import { getDealStage, stackOptimizer, type Deal } from '@/lib/stacksmart/optimization-engine';
+
+const deal = (id: string, overrides: Partial<Deal>): Deal => ({
+  id,
+  type: 'coupon',
+  value: 10,
+  valueType: 'percentage',
+  stackable: true,
+  priority: 1,
+  ...overrides
+});
+
+const SELF_STACKING_TYPES = ['cashback', 'points'];
+
+// Every ordered stack of a single-item purchase, evaluated independently of the optimizer
+function bruteForceSavings(price: number, deals: Deal[], maxDeals: number): number {
+  const stageRank = (d: Deal) => ['item', 'cart', 'post-payment'].indexOf(getDealStage(d));
+  const discount = (amount: number, d: Deal) => {
+    const raw = d.valueType === 'percentage' ? amount * (d.value / 100) : d.value;
+    return Math.min(d.maxDiscount ? Math.min(raw, d.maxDiscount) : raw, amount);
+  };
+
+  let best = 0;
+  const visit = (stack: Deal[], payable: number, credited: number) => {
+    best = Math.max(best, price - Math.max(0, payable - credited));
+    if (stack.length >= maxDeals) return;
+
+    for (const next of deals) {
+      if (stack.includes(next)) continue;
+      if (stack.some(d => d.type === next.type && !SELF_STACKING_TYPES.includes(d.type))) continue;
+      if (stack.length && stageRank(next) < stageRank(stack[stack.length - 1])) continue;
+
+      if (next.minPurchase && payable < next.minPurchase) {
+        visit([...stack, next], payable, credited);
+      } else if (getDealStage(next) === 'post-payment') {
+        visit([...stack, next], payable, credited + Math.max(0, Math.min(discount(payable, next), payable - credited)));
+      } else {
+        visit([...stack, next], payable - discount(payable, next), credited);
+      }
+    }
+  };
+
+  visit([], price, 0);
+  return best;
+}
+
+describe('stackOptimizer exact search', () => {
+  it('applies a threshold deal before the percentage that would push the total under it', () => {
+    const deals = [
+      deal('pct', { type: 'coupon', value: 10, priority: 5 }),
+      deal('flat', { type: 'discount', value: 150, valueType: 'fixed', minPurchase: 950 })
+    ];
+
+    const result = stackOptimizer.optimize(1000, deals, { mode: 'exact' });
+
+    expect(result.deals.map(d => d.id)).toEqual(['flat', 'pct']);
+    expect(result.totalSavings).toBeCloseTo(235);
+    expect(result.certificate).toMatchObject({ status: 'optimal', gap: 0 });
+  });
+
+  it('matches brute force across mixed stages, caps and thresholds', () => {
+    const deals = [
+      deal('coupon', { type: 'coupon', value: 20, maxDiscount: 300 }),
+      deal('discount', { type: 'discount', value: 250, valueType: 'fixed', minPurchase: 1500 }),
+      deal('bank', { type: 'bank-offer', value: 10, maxDiscount: 120, minPurchase: 1200 }),
+      deal('gift', { type: 'gift-card', value: 100, valueType: 'fixed' }),
+      deal('cashback-5', { type: 'cashback', value: 5 }),
+      deal('cashback-flat', { type: 'cashback', value: 75, valueType: 'fixed', minPurchase: 1300 })
+    ];
+
+    for (const price of [900, 1400, 1800, 2500]) {
+      for (const maxDeals of [2, 4]) {
+        const result = stackOptimizer.optimize(price, deals, { mode: 'exact', maxDeals, timeLimit: 5000 });
+
+        expect(result.certificate?.status).toBe('optimal');
+        expect(result.totalSavings).toBeCloseTo(bruteForceSavings(price, deals, maxDeals));
+        expect(result.deals.length).toBeLessThanOrEqual(maxDeals);
+      }
+    }
+  });
+
+  it('ranks alternatives below the best stack', () => {
+    const deals = [
+      deal('coupon', { type: 'coupon', value: 15 }),
+      deal('discount', { type: 'discount', value: 100, valueType: 'fixed' }),
+      deal('cashback', { type: 'cashback', value: 5 })
+    ];
+
+    const result = stackOptimizer.optimize(2000, deals, { mode: 'exact', maxAlternatives: 2 });
+    const alternatives = result.alternativeStacks ?? [];
+
+    expect(alternatives).toHaveLength(2);
+    alternatives.forEach(alternative => expect(alternative.totalSavings).toBeLessThanOrEqual(result.totalSavings));
+  });
+
+  it('never stacks a non-stackable deal with another', () => {
+    const deals = [
+      deal('solo', { type: 'coupon', value: 30, stackable: false }),
+      deal('discount', { type: 'discount', value: 200, valueType: 'fixed' })
+    ];
+
+    const result = stackOptimizer.optimize(1000, deals, { mode: 'exact' });
+
+    expect(result.deals.map(d => d.id)).toEqual(['solo']);
+    expect(result.totalSavings).toBeCloseTo(300);
+  });
+});
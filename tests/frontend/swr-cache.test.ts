@@ -0,0 +1,91 @@
+import { SwrCache } from '@/lib/cache/swr-cache';
+import { MemoryCacheBackend } from '@/lib/cache/backends';
+import type { CacheBackend } from '@/lib/cache/types';
+
+const POLICY = { ttlMs: 1000, staleMs: 5000 };
+
+describe('SwrCache', () => {
+  let now: number;
+  let backend: MemoryCacheBackend;
+  let cache: SwrCache;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    backend = new MemoryCacheBackend();
+    cache = new SwrCache('test', () => backend);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('loads on a miss and serves fresh hits without loading again', async () => {
+    const load = jest.fn().mockResolvedValue('v1');
+
+    const miss = await cache.get('k', POLICY, load);
+    now += 500;
+    const hit = await cache.get('k', POLICY, load);
+
+    expect(miss).toMatchObject({ value: 'v1', meta: { status: 'miss' } });
+    expect(hit).toMatchObject({ value: 'v1', meta: { status: 'hit', ageMs: 500 } });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale value while one refresh runs in the background', async () => {
+    await cache.get('k', POLICY, async () => 'v1');
+    now += 2000;
+
+    let resolve!: (value: string) => void;
+    const load = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+    const stale = await cache.get('k', POLICY, load);
+    const again = await cache.get('k', POLICY, load);
+    resolve('v2');
+    await new Promise(r => setImmediate(r));
+
+    expect(stale).toMatchObject({ value: 'v1', meta: { status: 'stale' } });
+    expect(again).toMatchObject({ value: 'v1', meta: { status: 'stale' } });
+    expect(load).toHaveBeenCalledTimes(1);
+    expect((await cache.get('k', POLICY, load))).toMatchObject({ value: 'v2', meta: { status: 'hit' } });
+  });
+
+  it('reloads once the stale window has passed', async () => {
+    await cache.get('k', POLICY, async () => 'v1');
+    now += POLICY.ttlMs + POLICY.staleMs;
+
+    expect(await cache.get('k', POLICY, async () => 'v2')).toMatchObject({ value: 'v2', meta: { status: 'miss' } });
+  });
+
+  it('shares one load between identical requests in flight', async () => {
+    let resolve!: (value: string) => void;
+    const load = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    const first = cache.get('k', POLICY, load);
+    const second = cache.get('k', POLICY, load);
+    await new Promise(r => setImmediate(r));
+    resolve('v1');
+
+    const results = await Promise.all([first, second]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(results.map(r => r.meta.status).sort()).toEqual(['coalesced', 'miss']);
+    expect(results.every(r => r.value === 'v1')).toBe(true);
+  });
+
+  it('does not cache failures', async () => {
+    await expect(cache.get('k', POLICY, async () => { throw new Error('vendor down'); })).rejects.toThrow('vendor down');
+
+    expect(await cache.get('k', POLICY, async () => 'v1')).toMatchObject({ value: 'v1', meta: { status: 'miss' } });
+  });
+
+  it('falls back to loading when the backend fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const broken: CacheBackend = {
+      get: () => Promise.reject(new Error('redis down')),
+      set: () => Promise.reject(new Error('redis down')),
+      delete: () => Promise.resolve()
+    };
+    const uncached = new SwrCache('test', () => broken);
+
+    expect(await uncached.get('k', POLICY, async () => 'v1')).toMatchObject({ value: 'v1', meta: { status: 'miss' } });
+  });
+});
@@ -0,0 +1,24 @@
+import { describeTypo, editDistance } from '@/lib/fraud-detection/url-analyzer';
+
+describe('editDistance', () => {
+  it('counts an adjacent transposition as one edit', () => {
+    expect(editDistance('flipkart', 'flipkrat')).toBe(1);
+    expect(editDistance('amazon', 'amazon')).toBe(0);
+    expect(editDistance('myntra', 'nykaa')).toBeGreaterThan(1);
+  });
+});
+
+describe('describeTypo', () => {
+  it('recognises slips of the finger on a trusted name', () => {
+    expect(describeTypo('flipkrat', 'flipkart')).toBe('"ar" transposed');
+    expect(describeTypo('amazom', 'amazon')).toBe('"m" for the neighbouring key "n"');
+    expect(describeTypo('flipkrt', 'flipkart')).toBe('"a" dropped');
+    expect(describeTypo('myntraa', 'myntra')).toBe('stray "a" added');
+  });
+
+  it('leaves real words one letter apart alone', () => {
+    expect(describeTypo('mantra', 'myntra')).toBeNull();
+    expect(describeTypo('myntra', 'myntra')).toBeNull();
+    expect(describeTypo('myntxa', 'myntra')).toBeNull();
+  });
+});
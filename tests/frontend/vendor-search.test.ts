@@ -0,0 +1,138 @@
+import type { Product } from '@/types/comparison';
+import { MemoryCacheBackend, setCacheBackend } from '@/lib/cache/backends';
+import { callVendor, searchVendors, vendorFailureStatus } from '@/lib/vendors/search';
+import { VendorRegistry } from '@/lib/vendors/registry';
+import { VendorRateLimitError } from '@/lib/vendors/retry';
+import type { VendorAdapter } from '@/lib/vendors/types';
+
+let adapterCount = 0;
+
+const product = (id: string, vendor: string): Product => ({
+  id,
+  name: 'Sony WH-1000XM5',
+  description: '',
+  category: 'electronics',
+  vendor,
+  price: 26990,
+  currency: 'INR',
+  rating: 4.5,
+  reviewCount: 100,
+  imageUrl: '',
+  availability: true,
+  features: [],
+  url: `https://example.com/${id}`,
+  inStock: true,
+  lastUpdated: new Date('2026-06-01T00:00:00.000Z')
+});
+
+// Fresh ids per adapter, so rate limits shared across the process never carry over between tests
+function adapter(search: VendorAdapter['search'], overrides: Partial<VendorAdapter> = {}): VendorAdapter {
+  const id = `test-${++adapterCount}`;
+  return {
+    id,
+    name: `Test ${adapterCount}`,
+    country: 'IN',
+    currency: 'INR',
+    limits: { retryDelayMs: 1 },
+    search,
+    getProduct: async () => null,
+    getOffers: async () => [],
+    health: async () => ({ vendorId: id, status: 'up', latencyMs: 0, checkedAt: '', mode: 'fixture' }),
+    profile: async () => { throw new Error('not used'); },
+    ...overrides
+  };
+}
+
+beforeEach(() => {
+  setCacheBackend(new MemoryCacheBackend());
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('searchVendors', () => {
+  it('merges every vendor that answers and reports the ones that fail', async () => {
+    const ok = adapter(async () => [product('a-1', 'A')]);
+    const failing = adapter(async () => { throw new Error('HTTP 502'); });
+
+    const outcome = await searchVendors('sony xm5', { vendors: [ok, failing] });
+
+    expect(outcome.products.map(p => p.id)).toEqual(['a-1']);
+    expect(outcome.vendors.map(v => [v.vendorId, v.status, v.resultCount])).toEqual([
+      [ok.id, 'ok', 1],
+      [failing.id, 'error', 0]
+    ]);
+    expect(outcome.vendors[1].error).toContain('HTTP 502');
+  });
+
+  it('calls vendors in parallel rather than one after another', async () => {
+    const slow = (ms: number) => adapter(() => new Promise(resolve => setTimeout(() => resolve([]), ms)));
+    const startedAt = Date.now();
+
+    await searchVendors('sony xm5', { vendors: [slow(150), slow(150), slow(150)] });
+
+    expect(Date.now() - startedAt).toBeLessThan(400);
+  });
+
+  it('times a vendor out and aborts its call', async () => {
+    let signal: AbortSignal | undefined;
+    const hanging = adapter((_query, options) => {
+      signal = options?.signal;
+      return new Promise(() => undefined);
+    }, { limits: { timeoutMs: 50, retries: 0 } });
+
+    const outcome = await searchVendors('sony xm5', { vendors: [hanging] });
+
+    expect(outcome.vendors[0].status).toBe('timeout');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('retries a failed call within the time budget', async () => {
+    const search = jest.fn()
+      .mockRejectedValueOnce(new Error('ECONNRESET'))
+      .mockResolvedValueOnce([product('a-1', 'A')]);
+
+    const outcome = await searchVendors('sony xm5', { vendors: [adapter(search)] });
+
+    expect(outcome.vendors[0].status).toBe('ok');
+    expect(search).toHaveBeenCalledTimes(2);
+  });
+
+  it('answers a repeated search from the cache without calling the vendor', async () => {
+    const search = jest.fn(async () => [product('a-1', 'A')]);
+    const cachedAdapter = adapter(search);
+
+    await searchVendors('Sony XM5', { vendors: [cachedAdapter] });
+    const repeat = await searchVendors('  sony   xm5 ', { vendors: [cachedAdapter] });
+
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(repeat.vendors[0].cache?.status).toBe('hit');
+    expect(repeat.products).toHaveLength(1);
+  });
+
+  it('searches every registered vendor by default', async () => {
+    const registry = new VendorRegistry();
+    registry.register(adapter(async () => [product('a-1', 'A')]));
+    registry.register(adapter(async () => [product('b-1', 'B')]));
+
+    const outcome = await searchVendors('sony xm5', {}, registry);
+
+    expect(outcome.products.map(p => p.id).sort()).toEqual(['a-1', 'b-1']);
+  });
+});
+
+describe('callVendor', () => {
+  it('refuses calls over the vendor rate limit without calling it', async () => {
+    const search = jest.fn(async () => []);
+    const limited = adapter(search, { limits: { rateLimit: { limit: 1, windowMs: 60000, burst: 1 } } });
+
+    await callVendor(limited, signal => limited.search('a', { signal }));
+    const error = await callVendor(limited, signal => limited.search('b', { signal })).catch(e => e);
+
+    expect(error).toBeInstanceOf(VendorRateLimitError);
+    expect(vendorFailureStatus(error)).toBe('rate-limited');
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+});